@@ -1,13 +1,32 @@
 import React, { useState, useEffect } from "react";
+import { getAddress } from "ethers";
 import { useBlockchain } from "./hooks/useBlockchain";
+import { petLookupHash, useHashRoute } from "./hooks/useHashRoute";
 import { Button } from "./components/Button";
 import { Input } from "./components/Input";
 import { OwnerDashboard } from "./components/OwnerDashboard";
 import { VetDashboard } from "./components/VetDashboard";
+import { PublicPetLookup } from "./components/PublicPetLookup";
+import { VaccinationCertificateView } from "./components/VaccinationCertificateView";
+import { CertificateVerifier } from "./components/CertificateVerifier";
+import { CollarTagView } from "./components/CollarTagView";
+import { QRScannerModal } from "./components/QRScannerModal";
+import { AddressName } from "./components/AddressName";
+import { scannedPetHash } from "./services/petTag";
+import { UserRole } from "./types";
 import {
-  linkEmailToAddress,
+  requestEmailLink,
+  confirmEmailLink,
   getEmailByAddress,
+  getIdentity,
+  updateIdentity,
 } from "./services/directoryService";
+import {
+  Identity,
+  IdentityAction,
+  canUpdateIdentity,
+} from "./services/directory/provider";
+import { NETWORKS } from "./config/networks";
 
 type ViewMode =
   | "HOME"
@@ -22,19 +41,35 @@ function App() {
     isCorrectNetwork,
     connectWallet,
     switchNetwork,
-    nftContract,
-    storageContract,
-    checkVetLicense,
+    client,
+    chainId,
+    network,
+    userRole,
   } = useBlockchain();
+  // Public pages (no wallet needed) are addressed by the URL hash
+  const hashRoute = useHashRoute();
 
   // Navigation State
   const [viewMode, setViewMode] = useState<ViewMode>("HOME");
+  // Chip to open in the vet dashboard (scanned collar tag)
+  const [vetChipId, setVetChipId] = useState<string | null>(null);
+  const [showTagScanner, setShowTagScanner] = useState(false);
 
   // Identity State
   const [currentEmail, setCurrentEmail] = useState<string | null>(null);
   const [showEmailModal, setShowEmailModal] = useState(false);
   const [emailInput, setEmailInput] = useState("");
   const [linkingEmail, setLinkingEmail] = useState(false);
+  // Set once the one-time code was emailed; the modal then asks for it
+  const [emailCodeSent, setEmailCodeSent] = useState(false);
+  const [emailCode, setEmailCode] = useState("");
+  const [emailCodeExpiresAt, setEmailCodeExpiresAt] = useState(0);
+  // Local directory only: there is no mail, the code comes back directly
+  const [emailDevCode, setEmailDevCode] = useState<string | null>(null);
+  // Every wallet linked to the current email, managed from the same modal
+  const [identity, setIdentity] = useState<Identity | null>(null);
+  const [walletLabel, setWalletLabel] = useState("");
+  const [identityAction, setIdentityAction] = useState<string | null>(null);
 
   // Vet Linking State
   const [licenseInput, setLicenseInput] = useState("");
@@ -43,23 +78,47 @@ function App() {
   // 1. On Connect: Fetch Email Identity
   useEffect(() => {
     const fetchIdentity = async () => {
+      setViewMode("HOME"); // Reset view on account change
       if (account) {
         const email = await getEmailByAddress(account);
         setCurrentEmail(email);
-        setViewMode("HOME"); // Reset view on account change
       } else {
         setCurrentEmail(null);
-        setViewMode("HOME");
       }
     };
     fetchIdentity();
   }, [account]);
 
+  useEffect(() => {
+    if (!showEmailModal || !currentEmail) {
+      setIdentity(null);
+      return;
+    }
+    getIdentity(currentEmail).then(setIdentity);
+  }, [showEmailModal, currentEmail]);
+
+  // A vet opening a collar tag of their network lands on the patient, not
+  // the public profile
+  useEffect(() => {
+    if (hashRoute?.name !== "PET_LOOKUP" || !hashRoute.chipId) return;
+    if (userRole !== UserRole.VET || !client) return;
+    if (
+      hashRoute.chainId !== chainId ||
+      hashRoute.contract?.toLowerCase() !==
+        client.network.contracts.ANIMAL_NFT.toLowerCase()
+    ) {
+      return;
+    }
+    setVetChipId(hashRoute.chipId);
+    setViewMode("VET_DASHBOARD");
+    window.location.hash = "";
+  }, [hashRoute, userRole, client, chainId]);
+
   // Logic: Handle Vet Selection
   const handleVetClick = async () => {
-    if (!nftContract || !account) return;
+    if (!client || !account) return;
     try {
-      const licenseId = await checkVetLicense(account, nftContract);
+      const licenseId = await client.getVetLicenseId(account);
       if (licenseId > 0n) {
         setViewMode("VET_DASHBOARD");
       } else {
@@ -67,7 +126,7 @@ function App() {
       }
     } catch (e) {
       console.error(e);
-      alert("Error verificando licencia. Asegúrate de estar en Sepolia.");
+      alert("Error verificando licencia. Asegúrate de estar en una red soportada.");
     }
   };
 
@@ -76,29 +135,101 @@ function App() {
     setViewMode("OWNER_DASHBOARD");
   };
 
-  // Logic: Link Email
-  const handleLinkEmail = async () => {
-    if (!account || !emailInput) return;
+  // Logic: Link Email (signature + emailed code)
+  const closeEmailModal = () => {
+    setShowEmailModal(false);
+    setEmailCodeSent(false);
+    setEmailCode("");
+    setEmailDevCode(null);
+  };
+
+  const handleRequestEmailCode = async () => {
+    if (!account || !client || !emailInput) return;
+    setLinkingEmail(true);
+    try {
+      const { expiresAt, devCode } = await requestEmailLink(
+        emailInput,
+        account,
+        client.signMessage,
+        walletLabel
+      );
+      setEmailCodeExpiresAt(expiresAt);
+      setEmailDevCode(devCode || null);
+      setEmailCodeSent(true);
+    } catch (e: any) {
+      alert(`Error: ${e.reason || e.message}`);
+    } finally {
+      setLinkingEmail(false);
+    }
+  };
+
+  const handleConfirmEmailCode = async () => {
+    if (!account || !emailCode) return;
     setLinkingEmail(true);
     try {
-      await linkEmailToAddress(emailInput, account);
-      setCurrentEmail(emailInput);
-      setShowEmailModal(false);
+      await confirmEmailLink(emailInput, account, emailCode);
+      setCurrentEmail(emailInput.toLowerCase().trim());
+      closeEmailModal();
       setEmailInput("");
-      alert("¡Email vinculado correctamente!");
-    } catch (e) {
-      alert("Error al vincular email.");
+      setWalletLabel("");
+      alert("¡Email verificado y vinculado correctamente!");
+    } catch (e: any) {
+      alert(`Error: ${e.reason || e.message}`);
     } finally {
       setLinkingEmail(false);
     }
   };
 
+  // Logic: Manage the wallets of the identity (signed by the connected one)
+  const handleIdentityAction = async (
+    action: IdentityAction,
+    target: string
+  ) => {
+    if (!account || !client || !identity) return;
+    let label = "";
+    if (action === "label") {
+      const current = identity.wallets.find((w) => w.address === target);
+      const input = prompt("Nombre para esta wallet", current?.label || "");
+      if (input === null) return;
+      label = input;
+    }
+    if (
+      action === "remove" &&
+      !confirm(`¿Quitar ${target} de ${identity.email}?`)
+    ) {
+      return;
+    }
+    setIdentityAction(`${action}_${target}`);
+    try {
+      await updateIdentity(
+        identity.email,
+        account,
+        action,
+        target,
+        client.signMessage,
+        label
+      );
+      if (
+        action === "remove" &&
+        target.toLowerCase() === account.toLowerCase()
+      ) {
+        setCurrentEmail(null);
+      } else {
+        setIdentity(await getIdentity(identity.email));
+      }
+    } catch (e: any) {
+      alert(`Error: ${e.reason || e.message}`);
+    } finally {
+      setIdentityAction(null);
+    }
+  };
+
   // Logic: Link Vet License
   const handleLinkLicense = async () => {
-    if (!nftContract || !licenseInput) return;
+    if (!client || !licenseInput) return;
     setLinkingLicense(true);
     try {
-      const tx = await nftContract.linkVetLicense(licenseInput);
+      const tx = await client.linkVetLicense(licenseInput);
       await tx.wait();
       alert("Licencia vinculada. ¡Bienvenido!");
       setViewMode("VET_DASHBOARD");
@@ -112,10 +243,13 @@ function App() {
   // --- RENDERERS ---
 
   const renderHeader = () => (
-    <nav className="bg-surface border-b border-slate-700 px-6 py-4 flex flex-col md:flex-row justify-between items-center gap-4 sticky top-0 z-50 shadow-md">
+    <nav className="bg-surface border-b border-slate-700 px-6 py-4 flex flex-col md:flex-row justify-between items-center gap-4 sticky top-0 z-50 shadow-md print:hidden">
       <div
         className="flex items-center gap-2 cursor-pointer"
-        onClick={() => setViewMode("HOME")}
+        onClick={() => {
+          window.location.hash = "";
+          setViewMode("HOME");
+        }}
       >
         <span className="text-3xl">🩺</span>
         <h1 className="text-xl font-bold text-white tracking-tight">
@@ -175,7 +309,64 @@ function App() {
     </nav>
   );
 
+  const openPetLookup = () => {
+    window.location.hash = petLookupHash();
+  };
+
+  const handleScanTag = (text: string): boolean => {
+    const hash = scannedPetHash(text);
+    if (!hash) return false;
+    window.location.hash = hash;
+    return true;
+  };
+
   const renderContent = () => {
+    // 0. Public routes work with or without a wallet
+    if (hashRoute?.name === "PET_LOOKUP") {
+      return (
+        <PublicPetLookup
+          chipId={hashRoute.chipId}
+          chainId={hashRoute.chainId}
+          contract={hashRoute.contract}
+          onExit={() => {
+            window.location.hash = "";
+          }}
+        />
+      );
+    }
+    if (hashRoute?.name === "VACCINATION_CERTIFICATE") {
+      return (
+        <VaccinationCertificateView
+          client={client}
+          chipId={hashRoute.chipId}
+          onExit={() => {
+            window.location.hash = "";
+          }}
+        />
+      );
+    }
+    if (hashRoute?.name === "COLLAR_TAG") {
+      return (
+        <CollarTagView
+          client={client}
+          chipId={hashRoute.chipId}
+          onExit={() => {
+            window.location.hash = "";
+          }}
+        />
+      );
+    }
+    if (hashRoute?.name === "CERTIFICATE_VERIFY") {
+      return (
+        <CertificateVerifier
+          payload={hashRoute.payload}
+          onExit={() => {
+            window.location.hash = "";
+          }}
+        />
+      );
+    }
+
     // 1. Not Connected
     if (!account) {
       return (
@@ -196,6 +387,12 @@ function App() {
           >
             Conectar MetaMask para Iniciar
           </Button>
+          <button
+            onClick={openPetLookup}
+            className="mt-6 text-sm text-slate-400 hover:text-white underline decoration-dotted"
+          >
+            ¿Encontraste una mascota? Búscala por su chip sin wallet
+          </button>
         </div>
       );
     }
@@ -206,11 +403,21 @@ function App() {
         <div className="flex flex-col items-center justify-center min-h-[60vh] text-center">
           <h2 className="text-2xl font-bold text-white mb-4">Red Incorrecta</h2>
           <p className="text-slate-400 mb-6">
-            Esta dApp funciona exclusivamente en la red Sepolia.
+            Esta dApp funciona en las siguientes redes:
           </p>
-          <Button onClick={switchNetwork} variant="danger">
-            Cambiar a Sepolia
-          </Button>
+          <div className="flex flex-wrap gap-3 justify-center">
+            {Object.values(NETWORKS)
+              .filter((net) => net.isDeployed)
+              .map((net) => (
+                <Button
+                  key={net.chainId}
+                  onClick={() => switchNetwork(net.chainId)}
+                  variant="danger"
+                >
+                  Cambiar a {net.name}
+                </Button>
+              ))}
+          </div>
         </div>
       );
     }
@@ -259,6 +466,21 @@ function App() {
                 </p>
               </div>
             </div>
+
+            <div className="mt-8 flex gap-6">
+              <button
+                onClick={openPetLookup}
+                className="text-sm text-slate-400 hover:text-white underline decoration-dotted"
+              >
+                🔎 Buscar una mascota por su chip
+              </button>
+              <button
+                onClick={() => setShowTagScanner(true)}
+                className="text-sm text-slate-400 hover:text-white underline decoration-dotted"
+              >
+                📷 Escanear una chapita
+              </button>
+            </div>
           </div>
         );
 
@@ -300,18 +522,20 @@ function App() {
       case "VET_DASHBOARD":
         return (
           <VetDashboard
-            nftContract={nftContract}
-            storageContract={storageContract}
+            client={client}
             account={account}
-            onBack={() => setViewMode("HOME")}
+            initialChipId={vetChipId}
+            onBack={() => {
+              setVetChipId(null);
+              setViewMode("HOME");
+            }}
           />
         );
 
       case "OWNER_DASHBOARD":
         return (
           <OwnerDashboard
-            nftContract={nftContract}
-            storageContract={storageContract}
+            client={client}
             account={account}
             onBack={() => setViewMode("HOME")}
           />
@@ -326,35 +550,201 @@ function App() {
     <div className="min-h-screen bg-background text-slate-200 font-sans selection:bg-primary selection:text-white">
       {renderHeader()}
 
-      <main className="container mx-auto px-4 py-8">{renderContent()}</main>
+      <main className="container mx-auto px-4 py-8">
+        {/* Deployment older than the current contracts: readable, not writable */}
+        {account && network?.isDeployed && !network.isCurrent && (
+          <div className="mb-6 p-4 rounded-lg border bg-amber-500/10 border-amber-500/50 text-amber-200 text-sm">
+            ⚠️ Los contratos de {network.name} son de una versión anterior de
+            VetChain. Puedes consultar historiales, pero registrar, aprobar o
+            transferir queda deshabilitado hasta que se vuelvan a desplegar.
+          </div>
+        )}
+        {renderContent()}
+      </main>
+
+      {showTagScanner && (
+        <QRScannerModal
+          title="Escanear Chapita"
+          hint="Apunta al QR del collar de la mascota."
+          onScan={handleScanTag}
+          onClose={() => setShowTagScanner(false)}
+        />
+      )}
 
       {/* Email Linking Modal */}
       {showEmailModal && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-fade-in">
-          <div className="bg-slate-900 border border-slate-700 rounded-xl p-6 w-full max-w-sm shadow-2xl">
+          <div className="bg-slate-900 border border-slate-700 rounded-xl p-6 w-full max-w-md shadow-2xl">
             <h3 className="text-lg font-bold text-white mb-4">
               Vincular Identidad
             </h3>
-            <p className="text-sm text-slate-400 mb-4">
-              Asocia un email a tu wallet ({account?.substring(0, 6)}...) para
-              que otros usuarios puedan encontrarte fácilmente.
-            </p>
-            <Input
-              placeholder="tu@email.com"
-              value={emailInput}
-              onChange={(e) => setEmailInput(e.target.value)}
-              className="mb-4"
-            />
+            {identity && !emailCodeSent && (
+              <div className="mb-6">
+                <p className="text-xs font-bold text-slate-400 uppercase mb-2">
+                  Wallets de {identity.email}
+                </p>
+                <ul className="space-y-1">
+                  {identity.wallets.map((wallet) => {
+                    const isPrimary =
+                      wallet.address === identity.primaryAddress;
+                    const busy = identityAction?.endsWith(wallet.address);
+                    // Only show what the connected wallet is allowed to sign
+                    const allowed = (action: IdentityAction) =>
+                      !!account &&
+                      canUpdateIdentity(
+                        identity,
+                        getAddress(account),
+                        action,
+                        wallet.address
+                      );
+                    return (
+                      <li
+                        key={wallet.address}
+                        className="flex items-center justify-between gap-2 bg-slate-800 rounded px-3 py-2 text-xs"
+                      >
+                        <div className="min-w-0">
+                          <div className="text-white truncate">
+                            {wallet.label || (
+                              <span className="italic text-slate-500">
+                                Sin etiqueta
+                              </span>
+                            )}
+                            {isPrimary && (
+                              <span className="ml-2 text-[10px] bg-primary/20 text-primary px-1.5 py-0.5 rounded font-bold">
+                                PRINCIPAL
+                              </span>
+                            )}
+                            {wallet.address.toLowerCase() ===
+                              account?.toLowerCase() && (
+                              <span className="ml-1 text-[10px] text-slate-400">
+                                (conectada)
+                              </span>
+                            )}
+                          </div>
+                          <AddressName
+                            address={wallet.address}
+                            className="text-slate-400"
+                          />
+                        </div>
+                        <div
+                          className={`flex gap-2 shrink-0 ${
+                            busy ? "opacity-50 pointer-events-none" : ""
+                          }`}
+                        >
+                          {!isPrimary && allowed("set-primary") && (
+                            <button
+                              onClick={() =>
+                                handleIdentityAction(
+                                  "set-primary",
+                                  wallet.address
+                                )
+                              }
+                              title="Usar como principal"
+                              className="text-slate-400 hover:text-primary"
+                            >
+                              ★
+                            </button>
+                          )}
+                          {allowed("label") && (
+                            <button
+                              onClick={() =>
+                                handleIdentityAction("label", wallet.address)
+                              }
+                              title="Renombrar"
+                              className="text-slate-400 hover:text-white"
+                            >
+                              ✏️
+                            </button>
+                          )}
+                          {allowed("remove") && (
+                            <button
+                              onClick={() =>
+                                handleIdentityAction("remove", wallet.address)
+                              }
+                              title="Quitar"
+                              className="text-red-400 hover:text-red-300"
+                            >
+                              ✕
+                            </button>
+                          )}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+                <p className="text-[10px] text-slate-500 mt-2">
+                  Quien busque tu email ve la wallet principal. Para sumar otra,
+                  conéctala y vincúlala a este mismo email.
+                </p>
+              </div>
+            )}
+            {!emailCodeSent ? (
+              <>
+                <p className="text-sm text-slate-400 mb-4">
+                  Asocia un email a tu wallet ({account?.substring(0, 6)}...)
+                  para que otros usuarios puedan encontrarte fácilmente. Vas a
+                  firmar un mensaje y recibir un código en ese email.
+                </p>
+                <Input
+                  placeholder="tu@email.com"
+                  value={emailInput}
+                  onChange={(e) => setEmailInput(e.target.value)}
+                  className="mb-2"
+                />
+                <Input
+                  placeholder="Etiqueta (opcional), ej. Clínica o Ledger"
+                  value={walletLabel}
+                  maxLength={40}
+                  onChange={(e) => setWalletLabel(e.target.value)}
+                  className="mb-4"
+                />
+              </>
+            ) : (
+              <>
+                <p className="text-sm text-slate-400 mb-4">
+                  Enviamos un código de 6 dígitos a{" "}
+                  <span className="text-white">{emailInput}</span>. Vence a las{" "}
+                  {new Date(emailCodeExpiresAt).toLocaleTimeString("es-ES", {
+                    hour: "2-digit",
+                    minute: "2-digit",
+                  })}
+                  .
+                </p>
+                {emailDevCode && (
+                  <p className="text-xs text-amber-300 mb-4">
+                    Directorio local: no se envían mails. Tu código es{" "}
+                    <span className="font-mono font-bold">{emailDevCode}</span>.
+                  </p>
+                )}
+                <Input
+                  placeholder="123456"
+                  inputMode="numeric"
+                  maxLength={6}
+                  value={emailCode}
+                  onChange={(e) => setEmailCode(e.target.value)}
+                  className="mb-4 font-mono tracking-widest"
+                />
+              </>
+            )}
             <div className="flex gap-2 justify-end">
-              <Button
-                variant="secondary"
-                onClick={() => setShowEmailModal(false)}
-              >
+              <Button variant="secondary" onClick={closeEmailModal}>
                 Cancelar
               </Button>
-              <Button onClick={handleLinkEmail} isLoading={linkingEmail}>
-                Guardar
-              </Button>
+              {!emailCodeSent ? (
+                <Button
+                  onClick={handleRequestEmailCode}
+                  isLoading={linkingEmail}
+                >
+                  Firmar y Enviar Código
+                </Button>
+              ) : (
+                <Button
+                  onClick={handleConfirmEmailCode}
+                  isLoading={linkingEmail}
+                >
+                  Verificar
+                </Button>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,38 @@
+import React, { useEffect, useState } from "react";
+import { lookupName } from "../services/nameService";
+
+interface AddressNameProps {
+  address: string;
+  className?: string;
+}
+
+const shortAddress = (address: string) =>
+  `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+
+// Short address, preceded by its ENS name or VetChain username when it has one
+export const AddressName: React.FC<AddressNameProps> = ({
+  address,
+  className = "",
+}) => {
+  const [name, setName] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setName(null);
+    lookupName(address).then((resolved) => {
+      if (!cancelled) setName(resolved);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [address]);
+
+  return (
+    <span className={className} title={address}>
+      {name && <span className="font-sans font-semibold mr-1">{name}</span>}
+      <span className={`font-mono ${name ? "opacity-60" : ""}`}>
+        {shortAddress(address)}
+      </span>
+    </span>
+  );
+};
@@ -1,12 +1,6 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect } from 'react';
 import { isAddress } from 'ethers';
-
-// Global declaration for Html5QrcodeScanner loaded via script tag
-declare global {
-  interface Window {
-    Html5QrcodeScanner: any;
-  }
-}
+import { QRScannerModal } from './QRScannerModal';
 
 interface AddressQRInputProps {
   value: string;
@@ -25,69 +19,18 @@ export const AddressQRInput: React.FC<AddressQRInputProps> = ({
 }) => {
   const [isValid, setIsValid] = useState(true);
   const [showScanner, setShowScanner] = useState(false);
-  const scannerRef = useRef<any>(null);
 
   useEffect(() => {
     setIsValid(value === '' || isAddress(value));
   }, [value]);
 
-  useEffect(() => {
-    if (showScanner && window.Html5QrcodeScanner) {
-      // Small timeout to ensure DOM element is ready
-      const timer = setTimeout(() => {
-        const scanner = new window.Html5QrcodeScanner(
-          "qr-reader",
-          { fps: 10, qrbox: { width: 250, height: 250 } },
-          /* verbose= */ false
-        );
-
-        scanner.render(
-          (decodedText: string) => {
-            // Explicitly cast to string to fix TS error in the else branch logic
-            const rawText = String(decodedText);
-
-            // Success: detected address
-            if (isAddress(rawText)) {
-              onChange(rawText);
-              setIsValid(true);
-              handleStopScan();
-            } else {
-              // isAddress acts as a type guard (value is string), so when false, TS infers rawText is never (Exclude<string, string>).
-              // We cast back to string to proceed.
-              const textToCheck = rawText as string;
-
-              // Maybe it's a URI like ethereum:0x...?
-              if (textToCheck.startsWith("ethereum:")) {
-                const parts = textToCheck.split(":");
-                // parts[1] might be the address
-                if (parts[1] && isAddress(parts[1])) {
-                   onChange(parts[1]);
-                   setIsValid(true);
-                   handleStopScan();
-                   return;
-                }
-              }
-              // Don't alert immediately on every frame, just log or ignore if not valid
-              // alert("QR detectado no es una dirección válida."); 
-            }
-          }, 
-          (error: any) => {
-            // Ignore parse errors, scanning is continuous
-          }
-        );
-        scannerRef.current = scanner;
-      }, 100);
-
-      return () => clearTimeout(timer);
-    }
-  }, [showScanner]);
-
-  const handleStopScan = () => {
-    if (scannerRef.current) {
-      scannerRef.current.clear().catch((err: any) => console.error(err));
-      scannerRef.current = null;
-    }
-    setShowScanner(false);
+  // Accepts a bare address or an EIP-681 style "ethereum:0x..." URI
+  const handleScan = (text: string): boolean => {
+    const candidate = text.startsWith('ethereum:') ? text.split(':')[1] : text;
+    if (!candidate || !isAddress(candidate)) return false;
+    onChange(candidate);
+    setIsValid(true);
+    return true;
   };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -141,18 +84,11 @@ export const AddressQRInput: React.FC<AddressQRInputProps> = ({
 
       {/* QR Modal */}
       {showScanner && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
-          <div className="bg-slate-900 border border-slate-700 rounded-xl p-6 w-full max-w-md relative shadow-2xl">
-            <h3 className="text-lg font-bold text-white mb-4 text-center">Escanear Dirección</h3>
-            <div id="qr-reader" className="w-full overflow-hidden rounded-lg bg-black"></div>
-            <button 
-              onClick={handleStopScan}
-              className="mt-6 w-full py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg font-semibold transition-colors"
-            >
-              Cancelar
-            </button>
-          </div>
-        </div>
+        <QRScannerModal
+          title="Escanear Dirección"
+          onScan={handleScan}
+          onClose={() => setShowScanner(false)}
+        />
       )}
     </div>
   );
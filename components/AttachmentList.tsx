@@ -0,0 +1,181 @@
+import React, { useState, useEffect } from "react";
+import { Attachment } from "../services/clinicalRecord";
+import {
+  fetchVerifiedAttachment,
+  formatFileSize,
+  getAttachmentKind,
+} from "../services/attachments";
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+  decryptionKey?: Uint8Array; // Data key of the record, for encrypted files
+}
+
+const KIND_ICONS = { image: "🖼️", pdf: "📄", dicom: "🩻", other: "📎" };
+
+// Loads the verified content of an attachment as an object URL
+const useVerifiedUrl = (
+  attachment: Attachment,
+  enabled: boolean,
+  decryptionKey?: Uint8Array
+) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
+    fetchVerifiedAttachment(attachment, decryptionKey)
+      .then((blob) => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch((e) => {
+        console.error("Attachment verification failed:", e);
+        if (!cancelled) setError(e.message);
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [attachment.cid, enabled, decryptionKey]);
+
+  return { url, error };
+};
+
+const AttachmentViewer: React.FC<{
+  attachment: Attachment;
+  url: string;
+  onClose: () => void;
+}> = ({ attachment, url, onClose }) => (
+  <div
+    className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4"
+    onClick={onClose}
+  >
+    <div
+      className="bg-surface rounded-xl border border-slate-700 w-full max-w-4xl max-h-full flex flex-col"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex justify-between items-center p-3 border-b border-slate-700">
+        <span className="text-sm text-white truncate">{attachment.name}</span>
+        <div className="flex gap-3 text-sm">
+          <a
+            href={url}
+            download={attachment.name}
+            className="text-primary hover:underline"
+          >
+            Descargar
+          </a>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            ✕
+          </button>
+        </div>
+      </div>
+      <div className="flex-1 overflow-auto p-3 flex justify-center">
+        {getAttachmentKind(attachment.mimeType) === "pdf" ? (
+          <iframe
+            src={url}
+            title={attachment.name}
+            className="w-full h-[75vh] bg-white rounded"
+          />
+        ) : (
+          <img
+            src={url}
+            alt={attachment.name}
+            className="max-h-[75vh] object-contain"
+          />
+        )}
+      </div>
+    </div>
+  </div>
+);
+
+const AttachmentItem: React.FC<{
+  attachment: Attachment;
+  decryptionKey?: Uint8Array;
+}> = ({ attachment, decryptionKey }) => {
+  const kind = getAttachmentKind(attachment.mimeType);
+  const viewable = kind === "image" || kind === "pdf";
+  // Images load right away for the thumbnail, the rest on demand
+  const [requested, setRequested] = useState(kind === "image");
+  const [viewing, setViewing] = useState(false);
+  const { url, error } = useVerifiedUrl(attachment, requested, decryptionKey);
+
+  const open = () => {
+    setRequested(true);
+    if (viewable) setViewing(true);
+  };
+
+  return (
+    <div
+      className="w-24 text-xs"
+      title={`${attachment.name} (${formatFileSize(attachment.size)})`}
+    >
+      <button
+        onClick={open}
+        className="w-24 h-24 rounded-lg border border-slate-700 bg-slate-800 overflow-hidden flex items-center justify-center hover:border-primary"
+      >
+        {kind === "image" && url ? (
+          <img
+            src={url}
+            alt={attachment.name}
+            className="w-full h-full object-cover"
+          />
+        ) : (
+          <span className="text-3xl">{KIND_ICONS[kind]}</span>
+        )}
+      </button>
+      <p className="truncate text-slate-400 mt-1">{attachment.name}</p>
+      {error ? (
+        <span className="text-red-400" title={error}>
+          ⚠️ No verificado
+        </span>
+      ) : url ? (
+        <a
+          href={url}
+          download={attachment.name}
+          className="text-primary hover:underline"
+        >
+          Descargar
+        </a>
+      ) : requested ? (
+        <span className="text-slate-500 italic">Verificando...</span>
+      ) : (
+        <button onClick={open} className="text-primary hover:underline">
+          Descargar
+        </button>
+      )}
+
+      {viewing && url && (
+        <AttachmentViewer
+          attachment={attachment}
+          url={url}
+          onClose={() => setViewing(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export const AttachmentList: React.FC<AttachmentListProps> = ({
+  attachments,
+  decryptionKey,
+}) => {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2 pt-1">
+      {attachments.map((attachment) => (
+        <AttachmentItem
+          key={attachment.cid}
+          attachment={attachment}
+          decryptionKey={decryptionKey}
+        />
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { Button } from "./Button";
+import { VetChainClient } from "../services/vetChainClient";
+import { speciesLabel } from "../services/transferPolicy";
+import { PetStatus } from "../types";
+
+interface AttestationPanelProps {
+  client: VetChainClient;
+  tokenId: string;
+  clinicId: number; // Clinic whose approval is used (0 = personal approval)
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp * 1000).toLocaleDateString("es-ES");
+
+// Vet attestations the TransferPolicy can require before a change of owner
+export const AttestationPanel: React.FC<AttestationPanelProps> = ({
+  client,
+  tokenId,
+  clinicId,
+}) => {
+  const [status, setStatus] = useState<PetStatus | null>(null);
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      setStatus(await client.getPetStatus(tokenId));
+    } catch (error) {
+      console.error("Error loading attestations:", error);
+    }
+  }, [client, tokenId]);
+
+  useEffect(() => {
+    setStatus(null);
+    loadStatus();
+  }, [loadStatus]);
+
+  const handleAttest = async (kind: "sterilization" | "microchip") => {
+    const question =
+      kind === "sterilization"
+        ? "¿Certificar que el paciente está esterilizado?"
+        : "¿Certificar que leíste el microchip y coincide con el ID?";
+    if (!confirm(question)) return;
+    setActionLoading(kind);
+    try {
+      const tx =
+        kind === "sterilization"
+          ? await client.recordSterilization(tokenId, clinicId)
+          : await client.verifyMicrochip(tokenId, clinicId);
+      await tx.wait();
+      loadStatus();
+    } catch (error: any) {
+      alert(`Error: ${error.reason || error.message}`);
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  if (!status) {
+    return (
+      <p className="text-xs text-slate-500 animate-pulse">
+        Cargando certificaciones...
+      </p>
+    );
+  }
+
+  const rows = [
+    {
+      kind: "sterilization" as const,
+      label: "Esterilización",
+      at: status.sterilizedAt,
+    },
+    {
+      kind: "microchip" as const,
+      label: "Microchip",
+      at: status.microchipVerifiedAt,
+    },
+  ];
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-slate-500">
+        Especie:{" "}
+        <span className="text-slate-300">
+          {status.species ? speciesLabel(status.species) : "Sin informar"}
+        </span>
+      </p>
+      <div className="grid grid-cols-2 gap-2">
+        {rows.map(({ kind, label, at }) => (
+          <div
+            key={kind}
+            className={`rounded-lg border px-2 py-1.5 ${
+              at > 0
+                ? "border-green-500/40 bg-green-500/10 text-green-300"
+                : "border-slate-700 bg-slate-900/50 text-slate-400"
+            }`}
+          >
+            <span className="text-xs font-bold">{label}</span>
+            {at > 0 ? (
+              <p className="text-[10px] opacity-80">
+                Certificado el {formatDate(at)}
+              </p>
+            ) : (
+              <Button
+                onClick={() => handleAttest(kind)}
+                isLoading={actionLoading === kind}
+                variant="secondary"
+                className="w-full mt-1 text-xs py-1"
+              >
+                Certificar
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
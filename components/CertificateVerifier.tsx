@@ -0,0 +1,177 @@
+import React, { useState, useEffect, useMemo } from "react";
+import { createPublicClient } from "../services/publicClient";
+import { vaccineLabel } from "../services/vaccines";
+import {
+  CertificateVerification,
+  VaccineCheckStatus,
+  decodeCertificate,
+  verifyCertificate,
+} from "../services/vaccinationCertificate";
+
+interface CertificateVerifierProps {
+  payload: string;
+  onExit: () => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp * 1000).toLocaleDateString("es-ES");
+
+const STATUS_STYLES: Record<VaccineCheckStatus, string> = {
+  valid: "border-green-500/40 bg-green-500/10 text-green-300",
+  expired: "border-amber-500/40 bg-amber-500/10 text-amber-300",
+  mismatch: "border-red-500/40 bg-red-500/10 text-red-300",
+};
+
+const STATUS_LABELS: Record<VaccineCheckStatus, string> = {
+  valid: "✓ Coincide y está vigente",
+  expired: "⚠ Coincide pero está vencida",
+  mismatch: "✗ No coincide con la blockchain",
+};
+
+// Landing page of the certificate QR: re-reads every printed vaccine from
+// the chain the certificate was issued on. No wallet needed.
+export const CertificateVerifier: React.FC<CertificateVerifierProps> = ({
+  payload,
+  onExit,
+}) => {
+  const certificate = useMemo(() => decodeCertificate(payload), [payload]);
+  const client = useMemo(
+    () => (certificate ? createPublicClient(certificate.chainId) : null),
+    [certificate]
+  );
+  const [result, setResult] = useState<CertificateVerification | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setResult(null);
+    setError(null);
+    if (!certificate || !client) return;
+
+    let cancelled = false;
+    verifyCertificate(client, certificate)
+      .then((verification) => !cancelled && setResult(verification))
+      .catch((e: any) => {
+        console.error("Certificate verification failed:", e);
+        if (!cancelled) setError(e.reason || e.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [certificate, client]);
+
+  const renderBody = () => {
+    if (!certificate) {
+      return (
+        <p className="text-sm text-red-300">
+          El código no corresponde a un certificado de VetChain.
+        </p>
+      );
+    }
+    if (!client) {
+      return (
+        <p className="text-sm text-red-300">
+          El certificado es de una red que esta app no soporta.
+        </p>
+      );
+    }
+    if (error) {
+      return (
+        <p className="text-sm text-red-300">No se pudo verificar: {error}</p>
+      );
+    }
+    if (!result) {
+      return (
+        <p className="text-sm text-slate-500 animate-pulse">
+          Comprobando contra la blockchain...
+        </p>
+      );
+    }
+    if (!result.exists) {
+      return (
+        <p className="text-sm text-red-300 font-bold">
+          ✗ El chip #{certificate.tokenId} no corresponde a una mascota activa.
+        </p>
+      );
+    }
+
+    const allValid =
+      result.nameMatches &&
+      result.checks.every((check) => check.status === "valid");
+
+    return (
+      <div className="space-y-4">
+        <p
+          className={`text-sm font-bold ${
+            allValid ? "text-green-300" : "text-amber-300"
+          }`}
+        >
+          {allValid
+            ? "✓ El certificado coincide con la blockchain y todas las vacunas están vigentes."
+            : "⚠ Revisa los puntos marcados antes de aceptar este certificado."}
+        </p>
+
+        {!result.nameMatches && (
+          <p className="text-xs text-red-300">
+            ✗ El certificado dice "{certificate.petName}", pero hoy la mascota
+            figura como "{result.currentName}".
+          </p>
+        )}
+
+        {result.checks.length === 0 && (
+          <p className="text-xs text-slate-400">
+            El certificado no incluye vacunas.
+          </p>
+        )}
+
+        <ul className="space-y-2">
+          {result.checks.map((check) => (
+            <li
+              key={check.vaccineId}
+              className={`rounded-lg border px-3 py-2 ${
+                STATUS_STYLES[check.status]
+              }`}
+            >
+              <div className="flex justify-between gap-2 text-sm font-bold">
+                <span>💉 {vaccineLabel(check.vaccineId)}</span>
+                <span className="text-xs">{STATUS_LABELS[check.status]}</span>
+              </div>
+              <p className="text-[10px] opacity-80">
+                Aplicada el {formatDate(check.claimed.appliedAt)} ·{" "}
+                {check.currentExpiresAt > 0
+                  ? `vence el ${formatDate(check.currentExpiresAt)}`
+                  : "sin vencimiento registrado"}
+                {check.currentExpiresAt > check.claimed.expiresAt &&
+                  " (renovada después de emitir el certificado)"}
+              </p>
+              {check.reason && <p className="text-xs mt-1">{check.reason}</p>}
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  };
+
+  return (
+    <div className="max-w-lg mx-auto space-y-6 animate-fade-in">
+      <button
+        onClick={onExit}
+        className="flex items-center gap-2 text-slate-400 hover:text-white transition-colors"
+      >
+        <span>⬅</span> Volver al Inicio
+      </button>
+
+      <div className="bg-surface p-6 rounded-xl shadow-lg border border-slate-700 space-y-4">
+        <h2 className="text-xl font-bold text-white flex items-center gap-2">
+          <span className="text-secondary">🛡️</span> Verificar Certificado
+        </h2>
+        {certificate && (
+          <p className="text-xs text-slate-400">
+            {certificate.petName} · chip {certificate.tokenId} · emitido el{" "}
+            {formatDate(certificate.issuedAt)}
+          </p>
+        )}
+        {renderBody()}
+      </div>
+    </div>
+  );
+};
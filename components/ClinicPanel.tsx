@@ -0,0 +1,207 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { Input } from "./Input";
+import { Button } from "./Button";
+import { SmartAddressInput } from "./SmartAddressInput";
+import { VetChainClient } from "../services/vetChainClient";
+import { ClinicMembership } from "../types";
+
+interface ClinicPanelProps {
+  client: VetChainClient;
+  clinics: ClinicMembership[];
+  onChanged: () => void;
+}
+
+const shortAddress = (address: string) =>
+  `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+
+// Team management for a clinic the connected wallet administers
+const ClinicTeam: React.FC<{ client: VetChainClient; clinicId: number }> = ({
+  client,
+  clinicId,
+}) => {
+  const [members, setMembers] = useState<string[]>([]);
+  const [memberInput, setMemberInput] = useState("");
+  const [memberAddr, setMemberAddr] = useState<string | null>(null);
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+
+  const loadMembers = useCallback(async () => {
+    try {
+      setMembers(await client.getClinicMembers(clinicId));
+    } catch (error) {
+      console.error("Error loading clinic members:", error);
+    }
+  }, [client, clinicId]);
+
+  useEffect(() => {
+    loadMembers();
+  }, [loadMembers]);
+
+  const handleAdd = async () => {
+    if (!memberAddr) return;
+    setActionLoading("adding");
+    try {
+      const tx = await client.addClinicMember(clinicId, memberAddr);
+      await tx.wait();
+      setMemberInput("");
+      setMemberAddr(null);
+      loadMembers();
+    } catch (error: any) {
+      alert(`Error: ${error.reason || error.message}`);
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleRemove = async (vet: string) => {
+    if (!confirm(`¿Quitar a ${vet} del equipo?`)) return;
+    setActionLoading(vet);
+    try {
+      const tx = await client.removeClinicMember(clinicId, vet);
+      await tx.wait();
+      loadMembers();
+    } catch (error: any) {
+      alert(`Error: ${error.reason || error.message}`);
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {members.length === 0 ? (
+        <p className="text-xs text-slate-500 italic">
+          Todavía no hay veterinarios en el equipo.
+        </p>
+      ) : (
+        <ul className="space-y-1">
+          {members.map((vet) => (
+            <li
+              key={vet}
+              className="flex justify-between items-center bg-slate-800 rounded px-2 py-1 text-xs"
+            >
+              <span className="font-mono text-slate-300" title={vet}>
+                {shortAddress(vet)}
+              </span>
+              <button
+                onClick={() => handleRemove(vet)}
+                disabled={actionLoading === vet}
+                className="text-red-400 hover:text-red-300 disabled:opacity-50"
+              >
+                Quitar
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex gap-2 items-start">
+        <SmartAddressInput
+          value={memberInput}
+          onChange={setMemberInput}
+          onAddressResolved={setMemberAddr}
+          placeholder="Email o 0x... del veterinario"
+          className="flex-1"
+        />
+        <Button
+          onClick={handleAdd}
+          disabled={!memberAddr}
+          isLoading={actionLoading === "adding"}
+          variant="secondary"
+          className="text-xs h-[38px]"
+        >
+          Sumar
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export const ClinicPanel: React.FC<ClinicPanelProps> = ({
+  client,
+  clinics,
+  onChanged,
+}) => {
+  const [newClinicName, setNewClinicName] = useState("");
+  const [creating, setCreating] = useState(false);
+
+  const handleCreate = async () => {
+    if (!newClinicName.trim()) return;
+    setCreating(true);
+    try {
+      const tx = await client.createClinic(newClinicName.trim());
+      await tx.wait();
+      setNewClinicName("");
+      onChanged();
+    } catch (error: any) {
+      alert(`Error: ${error.reason || error.message}`);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div className="bg-surface p-6 rounded-xl shadow-lg border border-slate-700">
+      <h2 className="text-xl font-bold mb-2 text-white flex items-center gap-2">
+        <span className="text-accent">🏥</span> Mis Clínicas
+      </h2>
+      <p className="text-xs text-slate-400 mb-4">
+        Los dueños pueden autorizar a una clínica completa: cualquier
+        veterinario del equipo con licencia vigente puede atender al paciente.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {clinics.map((clinic) => (
+          <div
+            key={clinic.clinicId}
+            className="bg-slate-900/50 p-4 rounded-lg border border-slate-700/50 space-y-3"
+          >
+            <div className="flex justify-between items-start">
+              <div>
+                <h3 className="font-bold text-white">{clinic.name}</h3>
+                <span className="text-xs text-slate-500 font-mono">
+                  Clínica #{clinic.clinicId}
+                </span>
+              </div>
+              <div className="flex gap-1">
+                {clinic.isAdmin && (
+                  <span className="text-[10px] bg-accent/20 text-accent px-2 py-0.5 rounded font-bold">
+                    ADMIN
+                  </span>
+                )}
+                {clinic.isMember && (
+                  <span className="text-[10px] bg-primary/20 text-primary px-2 py-0.5 rounded font-bold">
+                    MIEMBRO
+                  </span>
+                )}
+              </div>
+            </div>
+            {clinic.isAdmin && (
+              <ClinicTeam client={client} clinicId={clinic.clinicId} />
+            )}
+          </div>
+        ))}
+
+        <div className="bg-slate-900/50 p-4 rounded-lg border border-dashed border-slate-700 space-y-3">
+          <Input
+            label="Nueva clínica"
+            placeholder="ej. Clínica Central"
+            value={newClinicName}
+            onChange={(e) => setNewClinicName(e.target.value)}
+          />
+          <Button
+            onClick={handleCreate}
+            disabled={!newClinicName.trim()}
+            isLoading={creating}
+            variant="secondary"
+            className="w-full text-sm"
+          >
+            Crear Clínica
+          </Button>
+          <p className="text-[10px] text-slate-500">
+            Quedarás como admin. Para firmar registros en nombre de la clínica
+            también debes sumarte como miembro.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+import React, { useState, useEffect, useMemo } from "react";
+import QRCode from "qrcode";
+import { Button } from "./Button";
+import { VetChainClient } from "../services/vetChainClient";
+import { createPublicClient } from "../services/publicClient";
+import { resolveIPFS } from "../services/pinataService";
+import { petTagUrl } from "../services/petTag";
+
+interface CollarTagViewProps {
+  client: VetChainClient | null;
+  chipId: string;
+  onExit: () => void;
+}
+
+// Printable collar tag. The QR opens the public profile, so whoever finds
+// the pet can scan it with any phone camera.
+export const CollarTagView: React.FC<CollarTagViewProps> = ({
+  client,
+  chipId,
+  onExit,
+}) => {
+  const activeClient = useMemo(() => client || createPublicClient(), [client]);
+  const [petName, setPetName] = useState<string | null>(null);
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPetName(null);
+    setQrDataUrl(null);
+    setError(null);
+    if (!activeClient) return;
+
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const { uri } = await activeClient.getAnimal(chipId);
+        const json = await fetch(resolveIPFS(uri))
+          .then((response) => response.json())
+          .catch(() => ({}));
+        const { network } = activeClient;
+        const qr = await QRCode.toDataURL(
+          petTagUrl({
+            chipId,
+            chainId: network.chainId,
+            contract: network.contracts.ANIMAL_NFT,
+          }),
+          { errorCorrectionLevel: "Q", margin: 1, width: 600 }
+        );
+        if (cancelled) return;
+        setPetName(json.name || `Chip #${chipId}`);
+        setQrDataUrl(qr);
+      } catch (e: any) {
+        console.error("Error building collar tag:", e);
+        if (!cancelled) setError(e.reason || e.message);
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [activeClient, chipId]);
+
+  return (
+    <div className="max-w-md mx-auto space-y-4 animate-fade-in">
+      <div className="flex items-center justify-between gap-2 print:hidden">
+        <button
+          onClick={onExit}
+          className="flex items-center gap-2 text-slate-400 hover:text-white transition-colors"
+        >
+          <span>⬅</span> Volver
+        </button>
+        {qrDataUrl && (
+          <div className="flex gap-2">
+            <a
+              href={qrDataUrl}
+              download={`chapita-${chipId}.png`}
+              className="px-4 py-2 rounded-lg font-semibold bg-slate-700 hover:bg-slate-600 text-white text-sm"
+            >
+              ⬇ PNG
+            </a>
+            <Button onClick={() => window.print()}>🖨️ Imprimir</Button>
+          </div>
+        )}
+      </div>
+
+      {!activeClient && (
+        <p className="text-sm text-red-300">
+          La red configurada no está soportada.
+        </p>
+      )}
+      {error && (
+        <p className="text-sm text-red-300">
+          No se pudo generar la chapita: {error}
+        </p>
+      )}
+      {activeClient && !qrDataUrl && !error && (
+        <p className="text-sm text-slate-500 animate-pulse">
+          Generando chapita...
+        </p>
+      )}
+
+      {qrDataUrl && (
+        <div className="mx-auto w-64 bg-white text-slate-900 rounded-3xl p-5 text-center shadow-xl print:shadow-none border-4 border-slate-900">
+          <p className="text-lg font-black truncate">{petName}</p>
+          <img
+            src={qrDataUrl}
+            alt={`QR de ${petName}`}
+            className="w-full aspect-square my-2"
+          />
+          <p className="text-xs font-bold">Si me encuentras, escanéame</p>
+          <p className="text-[10px] font-mono text-slate-500">Chip {chipId}</p>
+        </div>
+      )}
+
+      <p className="text-xs text-slate-500 text-center print:hidden">
+        El QR abre la ficha pública de la mascota: estado de perdida, vacunas y
+        un botón para contactarte si vinculaste un email.
+      </p>
+    </div>
+  );
+};
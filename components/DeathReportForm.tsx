@@ -0,0 +1,216 @@
+import React, { useState } from "react";
+import { Input } from "./Input";
+import { Button } from "./Button";
+import { VetChainClient } from "../services/vetChainClient";
+import { uploadDeathCertificate } from "../services/deathCertificate";
+import {
+  ATTACHMENT_ACCEPT,
+  formatFileSize,
+  uploadAttachments,
+} from "../services/attachments";
+
+interface DeathReportFormProps {
+  client: VetChainClient;
+  account: string;
+  tokenId: string;
+  clinicId: number; // Clinic whose approval is used (0 = personal approval)
+  patientName: string;
+  onReported: () => void;
+}
+
+export const DeathReportForm: React.FC<DeathReportFormProps> = ({
+  client,
+  account,
+  tokenId,
+  clinicId,
+  patientName,
+  onReported,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [cause, setCause] = useState("");
+  const [dateOfDeath, setDateOfDeath] = useState("");
+  const [place, setPlace] = useState("");
+  const [notes, setNotes] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [isReporting, setIsReporting] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const handleReport = async () => {
+    if (!cause.trim() || !dateOfDeath || !place.trim()) {
+      alert("Completa causa, fecha y lugar del fallecimiento.");
+      return;
+    }
+    const confirmed = confirm(
+      `Vas a reportar el fallecimiento de ${patientName} (#${tokenId}). ` +
+        "El token se quemará y no se podrán agregar más registros. ¿Continuar?"
+    );
+    if (!confirmed) return;
+
+    setIsReporting(true);
+    try {
+      const attachments = await uploadAttachments(
+        files,
+        undefined,
+        (uploaded, total) =>
+          setStatus(`Subiendo documentos a IPFS (${uploaded}/${total})...`)
+      );
+
+      setStatus("Subiendo certificado de defunción a IPFS...");
+      const certificateUri = await uploadDeathCertificate({
+        tokenId,
+        dateOfDeath,
+        cause: cause.trim(),
+        place: place.trim(),
+        vet: account,
+        notes: notes.trim() || undefined,
+        attachments: attachments.length > 0 ? attachments : undefined,
+      });
+
+      setStatus("Certificado listo. Confirmando transacción...");
+      const tx = await client.reportDecease(tokenId, clinicId, certificateUri);
+      setStatus(`Transacción enviada: ${tx.hash}...`);
+      await tx.wait();
+
+      // reportDecease quema el token: ownerOf debe revertir a partir de ahora
+      const { exists } = await client.getPetStatus(tokenId);
+      if (exists) {
+        setStatus(
+          "Error: La transacción se confirmó pero el token sigue activo."
+        );
+        return;
+      }
+
+      setStatus(null);
+      alert(`Fallecimiento registrado. El token #${tokenId} fue quemado.`);
+      onReported();
+    } catch (error: any) {
+      console.error(error);
+      setStatus(`Error: ${error.reason || error.message}`);
+    } finally {
+      setIsReporting(false);
+    }
+  };
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="text-sm text-red-400 hover:text-red-300 underline decoration-dotted"
+      >
+        ⚰️ Reportar fallecimiento
+      </button>
+    );
+  }
+
+  return (
+    <div className="p-4 rounded-lg border border-red-900/50 bg-red-900/10 space-y-4">
+      <div className="flex justify-between items-center">
+        <h4 className="text-lg font-bold text-red-200">
+          ⚰️ Certificado de Defunción
+        </h4>
+        <button
+          onClick={() => setOpen(false)}
+          className="text-slate-400 hover:text-white"
+        >
+          ✕
+        </button>
+      </div>
+
+      {status && (
+        <div
+          className={`p-3 rounded text-sm ${
+            status.includes("Error")
+              ? "bg-red-500/20 text-red-200 border border-red-500/30"
+              : "bg-blue-500/10 text-blue-200"
+          }`}
+        >
+          {status}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <Input
+          label="Fecha"
+          type="date"
+          value={dateOfDeath}
+          onChange={(e) => setDateOfDeath(e.target.value)}
+        />
+        <Input
+          label="Lugar"
+          placeholder="ej. Clínica Central"
+          value={place}
+          onChange={(e) => setPlace(e.target.value)}
+        />
+      </div>
+      <Input
+        label="Causa"
+        value={cause}
+        onChange={(e) => setCause(e.target.value)}
+      />
+      <div>
+        <label className="text-xs font-medium text-slate-400 block mb-1">
+          Notas
+        </label>
+        <textarea
+          className="w-full bg-slate-800 border border-slate-700 text-white rounded-lg px-3 py-2 text-sm outline-none focus:border-primary h-16 resize-none"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+        ></textarea>
+      </div>
+      <div>
+        <label className="text-xs font-medium text-slate-400 block mb-1">
+          Certificado firmado / documentos
+        </label>
+        <input
+          type="file"
+          multiple
+          accept={ATTACHMENT_ACCEPT}
+          className="text-xs text-slate-400 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-xs file:bg-primary file:text-white hover:file:bg-indigo-500 w-full"
+          onChange={(e) => {
+            const selected = e.target.files;
+            if (selected)
+              setFiles((prev) => [...prev, ...Array.from(selected)]);
+            e.target.value = "";
+          }}
+        />
+        {files.length > 0 && (
+          <ul className="mt-2 space-y-1 text-xs text-slate-300">
+            {files.map((file, i) => (
+              <li
+                key={`${file.name}-${i}`}
+                className="flex justify-between bg-slate-800 rounded px-2 py-1"
+              >
+                <span className="truncate">
+                  {file.name}{" "}
+                  <span className="text-slate-500">
+                    ({formatFileSize(file.size)})
+                  </span>
+                </span>
+                <button
+                  onClick={() =>
+                    setFiles((prev) => prev.filter((_, j) => j !== i))
+                  }
+                  className="text-slate-400 hover:text-red-400 ml-2"
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <p className="text-xs text-red-300/80">
+        El certificado se publica sin cifrar y el token se quema de forma
+        irreversible.
+      </p>
+      <Button
+        onClick={handleReport}
+        isLoading={isReporting}
+        variant="danger"
+        className="w-full"
+      >
+        Reportar Fallecimiento
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import React, { useState, useEffect } from "react";
+import { Button } from "./Button";
+import { VetChainClient } from "../services/vetChainClient";
+import { unlockEncryptionKey } from "../services/recordEncryption";
+import { getPublicKey } from "../services/keyDirectory";
+
+interface EncryptionSetupBannerProps {
+  client: VetChainClient | null;
+  account: string;
+  message: string;
+}
+
+// Records can only be shared with wallets that published a public key.
+// Shown until the connected wallet has done so.
+export const EncryptionSetupBanner: React.FC<EncryptionSetupBannerProps> = ({
+  client,
+  account,
+  message,
+}) => {
+  const [hasPublicKey, setHasPublicKey] = useState(true);
+  const [enabling, setEnabling] = useState(false);
+
+  useEffect(() => {
+    if (!client) return;
+    getPublicKey(client.network.chainId, account).then((key) =>
+      setHasPublicKey(!!key)
+    );
+  }, [client, account]);
+
+  const handleEnable = async () => {
+    if (!client) return;
+    setEnabling(true);
+    try {
+      await unlockEncryptionKey(client, account);
+      setHasPublicKey(true);
+    } catch (error: any) {
+      alert(`Error: ${error.reason || error.message}`);
+    } finally {
+      setEnabling(false);
+    }
+  };
+
+  if (hasPublicKey) return null;
+
+  return (
+    <div className="flex items-center justify-between gap-4 p-4 rounded-lg border bg-amber-500/10 border-amber-500/50 text-amber-200 text-sm">
+      <span>🔐 {message}</span>
+      <Button onClick={handleEnable} isLoading={enabling} variant="secondary">
+        Activar cifrado
+      </Button>
+    </div>
+  );
+};
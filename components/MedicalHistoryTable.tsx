@@ -1,17 +1,28 @@
 import React, { useState, useEffect } from "react";
-import { Contract } from "ethers";
+import { MedicalRecord, RecordType } from "../types";
+import { VetChainClient } from "../services/vetChainClient";
+import { AttachmentList } from "./AttachmentList";
+import { AddressName } from "./AddressName";
+import { resolveIPFS } from "../services/pinataService";
+import {
+  ResolvedRecord,
+  resolveClinicalRecord,
+} from "../services/clinicalRecord";
+import {
+  AnimalKeys,
+  hasSessionKey,
+  loadAnimalKeys,
+  unlockEncryptionKey,
+} from "../services/recordEncryption";
+import { vaccineLabel } from "../services/vaccines";
 
 interface MedicalHistoryTableProps {
   tokenId: string;
-  storageContract: Contract | null;
-}
-
-interface HistoryEvent {
-  transactionHash: string;
-  timestamp: number;
-  vet: string;
-  description: string;
-  recordType: number;
+  client: VetChainClient | null;
+  account: string | null;
+  // When set, current records get "Corregir" / "Retractar" actions
+  onAmend?: (record: MedicalRecord) => void;
+  onRetract?: (record: MedicalRecord) => void;
 }
 
 const RECORD_TYPES: {
@@ -24,38 +35,145 @@ const RECORD_TYPES: {
   4: { label: "Fallecimiento", icon: "💀", color: "text-slate-500" },
 };
 
+// Renders the off-chain payload of a record, or the legacy on-chain text
+const RecordDescription: React.FC<{ resolved?: ResolvedRecord }> = ({
+  resolved,
+}) => {
+  if (!resolved) {
+    return <span className="text-slate-500 italic">Cargando...</span>;
+  }
+
+  if (resolved.kind === "legacy") {
+    return <span>{resolved.text}</span>;
+  }
+
+  if (resolved.kind === "death") {
+    const { certificate } = resolved;
+    return (
+      <div className="space-y-1">
+        <p className="font-semibold">{certificate.cause}</p>
+        <p className="text-slate-400 text-xs">
+          {new Date(`${certificate.dateOfDeath}T00:00:00`).toLocaleDateString(
+            "es-ES"
+          )}{" "}
+          · {certificate.place}
+        </p>
+        {certificate.notes && (
+          <p className="text-slate-400 text-xs whitespace-pre-line">
+            {certificate.notes}
+          </p>
+        )}
+        {certificate.attachments && (
+          <AttachmentList attachments={certificate.attachments} />
+        )}
+      </div>
+    );
+  }
+
+  if (resolved.kind === "restricted") {
+    return (
+      <span
+        className="text-slate-500 italic"
+        title="Registro cifrado: tu wallet no tiene la clave"
+      >
+        🔒 Restringido
+      </span>
+    );
+  }
+
+  if (resolved.kind === "invalid") {
+    return (
+      <span className="text-amber-400" title={resolved.error}>
+        ⚠️ Registro ilegible{" "}
+        <a
+          href={resolveIPFS(`ipfs://${resolved.cid}`)}
+          target="_blank"
+          rel="noreferrer"
+          className="underline decoration-dotted"
+        >
+          (ver en IPFS)
+        </a>
+      </span>
+    );
+  }
+
+  const { record } = resolved;
+  return (
+    <div className="space-y-1">
+      {record.vaccine && (
+        <p className="text-green-300">
+          {record.vaccine.name}
+          {record.vaccine.lot && (
+            <span className="text-slate-400 text-xs">
+              {" "}
+              · Lote {record.vaccine.lot}
+            </span>
+          )}
+        </p>
+      )}
+      {record.diagnosis && <p className="font-semibold">{record.diagnosis}</p>}
+      {record.treatment && (
+        <p className="text-slate-300">Tratamiento: {record.treatment}</p>
+      )}
+      {record.medications && record.medications.length > 0 && (
+        <ul className="list-disc list-inside text-slate-300 text-xs">
+          {record.medications.map((m, i) => (
+            <li key={i}>
+              {[m.name, m.dose, m.frequency].filter(Boolean).join(" · ")}
+            </li>
+          ))}
+        </ul>
+      )}
+      {(record.weightKg !== undefined || record.temperatureC !== undefined) && (
+        <p className="text-slate-400 text-xs">
+          {record.weightKg !== undefined && `⚖️ ${record.weightKg} kg `}
+          {record.temperatureC !== undefined && `🌡️ ${record.temperatureC} °C`}
+        </p>
+      )}
+      {record.notes && (
+        <p className="text-slate-400 text-xs whitespace-pre-line">
+          {record.notes}
+        </p>
+      )}
+      {record.attachments && (
+        <AttachmentList
+          attachments={record.attachments}
+          decryptionKey={resolved.key}
+        />
+      )}
+    </div>
+  );
+};
+
 export const MedicalHistoryTable: React.FC<MedicalHistoryTableProps> = ({
   tokenId,
-  storageContract,
+  client,
+  account,
+  onAmend,
+  onRetract,
 }) => {
-  const [history, setHistory] = useState<HistoryEvent[]>([]);
+  const [history, setHistory] = useState<MedicalRecord[]>([]);
   const [loading, setLoading] = useState(false);
+  // Keyed by transaction hash
+  const [resolved, setResolved] = useState<Record<string, ResolvedRecord>>({});
+  // Data keys this wallet can open; null until unlocked
+  const [keys, setKeys] = useState<AnimalKeys | null>(null);
+  const [unlocking, setUnlocking] = useState(false);
+  // Names of the clinics that signed records, keyed by clinic ID
+  const [clinicNames, setClinicNames] = useState<Record<number, string>>({});
+  // Current records whose previous versions are shown, by entryId
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
 
   useEffect(() => {
     const fetchHistory = async () => {
-      if (!storageContract || !tokenId) return;
+      if (!client || !tokenId) return;
 
       setLoading(true);
       try {
-        // Filter: MedicalRecordAdded(indexed tokenId, ...)
-        // Ethers v6 filter syntax
-        const filter = storageContract.filters.MedicalRecordAdded(tokenId);
-        const events = await storageContract.queryFilter(filter);
-
-        const parsedEvents: HistoryEvent[] = events.map((e: any) => {
-          // Args: [tokenId, timestamp, descriptionIpfs, vet, recordType]
-          return {
-            transactionHash: e.transactionHash,
-            timestamp: Number(e.args[1]),
-            description: e.args[2],
-            vet: e.args[3],
-            recordType: Number(e.args[4]),
-          };
-        });
+        const records = await client.getHistory(tokenId);
 
         // Sort: Newest first
-        parsedEvents.sort((a, b) => b.timestamp - a.timestamp);
-        setHistory(parsedEvents);
+        setHistory([...records].sort((a, b) => b.timestamp - a.timestamp));
       } catch (error) {
         console.error("Error fetching history:", error);
       } finally {
@@ -64,7 +182,211 @@ export const MedicalHistoryTable: React.FC<MedicalHistoryTableProps> = ({
     };
 
     fetchHistory();
-  }, [tokenId, storageContract]);
+  }, [tokenId, client]);
+
+  // If the wallet was already unlocked this session, decrypt without asking
+  useEffect(() => {
+    setKeys(null);
+    if (!client || !account || !hasSessionKey(account)) return;
+    loadAnimalKeys(client, account, tokenId)
+      .then(setKeys)
+      .catch((error) => console.error("Error loading record keys:", error));
+  }, [tokenId, client, account]);
+
+  // Payloads load in the background so the table shows up right away
+  useEffect(() => {
+    let cancelled = false;
+    setResolved({});
+    history.forEach(async (record) => {
+      const result = await resolveClinicalRecord(
+        record.description,
+        tokenId,
+        keys
+      );
+      if (cancelled) return;
+      setResolved((prev) => ({
+        ...prev,
+        [record.transactionHash]: result,
+      }));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [history, keys, tokenId]);
+
+  useEffect(() => {
+    if (!client) return;
+    const clinicIds = new Set<number>(
+      history.map((record) => record.clinicId).filter((id) => id > 0)
+    );
+    clinicIds.forEach(async (clinicId) => {
+      try {
+        const { name } = await client.getClinic(clinicId);
+        setClinicNames((prev) => ({ ...prev, [clinicId]: name }));
+      } catch (error) {
+        console.warn(`Could not load clinic ${clinicId}`, error);
+      }
+    });
+  }, [history, client]);
+
+  const handleUnlock = async () => {
+    if (!client || !account) return;
+    setUnlocking(true);
+    try {
+      await unlockEncryptionKey(client, account);
+      setKeys(await loadAnimalKeys(client, account, tokenId));
+    } catch (error: any) {
+      alert(`Error: ${error.reason || error.message}`);
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  const hasRestricted = history.some(
+    (record) => resolved[record.transactionHash]?.kind === "restricted"
+  );
+
+  const explorerUrl = client?.network.explorerUrl;
+  const canAmend = !!(onAmend || onRetract);
+
+  // Corrected records are kept, but shown under the version that replaced them
+  const byEntryId = new Map<number, MedicalRecord>(
+    history.map((record) => [record.entryId, record])
+  );
+  const currentRecords = history.filter(
+    (record) => record.amendment?.kind !== "amended"
+  );
+  const getRevisions = (record: MedicalRecord): MedicalRecord[] => {
+    const revisions: MedicalRecord[] = [];
+    let previous = record.amends ? byEntryId.get(record.amends) : undefined;
+    while (previous) {
+      revisions.push(previous);
+      previous = previous.amends ? byEntryId.get(previous.amends) : undefined;
+    }
+    return revisions;
+  };
+
+  const toggleRevisions = (entryId: number) =>
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(entryId)) next.delete(entryId);
+      else next.add(entryId);
+      return next;
+    });
+
+  const formatDate = (timestamp: number) =>
+    new Date(timestamp * 1000).toLocaleDateString("es-ES", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+
+  const renderRow = (
+    record: MedicalRecord,
+    isRevision: boolean,
+    revisionCount: number
+  ) => {
+    const typeInfo = RECORD_TYPES[record.recordType] || RECORD_TYPES[0];
+    const date = formatDate(record.timestamp);
+    const { amendment } = record;
+    const isRetracted = amendment?.kind === "retracted";
+    const isEditable =
+      !isRevision && !amendment && record.recordType !== RecordType.DECEASED;
+
+    return (
+      <tr
+        key={record.transactionHash}
+        className={`transition-colors ${
+          isRevision ? "bg-slate-900/60 text-xs" : "hover:bg-slate-800/50"
+        } ${isRevision || isRetracted ? "opacity-60" : ""}`}
+      >
+        <td className="p-3 whitespace-nowrap text-slate-300 font-mono text-xs">
+          {isRevision && <span className="text-slate-500 mr-1">↳</span>}
+          {explorerUrl ? (
+            <a
+              href={`${explorerUrl}/tx/${record.transactionHash}`}
+              target="_blank"
+              rel="noreferrer"
+              className="hover:text-white underline decoration-dotted"
+              title="Ver transacción en el explorador"
+            >
+              {date}
+            </a>
+          ) : (
+            date
+          )}
+        </td>
+        <td className="p-3 whitespace-nowrap">
+          <span
+            className={`flex items-center gap-2 font-semibold ${typeInfo.color}`}
+          >
+            <span>{typeInfo.icon}</span>
+            {typeInfo.label}
+          </span>
+          {record.vaccineId && (
+            <span className="block text-xs text-slate-400 mt-0.5">
+              {vaccineLabel(record.vaccineId)}
+            </span>
+          )}
+        </td>
+        <td className="p-3 text-slate-200 max-w-xs break-words">
+          <div className={isRetracted ? "line-through" : ""}>
+            <RecordDescription resolved={resolved[record.transactionHash]} />
+          </div>
+          {amendment && (
+            <p
+              className={`mt-1 text-xs ${
+                isRetracted ? "text-red-300" : "text-amber-300"
+              }`}
+            >
+              {isRetracted ? "🚫 Retractado" : "✏️ Corregido"} el{" "}
+              {formatDate(amendment.timestamp)} por{" "}
+              <AddressName address={amendment.vetAddress} />: {amendment.reason}
+            </p>
+          )}
+          {revisionCount > 0 && (
+            <button
+              onClick={() => toggleRevisions(record.entryId)}
+              className="mt-1 text-xs text-slate-400 hover:text-white underline decoration-dotted"
+            >
+              🕘 {expanded.has(record.entryId) ? "Ocultar" : "Ver"}{" "}
+              {revisionCount} versión(es) anterior(es)
+            </button>
+          )}
+        </td>
+        <td className="p-3 whitespace-nowrap text-xs">
+          <AddressName address={record.vetAddress} className="text-secondary" />
+          {record.clinicId > 0 && (
+            <span className="block text-slate-400 mt-0.5">
+              🏥 {clinicNames[record.clinicId] || `Clínica #${record.clinicId}`}
+            </span>
+          )}
+        </td>
+        {canAmend && (
+          <td className="p-3 whitespace-nowrap text-xs space-x-2">
+            {isEditable && onAmend && (
+              <button
+                onClick={() => onAmend(record)}
+                className="text-amber-300 hover:text-amber-200"
+              >
+                Corregir
+              </button>
+            )}
+            {isEditable && onRetract && (
+              <button
+                onClick={() => onRetract(record)}
+                className="text-red-400 hover:text-red-300"
+              >
+                Retractar
+              </button>
+            )}
+          </td>
+        )}
+      </tr>
+    );
+  };
 
   if (loading) {
     return (
@@ -87,6 +409,27 @@ export const MedicalHistoryTable: React.FC<MedicalHistoryTableProps> = ({
 
   return (
     <div className="overflow-x-auto">
+      {hasRestricted && (
+        <div className="flex items-center justify-between gap-2 p-3 text-xs text-slate-400 border-b border-slate-700">
+          {account && !hasSessionKey(account) ? (
+            <>
+              <span>🔒 Algunos registros están cifrados.</span>
+              <button
+                onClick={handleUnlock}
+                disabled={unlocking}
+                className="text-primary hover:underline disabled:opacity-50"
+              >
+                {unlocking ? "Firmando..." : "Desbloquear con mi wallet"}
+              </button>
+            </>
+          ) : (
+            <span>
+              🔒 Tu wallet no tiene acceso a algunos registros cifrados de este
+              paciente.
+            </span>
+          )}
+        </div>
+      )}
       <table className="w-full text-left border-collapse">
         <thead>
           <tr className="text-slate-400 text-xs border-b border-slate-700 uppercase tracking-wider">
@@ -94,49 +437,19 @@ export const MedicalHistoryTable: React.FC<MedicalHistoryTableProps> = ({
             <th className="p-3">Tipo</th>
             <th className="p-3">Descripción</th>
             <th className="p-3">Veterinario</th>
+            {canAmend && <th className="p-3"></th>}
           </tr>
         </thead>
         <tbody className="text-sm divide-y divide-slate-800">
-          {history.map((record) => {
-            const typeInfo = RECORD_TYPES[record.recordType] || RECORD_TYPES[0];
-            const date = new Date(record.timestamp * 1000).toLocaleDateString(
-              "es-ES",
-              {
-                year: "numeric",
-                month: "short",
-                day: "numeric",
-                hour: "2-digit",
-                minute: "2-digit",
-              }
-            );
-
+          {currentRecords.map((record) => {
+            const revisions = getRevisions(record);
+            const isExpanded = expanded.has(record.entryId);
             return (
-              <tr
-                key={record.transactionHash}
-                className="hover:bg-slate-800/50 transition-colors"
-              >
-                <td className="p-3 whitespace-nowrap text-slate-300 font-mono text-xs">
-                  {date}
-                </td>
-                <td className="p-3 whitespace-nowrap">
-                  <span
-                    className={`flex items-center gap-2 font-semibold ${typeInfo.color}`}
-                  >
-                    <span>{typeInfo.icon}</span>
-                    {typeInfo.label}
-                  </span>
-                </td>
-                <td className="p-3 text-slate-200 max-w-xs break-words">
-                  {record.description}
-                </td>
-                <td
-                  className="p-3 whitespace-nowrap font-mono text-xs text-secondary"
-                  title={record.vet}
-                >
-                  {record.vet.substring(0, 6)}...
-                  {record.vet.substring(record.vet.length - 4)}
-                </td>
-              </tr>
+              <React.Fragment key={record.transactionHash}>
+                {renderRow(record, false, revisions.length)}
+                {isExpanded &&
+                  revisions.map((revision) => renderRow(revision, true, 0))}
+              </React.Fragment>
             );
           })}
         </tbody>
@@ -1,21 +1,36 @@
 import React, { useState, useEffect, useCallback } from "react";
-import { Contract } from "ethers";
+import { formatEther, parseEther } from "ethers";
 import { Button } from "./Button";
 import { SmartAddressInput } from "./SmartAddressInput";
-import { Animal } from "../types";
+import { AddressName } from "./AddressName";
+import {
+  Animal,
+  Clinic,
+  ClinicApproval,
+  DeceasedAnimal,
+  TransferOffer,
+  TransferPreflight,
+  VetApproval,
+} from "../types";
 import { MedicalHistoryTable } from "./MedicalHistoryTable";
-
-const resolveIPFS = (url: string | undefined): string => {
-  if (!url) return "";
-  if (url.startsWith("ipfs://")) {
-    return url.replace("ipfs://", "https://gateway.pinata.cloud/ipfs/");
-  }
-  return url;
-};
+import { EncryptionSetupBanner } from "./EncryptionSetupBanner";
+import { VaccineStatusGrid } from "./VaccineStatusGrid";
+import { TransferChecklist } from "./TransferChecklist";
+import { TransferInbox } from "./TransferInbox";
+import { VetDirectoryModal } from "./VetDirectoryModal";
+import { VetChainClient } from "../services/vetChainClient";
+import { resolveIPFS } from "../services/pinataService";
+import { resolveClinicalRecord } from "../services/clinicalRecord";
+import { DeathCertificate } from "../services/deathCertificate";
+import {
+  getStaleKeyHolders,
+  rotateAnimalKey,
+  shareAnimalKeys,
+} from "../services/recordEncryption";
+import { certificateHash, collarTagHash } from "../hooks/useHashRoute";
 
 interface OwnerDashboardProps {
-  nftContract: Contract | null;
-  storageContract: Contract | null;
+  client: VetChainClient | null;
   account: string;
   onBack: () => void;
 }
@@ -28,19 +43,10 @@ interface PetMetadata {
 
 const PetCard: React.FC<{
   pet: Animal;
-  nftContract: Contract;
-  storageContract: Contract | null;
+  client: VetChainClient;
   account: string;
-  onRemove: (id: string) => void;
   onUpdateLostStatus: (id: string, status: boolean) => void;
-}> = ({
-  pet,
-  nftContract,
-  storageContract,
-  account,
-  onRemove,
-  onUpdateLostStatus,
-}) => {
+}> = ({ pet, client, account, onUpdateLostStatus }) => {
   const [metadata, setMetadata] = useState<PetMetadata | null>(null);
   const [loadingMeta, setLoadingMeta] = useState(true);
   const [isDeceased, setIsDeceased] = useState(false);
@@ -48,14 +54,31 @@ const PetCard: React.FC<{
   // Smart Input States
   const [approveInput, setApproveInput] = useState("");
   const [approveAddr, setApproveAddr] = useState<string | null>(null);
+  const [approveDays, setApproveDays] = useState("30");
+  const [approveUses, setApproveUses] = useState("1");
+  const [approvals, setApprovals] = useState<VetApproval[]>([]);
+  // A whole clinic can be approved instead of a single vet
+  const [approveTarget, setApproveTarget] = useState<"vet" | "clinic">("vet");
+  const [clinicIdInput, setClinicIdInput] = useState("");
+  const [clinicPreview, setClinicPreview] = useState<Clinic | null>(null);
+  const [clinicApprovals, setClinicApprovals] = useState<ClinicApproval[]>([]);
 
   const [transferInput, setTransferInput] = useState("");
   const [transferAddr, setTransferAddr] = useState<string | null>(null);
+  const [preflight, setPreflight] = useState<TransferPreflight | null>(null);
+  const [preflightError, setPreflightError] = useState<string | null>(null);
+  // Transfers are offers the recipient must accept, optionally paid
+  const [offerPrice, setOfferPrice] = useState("");
+  const [offerDays, setOfferDays] = useState("7");
+  const [pendingOffer, setPendingOffer] = useState<TransferOffer | null>(null);
+  // Wallets holding the current record key without a live permission
+  const [staleHolders, setStaleHolders] = useState<string[]>([]);
 
   const [actionLoading, setActionLoading] = useState<string | null>(null);
 
   // History Modal State
   const [showHistory, setShowHistory] = useState(false);
+  const [showVetSearch, setShowVetSearch] = useState(false);
 
   // Fetch Metadata & Deceased Status
   useEffect(() => {
@@ -70,20 +93,8 @@ const PetCard: React.FC<{
 
         const json = await response.json();
 
-        // Deceased Check: Query storage history
-        let dead = false;
-        if (storageContract) {
-          const filter = storageContract.filters.MedicalRecordAdded(
-            pet.tokenId
-          );
-          const events = await storageContract.queryFilter(filter);
-          if (events.length > 0) {
-            const latestEvent: any = events.sort(
-              (a: any, b: any) => Number(b.args[1]) - Number(a.args[1])
-            )[0];
-            if (Number(latestEvent.args[4]) === 4) dead = true;
-          }
-        }
+        // Deceased Check: AnimalDeceased is the source of truth
+        const dead = !!(await client.getDeceased(pet.tokenId));
 
         if (isMounted) {
           setMetadata({
@@ -108,20 +119,189 @@ const PetCard: React.FC<{
     return () => {
       isMounted = false;
     };
-  }, [pet.uri, pet.tokenId, storageContract]);
+  }, [pet.uri, pet.tokenId, client]);
 
-  const handleApproveVet = async () => {
-    if (!approveAddr) {
+  const loadApprovals = useCallback(async () => {
+    try {
+      setApprovals(await client.getVetApprovals(pet.tokenId));
+    } catch (error) {
+      console.warn("Could not load vet approvals:", error);
+    }
+    try {
+      setClinicApprovals(await client.getClinicApprovals(pet.tokenId));
+    } catch (error) {
+      console.warn("Could not load clinic approvals:", error);
+    }
+  }, [client, pet.tokenId]);
+
+  useEffect(() => {
+    loadApprovals();
+  }, [loadApprovals]);
+
+  // Show the clinic name so the owner knows who they are approving
+  useEffect(() => {
+    setClinicPreview(null);
+    const clinicId = Number(clinicIdInput);
+    if (!Number.isInteger(clinicId) || clinicId < 1) return;
+    let cancelled = false;
+    client
+      .getClinic(clinicId)
+      .then((clinic) => !cancelled && setClinicPreview(clinic))
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [clinicIdInput, client]);
+
+  const handleApprove = async () => {
+    if (approveTarget === "vet" && !approveAddr) {
       alert("Dirección de Veterinario inválida.");
       return;
     }
+    if (approveTarget === "clinic" && !clinicPreview) {
+      alert("Clínica inexistente.");
+      return;
+    }
+    const days = Number(approveDays);
+    const uses = approveUses.trim() === "" ? 0 : Number(approveUses);
+    if (!Number.isInteger(days) || days < 1) {
+      alert("La vigencia debe ser de al menos 1 día.");
+      return;
+    }
+    if (!Number.isInteger(uses) || uses < 0) {
+      alert("La cantidad de usos debe ser un entero (0 = sin límite).");
+      return;
+    }
     setActionLoading("approving");
     try {
-      const tx = await nftContract.approveVet(approveAddr, pet.tokenId);
+      const expiresAt = Math.floor(Date.now() / 1000) + days * 86400;
+
+      if (approveTarget === "clinic" && clinicPreview) {
+        await approveClinic(clinicPreview, expiresAt, uses);
+      } else if (approveAddr) {
+        await approveVet(approveAddr, expiresAt, uses);
+      }
+      loadApprovals();
+    } catch (error: any) {
+      alert(`Error: ${error.reason || error.message}`);
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  // Hands the record keys over before approving. Never blocks the approval:
+  // vets who haven't enabled encryption yet (or if sharing fails) can still
+  // write, but can't read the history
+  const shareKeysWith = async (recipients: string[]): Promise<string[]> => {
+    try {
+      return await shareAnimalKeys(client, account, pet.tokenId, recipients);
+    } catch (error) {
+      console.warn("Could not share record keys:", error);
+      return recipients;
+    }
+  };
+
+  const withoutKeysWarning = (withoutKeys: string[]) =>
+    withoutKeys.length > 0
+      ? `\n\nAún no activaron el cifrado y no podrán leer el historial: ${withoutKeys.join(", ")}`
+      : "";
+
+  const approveVet = async (vet: string, expiresAt: number, uses: number) => {
+    const withoutKeys = await shareKeysWith([vet]);
+
+    const tx = await client.approveVet(vet, pet.tokenId, expiresAt, uses);
+    await tx.wait();
+    alert(`Vet ${vet} aprobado.` + withoutKeysWarning(withoutKeys));
+    setApproveInput("");
+    setApproveAddr(null);
+  };
+
+  const approveClinic = async (
+    clinic: Clinic,
+    expiresAt: number,
+    uses: number
+  ) => {
+    // Every current member gets the record keys
+    const members = await client.getClinicMembers(clinic.clinicId);
+    const withoutKeys = await shareKeysWith(members);
+
+    const tx = await client.approveClinic(
+      clinic.clinicId,
+      pet.tokenId,
+      expiresAt,
+      uses
+    );
+    await tx.wait();
+    alert(
+      `Clínica "${clinic.name}" aprobada.` + withoutKeysWarning(withoutKeys)
+    );
+    setClinicIdInput("");
+  };
+
+  const loadStaleHolders = useCallback(async () => {
+    try {
+      setStaleHolders(await getStaleKeyHolders(client, account, pet.tokenId));
+    } catch (error) {
+      console.warn("Could not check record key holders:", error);
+    }
+  }, [client, account, pet.tokenId]);
+
+  useEffect(() => {
+    if (!isDeceased) loadStaleHolders();
+  }, [loadStaleHolders, isDeceased, approvals, clinicApprovals, pendingOffer]);
+
+  // Revoking on-chain doesn't take back a key already handed over: new
+  // records move to a fresh key only the remaining readers get
+  const rotateKeyAfterRevoke = async () => {
+    try {
+      await rotateAnimalKey(client, account, pet.tokenId);
+    } catch (error: any) {
+      alert(
+        `El permiso se revocó, pero no se pudo rotar la clave del historial: ${error.reason || error.message}`
+      );
+    }
+    loadStaleHolders();
+  };
+
+  const handleRotateKey = async () => {
+    setActionLoading("rotating_key");
+    try {
+      await rotateAnimalKey(client, account, pet.tokenId);
+      loadStaleHolders();
+    } catch (error: any) {
+      alert(`Error: ${error.reason || error.message}`);
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleRevokeClinic = async (approval: ClinicApproval) => {
+    const { clinic } = approval;
+    if (!confirm(`¿Revocar el permiso de la clínica "${clinic.name}"?`)) return;
+    setActionLoading(`revoking_clinic_${clinic.clinicId}`);
+    try {
+      const tx = await client.revokeClinic(clinic.clinicId, pet.tokenId);
+      await tx.wait();
+      // New records get a key the members don't have, except for vets
+      // approved on their own
+      await rotateKeyAfterRevoke();
+      loadApprovals();
+    } catch (error: any) {
+      alert(`Error: ${error.reason || error.message}`);
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleRevokeVet = async (vet: string) => {
+    if (!confirm(`¿Revocar el permiso de ${vet}?`)) return;
+    setActionLoading(`revoking_${vet}`);
+    try {
+      const tx = await client.revokeVet(vet, pet.tokenId);
       await tx.wait();
-      alert(`Vet ${approveAddr} aprobado.`);
-      setApproveInput("");
-      setApproveAddr(null);
+      // Also rotate the key so they stop decrypting new records
+      await rotateKeyAfterRevoke();
+      loadApprovals();
     } catch (error: any) {
       alert(`Error: ${error.reason || error.message}`);
     } finally {
@@ -129,21 +309,110 @@ const PetCard: React.FC<{
     }
   };
 
-  const handleTransfer = async () => {
+  // Re-check the transfer rules whenever the recipient or lost status changes
+  useEffect(() => {
+    if (isDeceased) return;
+    let cancelled = false;
+    setPreflight(null);
+    setPreflightError(null);
+    client
+      .getTransferPreflight(pet.tokenId, account, transferAddr)
+      .then((result) => !cancelled && setPreflight(result))
+      .catch((error) => {
+        console.error("Error checking transfer rules:", error);
+        if (!cancelled) setPreflightError(error.reason || error.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [client, account, pet.tokenId, pet.isLost, transferAddr, isDeceased]);
+
+  const rulesPass = !!preflight && preflight.checks.every((c) => c.passes);
+  const canTransfer =
+    !!transferAddr && rulesPass && !preflight?.simulationError;
+
+  const loadPendingOffer = useCallback(async () => {
+    try {
+      setPendingOffer(await client.getTransferOffer(pet.tokenId));
+    } catch (error) {
+      console.warn("Could not load transfer offer:", error);
+    }
+  }, [client, pet.tokenId]);
+
+  useEffect(() => {
+    if (!isDeceased) loadPendingOffer();
+  }, [loadPendingOffer, isDeceased]);
+
+  const handleOfferTransfer = async () => {
     if (!transferAddr) {
       alert("Dirección de destino inválida.");
       return;
     }
-    setActionLoading("transferring");
+    let price: bigint;
+    try {
+      price = parseEther(offerPrice.trim() || "0");
+    } catch {
+      alert("Precio inválido.");
+      return;
+    }
+    const days = Number(offerDays);
+    if (!days || days < 1) {
+      alert("Indica por cuántos días vale la oferta.");
+      return;
+    }
+    setActionLoading("offering");
     try {
-      const tx = await nftContract.safeTransferFrom(
-        account,
+      // Wrap the record keys for the recipient while we still hold them
+      try {
+        const withoutKeys = await shareAnimalKeys(
+          client,
+          account,
+          pet.tokenId,
+          [transferAddr]
+        );
+        if (withoutKeys.length > 0) {
+          throw new Error(
+            "El destinatario aún no activó el cifrado en VetChain"
+          );
+        }
+      } catch (error: any) {
+        const proceed = confirm(
+          `No se pudo compartir el historial cifrado: ${error.message}. ` +
+            "Si continúas, el nuevo dueño no podrá leer los registros anteriores. ¿Ofrecer igual?"
+        );
+        if (!proceed) return;
+      }
+
+      const deadline = Math.floor(Date.now() / 1000) + days * 24 * 60 * 60;
+      const tx = await client.offerTransfer(
+        pet.tokenId,
         transferAddr,
-        pet.tokenId
+        price,
+        deadline
+      );
+      await tx.wait();
+      alert(
+        "Oferta enviada. La mascota cambia de dueño cuando el destinatario la acepta."
       );
+      setTransferInput("");
+      setTransferAddr(null);
+      setOfferPrice("");
+      loadPendingOffer();
+    } catch (error: any) {
+      alert(`Error: ${error.reason || error.message}`);
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleCancelOffer = async () => {
+    if (!pendingOffer) return;
+    setActionLoading("cancelling_offer");
+    try {
+      const tx = await client.cancelTransferOffer(pet.tokenId);
       await tx.wait();
-      alert(`Mascota transferida.`);
-      onRemove(pet.tokenId);
+      await rotateKeyAfterRevoke();
+      setPendingOffer(null);
     } catch (error: any) {
       alert(`Error: ${error.reason || error.message}`);
     } finally {
@@ -154,7 +423,7 @@ const PetCard: React.FC<{
   const handleToggleLost = async () => {
     setActionLoading("toggling_lost");
     try {
-      const tx = await nftContract.setLostStatus(pet.tokenId, !pet.isLost);
+      const tx = await client.setLostStatus(pet.tokenId, !pet.isLost);
       await tx.wait();
       onUpdateLostStatus(pet.tokenId, !pet.isLost);
     } catch (error: any) {
@@ -214,18 +483,42 @@ const PetCard: React.FC<{
               <h3 className="text-xl font-bold text-white truncate">
                 {metadata?.name}
               </h3>
-              <button
-                onClick={() => setShowHistory(true)}
-                className="text-xs bg-indigo-500/20 text-indigo-300 px-2 py-1 rounded hover:bg-indigo-500/30 transition-colors"
-              >
-                📜 Historial
-              </button>
+              <div className="flex gap-1 shrink-0">
+                {!isDeceased && (
+                  <>
+                    <a
+                      href={collarTagHash(pet.tokenId)}
+                      title="QR para el collar"
+                      className="text-xs bg-amber-500/20 text-amber-300 px-2 py-1 rounded hover:bg-amber-500/30 transition-colors"
+                    >
+                      🏷️ Chapita
+                    </a>
+                    <a
+                      href={certificateHash(pet.tokenId)}
+                      title="Certificado de vacunación imprimible"
+                      className="text-xs bg-emerald-500/20 text-emerald-300 px-2 py-1 rounded hover:bg-emerald-500/30 transition-colors"
+                    >
+                      📄 Certificado
+                    </a>
+                  </>
+                )}
+                <button
+                  onClick={() => setShowHistory(true)}
+                  className="text-xs bg-indigo-500/20 text-indigo-300 px-2 py-1 rounded hover:bg-indigo-500/30 transition-colors"
+                >
+                  📜 Historial
+                </button>
+              </div>
             </div>
             <p className="text-xs text-slate-400 truncate mt-1">
               {metadata?.description}
             </p>
           </div>
 
+          {!isDeceased && (
+            <VaccineStatusGrid client={client} tokenId={pet.tokenId} compact />
+          )}
+
           <Button
             variant={pet.isLost ? "success" : "danger"}
             className="w-full text-sm py-1"
@@ -245,15 +538,84 @@ const PetCard: React.FC<{
               Autorizar Vet
             </label>
             <div className="flex flex-col gap-2">
-              <SmartAddressInput
-                value={approveInput}
-                onChange={setApproveInput}
-                onAddressResolved={setApproveAddr}
-                placeholder="Email o 0x..."
-              />
+              <div className="flex text-[10px] rounded overflow-hidden border border-slate-700">
+                {(["vet", "clinic"] as const).map((target) => (
+                  <button
+                    key={target}
+                    onClick={() => setApproveTarget(target)}
+                    className={`flex-1 py-1 ${
+                      approveTarget === target
+                        ? "bg-secondary/20 text-secondary font-bold"
+                        : "text-slate-400 hover:text-white"
+                    }`}
+                  >
+                    {target === "vet" ? "Veterinario" : "Clínica"}
+                  </button>
+                ))}
+              </div>
+              {approveTarget === "vet" ? (
+                <div className="space-y-1">
+                  <SmartAddressInput
+                    value={approveInput}
+                    onChange={setApproveInput}
+                    onAddressResolved={setApproveAddr}
+                    placeholder="Email o 0x..."
+                  />
+                  {client.network.contracts.VET_PROFILES && (
+                    <button
+                      onClick={() => setShowVetSearch(true)}
+                      className="text-[10px] text-secondary hover:underline"
+                    >
+                      🔎 Buscar en el directorio
+                    </button>
+                  )}
+                </div>
+              ) : (
+                <div>
+                  <input
+                    type="number"
+                    min={1}
+                    placeholder="ID de clínica"
+                    value={clinicIdInput}
+                    onChange={(e) => setClinicIdInput(e.target.value)}
+                    className="w-full bg-slate-800 border border-slate-700 text-white rounded-lg px-3 py-2 text-sm outline-none focus:border-primary"
+                  />
+                  {clinicIdInput && (
+                    <p className="text-[10px] mt-1 text-slate-400">
+                      {clinicPreview
+                        ? `🏥 ${clinicPreview.name}`
+                        : "Clínica no encontrada"}
+                    </p>
+                  )}
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-2">
+                <label className="text-[10px] text-slate-400">
+                  Vigencia (días)
+                  <input
+                    type="number"
+                    min={1}
+                    value={approveDays}
+                    onChange={(e) => setApproveDays(e.target.value)}
+                    className="mt-1 w-full bg-slate-800 border border-slate-700 text-white rounded px-2 py-1 text-xs outline-none focus:border-primary"
+                  />
+                </label>
+                <label className="text-[10px] text-slate-400">
+                  Usos (0 = sin límite)
+                  <input
+                    type="number"
+                    min={0}
+                    value={approveUses}
+                    onChange={(e) => setApproveUses(e.target.value)}
+                    className="mt-1 w-full bg-slate-800 border border-slate-700 text-white rounded px-2 py-1 text-xs outline-none focus:border-primary"
+                  />
+                </label>
+              </div>
               <Button
-                onClick={handleApproveVet}
-                disabled={!approveAddr}
+                onClick={handleApprove}
+                disabled={
+                  approveTarget === "vet" ? !approveAddr : !clinicPreview
+                }
                 isLoading={actionLoading === "approving"}
                 variant="secondary"
                 className="w-full text-xs h-[32px]"
@@ -261,6 +623,85 @@ const PetCard: React.FC<{
                 Confirmar
               </Button>
             </div>
+            {(approvals.length > 0 || clinicApprovals.length > 0) && (
+              <ul className="space-y-1 pt-1">
+                {clinicApprovals.map((approval) => (
+                  <li
+                    key={`clinic-${approval.clinic.clinicId}`}
+                    className="flex items-center justify-between gap-2 bg-slate-800 rounded px-2 py-1 text-[10px] text-slate-300"
+                  >
+                    <div className="min-w-0">
+                      <div className="truncate">🏥 {approval.clinic.name}</div>
+                      <div className="text-slate-500">
+                        Vence{" "}
+                        {new Date(
+                          approval.expiresAt * 1000
+                        ).toLocaleDateString()}{" "}
+                        ·{" "}
+                        {approval.remainingUses === 0
+                          ? "usos ilimitados"
+                          : `${approval.remainingUses} uso(s) restante(s)`}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => handleRevokeClinic(approval)}
+                      disabled={
+                        actionLoading ===
+                        `revoking_clinic_${approval.clinic.clinicId}`
+                      }
+                      className="text-red-400 hover:text-red-300 disabled:opacity-50 shrink-0"
+                    >
+                      Revocar
+                    </button>
+                  </li>
+                ))}
+                {approvals.map((approval) => (
+                  <li
+                    key={approval.vet}
+                    className="flex items-center justify-between gap-2 bg-slate-800 rounded px-2 py-1 text-[10px] text-slate-300"
+                  >
+                    <div className="min-w-0">
+                      <AddressName
+                        address={approval.vet}
+                        className="block truncate"
+                      />
+                      <div className="text-slate-500">
+                        Vence{" "}
+                        {new Date(
+                          approval.expiresAt * 1000
+                        ).toLocaleDateString()}{" "}
+                        ·{" "}
+                        {approval.remainingUses === 0
+                          ? "usos ilimitados"
+                          : `${approval.remainingUses} uso(s) restante(s)`}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => handleRevokeVet(approval.vet)}
+                      disabled={actionLoading === `revoking_${approval.vet}`}
+                      className="text-red-400 hover:text-red-300 disabled:opacity-50 shrink-0"
+                    >
+                      Revocar
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {staleHolders.length > 0 && (
+              <div className="flex items-center justify-between gap-2 bg-amber-500/10 border border-amber-500/40 rounded px-2 py-1 text-[10px] text-amber-300">
+                <span>
+                  {staleHolders.length} wallet(s) sin permiso vigente todavía
+                  tienen la clave del historial (permisos u ofertas vencidas).
+                </span>
+                <button
+                  onClick={handleRotateKey}
+                  disabled={actionLoading === "rotating_key"}
+                  className="font-bold hover:text-amber-200 disabled:opacity-50 shrink-0"
+                >
+                  Rotar clave
+                </button>
+              </div>
+            )}
           </div>
 
           <div
@@ -272,112 +713,289 @@ const PetCard: React.FC<{
               Transferir
             </label>
             <div className="flex flex-col gap-2">
+              {pendingOffer && (
+                <div className="flex items-center justify-between gap-2 bg-slate-800 rounded px-2 py-1 text-[10px] text-slate-300">
+                  <div className="min-w-0">
+                    <div className="truncate">
+                      Oferta pendiente a{" "}
+                      <AddressName address={pendingOffer.to} />
+                    </div>
+                    <div className="text-slate-500">
+                      {pendingOffer.price > 0n
+                        ? `${formatEther(pendingOffer.price)} ETH`
+                        : "Sin pago"}{" "}
+                      · vence{" "}
+                      {new Date(
+                        pendingOffer.deadline * 1000
+                      ).toLocaleDateString()}
+                    </div>
+                  </div>
+                  <button
+                    onClick={handleCancelOffer}
+                    disabled={actionLoading === "cancelling_offer"}
+                    className="text-red-400 hover:text-red-300 disabled:opacity-50 shrink-0"
+                  >
+                    Retirar
+                  </button>
+                </div>
+              )}
               <SmartAddressInput
                 value={transferInput}
                 onChange={setTransferInput}
                 onAddressResolved={setTransferAddr}
                 placeholder="Email o 0x..."
               />
+              <div className="grid grid-cols-2 gap-2">
+                <label className="text-[10px] text-slate-400">
+                  Precio (ETH, opcional)
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    placeholder="0"
+                    value={offerPrice}
+                    onChange={(e) => setOfferPrice(e.target.value)}
+                    className="mt-1 w-full bg-slate-800 border border-slate-700 text-white rounded px-2 py-1 text-xs outline-none focus:border-primary"
+                  />
+                </label>
+                <label className="text-[10px] text-slate-400">
+                  Vigencia (días)
+                  <input
+                    type="number"
+                    min={1}
+                    value={offerDays}
+                    onChange={(e) => setOfferDays(e.target.value)}
+                    className="mt-1 w-full bg-slate-800 border border-slate-700 text-white rounded px-2 py-1 text-xs outline-none focus:border-primary"
+                  />
+                </label>
+              </div>
+              <TransferChecklist
+                preflight={preflight}
+                error={preflightError}
+                hasRecipient={!!transferAddr}
+              />
               <Button
-                onClick={handleTransfer}
-                disabled={!transferAddr}
-                isLoading={actionLoading === "transferring"}
+                onClick={handleOfferTransfer}
+                disabled={!canTransfer}
+                isLoading={actionLoading === "offering"}
                 variant="danger"
                 className="w-full text-xs h-[32px]"
               >
-                Transferir
+                {pendingOffer ? "Reemplazar Oferta" : "Ofrecer Transferencia"}
               </Button>
+              {!canTransfer && (
+                <p className="text-[10px] text-slate-500">
+                  {!rulesPass
+                    ? "La transferencia se habilita cuando se cumplen todos los requisitos."
+                    : !transferAddr
+                      ? "Indica el nuevo dueño para simular la transferencia."
+                      : "La simulación on-chain rechazó la transferencia."}
+                </p>
+              )}
             </div>
           </div>
         </div>
       </div>
 
-      {/* Medical History Modal */}
       {showHistory && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-fade-in">
-          <div className="bg-slate-900 border border-slate-700 rounded-xl w-full max-w-3xl max-h-[90vh] flex flex-col shadow-2xl">
-            <div className="p-4 border-b border-slate-700 flex justify-between items-center">
-              <h3 className="text-xl font-bold text-white">
-                📑 Historia Clínica: {metadata?.name}
-              </h3>
-              <button
-                onClick={() => setShowHistory(false)}
-                className="text-slate-400 hover:text-white text-2xl leading-none"
-              >
-                &times;
-              </button>
-            </div>
-            <div className="flex-1 overflow-y-auto p-4 custom-scrollbar">
-              <MedicalHistoryTable
-                tokenId={pet.tokenId}
-                storageContract={storageContract}
-              />
-            </div>
-            <div className="p-4 border-t border-slate-700 bg-slate-800/50 rounded-b-xl">
-              <Button
-                onClick={() => setShowHistory(false)}
-                variant="secondary"
-                className="w-full"
-              >
-                Cerrar
-              </Button>
-            </div>
+        <HistoryModal
+          tokenId={pet.tokenId}
+          name={metadata?.name}
+          client={client}
+          account={account}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {showVetSearch && (
+        <VetDirectoryModal
+          client={client}
+          onSelect={setApproveInput}
+          onClose={() => setShowVetSearch(false)}
+        />
+      )}
+    </>
+  );
+};
+
+// Medical history modal, shared by active pets and the memorial
+const HistoryModal: React.FC<{
+  tokenId: string;
+  name?: string;
+  client: VetChainClient;
+  account: string;
+  onClose: () => void;
+}> = ({ tokenId, name, client, account, onClose }) => (
+  <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-fade-in">
+    <div className="bg-slate-900 border border-slate-700 rounded-xl w-full max-w-3xl max-h-[90vh] flex flex-col shadow-2xl">
+      <div className="p-4 border-b border-slate-700 flex justify-between items-center">
+        <h3 className="text-xl font-bold text-white">
+          📑 Historia Clínica: {name}
+        </h3>
+        <button
+          onClick={onClose}
+          className="text-slate-400 hover:text-white text-2xl leading-none"
+        >
+          &times;
+        </button>
+      </div>
+      <div className="flex-1 overflow-y-auto p-4 custom-scrollbar">
+        <MedicalHistoryTable
+          tokenId={tokenId}
+          client={client}
+          account={account}
+        />
+      </div>
+      <div className="p-4 border-t border-slate-700 bg-slate-800/50 rounded-b-xl">
+        <Button onClick={onClose} variant="secondary" className="w-full">
+          Cerrar
+        </Button>
+      </div>
+    </div>
+  </div>
+);
+
+const MemorialCard: React.FC<{
+  pet: DeceasedAnimal;
+  client: VetChainClient;
+  account: string;
+}> = ({ pet, client, account }) => {
+  const [metadata, setMetadata] = useState<PetMetadata | null>(null);
+  const [certificate, setCertificate] = useState<DeathCertificate | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+
+  useEffect(() => {
+    let isMounted = true;
+    // The token is burned: metadata comes from the URI kept in the event
+    fetch(resolveIPFS(pet.finalUri))
+      .then((response) => response.json())
+      .then((json) => {
+        if (!isMounted) return;
+        setMetadata({
+          name: json.name || "Sin Nombre",
+          description: json.description,
+          image: resolveIPFS(json.image),
+        });
+      })
+      .catch(() => {
+        if (!isMounted) return;
+        setMetadata({
+          name: `Chip #${pet.tokenId}`,
+          image: "https://placehold.co/400x300?text=No+Metadata",
+        });
+      });
+
+    if (pet.certificateUri) {
+      resolveClinicalRecord(pet.certificateUri, pet.tokenId).then(
+        (resolved) => {
+          if (isMounted && resolved.kind === "death") {
+            setCertificate(resolved.certificate);
+          }
+        }
+      );
+    }
+    return () => {
+      isMounted = false;
+    };
+  }, [pet.finalUri, pet.certificateUri, pet.tokenId]);
+
+  // The certificate has the actual date; the event only has the report time
+  const dateOfDeath = certificate
+    ? new Date(`${certificate.dateOfDeath}T00:00:00`)
+    : new Date(pet.reportedAt * 1000);
+
+  return (
+    <>
+      <div className="bg-zinc-900 rounded-xl overflow-hidden border border-zinc-700 shadow-md flex flex-col">
+        <div className="h-40 bg-zinc-950 w-full relative">
+          {metadata && (
+            <img
+              src={metadata.image}
+              alt={metadata.name}
+              className="w-full h-full object-cover grayscale opacity-80"
+            />
+          )}
+          <div className="absolute top-2 right-2 bg-black/70 text-white px-3 py-1 rounded-full text-xs font-mono border border-zinc-600">
+            ID: {pet.tokenId}
           </div>
         </div>
+        <div className="p-4 flex-1 flex flex-col gap-2">
+          <h3 className="text-lg font-bold text-zinc-100 truncate">
+            {metadata?.name || "..."}
+          </h3>
+          <p className="text-sm text-zinc-400">
+            ✝{" "}
+            {dateOfDeath.toLocaleDateString("es-ES", {
+              year: "numeric",
+              month: "long",
+              day: "numeric",
+            })}
+          </p>
+          {certificate && (
+            <p className="text-xs text-zinc-500 truncate">
+              {certificate.cause} · {certificate.place}
+            </p>
+          )}
+          <a
+            href={resolveIPFS(pet.finalUri)}
+            target="_blank"
+            rel="noreferrer"
+            className="text-xs text-zinc-500 hover:text-zinc-300 underline decoration-dotted truncate"
+            title={pet.finalUri}
+          >
+            Metadatos finales
+          </a>
+          <Button
+            onClick={() => setShowHistory(true)}
+            variant="secondary"
+            className="w-full text-sm py-1 mt-auto"
+          >
+            📜 Ver Historial
+          </Button>
+        </div>
+      </div>
+
+      {showHistory && (
+        <HistoryModal
+          tokenId={pet.tokenId}
+          name={metadata?.name}
+          client={client}
+          account={account}
+          onClose={() => setShowHistory(false)}
+        />
       )}
     </>
   );
 };
 
 export const OwnerDashboard: React.FC<OwnerDashboardProps> = ({
-  nftContract,
-  storageContract,
+  client,
   account,
   onBack,
 }) => {
   const [pets, setPets] = useState<Animal[]>([]);
+  const [deceasedPets, setDeceasedPets] = useState<DeceasedAnimal[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
   const fetchMyPets = useCallback(async () => {
-    if (!nftContract || !account) return;
+    if (!client || !account) return;
     setIsLoading(true);
     try {
-      // 1. Get all Transfer events where 'to' is current account
-      const filter = nftContract.filters.Transfer(undefined, account);
-      const events = await nftContract.queryFilter(filter);
-
-      // 2. Extract unique token IDs
-      const candidateIds = new Set<string>();
-      events.forEach((event: any) => {
-        if (event.args && event.args[2]) {
-          candidateIds.add(event.args[2].toString());
-        }
-      });
-
-      // 3. Verify current ownership
-      const validPets: Animal[] = [];
-
-      for (const tokenId of candidateIds) {
-        try {
-          const currentOwner = await nftContract.ownerOf(tokenId);
-          if (currentOwner.toLowerCase() === account.toLowerCase()) {
-            const uri = await nftContract.tokenURI(tokenId);
-            const isLost = await nftContract.isLost(tokenId);
-            validPets.push({ tokenId, uri, isLost });
-          }
-        } catch (err) {
-          console.warn(`Could not verify ownership of ${tokenId}`, err);
-        }
-      }
+      // Transfer events to the account (local index) + current ownership check
+      const validPets = await client.getOwnedAnimals(account);
+      // Burned by reportDecease: they no longer have an owner, but we keep
+      // them from the AnimalDeceased events and our own burn Transfers
+      const deceased = await client.getDeceasedAnimals(account);
 
       setPets(validPets);
+      setDeceasedPets(deceased);
     } catch (error) {
       console.error("Error auto-fetching pets:", error);
       alert("Error cargando mascotas desde la blockchain.");
     } finally {
       setIsLoading(false);
     }
-  }, [nftContract, account]);
+  }, [client, account]);
 
   useEffect(() => {
     fetchMyPets();
@@ -393,6 +1011,20 @@ export const OwnerDashboard: React.FC<OwnerDashboardProps> = ({
         <span>⬅</span> Volver al Menú
       </button>
 
+      <EncryptionSetupBanner
+        client={client}
+        account={account}
+        message="Activa el cifrado para poder recibir mascotas con su historial médico."
+      />
+
+      {client && (
+        <TransferInbox
+          client={client}
+          account={account}
+          onAccepted={fetchMyPets}
+        />
+      )}
+
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-bold text-white">Mis Mascotas</h2>
         <Button
@@ -417,12 +1049,8 @@ export const OwnerDashboard: React.FC<OwnerDashboardProps> = ({
             <PetCard
               key={pet.tokenId}
               pet={pet}
-              nftContract={nftContract!}
-              storageContract={storageContract}
+              client={client!}
               account={account}
-              onRemove={(id) =>
-                setPets((p) => p.filter((x) => x.tokenId !== id))
-              }
               onUpdateLostStatus={(id, status) =>
                 setPets((p) =>
                   p.map((x) =>
@@ -445,6 +1073,27 @@ export const OwnerDashboard: React.FC<OwnerDashboardProps> = ({
           )}
         </div>
       )}
+
+      {!isLoading && deceasedPets.length > 0 && (
+        <section className="space-y-4 pt-4 border-t border-slate-800">
+          <div>
+            <h2 className="text-2xl font-bold text-zinc-300">🕯️ In memoriam</h2>
+            <p className="text-sm text-slate-500">
+              Su historia clínica sigue disponible para consulta.
+            </p>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+            {deceasedPets.map((pet) => (
+              <MemorialCard
+                key={pet.tokenId}
+                pet={pet}
+                client={client!}
+                account={account}
+              />
+            ))}
+          </div>
+        </section>
+      )}
     </div>
   );
 };
@@ -0,0 +1,279 @@
+import React, { useState, useEffect, useMemo } from "react";
+import { Input } from "./Input";
+import { Button } from "./Button";
+import { VaccineStatusGrid } from "./VaccineStatusGrid";
+import { QRScannerModal } from "./QRScannerModal";
+import { createPublicClient } from "../services/publicClient";
+import { resolveIPFS } from "../services/pinataService";
+import { getEmailByAddress } from "../services/directoryService";
+import { scannedPetHash } from "../services/petTag";
+import { petLookupHash } from "../hooks/useHashRoute";
+
+interface PublicPetLookupProps {
+  chipId: string | null;
+  // From a collar tag; null means the default network
+  chainId: string | null;
+  contract: string | null;
+  onExit: () => void;
+}
+
+interface PublicPet {
+  tokenId: string;
+  name: string;
+  image: string;
+  isLost: boolean;
+  isVaccineValid: boolean;
+  isDeceased: boolean;
+  ownerEmail: string | null;
+}
+
+// Read-only lookup for people without a wallet (finders, shelters, groomers).
+// Shows identity, lost status and vaccine validity; never the medical history.
+export const PublicPetLookup: React.FC<PublicPetLookupProps> = ({
+  chipId,
+  chainId,
+  contract,
+  onExit,
+}) => {
+  const client = useMemo(
+    () => createPublicClient(chainId || undefined),
+    [chainId]
+  );
+  // Same chip number, different deployment: the data may be another pet's
+  const otherContract =
+    !!client &&
+    !!contract &&
+    contract.toLowerCase() !==
+      client.network.contracts.ANIMAL_NFT.toLowerCase();
+  const [chipInput, setChipInput] = useState(chipId || "");
+  const [pet, setPet] = useState<PublicPet | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [notFound, setNotFound] = useState(false);
+  const [showScanner, setShowScanner] = useState(false);
+
+  useEffect(() => {
+    setChipInput(chipId || "");
+    setPet(null);
+    setNotFound(false);
+    if (!client || !chipId) return;
+
+    let cancelled = false;
+    const lookup = async () => {
+      setLoading(true);
+      try {
+        const status = await client.getPetStatus(chipId);
+        let uri: string;
+        let ownerEmail: string | null = null;
+        if (status.exists) {
+          const [animal, owner] = await Promise.all([
+            client.getAnimal(chipId),
+            client.getOwner(chipId),
+          ]);
+          uri = animal.uri;
+          ownerEmail = await getEmailByAddress(owner);
+        } else {
+          // Burned by reportDecease: only the final URI remains
+          const deceased = await client.getDeceased(chipId);
+          if (!deceased) {
+            if (!cancelled) setNotFound(true);
+            return;
+          }
+          uri = deceased.finalUri;
+        }
+
+        const json = await fetch(resolveIPFS(uri))
+          .then((response) => response.json())
+          .catch(() => ({}));
+        if (cancelled) return;
+        setPet({
+          tokenId: chipId,
+          name: json.name || `Chip #${chipId}`,
+          image: json.image
+            ? resolveIPFS(json.image)
+            : "https://placehold.co/400x300?text=No+Metadata",
+          isLost: status.isLost,
+          isVaccineValid: status.isVaccineValid,
+          isDeceased: !status.exists,
+          ownerEmail,
+        });
+      } catch (error) {
+        console.error("Public lookup failed:", error);
+        if (!cancelled) setNotFound(true);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    lookup();
+    return () => {
+      cancelled = true;
+    };
+  }, [client, chipId]);
+
+  const handleSearch = () => {
+    const id = chipInput.trim();
+    if (!/^\d+$/.test(id)) {
+      alert("El ID de chip es un número.");
+      return;
+    }
+    window.location.hash = petLookupHash(id);
+  };
+
+  const handleScan = (text: string): boolean => {
+    const hash = scannedPetHash(text);
+    if (!hash) return false;
+    window.location.hash = hash;
+    return true;
+  };
+
+  const contactHref = (found: PublicPet) => {
+    const subject = found.isLost
+      ? `Encontré a ${found.name} (chip ${found.tokenId})`
+      : `Consulta sobre ${found.name} (chip ${found.tokenId})`;
+    return `mailto:${found.ownerEmail}?subject=${encodeURIComponent(subject)}`;
+  };
+
+  return (
+    <div className="max-w-lg mx-auto space-y-6 animate-fade-in">
+      <button
+        onClick={onExit}
+        className="flex items-center gap-2 text-slate-400 hover:text-white transition-colors"
+      >
+        <span>⬅</span> Volver al Inicio
+      </button>
+
+      <div className="bg-surface p-6 rounded-xl shadow-lg border border-slate-700">
+        <h2 className="text-xl font-bold mb-2 text-white flex items-center gap-2">
+          <span className="text-secondary">🔎</span> Buscar Mascota
+        </h2>
+        <p className="text-xs text-slate-400 mb-4">
+          Ingresa el número de microchip. No hace falta wallet.
+        </p>
+        {client ? (
+          <div className="flex gap-2 items-end">
+            <Input
+              label="ID de Chip"
+              placeholder="ej. 1001"
+              value={chipInput}
+              onChange={(e) => setChipInput(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSearch()}
+            />
+            <Button
+              onClick={handleSearch}
+              isLoading={loading}
+              variant="secondary"
+              className="mb-[1px]"
+            >
+              Buscar
+            </Button>
+            <Button
+              onClick={() => setShowScanner(true)}
+              variant="secondary"
+              className="mb-[1px]"
+              title="Escanear chapita"
+            >
+              📷
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-red-300">
+            {chainId
+              ? "La chapita es de una red que esta app no soporta."
+              : "La red configurada no está soportada."}
+          </p>
+        )}
+      </div>
+
+      {otherContract && (
+        <div className="p-3 bg-amber-500/10 border border-amber-500/40 rounded-xl text-xs text-amber-300">
+          ⚠ La chapita se generó para otro contrato ({contract}). Los datos de
+          abajo pueden corresponder a otra mascota con el mismo número.
+        </div>
+      )}
+
+      {notFound && (
+        <div className="p-4 bg-slate-900/50 border border-dashed border-slate-700 rounded-xl text-center text-slate-400">
+          No encontramos ninguna mascota con el chip #{chipId}.
+        </div>
+      )}
+
+      {pet && (
+        <div
+          className={`bg-surface rounded-xl overflow-hidden border shadow-lg ${
+            pet.isLost ? "border-red-500" : "border-slate-700"
+          }`}
+        >
+          <div className="h-56 bg-slate-800 relative">
+            <img
+              src={pet.image}
+              alt={pet.name}
+              className={`w-full h-full object-cover ${
+                pet.isDeceased ? "grayscale opacity-80" : ""
+              }`}
+            />
+            <div className="absolute top-2 right-2 bg-black/70 text-white px-3 py-1 rounded-full text-xs font-mono border border-slate-600">
+              ID: {pet.tokenId}
+            </div>
+            {pet.isLost && (
+              <div className="absolute bottom-0 inset-x-0 bg-red-600 text-white text-center font-bold py-1">
+                ⚠️ REPORTADO COMO PERDIDO
+              </div>
+            )}
+          </div>
+
+          <div className="p-4 space-y-4">
+            <h3 className="text-2xl font-bold text-white">{pet.name}</h3>
+
+            {pet.isDeceased ? (
+              <p className="text-sm text-zinc-400">🕯️ Esta mascota falleció.</p>
+            ) : (
+              <>
+                <p
+                  className={`text-sm font-bold ${
+                    pet.isVaccineValid ? "text-green-300" : "text-amber-300"
+                  }`}
+                >
+                  {pet.isVaccineValid
+                    ? "✓ Vacunas obligatorias al día"
+                    : "✗ Vacunas obligatorias vencidas o sin registrar"}
+                </p>
+                <VaccineStatusGrid
+                  client={client!}
+                  tokenId={pet.tokenId}
+                  compact
+                />
+
+                {pet.ownerEmail ? (
+                  <a
+                    href={contactHref(pet)}
+                    className="block w-full text-center px-4 py-2 rounded-lg font-semibold bg-primary hover:bg-indigo-500 text-white shadow-md"
+                  >
+                    ✉️ Contactar al dueño
+                  </a>
+                ) : (
+                  <p className="text-xs text-slate-500">
+                    El dueño no vinculó un email de contacto. Si lo encontraste,
+                    llévalo a una veterinaria para que lean el chip.
+                  </p>
+                )}
+              </>
+            )}
+
+            <p className="text-[10px] text-slate-500">
+              El historial clínico solo es visible para el dueño y los
+              veterinarios que autorice.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {showScanner && (
+        <QRScannerModal
+          title="Escanear Chapita"
+          hint="Apunta al QR del collar o a uno con el número de chip."
+          onScan={handleScan}
+          onClose={() => setShowScanner(false)}
+        />
+      )}
+    </div>
+  );
+};
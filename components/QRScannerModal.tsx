@@ -0,0 +1,91 @@
+import React, { useEffect, useRef } from "react";
+
+// Global declaration for Html5QrcodeScanner loaded via script tag
+declare global {
+  interface Window {
+    Html5QrcodeScanner: any;
+  }
+}
+
+interface QRScannerModalProps {
+  title: string;
+  // Return true once the text is usable; anything else keeps scanning
+  onScan: (text: string) => boolean;
+  onClose: () => void;
+  hint?: string;
+}
+
+// Camera QR reader shared by address inputs and collar tag scanning
+export const QRScannerModal: React.FC<QRScannerModalProps> = ({
+  title,
+  onScan,
+  onClose,
+  hint,
+}) => {
+  const scannerRef = useRef<any>(null);
+  // The scanner keeps the first callback it gets; read the latest through a ref
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  const stopScanner = () => {
+    if (scannerRef.current) {
+      scannerRef.current.clear().catch((err: any) => console.error(err));
+      scannerRef.current = null;
+    }
+  };
+
+  useEffect(() => {
+    if (!window.Html5QrcodeScanner) {
+      console.error("html5-qrcode is not loaded");
+      return;
+    }
+    // Small timeout to ensure DOM element is ready
+    const timer = setTimeout(() => {
+      const scanner = new window.Html5QrcodeScanner(
+        "qr-reader",
+        { fps: 10, qrbox: { width: 250, height: 250 } },
+        /* verbose= */ false
+      );
+      scanner.render(
+        (decodedText: string) => {
+          if (onScanRef.current(String(decodedText))) {
+            stopScanner();
+            onClose();
+          }
+        },
+        () => {
+          // Ignore parse errors, scanning is continuous
+        }
+      );
+      scannerRef.current = scanner;
+    }, 100);
+
+    return () => {
+      clearTimeout(timer);
+      stopScanner();
+    };
+  }, []);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl p-6 w-full max-w-md relative shadow-2xl">
+        <h3 className="text-lg font-bold text-white mb-4 text-center">
+          {title}
+        </h3>
+        <div
+          id="qr-reader"
+          className="w-full overflow-hidden rounded-lg bg-black"
+        ></div>
+        {hint && (
+          <p className="text-xs text-slate-400 text-center mt-3">{hint}</p>
+        )}
+        <button
+          onClick={onClose}
+          className="mt-6 w-full py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg font-semibold transition-colors"
+        >
+          Cancelar
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { isAddress } from 'ethers';
 import { getAddressByEmail } from '../services/directoryService';
+import { lookupName, resolveName, toEnsName } from '../services/nameService';
 
 interface SmartAddressInputProps {
-  value: string; // El texto que ve el usuario (email o address)
+  value: string; // El texto que ve el usuario (email, nombre ENS, @usuario o address)
   onChange: (value: string) => void; // Actualiza el texto visual
   onAddressResolved: (address: string | null) => void; // Devuelve la address válida (0x...) al padre
   label?: string;
@@ -16,15 +17,20 @@ export const SmartAddressInput: React.FC<SmartAddressInputProps> = ({
   onChange,
   onAddressResolved,
   label,
-  placeholder = "0x... o email registrado",
+  placeholder = "0x..., email, @usuario o nombre.eth",
   className = ''
 }) => {
   const [status, setStatus] = useState<'idle' | 'loading' | 'success' | 'error' | 'not-found'>('idle');
   const [resolvedAddr, setResolvedAddr] = useState<string | null>(null);
+  // Which lookup failed, for the "not found" message
+  const [lookupKind, setLookupKind] = useState<'email' | 'name'>('email');
+  // ENS name or username of a pasted address
+  const [reverseName, setReverseName] = useState<string | null>(null);
 
   useEffect(() => {
     const checkInput = async () => {
       const input = value.trim();
+      setReverseName(null);
 
       // 1. Si está vacío
       if (!input) {
@@ -39,6 +45,7 @@ export const SmartAddressInput: React.FC<SmartAddressInputProps> = ({
         setStatus('success');
         setResolvedAddr(input);
         onAddressResolved(input);
+        setReverseName(await lookupName(input));
         return;
       }
 
@@ -46,6 +53,7 @@ export const SmartAddressInput: React.FC<SmartAddressInputProps> = ({
       const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
       if (emailRegex.test(input)) {
         setStatus('loading');
+        setLookupKind('email');
         try {
           const addr = await getAddressByEmail(input);
           if (addr) {
@@ -65,13 +73,24 @@ export const SmartAddressInput: React.FC<SmartAddressInputProps> = ({
         return;
       }
 
-      // 4. Si no es ni dirección ni email válido (aún escribiendo)
+      // 4. Si es un nombre ENS o un @usuario de VetChain
+      if (toEnsName(input)) {
+        setStatus('loading');
+        setLookupKind('name');
+        const addr = await resolveName(input);
+        setStatus(addr ? 'success' : 'not-found');
+        setResolvedAddr(addr);
+        onAddressResolved(addr);
+        return;
+      }
+
+      // 5. Si no es ni dirección, ni email, ni nombre (aún escribiendo)
       setStatus('idle');
       setResolvedAddr(null);
       onAddressResolved(null);
     };
 
-    // Debounce simple para no llamar a Firebase en cada tecla
+    // Debounce simple para no consultar el directorio ni ENS en cada tecla
     const timeoutId = setTimeout(checkInput, 500);
     return () => clearTimeout(timeoutId);
 
@@ -101,7 +120,7 @@ export const SmartAddressInput: React.FC<SmartAddressInputProps> = ({
             </svg>
           )}
           {status === 'success' && <span title="Dirección válida encontrada">✅</span>}
-          {status === 'not-found' && <span title="Email no encontrado">❌</span>}
+          {status === 'not-found' && <span title={lookupKind === 'email' ? 'Email no encontrado' : 'Nombre no encontrado'}>❌</span>}
           {status === 'error' && <span title="Error de red">⚠️</span>}
         </div>
       </div>
@@ -112,8 +131,15 @@ export const SmartAddressInput: React.FC<SmartAddressInputProps> = ({
           Resuelto: {resolvedAddr.substring(0, 8)}...{resolvedAddr.substring(resolvedAddr.length - 6)}
         </div>
       )}
+      {status === 'success' && reverseName && isAddress(value.trim()) && (
+        <div className="text-xs text-green-400 bg-green-900/20 p-1 rounded px-2">
+          👤 {reverseName}
+        </div>
+      )}
       {status === 'not-found' && (
-        <span className="text-xs text-red-400">Email no registrado en VetChain</span>
+        <span className="text-xs text-red-400">
+          {lookupKind === 'email' ? 'Email no registrado en VetChain' : 'El nombre no resuelve a ninguna address'}
+        </span>
       )}
     </div>
   );
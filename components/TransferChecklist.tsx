@@ -0,0 +1,74 @@
+import React from "react";
+import { RULE_LABELS } from "../services/transferPolicy";
+import { TransferPreflight, TransferRule } from "../types";
+
+interface TransferChecklistProps {
+  preflight: TransferPreflight | null;
+  error: string | null;
+  hasRecipient: boolean;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp * 1000).toLocaleDateString("es-ES");
+
+// What the owner can do about each failing rule
+const pendingHint = (rule: TransferRule, eligibleAt: number): string => {
+  switch (rule) {
+    case TransferRule.MANDATORY_VACCINES:
+      return "Hay vacunas obligatorias vencidas o sin registrar.";
+    case TransferRule.LOST:
+      return "Marca la mascota como encontrada.";
+    case TransferRule.MIN_AGE:
+      return `Podrá transferirse desde el ${formatDate(eligibleAt)}.`;
+    case TransferRule.STERILIZATION:
+      return "Un veterinario debe certificar la esterilización.";
+    case TransferRule.MICROCHIP:
+      return "Un veterinario debe verificar el microchip.";
+  }
+};
+
+// Transfer pre-flight: each TransferPolicy rule plus a simulated transfer
+export const TransferChecklist: React.FC<TransferChecklistProps> = ({
+  preflight,
+  error,
+  hasRecipient,
+}) => {
+  if (error) {
+    return (
+      <p className="text-[10px] text-red-300">
+        No se pudo verificar la transferencia: {error}
+      </p>
+    );
+  }
+  if (!preflight) {
+    return (
+      <p className="text-[10px] text-slate-500 animate-pulse">
+        Verificando requisitos...
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <ul className="space-y-1">
+        {preflight.checks.map(({ rule, passes }) => (
+          <li key={rule} className="text-[10px]">
+            <span className={passes ? "text-green-300" : "text-red-300"}>
+              {passes ? "✓" : "✗"} {RULE_LABELS[rule]}
+            </span>
+            {!passes && (
+              <span className="block pl-3 text-slate-400">
+                {pendingHint(rule, preflight.eligibleAt)}
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+      {hasRecipient && preflight.simulationError && (
+        <p className="text-[10px] text-red-300">
+          ✗ La simulación falló: {preflight.simulationError}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,201 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { formatEther } from "ethers";
+import { Button } from "./Button";
+import { VetChainClient } from "../services/vetChainClient";
+import { resolveIPFS } from "../services/pinataService";
+import { dropKeyGrant, rotateAnimalKey } from "../services/recordEncryption";
+import { TransferOffer } from "../types";
+
+interface TransferInboxProps {
+  client: VetChainClient;
+  account: string;
+  onAccepted: () => void;
+}
+
+const shortAddress = (address: string) =>
+  `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+
+// Best effort: the offer still works if the metadata cannot be fetched
+const loadPetName = async (
+  client: VetChainClient,
+  tokenId: string
+): Promise<string> => {
+  try {
+    const { uri } = await client.getAnimal(tokenId);
+    const json = await (await fetch(resolveIPFS(uri))).json();
+    return json.name || `Chip #${tokenId}`;
+  } catch {
+    return `Chip #${tokenId}`;
+  }
+};
+
+// Incoming transfer offers for the connected wallet, plus sale proceeds
+export const TransferInbox: React.FC<TransferInboxProps> = ({
+  client,
+  account,
+  onAccepted,
+}) => {
+  const [offers, setOffers] = useState<TransferOffer[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [proceeds, setProceeds] = useState<bigint>(0n);
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+
+  const loadInbox = useCallback(async () => {
+    try {
+      const [incoming, pending] = await Promise.all([
+        client.getIncomingOffers(account),
+        client.getPendingProceeds(account),
+      ]);
+      setOffers(incoming);
+      setProceeds(pending);
+      const entries = await Promise.all(
+        incoming.map(
+          async (offer) =>
+            [offer.tokenId, await loadPetName(client, offer.tokenId)] as const
+        )
+      );
+      setNames(Object.fromEntries(entries));
+    } catch (error) {
+      console.error("Error loading transfer inbox:", error);
+    }
+  }, [client, account]);
+
+  useEffect(() => {
+    loadInbox();
+  }, [loadInbox]);
+
+  const handleAccept = async (offer: TransferOffer) => {
+    const question =
+      offer.price > 0n
+        ? `¿Aceptar la transferencia y pagar ${formatEther(offer.price)} ETH?`
+        : "¿Aceptar la transferencia?";
+    if (!confirm(question)) return;
+    setActionLoading(`accepting_${offer.tokenId}`);
+    try {
+      const tx = await client.acceptTransferOffer(offer.tokenId, offer.price);
+      await tx.wait();
+      // New records get a key the previous owner and their vets don't have
+      await rotateAnimalKey(client, account, offer.tokenId).catch((error) =>
+        console.warn("Could not rotate the record key:", error)
+      );
+      alert("Transferencia aceptada. La mascota ya es tuya.");
+      loadInbox();
+      onAccepted();
+    } catch (error: any) {
+      alert(`Error: ${error.reason || error.message}`);
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleReject = async (offer: TransferOffer) => {
+    if (!confirm("¿Rechazar la transferencia?")) return;
+    setActionLoading(`rejecting_${offer.tokenId}`);
+    try {
+      const tx = await client.cancelTransferOffer(offer.tokenId);
+      await tx.wait();
+      await dropKeyGrant(client, account, offer.tokenId).catch((error) =>
+        console.warn("Could not remove own key grant:", error)
+      );
+      loadInbox();
+    } catch (error: any) {
+      alert(`Error: ${error.reason || error.message}`);
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleWithdraw = async () => {
+    setActionLoading("withdrawing");
+    try {
+      const tx = await client.withdrawProceeds();
+      await tx.wait();
+      loadInbox();
+    } catch (error: any) {
+      alert(`Error: ${error.reason || error.message}`);
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  if (offers.length === 0 && proceeds === 0n) return null;
+
+  return (
+    <section className="bg-surface p-4 rounded-xl border border-accent/40 space-y-3">
+      {offers.length > 0 && (
+        <>
+          <h3 className="text-sm font-bold text-accent uppercase">
+            📨 Transferencias entrantes
+          </h3>
+          <ul className="space-y-2">
+            {offers.map((offer) => (
+              <li
+                key={offer.tokenId}
+                className="flex flex-wrap items-center justify-between gap-2 bg-slate-900/50 rounded-lg px-3 py-2 text-sm"
+              >
+                <div className="min-w-0">
+                  <div className="font-bold text-white truncate">
+                    {names[offer.tokenId] || `Chip #${offer.tokenId}`}
+                  </div>
+                  <div className="text-xs text-slate-400">
+                    De{" "}
+                    <span className="font-mono" title={offer.from}>
+                      {shortAddress(offer.from)}
+                    </span>{" "}
+                    ·{" "}
+                    {offer.price > 0n
+                      ? `${formatEther(offer.price)} ETH`
+                      : "sin pago"}{" "}
+                    · vence{" "}
+                    {new Date(offer.deadline * 1000).toLocaleDateString(
+                      "es-ES"
+                    )}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    onClick={() => handleAccept(offer)}
+                    isLoading={actionLoading === `accepting_${offer.tokenId}`}
+                    disabled={!!actionLoading}
+                    variant="success"
+                    className="text-xs !py-1"
+                  >
+                    Aceptar
+                  </Button>
+                  <Button
+                    onClick={() => handleReject(offer)}
+                    isLoading={actionLoading === `rejecting_${offer.tokenId}`}
+                    disabled={!!actionLoading}
+                    variant="secondary"
+                    className="text-xs !py-1"
+                  >
+                    Rechazar
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+          <p className="text-[10px] text-slate-500">
+            Al aceptar se vuelven a verificar las reglas sanitarias; si el
+            animal no las cumple, la transacción falla y no se cobra el pago.
+          </p>
+        </>
+      )}
+      {proceeds > 0n && (
+        <div className="flex items-center justify-between gap-2 text-sm">
+          <span className="text-slate-300">
+            💰 Tienes {formatEther(proceeds)} ETH de ventas por retirar.
+          </span>
+          <Button
+            onClick={handleWithdraw}
+            isLoading={actionLoading === "withdrawing"}
+            variant="secondary"
+            className="text-xs !py-1"
+          >
+            Retirar
+          </Button>
+        </div>
+      )}
+    </section>
+  );
+};
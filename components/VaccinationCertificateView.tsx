@@ -0,0 +1,233 @@
+import React, { useState, useEffect, useMemo } from "react";
+import QRCode from "qrcode";
+import { Button } from "./Button";
+import { VetChainClient } from "../services/vetChainClient";
+import { createPublicClient } from "../services/publicClient";
+import { vaccineLabel } from "../services/vaccines";
+import { speciesLabel } from "../services/transferPolicy";
+import {
+  VaccinationCertificate,
+  buildVaccinationCertificate,
+  encodeCertificate,
+} from "../services/vaccinationCertificate";
+import { certificateVerifyHash } from "../hooks/useHashRoute";
+
+interface VaccinationCertificateViewProps {
+  client: VetChainClient | null;
+  chipId: string;
+  onExit: () => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp * 1000).toLocaleDateString("es-ES");
+
+// Absolute link to the verification page, so the QR works from any device
+const verifyUrl = (certificate: VaccinationCertificate) =>
+  `${window.location.origin}${window.location.pathname}${certificateVerifyHash(
+    encodeCertificate(certificate)
+  )}`;
+
+// Printable proof of vaccination. "Imprimir" uses the browser dialog, which
+// also saves it as PDF; everything outside the sheet is hidden when printing.
+export const VaccinationCertificateView: React.FC<
+  VaccinationCertificateViewProps
+> = ({ client, chipId, onExit }) => {
+  // The data is public: without a wallet we read it from the default network
+  const activeClient = useMemo(() => client || createPublicClient(), [client]);
+  const [certificate, setCertificate] = useState<VaccinationCertificate | null>(
+    null
+  );
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setCertificate(null);
+    setQrDataUrl(null);
+    setError(null);
+    if (!activeClient) return;
+
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const built = await buildVaccinationCertificate(activeClient, chipId);
+        const qr = await QRCode.toDataURL(verifyUrl(built), {
+          errorCorrectionLevel: "M",
+          margin: 1,
+          width: 480,
+        });
+        if (cancelled) return;
+        setCertificate(built);
+        setQrDataUrl(qr);
+      } catch (e: any) {
+        console.error("Error building vaccination certificate:", e);
+        if (!cancelled) setError(e.reason || e.message);
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [activeClient, chipId]);
+
+  const explorerUrl = activeClient?.network.explorerUrl;
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-4 animate-fade-in">
+      <div className="flex items-center justify-between print:hidden">
+        <button
+          onClick={onExit}
+          className="flex items-center gap-2 text-slate-400 hover:text-white transition-colors"
+        >
+          <span>⬅</span> Volver
+        </button>
+        <Button onClick={() => window.print()} disabled={!certificate}>
+          🖨️ Imprimir / Guardar PDF
+        </Button>
+      </div>
+
+      {!activeClient && (
+        <p className="text-sm text-red-300">
+          La red configurada no está soportada.
+        </p>
+      )}
+      {error && (
+        <p className="text-sm text-red-300">
+          No se pudo generar el certificado: {error}
+        </p>
+      )}
+      {activeClient && !certificate && !error && (
+        <p className="text-sm text-slate-500 animate-pulse">
+          Leyendo vacunas desde la blockchain...
+        </p>
+      )}
+
+      {certificate && (
+        <article className="bg-white text-slate-900 rounded-xl p-8 shadow-xl print:shadow-none print:rounded-none print:p-0 space-y-6">
+          <header className="flex items-start justify-between gap-6 border-b border-slate-300 pb-4">
+            <div>
+              <p className="text-xs uppercase tracking-widest text-slate-500">
+                VetChain · {activeClient!.network.name}
+              </p>
+              <h1 className="text-2xl font-bold">Certificado de Vacunación</h1>
+              <p className="text-xs text-slate-500">
+                Emitido el {formatDate(certificate.issuedAt)}
+              </p>
+            </div>
+            {qrDataUrl && (
+              <div className="text-center shrink-0">
+                <img
+                  src={qrDataUrl}
+                  alt="QR de verificación"
+                  className="w-32 h-32"
+                />
+                <p className="text-[10px] text-slate-500 max-w-[8rem]">
+                  Escanea para verificarlo on-chain
+                </p>
+              </div>
+            )}
+          </header>
+
+          <dl className="grid grid-cols-2 gap-x-6 gap-y-2 text-sm">
+            <div>
+              <dt className="text-xs text-slate-500">Nombre</dt>
+              <dd className="font-bold">{certificate.petName}</dd>
+            </div>
+            <div>
+              <dt className="text-xs text-slate-500">Microchip</dt>
+              <dd className="font-mono">{certificate.tokenId}</dd>
+            </div>
+            <div>
+              <dt className="text-xs text-slate-500">Especie</dt>
+              <dd>
+                {certificate.species
+                  ? speciesLabel(certificate.species)
+                  : "Sin informar"}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-xs text-slate-500">Fecha de nacimiento</dt>
+              <dd>
+                {certificate.birthDate > 0
+                  ? formatDate(certificate.birthDate)
+                  : "Sin informar"}
+              </dd>
+            </div>
+            <div className="col-span-2">
+              <dt className="text-xs text-slate-500">Dueño (wallet)</dt>
+              <dd className="font-mono text-xs break-all">
+                {certificate.owner}
+              </dd>
+            </div>
+          </dl>
+
+          {certificate.vaccines.length === 0 ? (
+            <p className="text-sm text-slate-500 italic">
+              No hay vacunas registradas para esta mascota.
+            </p>
+          ) : (
+            <table className="w-full text-xs border-collapse">
+              <thead>
+                <tr className="text-left text-slate-500 border-b border-slate-300">
+                  <th className="py-1 pr-2">Vacuna</th>
+                  <th className="py-1 pr-2">Aplicada</th>
+                  <th className="py-1 pr-2">Vence</th>
+                  <th className="py-1 pr-2">Matrícula</th>
+                  <th className="py-1">Transacción</th>
+                </tr>
+              </thead>
+              <tbody>
+                {certificate.vaccines.map((vaccine) => (
+                  <tr
+                    key={vaccine.vaccineId}
+                    className="border-b border-slate-200 align-top"
+                  >
+                    <td className="py-1.5 pr-2 font-bold">
+                      {vaccineLabel(vaccine.vaccineId)}
+                    </td>
+                    <td className="py-1.5 pr-2">
+                      {formatDate(vaccine.appliedAt)}
+                    </td>
+                    <td
+                      className={`py-1.5 pr-2 ${
+                        vaccine.expiresAt <= certificate.issuedAt
+                          ? "text-red-600 font-bold"
+                          : ""
+                      }`}
+                    >
+                      {formatDate(vaccine.expiresAt)}
+                    </td>
+                    <td className="py-1.5 pr-2" title={vaccine.vet}>
+                      {vaccine.vetLicenseId !== "0"
+                        ? `#${vaccine.vetLicenseId}`
+                        : "Sin vincular"}
+                    </td>
+                    <td className="py-1.5 font-mono text-[9px] break-all">
+                      {explorerUrl ? (
+                        <a
+                          href={`${explorerUrl}/tx/${vaccine.transactionHash}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                        >
+                          {vaccine.transactionHash}
+                        </a>
+                      ) : (
+                        vaccine.transactionHash
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <footer className="text-[10px] text-slate-500 border-t border-slate-300 pt-3">
+            Cada vacuna corresponde a un evento MedicalRecordAdded firmado por
+            el veterinario matriculado. Los datos de este papel pueden quedar
+            desactualizados: el QR abre una página que los vuelve a comprobar
+            contra la blockchain y avisa si algo no coincide o venció.
+          </footer>
+        </article>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import React, { useState, useEffect } from "react";
+import { VetChainClient } from "../services/vetChainClient";
+import { vaccineLabel } from "../services/vaccines";
+import { VaccineStatus } from "../types";
+
+interface VaccineStatusGridProps {
+  client: VetChainClient;
+  tokenId: string;
+  compact?: boolean;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp * 1000).toLocaleDateString("es-ES");
+
+// Per-vaccine expiry from MedicalStorage; mandatory ones gate transfers
+export const VaccineStatusGrid: React.FC<VaccineStatusGridProps> = ({
+  client,
+  tokenId,
+  compact = false,
+}) => {
+  const [statuses, setStatuses] = useState<VaccineStatus[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setStatuses(null);
+    client
+      .getVaccineStatus(tokenId)
+      .then((result) => !cancelled && setStatuses(result))
+      .catch((error) => {
+        console.error("Error loading vaccine status:", error);
+        if (!cancelled) setStatuses([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [client, tokenId]);
+
+  if (!statuses) {
+    return (
+      <p className="text-xs text-slate-500 animate-pulse">
+        Cargando vacunas...
+      </p>
+    );
+  }
+  if (statuses.length === 0) return null;
+
+  return (
+    <div
+      className={`grid gap-2 ${compact ? "grid-cols-2" : "grid-cols-2 md:grid-cols-4"}`}
+    >
+      {statuses.map((status) => {
+        const color = status.isValid
+          ? "border-green-500/40 bg-green-500/10 text-green-300"
+          : status.expiresAt > 0
+            ? "border-red-500/40 bg-red-500/10 text-red-300"
+            : status.mandatory
+              ? "border-amber-500/40 bg-amber-500/10 text-amber-300"
+              : "border-slate-700 bg-slate-900/50 text-slate-500";
+        return (
+          <div
+            key={status.vaccineId}
+            className={`rounded-lg border px-2 py-1.5 ${color}`}
+          >
+            <div className="flex justify-between items-center gap-1">
+              <span className="text-xs font-bold truncate">
+                💉 {vaccineLabel(status.vaccineId)}
+              </span>
+              {status.mandatory && (
+                <span
+                  className="text-[9px] font-bold uppercase opacity-80"
+                  title="Requerida para transferir"
+                >
+                  Oblig.
+                </span>
+              )}
+            </div>
+            <p className="text-[10px] opacity-80">
+              {status.isValid
+                ? `Vigente hasta ${formatDate(status.expiresAt)}`
+                : status.expiresAt > 0
+                  ? `Vencida el ${formatDate(status.expiresAt)}`
+                  : "Sin registrar"}
+            </p>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
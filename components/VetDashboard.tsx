@@ -1,26 +1,66 @@
-import React, { useState } from "react";
-import { Contract } from "ethers";
+import React, { useState, useEffect, useCallback } from "react";
 import { Input } from "./Input";
 import { SmartAddressInput } from "./SmartAddressInput";
+import { AddressName } from "./AddressName";
 import { Button } from "./Button";
 import { MedicalHistoryTable } from "./MedicalHistoryTable";
-import { uploadFileToIPFS, uploadJSONToIPFS } from "../services/pinataService";
-
-const resolveIPFS = (url: string | undefined): string => {
-  if (!url) return "";
-  if (url.startsWith("ipfs://")) {
-    return url.replace("ipfs://", "https://gateway.pinata.cloud/ipfs/");
-  }
-  return url;
-};
+import { EncryptionSetupBanner } from "./EncryptionSetupBanner";
+import { DeathReportForm } from "./DeathReportForm";
+import { ClinicPanel } from "./ClinicPanel";
+import { VetProfilePanel } from "./VetProfilePanel";
+import { VaccineStatusGrid } from "./VaccineStatusGrid";
+import { AttestationPanel } from "./AttestationPanel";
+import { QRScannerModal } from "./QRScannerModal";
+import {
+  resolveIPFS,
+  uploadFileToIPFS,
+  uploadJSONToIPFS,
+} from "../services/pinataService";
+import { VetChainClient } from "../services/vetChainClient";
+import {
+  ClinicalRecord,
+  Medication,
+  resolveClinicalRecord,
+  uploadClinicalRecord,
+} from "../services/clinicalRecord";
+import {
+  ATTACHMENT_ACCEPT,
+  formatFileSize,
+  uploadAttachments,
+} from "../services/attachments";
+import {
+  getWritableKey,
+  hasSessionKey,
+  loadAnimalKeys,
+} from "../services/recordEncryption";
+import { vaccineLabel } from "../services/vaccines";
+import { SPECIES_LABELS } from "../services/transferPolicy";
+import { parseChipId } from "../services/petTag";
+import { ClinicMembership, MedicalRecord, RecordType } from "../types";
 
 interface VetDashboardProps {
-  nftContract: Contract | null;
-  storageContract: Contract | null;
+  client: VetChainClient | null;
   account: string;
   onBack: () => void;
+  initialChipId?: string | null; // From a scanned collar tag
 }
 
+// "Nombre, dosis, frecuencia" por línea
+const parseMedications = (text: string): Medication[] =>
+  text
+    .split("\n")
+    .map((line) => line.split(",").map((part) => part.trim()))
+    .filter(([name]) => name)
+    .map(([name, dose, frequency]) => ({
+      name,
+      ...(dose && { dose }),
+      ...(frequency && { frequency }),
+    }));
+
+// Campo numérico opcional: vacío -> undefined
+const parseOptionalNumber = (value: string): number | undefined =>
+  value.trim() === "" ? undefined : Number(value);
+
 interface PatientMetadata {
   name: string;
   image: string;
@@ -28,10 +68,10 @@ interface PatientMetadata {
 }
 
 export const VetDashboard: React.FC<VetDashboardProps> = ({
-  nftContract,
-  storageContract,
+  client,
   account,
   onBack,
+  initialChipId,
 }) => {
   // --- Registration State ---
   const [regOwnerInput, setRegOwnerInput] = useState("");
@@ -39,33 +79,83 @@ export const VetDashboard: React.FC<VetDashboardProps> = ({
   const [regChipId, setRegChipId] = useState("");
   const [regName, setRegName] = useState("");
   const [regBirthDate, setRegBirthDate] = useState("");
+  // Stored on-chain so the transfer policy can apply a per-species minimum age
+  const [regSpecies, setRegSpecies] = useState("");
   const [regImageFile, setRegImageFile] = useState<File | null>(null);
   const [isRegistering, setIsRegistering] = useState(false);
   const [regStatus, setRegStatus] = useState<string | null>(null);
 
   // --- Patient Search & Treatment State ---
-  const [searchChipId, setSearchChipId] = useState("");
+  const [searchChipId, setSearchChipId] = useState(initialChipId || "");
   const [searching, setSearching] = useState(false);
+  const [showScanner, setShowScanner] = useState(false);
   const [foundPatientId, setFoundPatientId] = useState<string | null>(null);
   const [patientMetadata, setPatientMetadata] =
     useState<PatientMetadata | null>(null);
-  const [isDeceased, setIsDeceased] = useState(false); // New Security Check
+  const [isDeceased, setIsDeceased] = useState(false);
+  // Null for deceased patients: the NFT is burned
+  const [patientOwner, setPatientOwner] = useState<string | null>(null);
+  // Bumped to reload the history table after reporting a death
+  const [historyVersion, setHistoryVersion] = useState(0);
 
   // --- Add Record State ---
-  const [desc, setDesc] = useState("");
-  const [recordType, setRecordType] = useState<number>(0);
+  const [diagnosis, setDiagnosis] = useState("");
+  const [treatment, setTreatment] = useState("");
+  const [medications, setMedications] = useState("");
+  const [weightKg, setWeightKg] = useState("");
+  const [temperatureC, setTemperatureC] = useState("");
+  // Catalog ID tracked on-chain; name and lot stay in the encrypted payload
+  const [vaccineId, setVaccineId] = useState("");
+  const [vaccineName, setVaccineName] = useState("");
+  const [vaccineLot, setVaccineLot] = useState("");
+  const [notes, setNotes] = useState("");
+  const [attachmentFiles, setAttachmentFiles] = useState<File[]>([]);
+  const [recordType, setRecordType] = useState<RecordType>(RecordType.GENERAL);
   const [daysValid, setDaysValid] = useState<number>(0);
   const [isAdding, setIsAdding] = useState(false);
   const [recordStatus, setRecordStatus] = useState<string | null>(null);
+  // Clinic whose approval the vet writes under (0 = personal approval)
+  const [signAsClinic, setSignAsClinic] = useState(0);
+  // Record being corrected; the form then submits an amendment
+  const [amending, setAmending] = useState<MedicalRecord | null>(null);
+  const [amendReason, setAmendReason] = useState("");
+
+  // --- Clinics ---
+  const [myClinics, setMyClinics] = useState<ClinicMembership[]>([]);
+  const [vaccineCatalog, setVaccineCatalog] = useState<string[]>([]);
+
+  const loadClinics = useCallback(async () => {
+    if (!client) return;
+    try {
+      setMyClinics(await client.getClinicsOf(account));
+    } catch (error) {
+      console.error("Error loading clinics:", error);
+    }
+  }, [client, account]);
+
+  useEffect(() => {
+    loadClinics();
+  }, [loadClinics]);
+
+  useEffect(() => {
+    if (!client) return;
+    client
+      .getVaccineCatalog()
+      .then(setVaccineCatalog)
+      .catch((error) => console.error("Error loading vaccine catalog:", error));
+  }, [client]);
+
+  const memberClinics = myClinics.filter((clinic) => clinic.isMember);
 
   // --- Logic: Register ---
   const handleRegisterAnimal = async () => {
-    if (!nftContract) return;
+    if (!client) return;
     if (
       !regOwnerAddress ||
       !regChipId ||
       !regName ||
       !regBirthDate ||
+      !regSpecies ||
       !regImageFile
     ) {
       alert("Por favor completa todos los campos.");
@@ -85,6 +175,7 @@ export const VetDashboard: React.FC<VetDashboardProps> = ({
         image: `ipfs://${imageCid}`,
         attributes: [
           { trait_type: "Birth Date", value: regBirthDate },
+          { trait_type: "Species", value: SPECIES_LABELS[regSpecies] },
           { trait_type: "Chip ID", value: regChipId },
         ],
       };
@@ -98,11 +189,12 @@ export const VetDashboard: React.FC<VetDashboardProps> = ({
         new Date(regBirthDate).getTime() / 1000
       );
 
-      const tx = await nftContract.registerAnimal(
+      const tx = await client.registerAnimal(
         regOwnerAddress,
         regChipId,
         tokenUri,
-        birthDateTimestamp
+        birthDateTimestamp,
+        regSpecies
       );
       setRegStatus(`Transacción enviada: ${tx.hash}...`);
 
@@ -115,6 +207,7 @@ export const VetDashboard: React.FC<VetDashboardProps> = ({
       setRegChipId("");
       setRegName("");
       setRegBirthDate("");
+      setRegSpecies("");
       setRegImageFile(null);
     } catch (error: any) {
       console.error(error);
@@ -125,20 +218,29 @@ export const VetDashboard: React.FC<VetDashboardProps> = ({
   };
 
   // --- Logic: Search Patient ---
-  const handleSearchPatient = async () => {
-    if (!nftContract || !searchChipId || !storageContract) return;
+  const handleSearchPatient = async (chipId: string = searchChipId) => {
+    if (!client || !chipId) return;
     setSearching(true);
     setFoundPatientId(null);
     setPatientMetadata(null);
     setRecordStatus(null);
     setIsDeceased(false);
+    setPatientOwner(null);
 
     try {
-      // 1. Verify existence via ownerOf (reverts if nonexistent)
-      await nftContract.ownerOf(searchChipId);
+      // 1. Deceased animals are burned: AnimalDeceased keeps their final URI
+      const deceased = await client.getDeceased(chipId);
+      let uri: string;
+      let owner: string | null = null;
+      if (deceased) {
+        uri = deceased.finalUri;
+      } else {
+        // Verify existence via ownerOf (reverts if nonexistent)
+        owner = await client.getOwner(chipId);
+        ({ uri } = await client.getAnimal(chipId));
+      }
 
       // 2. Fetch Metadata
-      const uri = await nftContract.tokenURI(searchChipId);
       const gatewayUrl = resolveIPFS(uri);
       const response = await fetch(gatewayUrl);
       const json = await response.json();
@@ -148,22 +250,9 @@ export const VetDashboard: React.FC<VetDashboardProps> = ({
         image: resolveIPFS(json.image),
         description: json.description,
       });
-      setFoundPatientId(searchChipId);
-
-      // 3. Check Deceased Status (Security Check)
-      // We query the last MedicalRecordAdded event. If type is 4, it's deceased.
-      const filter = storageContract.filters.MedicalRecordAdded(searchChipId);
-      const events = await storageContract.queryFilter(filter);
-      if (events.length > 0) {
-        // Sort to get latest
-        const latestEvent: any = events.sort(
-          (a: any, b: any) => Number(b.args[1]) - Number(a.args[1])
-        )[0];
-        if (Number(latestEvent.args[4]) === 4) {
-          // 4 = Deceased
-          setIsDeceased(true);
-        }
-      }
+      setFoundPatientId(chipId);
+      setIsDeceased(!!deceased);
+      setPatientOwner(owner);
     } catch (error: any) {
       console.error(error);
       alert("Paciente no encontrado. Verifica el ID del Chip.");
@@ -172,29 +261,203 @@ export const VetDashboard: React.FC<VetDashboardProps> = ({
     }
   };
 
-  // --- Logic: Add Record ---
-  const handleAddRecord = async () => {
-    if (!nftContract || !foundPatientId) return;
-    setIsAdding(true);
+  // Opened from a collar tag: go straight to the patient
+  useEffect(() => {
+    if (!initialChipId) return;
+    setSearchChipId(initialChipId);
+    handleSearchPatient(initialChipId);
+  }, [client, initialChipId]);
+
+  const handleScanTag = (text: string): boolean => {
+    const chipId = parseChipId(text);
+    if (!chipId) return false;
+    setSearchChipId(chipId);
+    handleSearchPatient(chipId);
+    return true;
+  };
+
+  const resetRecordForm = () => {
+    setDiagnosis("");
+    setTreatment("");
+    setMedications("");
+    setWeightKg("");
+    setTemperatureC("");
+    setVaccineId("");
+    setVaccineName("");
+    setVaccineLot("");
+    setNotes("");
+    setAttachmentFiles([]);
+    setRecordType(RecordType.GENERAL);
+    setDaysValid(0);
+    setAmending(null);
+    setAmendReason("");
+  };
+
+  const fillRecordForm = (record: ClinicalRecord) => {
+    setDiagnosis(record.diagnosis || "");
+    setTreatment(record.treatment || "");
+    setMedications(
+      (record.medications || [])
+        .map((m) => [m.name, m.dose, m.frequency].filter(Boolean).join(", "))
+        .join("\n")
+    );
+    setWeightKg(record.weightKg?.toString() || "");
+    setTemperatureC(record.temperatureC?.toString() || "");
+    setVaccineName(record.vaccine?.name || "");
+    setVaccineLot(record.vaccine?.lot || "");
+    setNotes(record.notes || "");
+  };
+
+  // --- Logic: Amend / Retract ---
+  const handleStartAmend = async (record: MedicalRecord) => {
+    if (!client || !foundPatientId) return;
+    resetRecordForm();
+    setAmending(record);
+    setRecordType(record.recordType);
+    setVaccineId(record.vaccineId || "");
     setRecordStatus(null);
+
+    // Start from the current content when this wallet can read it
     try {
-      const tx = await nftContract.addMedicalRecord(
+      const keys = hasSessionKey(account)
+        ? await loadAnimalKeys(client, account, foundPatientId)
+        : null;
+      const resolved = await resolveClinicalRecord(
+        record.description,
         foundPatientId,
-        desc,
-        recordType,
-        daysValid
+        keys
+      );
+      if (resolved.kind === "structured") fillRecordForm(resolved.record);
+    } catch (error) {
+      console.warn("Could not prefill the amendment:", error);
+    }
+  };
+
+  const handleRetract = async (record: MedicalRecord) => {
+    if (!client || !foundPatientId) return;
+    const reason = prompt(
+      "Motivo de la retractación (queda registrado en el historial):"
+    );
+    if (!reason?.trim()) return;
+
+    setRecordStatus("Confirmando retractación...");
+    try {
+      const tx = await client.retractMedicalRecord(
+        foundPatientId,
+        signAsClinic,
+        record.entryId,
+        reason.trim()
       );
       setRecordStatus(`Enviando: ${tx.hash}...`);
       await tx.wait();
-      setRecordStatus("¡Historial actualizado correctamente!");
+      setRecordStatus("Registro retractado.");
+      setHistoryVersion((v) => v + 1);
+    } catch (error: any) {
+      console.error(error);
+      setRecordStatus(`Error: ${error.reason || error.message}`);
+    }
+  };
 
-      // Check if we just marked as deceased
-      if (recordType === 4) setIsDeceased(true);
+  // --- Logic: Add Record ---
+  const handleAddRecord = async () => {
+    if (!client || !foundPatientId) return;
+    if (amending && !amendReason.trim()) {
+      alert("Indica el motivo de la corrección.");
+      return;
+    }
+    if (!diagnosis.trim() && !notes.trim() && attachmentFiles.length === 0) {
+      alert("Ingresa un diagnóstico, notas o al menos un adjunto.");
+      return;
+    }
+    if (recordType === RecordType.VACCINE && !vaccineId) {
+      alert("Selecciona qué vacuna del catálogo se aplicó.");
+      return;
+    }
+    if (recordType === RecordType.VACCINE && !vaccineName.trim()) {
+      alert("Ingresa el nombre de la vacuna.");
+      return;
+    }
 
-      // Reset form
-      setDesc("");
-      setRecordType(0);
-      setDaysValid(0);
+    setIsAdding(true);
+    setRecordStatus("Obteniendo la clave de cifrado del paciente...");
+    try {
+      // Todo se cifra con la clave de datos del animal que compartió el dueño
+      const encryption = await getWritableKey(client, account, foundPatientId);
+      if (!encryption) {
+        setRecordStatus(
+          "⛔ ERROR: No tienes la clave de cifrado de este paciente. El dueño debe aprobarte para compartirla."
+        );
+        return;
+      }
+
+      // Cada archivo se sube aparte y el registro guarda sus CIDs
+      const attachments = await uploadAttachments(
+        attachmentFiles,
+        encryption.key,
+        (uploaded, total) =>
+          setRecordStatus(`Subiendo adjuntos a IPFS (${uploaded}/${total})...`)
+      );
+
+      setRecordStatus("Subiendo registro a IPFS...");
+      // On-chain solo queda el CID; el detalle clínico vive en IPFS
+      const meds = parseMedications(medications);
+      const recordUri = await uploadClinicalRecord(
+        {
+          tokenId: foundPatientId,
+          recordType,
+          diagnosis: diagnosis.trim() || undefined,
+          treatment: treatment.trim() || undefined,
+          medications: meds.length > 0 ? meds : undefined,
+          weightKg: parseOptionalNumber(weightKg),
+          temperatureC: parseOptionalNumber(temperatureC),
+          vaccine:
+            recordType === RecordType.VACCINE
+              ? {
+                  name: vaccineName.trim(),
+                  lot: vaccineLot.trim() || undefined,
+                }
+              : undefined,
+          notes: notes.trim() || undefined,
+          attachments: attachments.length > 0 ? attachments : undefined,
+        },
+        encryption
+      );
+      setRecordStatus("Registro subido. Confirmando transacción...");
+
+      const onChainVaccine =
+        recordType === RecordType.VACCINE ? vaccineId : null;
+      const tx = amending
+        ? await client.amendMedicalRecord(
+            foundPatientId,
+            signAsClinic,
+            amending.entryId,
+            recordUri,
+            recordType,
+            onChainVaccine,
+            daysValid,
+            amendReason.trim()
+          )
+        : signAsClinic > 0
+          ? await client.addClinicMedicalRecord(
+              foundPatientId,
+              signAsClinic,
+              recordUri,
+              recordType,
+              onChainVaccine,
+              daysValid
+            )
+          : await client.addMedicalRecord(
+              foundPatientId,
+              recordUri,
+              recordType,
+              onChainVaccine,
+              daysValid
+            );
+      setRecordStatus(`Enviando: ${tx.hash}...`);
+      await tx.wait();
+      setRecordStatus("¡Historial actualizado correctamente!");
+      resetRecordForm();
+      setHistoryVersion((v) => v + 1);
     } catch (error: any) {
       console.error(error);
       if (
@@ -223,6 +486,12 @@ export const VetDashboard: React.FC<VetDashboardProps> = ({
         <span>⬅</span> Volver al Menú
       </button>
 
+      <EncryptionSetupBanner
+        client={client}
+        account={account}
+        message="Activa el cifrado para que los dueños puedan compartir contigo el historial de sus mascotas."
+      />
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         {/* 1. Register Patient Column */}
         <div className="bg-surface p-6 rounded-xl shadow-lg border border-slate-700 h-fit">
@@ -266,6 +535,23 @@ export const VetDashboard: React.FC<VetDashboardProps> = ({
               value={regBirthDate}
               onChange={(e) => setRegBirthDate(e.target.value)}
             />
+            <div className="w-full">
+              <label className="text-xs font-medium text-slate-400 mb-1 block">
+                Especie
+              </label>
+              <select
+                className="w-full bg-slate-800 border border-slate-700 text-white rounded-lg px-3 py-2 text-sm outline-none focus:border-primary"
+                value={regSpecies}
+                onChange={(e) => setRegSpecies(e.target.value)}
+              >
+                <option value="">Selecciona...</option>
+                {Object.entries(SPECIES_LABELS).map(([id, label]) => (
+                  <option key={id} value={id}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
             <div className="w-full">
               <label className="text-xs font-medium text-slate-400 mb-1 block">
                 Foto
@@ -305,14 +591,30 @@ export const VetDashboard: React.FC<VetDashboardProps> = ({
               onChange={(e) => setSearchChipId(e.target.value)}
             />
             <Button
-              onClick={handleSearchPatient}
+              onClick={() => handleSearchPatient()}
               isLoading={searching}
               variant="secondary"
               className="mb-[1px]"
             >
               Buscar
             </Button>
+            <Button
+              onClick={() => setShowScanner(true)}
+              variant="secondary"
+              className="mb-[1px]"
+              title="Escanear chapita"
+            >
+              📷
+            </Button>
           </div>
+          {showScanner && (
+            <QRScannerModal
+              title="Escanear Chapita"
+              hint="Apunta al QR del collar del paciente."
+              onScan={handleScanTag}
+              onClose={() => setShowScanner(false)}
+            />
+          )}
 
           {foundPatientId && patientMetadata && (
             <div className="animate-fade-in space-y-6">
@@ -340,6 +642,15 @@ export const VetDashboard: React.FC<VetDashboardProps> = ({
                   <span className="text-primary font-mono text-sm">
                     #{foundPatientId}
                   </span>
+                  {patientOwner && (
+                    <div className="text-xs text-slate-400 mt-1">
+                      Dueño:{" "}
+                      <AddressName
+                        address={patientOwner}
+                        className="text-slate-300"
+                      />
+                    </div>
+                  )}
                 </div>
                 {isDeceased && (
                   <div className="absolute top-0 right-0 bg-black text-white text-xs font-bold px-3 py-1 border-b border-l border-zinc-600">
@@ -348,6 +659,54 @@ export const VetDashboard: React.FC<VetDashboardProps> = ({
                 )}
               </div>
 
+              {/* Every write below (records, corrections, attestations, death
+                  report) uses the approval picked here */}
+              {!isDeceased && memberClinics.length > 0 && (
+                <div>
+                  <label className="text-xs font-medium text-slate-400 block mb-1">
+                    Firmar como
+                  </label>
+                  <select
+                    className="w-full bg-slate-800 border border-slate-700 text-white rounded-lg px-3 py-2 text-sm outline-none focus:border-primary"
+                    value={signAsClinic}
+                    onChange={(e) => setSignAsClinic(Number(e.target.value))}
+                  >
+                    <option value={0}>Permiso personal</option>
+                    {memberClinics.map((clinic) => (
+                      <option key={clinic.clinicId} value={clinic.clinicId}>
+                        🏥 {clinic.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {!isDeceased && (
+                <div>
+                  <h4 className="text-sm font-bold text-slate-400 uppercase mb-2">
+                    Vacunas
+                  </h4>
+                  <VaccineStatusGrid
+                    key={historyVersion}
+                    client={client!}
+                    tokenId={foundPatientId}
+                  />
+                </div>
+              )}
+
+              {!isDeceased && (
+                <div>
+                  <h4 className="text-sm font-bold text-slate-400 uppercase mb-2">
+                    Certificaciones
+                  </h4>
+                  <AttestationPanel
+                    client={client!}
+                    tokenId={foundPatientId}
+                    clinicId={signAsClinic}
+                  />
+                </div>
+              )}
+
               {/* Medical History */}
               <div>
                 <h4 className="text-sm font-bold text-slate-400 uppercase mb-2">
@@ -355,8 +714,12 @@ export const VetDashboard: React.FC<VetDashboardProps> = ({
                 </h4>
                 <div className="max-h-48 overflow-y-auto custom-scrollbar border border-slate-800 rounded-lg bg-slate-900/50">
                   <MedicalHistoryTable
+                    key={historyVersion}
                     tokenId={foundPatientId}
-                    storageContract={storageContract}
+                    client={client}
+                    account={account}
+                    onAmend={isDeceased ? undefined : handleStartAmend}
+                    onRetract={isDeceased ? undefined : handleRetract}
                   />
                 </div>
               </div>
@@ -364,7 +727,7 @@ export const VetDashboard: React.FC<VetDashboardProps> = ({
               {/* Add Record Form */}
               <div className="border-t border-slate-700 pt-6">
                 <h4 className="text-lg font-bold text-white mb-4">
-                  ✍️ Nuevo Registro
+                  {amending ? "✏️ Corregir Registro" : "✍️ Nuevo Registro"}
                 </h4>
 
                 {isDeceased ? (
@@ -388,6 +751,33 @@ export const VetDashboard: React.FC<VetDashboardProps> = ({
                     )}
 
                     <div className="space-y-4">
+                      {amending && (
+                        <div className="p-3 rounded-lg border border-amber-500/40 bg-amber-500/10 space-y-3">
+                          <div className="flex justify-between items-center text-xs text-amber-200">
+                            <span>
+                              Corrigiendo el registro del{" "}
+                              {new Date(
+                                amending.timestamp * 1000
+                              ).toLocaleDateString("es-ES")}
+                              . El original queda en el historial como versión
+                              anterior, con sus adjuntos. La validez de una
+                              vacuna se cuenta desde la fecha original.
+                            </span>
+                            <button
+                              onClick={resetRecordForm}
+                              className="text-slate-400 hover:text-white ml-2"
+                            >
+                              ✕
+                            </button>
+                          </div>
+                          <Input
+                            label="Motivo de la corrección"
+                            placeholder="ej. Lote mal cargado"
+                            value={amendReason}
+                            onChange={(e) => setAmendReason(e.target.value)}
+                          />
+                        </div>
+                      )}
                       <div className="grid grid-cols-2 gap-4">
                         <div>
                           <label className="text-xs font-medium text-slate-400 block mb-1">
@@ -404,10 +794,9 @@ export const VetDashboard: React.FC<VetDashboardProps> = ({
                             <option value={1}>Vacuna</option>
                             <option value={2}>Cirugía</option>
                             <option value={3}>Rayos X</option>
-                            <option value={4}>Fallecimiento</option>
                           </select>
                         </div>
-                        {recordType === 1 && (
+                        {recordType === RecordType.VACCINE && (
                           <Input
                             label="Validez (Días)"
                             type="number"
@@ -418,28 +807,164 @@ export const VetDashboard: React.FC<VetDashboardProps> = ({
                           />
                         )}
                       </div>
+                      {recordType === RecordType.VACCINE && (
+                        <div>
+                          <label className="text-xs font-medium text-slate-400 block mb-1">
+                            Protege contra
+                          </label>
+                          <select
+                            className="w-full bg-slate-800 border border-slate-700 text-white rounded-lg px-3 py-2 text-sm outline-none focus:border-primary"
+                            value={vaccineId}
+                            onChange={(e) => setVaccineId(e.target.value)}
+                          >
+                            <option value="">Selecciona una vacuna</option>
+                            {vaccineCatalog.map((id) => (
+                              <option key={id} value={id}>
+                                {vaccineLabel(id)}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
+                      {recordType === RecordType.VACCINE && (
+                        <div className="grid grid-cols-2 gap-4">
+                          <Input
+                            label="Vacuna"
+                            placeholder="ej. Nobivac Rabies"
+                            value={vaccineName}
+                            onChange={(e) => setVaccineName(e.target.value)}
+                          />
+                          <Input
+                            label="Lote"
+                            value={vaccineLot}
+                            onChange={(e) => setVaccineLot(e.target.value)}
+                          />
+                        </div>
+                      )}
+                      <Input
+                        label="Diagnóstico"
+                        value={diagnosis}
+                        onChange={(e) => setDiagnosis(e.target.value)}
+                      />
+                      <Input
+                        label="Tratamiento"
+                        value={treatment}
+                        onChange={(e) => setTreatment(e.target.value)}
+                      />
+                      <div className="grid grid-cols-2 gap-4">
+                        <Input
+                          label="Peso (kg)"
+                          type="number"
+                          step="0.1"
+                          value={weightKg}
+                          onChange={(e) => setWeightKg(e.target.value)}
+                        />
+                        <Input
+                          label="Temperatura (°C)"
+                          type="number"
+                          step="0.1"
+                          value={temperatureC}
+                          onChange={(e) => setTemperatureC(e.target.value)}
+                        />
+                      </div>
                       <div>
                         <label className="text-xs font-medium text-slate-400 block mb-1">
-                          Descripción
+                          Medicamentos (uno por línea: nombre, dosis,
+                          frecuencia)
+                        </label>
+                        <textarea
+                          className="w-full bg-slate-800 border border-slate-700 text-white rounded-lg px-3 py-2 text-sm outline-none focus:border-primary h-16 resize-none"
+                          placeholder="Amoxicilina, 250mg, cada 12h"
+                          value={medications}
+                          onChange={(e) => setMedications(e.target.value)}
+                        ></textarea>
+                      </div>
+                      <div>
+                        <label className="text-xs font-medium text-slate-400 block mb-1">
+                          Notas
                         </label>
                         <textarea
                           className="w-full bg-slate-800 border border-slate-700 text-white rounded-lg px-3 py-2 text-sm outline-none focus:border-primary h-20 resize-none"
-                          placeholder="Diagnóstico..."
-                          value={desc}
-                          onChange={(e) => setDesc(e.target.value)}
+                          placeholder="Observaciones..."
+                          value={notes}
+                          onChange={(e) => setNotes(e.target.value)}
                         ></textarea>
                       </div>
+                      <div>
+                        <label className="text-xs font-medium text-slate-400 block mb-1">
+                          Adjuntos (imágenes, PDF, DICOM)
+                        </label>
+                        <input
+                          type="file"
+                          multiple
+                          accept={ATTACHMENT_ACCEPT}
+                          className="text-xs text-slate-400 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-xs file:bg-primary file:text-white hover:file:bg-indigo-500 w-full"
+                          onChange={(e) => {
+                            const files = e.target.files;
+                            if (files) {
+                              setAttachmentFiles((prev) => [
+                                ...prev,
+                                ...Array.from(files),
+                              ]);
+                            }
+                            e.target.value = "";
+                          }}
+                        />
+                        {attachmentFiles.length > 0 && (
+                          <ul className="mt-2 space-y-1 text-xs text-slate-300">
+                            {attachmentFiles.map((file, i) => (
+                              <li
+                                key={`${file.name}-${i}`}
+                                className="flex justify-between bg-slate-800 rounded px-2 py-1"
+                              >
+                                <span className="truncate">
+                                  {file.name}{" "}
+                                  <span className="text-slate-500">
+                                    ({formatFileSize(file.size)})
+                                  </span>
+                                </span>
+                                <button
+                                  onClick={() =>
+                                    setAttachmentFiles((prev) =>
+                                      prev.filter((_, j) => j !== i)
+                                    )
+                                  }
+                                  className="text-slate-400 hover:text-red-400 ml-2"
+                                >
+                                  ✕
+                                </button>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
                       <Button
                         onClick={handleAddRecord}
                         isLoading={isAdding}
                         className="w-full"
                       >
-                        Guardar Registro
+                        {amending ? "Guardar Corrección" : "Guardar Registro"}
                       </Button>
                     </div>
                   </>
                 )}
               </div>
+
+              {!isDeceased && (
+                <div className="border-t border-slate-700 pt-4">
+                  <DeathReportForm
+                    client={client!}
+                    account={account}
+                    tokenId={foundPatientId}
+                    clinicId={signAsClinic}
+                    patientName={patientMetadata.name}
+                    onReported={() => {
+                      setIsDeceased(true);
+                      setHistoryVersion((v) => v + 1);
+                    }}
+                  />
+                </div>
+              )}
             </div>
           )}
 
@@ -450,6 +975,16 @@ export const VetDashboard: React.FC<VetDashboardProps> = ({
           )}
         </div>
       </div>
+
+      {client && (
+        <ClinicPanel
+          client={client}
+          clinics={myClinics}
+          onChanged={loadClinics}
+        />
+      )}
+
+      {client && <VetProfilePanel client={client} account={account} />}
     </div>
   );
 };
@@ -0,0 +1,179 @@
+import React, { useState, useEffect, useMemo } from "react";
+import { VetChainClient } from "../services/vetChainClient";
+import { VetProfile } from "../types";
+
+interface VetDirectoryModalProps {
+  client: VetChainClient;
+  onSelect: (vet: string) => void;
+  onClose: () => void;
+}
+
+// Matches name or city by substring, license ID exactly ("12" or "#12")
+const matches = (profile: VetProfile, query: string) => {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return (
+    profile.name.toLowerCase().includes(q) ||
+    profile.city.toLowerCase().includes(q) ||
+    profile.licenseId === q.replace(/^#/, "")
+  );
+};
+
+// Search the public vet directory; picking a vet with a valid license
+// hands its wallet back to the approval form
+export const VetDirectoryModal: React.FC<VetDirectoryModalProps> = ({
+  client,
+  onSelect,
+  onClose,
+}) => {
+  const [profiles, setProfiles] = useState<VetProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [query, setQuery] = useState("");
+  // licenseId -> VetLicenseRegistry.isValid, checked when first shown
+  const [validity, setValidity] = useState<Record<string, boolean>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    client
+      .getVetProfiles()
+      .then((list) => {
+        if (!cancelled) setProfiles(list);
+      })
+      .catch((error) => console.error("Error loading vet directory:", error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [client]);
+
+  const results = useMemo(
+    () => profiles.filter((profile) => matches(profile, query)),
+    [profiles, query]
+  );
+
+  useEffect(() => {
+    const pending = results
+      .map((profile) => profile.licenseId)
+      .filter(
+        (licenseId, i, all) =>
+          all.indexOf(licenseId) === i && !(licenseId in validity)
+      );
+    if (pending.length === 0) return;
+
+    let cancelled = false;
+    Promise.all(
+      pending.map(async (licenseId) => {
+        // "0": the wallet unlinked its license after publishing
+        if (licenseId === "0") return [licenseId, false] as const;
+        try {
+          return [licenseId, await client.isLicenseValid(licenseId)] as const;
+        } catch (error) {
+          console.warn(`Could not check license #${licenseId}:`, error);
+          return [licenseId, false] as const;
+        }
+      })
+    ).then((checked) => {
+      if (!cancelled) {
+        setValidity((prev) => ({ ...prev, ...Object.fromEntries(checked) }));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [client, results, validity]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-fade-in">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl p-6 w-full max-w-lg relative shadow-2xl flex flex-col max-h-[85vh]">
+        <h3 className="text-lg font-bold text-white mb-4">
+          🔎 Buscar Veterinario
+        </h3>
+        <input
+          type="text"
+          autoFocus
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Nombre, ciudad o N° de licencia"
+          className="w-full bg-slate-800 border border-slate-700 text-white rounded-lg px-4 py-2 focus:ring-2 focus:ring-primary outline-none placeholder-slate-500 text-sm"
+        />
+
+        <div className="mt-4 overflow-y-auto custom-scrollbar space-y-2 flex-1">
+          {loading ? (
+            <p className="text-sm text-slate-400 text-center py-6">
+              Cargando directorio...
+            </p>
+          ) : results.length === 0 ? (
+            <p className="text-sm text-slate-500 italic text-center py-6">
+              {profiles.length === 0
+                ? "Todavía no hay veterinarios en el directorio."
+                : "Ningún veterinario coincide con la búsqueda."}
+            </p>
+          ) : (
+            results.map((profile) => {
+              const isValid = validity[profile.licenseId];
+              return (
+                <div
+                  key={profile.vet}
+                  className="flex items-start justify-between gap-3 bg-slate-800 rounded-lg p-3"
+                >
+                  <div className="min-w-0 text-xs text-slate-400 space-y-0.5">
+                    <div className="text-sm font-bold text-white truncate">
+                      {profile.name}
+                    </div>
+                    {profile.clinic && <div>🏥 {profile.clinic}</div>}
+                    {profile.specialties.length > 0 && (
+                      <div>{profile.specialties.join(" · ")}</div>
+                    )}
+                    {(profile.streetAddress || profile.city) && (
+                      <div>
+                        📍{" "}
+                        {[profile.streetAddress, profile.city]
+                          .filter(Boolean)
+                          .join(", ")}
+                      </div>
+                    )}
+                    {profile.phone && <div>📞 {profile.phone}</div>}
+                    <div className="font-mono">
+                      Licencia #{profile.licenseId}{" "}
+                      {isValid === undefined ? (
+                        <span className="text-slate-500">· verificando...</span>
+                      ) : isValid ? (
+                        <span className="text-green-400">✅ vigente</span>
+                      ) : (
+                        <span className="text-red-400">⛔ no vigente</span>
+                      )}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => {
+                      onSelect(profile.vet);
+                      onClose();
+                    }}
+                    disabled={!isValid}
+                    title={
+                      isValid
+                        ? undefined
+                        : "Solo se puede autorizar a un veterinario con licencia vigente"
+                    }
+                    className="shrink-0 text-xs bg-primary/20 text-primary px-3 py-1 rounded font-bold hover:bg-primary/30 disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    Elegir
+                  </button>
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        <button
+          onClick={onClose}
+          className="mt-4 w-full py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg font-semibold transition-colors"
+        >
+          Cerrar
+        </button>
+      </div>
+    </div>
+  );
+};
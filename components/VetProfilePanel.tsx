@@ -0,0 +1,162 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { Input } from "./Input";
+import { Button } from "./Button";
+import { VetChainClient } from "../services/vetChainClient";
+import { VetProfileInput } from "../types";
+
+interface VetProfilePanelProps {
+  client: VetChainClient;
+  account: string;
+}
+
+const EMPTY_PROFILE: VetProfileInput = {
+  name: "",
+  clinic: "",
+  specialties: [],
+  city: "",
+  streetAddress: "",
+  phone: "",
+};
+
+// The vet's own entry in the public directory owners search from PetCard
+export const VetProfilePanel: React.FC<VetProfilePanelProps> = ({
+  client,
+  account,
+}) => {
+  const [form, setForm] = useState<VetProfileInput>(EMPTY_PROFILE);
+  // Edited as free text, split on commas when saving
+  const [specialties, setSpecialties] = useState("");
+  const [published, setPublished] = useState(false);
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+
+  const loadProfile = useCallback(async () => {
+    try {
+      const profile = await client.getVetProfile(account);
+      setPublished(!!profile);
+      setForm(profile ?? EMPTY_PROFILE);
+      setSpecialties(profile ? profile.specialties.join(", ") : "");
+    } catch (error) {
+      console.error("Error loading vet profile:", error);
+    }
+  }, [client, account]);
+
+  useEffect(() => {
+    loadProfile();
+  }, [loadProfile]);
+
+  // Older deployments have no directory
+  if (!client.network.contracts.VET_PROFILES) return null;
+
+  const setField =
+    (field: keyof VetProfileInput) =>
+    (e: React.ChangeEvent<HTMLInputElement>) =>
+      setForm((prev) => ({ ...prev, [field]: e.target.value }));
+
+  const handleSave = async () => {
+    if (!form.name.trim()) return;
+    setActionLoading("saving");
+    try {
+      const tx = await client.setVetProfile({
+        ...form,
+        specialties: specialties
+          .split(",")
+          .map((s) => s.trim())
+          .filter(Boolean),
+      });
+      await tx.wait();
+      loadProfile();
+    } catch (error: any) {
+      alert(`Error: ${error.reason || error.message}`);
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!confirm("¿Quitar tu perfil del directorio?")) return;
+    setActionLoading("removing");
+    try {
+      const tx = await client.removeVetProfile();
+      await tx.wait();
+      loadProfile();
+    } catch (error: any) {
+      alert(`Error: ${error.reason || error.message}`);
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  return (
+    <div className="bg-surface p-6 rounded-xl shadow-lg border border-slate-700">
+      <h2 className="text-xl font-bold mb-2 text-white flex items-center gap-2">
+        <span className="text-secondary">🩺</span> Mi Perfil Público
+      </h2>
+      <p className="text-xs text-slate-400 mb-4">
+        Los dueños te encuentran por nombre, ciudad o número de licencia al
+        autorizar a un veterinario. Junto a tu perfil se muestra si tu licencia
+        está vigente.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Input
+          label="Nombre"
+          placeholder="ej. Dra. Ana Pérez"
+          value={form.name}
+          onChange={setField("name")}
+        />
+        <Input
+          label="Clínica"
+          placeholder="ej. Clínica Central"
+          value={form.clinic}
+          onChange={setField("clinic")}
+        />
+        <Input
+          label="Especialidades (separadas por coma)"
+          placeholder="ej. felinos, cirugía"
+          value={specialties}
+          onChange={(e) => setSpecialties(e.target.value)}
+        />
+        <Input
+          label="Ciudad"
+          placeholder="ej. Rosario"
+          value={form.city}
+          onChange={setField("city")}
+        />
+        <Input
+          label="Dirección"
+          placeholder="ej. San Martín 123"
+          value={form.streetAddress}
+          onChange={setField("streetAddress")}
+        />
+        <Input
+          label="Teléfono"
+          placeholder="ej. +54 341 555-0101"
+          value={form.phone}
+          onChange={setField("phone")}
+        />
+      </div>
+
+      <div className="flex gap-2 mt-4">
+        <Button
+          onClick={handleSave}
+          disabled={!form.name.trim()}
+          isLoading={actionLoading === "saving"}
+          variant="secondary"
+          className="text-sm"
+        >
+          {published ? "Actualizar Perfil" : "Publicar Perfil"}
+        </Button>
+        {published && (
+          <Button
+            onClick={handleRemove}
+            isLoading={actionLoading === "removing"}
+            variant="danger"
+            className="text-sm"
+          >
+            Quitar del Directorio
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
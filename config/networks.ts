@@ -0,0 +1,104 @@
+// config/networks.ts
+import deployments from "./deployments.json";
+import { ABI_VERSION } from "./abis";
+
+// Safely access environment variables
+const env = (import.meta as any).env || {};
+
+export interface ContractAddresses {
+  ANIMAL_NFT: string;
+  STORAGE: string;
+  VET_REGISTRY: string;
+  VET_NFT: string;
+  // Ausente en despliegues anteriores a las clínicas
+  CLINIC_REGISTRY?: string;
+  // Ausente en despliegues anteriores a TransferPolicy
+  TRANSFER_POLICY?: string;
+  // Ausente en despliegues anteriores al directorio de veterinarios
+  VET_PROFILES?: string;
+}
+
+// Lo que escribe scripts/deploy.ts en config/deployments.json por chainId
+export interface Deployment extends ContractAddresses {
+  startBlock?: number;
+  // ABI_VERSION de config/abis.ts al desplegar
+  abiVersion?: string;
+}
+
+const DEPLOYMENTS: Record<string, Deployment> = deployments;
+
+export interface NetworkConfig {
+  chainId: string; // Hex, como lo reporta MetaMask
+  name: string;
+  rpcUrls: string[];
+  explorerUrl?: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  contracts: ContractAddresses;
+  // Bloque desde el que indexar eventos. Obligatorio fuera del nodo local:
+  // sin él el índice de eventos se niega a escanear desde génesis.
+  startBlock?: number;
+  // Registry de ENS en esta red. Sin él no se resuelven nombres.
+  ensRegistry?: string;
+  // Hay AnimalNFT y MedicalStorage desplegados: se puede leer la red
+  isDeployed: boolean;
+  // false si los contratos desplegados no son los de config/abis.ts. Lo que
+  // cambió entre versiones revierte o no decodifica, así que la dApp usa la
+  // red en solo lectura hasta que se redespliegue.
+  isCurrent: boolean;
+}
+
+const isDeployed = (deployment: Deployment | undefined): boolean =>
+  !!deployment?.ANIMAL_NFT && !!deployment.STORAGE;
+
+// Desplegado con estos ABIs y con todos los contratos que usa el cliente
+const isCurrent = (deployment: Deployment | undefined): boolean =>
+  isDeployed(deployment) &&
+  deployment!.abiVersion === ABI_VERSION &&
+  !!deployment!.CLINIC_REGISTRY &&
+  !!deployment!.TRANSFER_POLICY &&
+  !!deployment!.VET_PROFILES;
+
+export const SEPOLIA_CHAIN_ID = "0xaa36a7"; // 11155111
+export const LOCALHOST_CHAIN_ID = "0x7a69"; // 31337 (Anvil / Hardhat)
+
+export const NETWORKS: Record<string, NetworkConfig> = {
+  [SEPOLIA_CHAIN_ID]: {
+    chainId: SEPOLIA_CHAIN_ID,
+    name: "Sepolia",
+    rpcUrls: [env.VITE_SEPOLIA_RPC_URL || "https://rpc.sepolia.org"],
+    explorerUrl: "https://sepolia.etherscan.io",
+    nativeCurrency: { name: "Sepolia Ether", symbol: "ETH", decimals: 18 },
+    contracts: DEPLOYMENTS[SEPOLIA_CHAIN_ID],
+    startBlock: DEPLOYMENTS[SEPOLIA_CHAIN_ID].startBlock,
+    isDeployed: isDeployed(DEPLOYMENTS[SEPOLIA_CHAIN_ID]),
+    isCurrent: isCurrent(DEPLOYMENTS[SEPOLIA_CHAIN_ID]),
+    // Misma dirección que en mainnet
+    ensRegistry:
+      env.VITE_SEPOLIA_ENS_REGISTRY ||
+      "0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e",
+  },
+  [LOCALHOST_CHAIN_ID]: {
+    chainId: LOCALHOST_CHAIN_ID,
+    name: "Localhost",
+    rpcUrls: [env.VITE_LOCAL_RPC_URL || "http://127.0.0.1:8545"],
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    // Actualizado por `npm run contracts:deploy:local`
+    contracts: DEPLOYMENTS[LOCALHOST_CHAIN_ID],
+    startBlock: DEPLOYMENTS[LOCALHOST_CHAIN_ID].startBlock,
+    isDeployed: isDeployed(DEPLOYMENTS[LOCALHOST_CHAIN_ID]),
+    isCurrent: isCurrent(DEPLOYMENTS[LOCALHOST_CHAIN_ID]),
+    // ENS desplegado a mano en el nodo local, si lo hay
+    ensRegistry: env.VITE_LOCAL_ENS_REGISTRY || undefined,
+  },
+};
+
+// Red a la que se ofrece cambiar cuando la wallet está en una red no soportada.
+export const DEFAULT_CHAIN_ID: string =
+  env.VITE_DEFAULT_CHAIN_ID || SEPOLIA_CHAIN_ID;
+
+export const getNetworkConfig = (
+  chainId: string | null
+): NetworkConfig | null => {
+  if (!chainId) return null;
+  return NETWORKS[chainId.toLowerCase()] || null;
+};
@@ -26,12 +26,45 @@ interface IStorage {
         uint256 _tokenId,
         string memory _desc,
         address _vet,
+        uint256 _clinicId,
         RecordType _type,
+        bytes32 _vaccineId,
         uint256 _daysValid
+    ) external returns (uint256);
+    function amendEntry(
+        uint256 _tokenId,
+        uint256 _entryId,
+        string memory _ipfsHash,
+        address _vet,
+        RecordType _type,
+        bytes32 _vaccineId,
+        uint256 _daysValid,
+        string memory _reason
+    ) external returns (uint256);
+    function retractEntry(
+        uint256 _tokenId,
+        uint256 _entryId,
+        address _vet,
+        string memory _reason
     ) external;
-    function isVaccineValid(uint256 _tokenId) external view returns (bool);
     function setBirthDate(uint256 _tokenId, uint256 _birthDate) external;
-    function getBirthDate(uint256 _tokenId) external view returns (uint256);
+    function setSpecies(uint256 _tokenId, bytes32 _species) external;
+    function setSterilized(uint256 _tokenId) external;
+    function setMicrochipVerified(uint256 _tokenId) external;
+}
+
+// Interface de la Política de Transferencia
+interface ITransferPolicy {
+    function enforce(uint256 _tokenId, address _to) external view;
+}
+
+// Interface del Registro de Clínicas
+interface IClinicRegistry {
+    function clinicCount() external view returns (uint256);
+    function isMember(
+        uint256 _clinicId,
+        address _vet
+    ) external view returns (bool);
 }
 
 /// @title AnimalNFT - Identidad Digital Soberana para Mascotas (v4)
@@ -49,11 +82,28 @@ contract AnimalNFT is ERC721, ERC721URIStorage, Ownable {
     /// @notice Contrato donde se almacenan los datos clínicos persistentes.
     IStorage public medicalStorage;
 
+    /// @notice Registro de clínicas cuyos equipos pueden recibir permisos conjuntos.
+    IClinicRegistry public clinicRegistry;
+
+    /// @notice Reglas sanitarias que se exigen en cada transferencia entre dueños.
+    ITransferPolicy public transferPolicy;
+
     /// @dev Contador de propiedad (Nonce) para invalidar permisos al transferir.
     mapping(uint256 => uint256) private _tokenNonce;
 
-    /// @dev Almacena aprobaciones temporales: TokenID => VetAddress => Nonce.
-    mapping(uint256 => mapping(address => uint256)) private _vetApprovalNonce;
+    /// @notice Permiso de escritura de un veterinario sobre un animal.
+    /// @dev `nonce` lo ata al dueño actual; `remainingUses` en 0 significa sin límite de registros.
+    struct VetApproval {
+        uint256 nonce;
+        uint64 expiresAt;
+        uint32 remainingUses;
+    }
+
+    /// @dev Aprobaciones vigentes: TokenID => VetAddress => Aprobación.
+    mapping(uint256 => mapping(address => VetApproval)) private _vetApprovals;
+
+    /// @dev Aprobaciones a clínicas: TokenID => ClinicID => Aprobación. El cupo de usos es compartido por el equipo.
+    mapping(uint256 => mapping(uint256 => VetApproval)) private _clinicApprovals;
 
     /// @notice Estado de extravío del animal. Si es true, el animal está bloqueado.
     mapping(uint256 => bool) public isLost;
@@ -61,6 +111,21 @@ contract AnimalNFT is ERC721, ERC721URIStorage, Ownable {
     /// @notice Vinculación entre la wallet del veterinario y su Token ID de Licencia profesional.
     mapping(address => uint256) public vetWalletToLicenseId;
 
+    /// @notice Oferta de transferencia que el destinatario debe aceptar.
+    /// @dev `nonce` la ata al dueño que la creó; `price` en wei (0 = sin pago).
+    struct TransferOffer {
+        uint256 nonce;
+        address to;
+        uint64 deadline;
+        uint256 price;
+    }
+
+    /// @dev Oferta abierta por animal (una sola; ofertar de nuevo la reemplaza).
+    mapping(uint256 => TransferOffer) private _transferOffers;
+
+    /// @notice Pagos cobrados por ventas que el vendedor todavía no retiró.
+    mapping(address => uint256) public pendingProceeds;
+
     // --- EVENTOS ---
 
     /// @notice Se emite cuando un dueño reporta a su mascota como perdida o encontrada.
@@ -76,17 +141,81 @@ contract AnimalNFT is ERC721, ERC721URIStorage, Ownable {
     /// @notice Se emite cuando un veterinario vincula exitosamente su wallet con su licencia.
     event VetLinked(address indexed vet, uint256 licenseId);
 
+    /// @notice Se emite cuando el dueño autoriza (o re-autoriza) a un veterinario.
+    /// @param maxUses Cantidad de registros permitidos (0 = sin límite hasta el vencimiento).
+    event VetApproved(
+        uint256 indexed tokenId,
+        address indexed vet,
+        uint64 expiresAt,
+        uint32 maxUses
+    );
+
+    /// @notice Se emite cuando el dueño revoca explícitamente un permiso.
+    event VetRevoked(uint256 indexed tokenId, address indexed vet);
+
+    /// @notice Se emite cuando el dueño autoriza (o re-autoriza) a una clínica completa.
+    /// @param maxUses Cantidad de registros permitidos entre todo el equipo (0 = sin límite).
+    event ClinicApproved(
+        uint256 indexed tokenId,
+        uint256 indexed clinicId,
+        uint64 expiresAt,
+        uint32 maxUses
+    );
+
+    /// @notice Se emite cuando el dueño revoca el permiso de una clínica.
+    event ClinicRevoked(uint256 indexed tokenId, uint256 indexed clinicId);
+
+    /// @notice Se emite cuando el admin reemplaza la política de transferencia.
+    event TransferPolicyChanged(address indexed policy);
+
+    /// @notice Se emite cuando un veterinario certifica la esterilización del animal.
+    event SterilizationRecorded(uint256 indexed tokenId, address indexed vet);
+
+    /// @notice Se emite cuando un veterinario lee y verifica el microchip del animal.
+    event MicrochipVerified(uint256 indexed tokenId, address indexed vet);
+
+    /// @notice Se emite cuando el dueño ofrece transferir el animal.
+    /// @param price Precio en wei que paga el destinatario al aceptar (0 = sin pago).
+    event TransferOffered(
+        uint256 indexed tokenId,
+        address indexed from,
+        address indexed to,
+        uint256 price,
+        uint64 deadline
+    );
+
+    /// @notice Se emite cuando el dueño retira la oferta o el destinatario la rechaza.
+    event TransferOfferCancelled(
+        uint256 indexed tokenId,
+        address indexed to,
+        address indexed by
+    );
+
+    /// @notice Se emite cuando el destinatario acepta la oferta y recibe el animal.
+    event TransferOfferAccepted(
+        uint256 indexed tokenId,
+        address indexed from,
+        address indexed to,
+        uint256 price
+    );
+
+    /// @notice Se emite cuando un vendedor retira lo cobrado.
+    event ProceedsWithdrawn(address indexed seller, uint256 amount);
+
     /// @param _vetRegistryAddress Dirección del contrato de registro de licencias.
     /// @param _vetNftAddress Dirección del contrato NFT de licencias.
     /// @param _storageAddress Dirección del contrato MedicalStorage.
+    /// @param _clinicRegistryAddress Dirección del contrato ClinicRegistry.
     constructor(
         address _vetRegistryAddress,
         address _vetNftAddress,
-        address _storageAddress
+        address _storageAddress,
+        address _clinicRegistryAddress
     ) ERC721("VetChain", "VET") Ownable(msg.sender) {
         vetRegistry = IVetLicenseRegistry(_vetRegistryAddress);
         vetNftContract = IERC721(_vetNftAddress);
         medicalStorage = IStorage(_storageAddress);
+        clinicRegistry = IClinicRegistry(_clinicRegistryAddress);
     }
 
     /// @notice Permite a un veterinario vincular su wallet con su NFT de licencia profesional.
@@ -142,56 +271,230 @@ contract AnimalNFT is ERC721, ERC721URIStorage, Ownable {
     /// @param _chipId ID del microchip físico (será el TokenID).
     /// @param _uri Enlace IPFS con los metadatos visuales (foto, nombre).
     /// @param _birthDate Fecha de nacimiento en Unix Timestamp.
+    /// @param _species Especie en bytes32 ("dog", "cat"...), usada por la edad mínima de TransferPolicy.
     function registerAnimal(
         address _toOwner,
         uint256 _chipId,
         string memory _uri,
-        uint256 _birthDate
+        uint256 _birthDate,
+        bytes32 _species
     ) public onlyValidVet {
         medicalStorage.setBirthDate(_chipId, _birthDate);
+        medicalStorage.setSpecies(_chipId, _species);
         _tokenNonce[_chipId] = 1;
         _safeMint(_toOwner, _chipId);
         _setTokenURI(_chipId, _uri);
     }
 
     /// @notice Agrega un registro al historial clínico.
-    /// @dev Requiere que el animal exista, el vet esté validado y tenga permiso explícito del dueño. Consume el permiso al finalizar.
+    /// @dev Requiere que el animal exista, el vet esté validado y tenga un permiso vigente del dueño. Descuenta un uso si el permiso tiene cupo.
     /// @param _tokenId ID del animal.
     /// @param _desc Hash IPFS o descripción corta del diagnóstico.
     /// @param _type Tipo de evento (Vacuna, Cirugía, etc.).
+    /// @param _vaccineId Vacuna del catálogo (solo relevante para vacunas).
     /// @param _daysValid Días de validez (solo relevante para vacunas).
     function addMedicalRecord(
         uint256 _tokenId,
         string memory _desc,
         RecordType _type,
+        bytes32 _vaccineId,
         uint256 _daysValid
     ) public onlyValidVet {
         require(exists(_tokenId), "El animal no existe o fallecio");
+        _useApproval(_tokenId, 0);
+        medicalStorage.addEntry(
+            _tokenId,
+            _desc,
+            msg.sender,
+            0,
+            _type,
+            _vaccineId,
+            _daysValid
+        );
+    }
+
+    /// @notice Agrega un registro en nombre de una clínica aprobada por el dueño.
+    /// @dev El vet debe ser miembro de la clínica al momento de escribir. El registro guarda vet y clínica.
+    /// @param _tokenId ID del animal.
+    /// @param _clinicId ID de la clínica en ClinicRegistry.
+    /// @param _desc Hash IPFS o descripción corta del diagnóstico.
+    /// @param _type Tipo de evento (Vacuna, Cirugía, etc.).
+    /// @param _vaccineId Vacuna del catálogo (solo relevante para vacunas).
+    /// @param _daysValid Días de validez (solo relevante para vacunas).
+    function addClinicMedicalRecord(
+        uint256 _tokenId,
+        uint256 _clinicId,
+        string memory _desc,
+        RecordType _type,
+        bytes32 _vaccineId,
+        uint256 _daysValid
+    ) public onlyValidVet {
+        require(exists(_tokenId), "El animal no existe o fallecio");
+        _useApproval(_tokenId, _clinicId);
+        medicalStorage.addEntry(
+            _tokenId,
+            _desc,
+            msg.sender,
+            _clinicId,
+            _type,
+            _vaccineId,
+            _daysValid
+        );
+    }
+
+    /// @notice Corrige un registro del historial. El original se conserva marcado como corregido.
+    /// @dev Requiere un permiso vigente del dueño actual, propio o de la clínica (consume un uso), también para el autor del registro.
+    /// @param _tokenId ID del animal.
+    /// @param _clinicId Clínica con cuyo permiso se corrige (0 = permiso propio del vet).
+    /// @param _entryId ID del registro a corregir (entryId de MedicalRecordAdded).
+    /// @param _desc Hash IPFS del detalle corregido.
+    /// @param _type Tipo de evento corregido.
+    /// @param _vaccineId Vacuna del catálogo (solo vacunas).
+    /// @param _daysValid Días de validez (solo vacunas), contados desde la fecha original.
+    /// @param _reason Motivo de la corrección.
+    function amendMedicalRecord(
+        uint256 _tokenId,
+        uint256 _clinicId,
+        uint256 _entryId,
+        string memory _desc,
+        RecordType _type,
+        bytes32 _vaccineId,
+        uint256 _daysValid,
+        string memory _reason
+    ) public onlyValidVet {
+        _authorizeAmendment(_tokenId, _clinicId);
+        medicalStorage.amendEntry(
+            _tokenId,
+            _entryId,
+            _desc,
+            msg.sender,
+            _type,
+            _vaccineId,
+            _daysValid,
+            _reason
+        );
+    }
+
+    /// @notice Retracta un registro cargado por error. Se conserva en el historial pero sin efecto.
+    /// @dev Mismas reglas de autorización que amendMedicalRecord.
+    /// @param _tokenId ID del animal.
+    /// @param _clinicId Clínica con cuyo permiso se retracta (0 = permiso propio del vet).
+    /// @param _entryId ID del registro a retractar.
+    /// @param _reason Motivo de la retractación.
+    function retractMedicalRecord(
+        uint256 _tokenId,
+        uint256 _clinicId,
+        uint256 _entryId,
+        string memory _reason
+    ) public onlyValidVet {
+        _authorizeAmendment(_tokenId, _clinicId);
+        medicalStorage.retractEntry(_tokenId, _entryId, msg.sender, _reason);
+    }
+
+    /// @dev Firmar el registro no da derecho a reescribirlo: con el permiso vencido, revocado
+    /// o de un dueño anterior, ni el autor puede corregirlo o retractarlo.
+    function _authorizeAmendment(uint256 _tokenId, uint256 _clinicId) private {
+        require(exists(_tokenId), "El animal no existe o fallecio");
+        _useApproval(_tokenId, _clinicId);
+    }
+
+    /// @notice Certifica que el animal está esterilizado.
+    /// @dev Requiere un permiso vigente del dueño, propio o de la clínica, pero no consume usos.
+    /// @param _clinicId Clínica con cuyo permiso se certifica (0 = permiso propio del vet).
+    function recordSterilization(
+        uint256 _tokenId,
+        uint256 _clinicId
+    ) public onlyValidVet {
+        _requireApproval(_tokenId, _clinicId);
+        medicalStorage.setSterilized(_tokenId);
+        emit SterilizationRecorded(_tokenId, msg.sender);
+    }
+
+    /// @notice Certifica que el veterinario leyó el microchip y coincide con el TokenID.
+    /// @dev Requiere un permiso vigente del dueño, propio o de la clínica, pero no consume usos.
+    /// @param _clinicId Clínica con cuyo permiso se certifica (0 = permiso propio del vet).
+    function verifyMicrochip(
+        uint256 _tokenId,
+        uint256 _clinicId
+    ) public onlyValidVet {
+        _requireApproval(_tokenId, _clinicId);
+        medicalStorage.setMicrochipVerified(_tokenId);
+        emit MicrochipVerified(_tokenId, msg.sender);
+    }
+
+    /// @dev Permiso con el que actúa el vet: el propio (_clinicId 0) o el de una clínica de la que es miembro.
+    function _approvalOf(
+        uint256 _tokenId,
+        uint256 _clinicId
+    ) private view returns (VetApproval storage) {
+        if (_clinicId == 0) return _vetApprovals[_tokenId][msg.sender];
+        require(
+            clinicRegistry.isMember(_clinicId, msg.sender),
+            "No eres miembro de la clinica"
+        );
+        return _clinicApprovals[_tokenId][_clinicId];
+    }
+
+    function _requireApproval(
+        uint256 _tokenId,
+        uint256 _clinicId
+    ) private view {
+        require(exists(_tokenId), "El animal no existe o fallecio");
+        _checkApproval(_tokenId, _approvalOf(_tokenId, _clinicId));
+    }
+
+    /// @dev Verifica que el permiso pertenezca al dueño actual y siga vigente.
+    function _checkApproval(
+        uint256 _tokenId,
+        VetApproval storage approval
+    ) private view {
         require(
-            _vetApprovalNonce[_tokenId][msg.sender] == _tokenNonce[_tokenId],
+            approval.nonce == _tokenNonce[_tokenId],
             "Permiso del dueno requerido"
         );
+        require(block.timestamp < approval.expiresAt, "Permiso vencido");
+    }
 
-        medicalStorage.addEntry(_tokenId, _desc, msg.sender, _type, _daysValid);
-
-        // Revocación automática del permiso tras el uso
-        delete _vetApprovalNonce[_tokenId][msg.sender];
+    /// @dev Verifica el permiso del vet (_clinicId 0) o de su clínica y descuenta un uso.
+    /// Con cupo, al agotarse queda revocado y se emite VetRevoked o ClinicRevoked como en una revocación del dueño.
+    function _useApproval(uint256 _tokenId, uint256 _clinicId) private {
+        VetApproval storage approval = _approvalOf(_tokenId, _clinicId);
+        _checkApproval(_tokenId, approval);
+
+        if (approval.remainingUses == 0) return;
+        approval.remainingUses--;
+        if (approval.remainingUses > 0) return;
+
+        approval.nonce = 0;
+        approval.expiresAt = 0;
+        if (_clinicId == 0) {
+            emit VetRevoked(_tokenId, msg.sender);
+        } else {
+            emit ClinicRevoked(_tokenId, _clinicId);
+        }
     }
 
     /// @notice Registra el fallecimiento de un animal y destruye el token digital.
     /// @dev Quema (_burn) el token para impedir transferencias futuras pero guarda el historial.
+    /// Requiere un permiso vigente del dueño, propio o de la clínica, como el resto de las escrituras del vet.
     /// @param _tokenId ID del animal.
+    /// @param _clinicId Clínica con cuyo permiso se reporta (0 = permiso propio del vet).
     /// @param _deathCertificateHash Hash IPFS del certificado de defunción.
     function reportDecease(
         uint256 _tokenId,
+        uint256 _clinicId,
         string memory _deathCertificateHash
     ) public onlyValidVet {
+        _requireApproval(_tokenId, _clinicId);
+
         // Guardar registro final
         medicalStorage.addEntry(
             _tokenId,
             _deathCertificateHash,
             msg.sender,
+            _clinicId,
             RecordType.DECEASED,
+            bytes32(0),
             0
         );
 
@@ -205,7 +508,9 @@ contract AnimalNFT is ERC721, ERC721URIStorage, Ownable {
     // --- LÓGICA DE TRANSFERENCIA Y REGLAS DE NEGOCIO ---
 
     /// @dev Hook interno de OpenZeppelin que se ejecuta antes de cualquier transferencia (incluyendo mint y burn).
-    /// @notice Aplica las reglas sanitarias: Vacunación, Estado de Extravío y Edad Mínima.
+    /// @notice Aplica las reglas sanitarias de TransferPolicy a los cambios de dueño.
+    /// Solo acceptTransferOffer cambia de dueño: transferFrom y safeTransferFrom revierten, para que
+    /// un destinatario mal escrito no se quede con el animal sin haberlo aceptado.
     function _update(
         address to,
         uint256 tokenId,
@@ -215,22 +520,16 @@ contract AnimalNFT is ERC721, ERC721URIStorage, Ownable {
 
         // Si no es mint (from!=0) y no es burn (to!=0), es una transferencia real.
         if (from != address(0) && to != address(0)) {
-            // Regla 1: Vacunas al día
+            // transferFrom pasa en `auth` quién la pidió; acceptTransferOffer usa _safeTransfer, sin `auth`
+            require(
+                auth == address(0),
+                "Transferencia directa deshabilitada: usa offerTransfer"
+            );
             require(
-                medicalStorage.isVaccineValid(tokenId),
-                "Bloqueo: Vacuna vencida"
+                address(transferPolicy) != address(0),
+                "Bloqueo: Politica de transferencia no configurada"
             );
-            // Regla 2: No estar reportado como perdido
-            require(!isLost[tokenId], "Bloqueo: Animal reportado como PERDIDO");
-
-            // Regla 3: Edad mínima de destete (60 días)
-            uint256 birth = medicalStorage.getBirthDate(tokenId);
-            if (birth > 0) {
-                require(
-                    block.timestamp >= birth + 60 days,
-                    "Bloqueo: Animal menor a 60 dias"
-                );
-            }
+            transferPolicy.enforce(tokenId, to);
         }
 
         // Si cambia de dueño, incrementamos el nonce para invalidar permisos anteriores
@@ -241,6 +540,12 @@ contract AnimalNFT is ERC721, ERC721URIStorage, Ownable {
         return super._update(to, tokenId, auth);
     }
 
+    /// @notice Reemplaza la política de transferencia (p. ej. al cambiar de jurisdicción).
+    function setTransferPolicy(address _policy) external onlyOwner {
+        transferPolicy = ITransferPolicy(_policy);
+        emit TransferPolicyChanged(_policy);
+    }
+
     // --- FUNCIONES DE DUEÑO ---
 
     /// @notice Reporta al animal como perdido o encontrado.
@@ -254,12 +559,206 @@ contract AnimalNFT is ERC721, ERC721URIStorage, Ownable {
 
     /// @notice Autoriza a un veterinario para escribir en el historial de ESTE animal.
     /// @dev El permiso se vincula al nonce actual. Si el animal se transfiere, el permiso caduca.
+    /// Re-aprobar reemplaza el permiso anterior.
     /// @param _vet Dirección del veterinario.
     /// @param _tokenId ID del animal.
-    function approveVet(address _vet, uint256 _tokenId) public {
+    /// @param _expiresAt Unix Timestamp a partir del cual el permiso deja de valer.
+    /// @param _maxUses Cantidad de registros permitidos (0 = sin límite hasta el vencimiento).
+    function approveVet(
+        address _vet,
+        uint256 _tokenId,
+        uint64 _expiresAt,
+        uint32 _maxUses
+    ) public {
         require(ownerOf(_tokenId) == msg.sender, "No eres el dueno");
+        require(_expiresAt > block.timestamp, "Vencimiento en el pasado");
         // Nota: No validamos licencia aquí para ahorrar gas al dueño, se valida al intentar escribir.
-        _vetApprovalNonce[_tokenId][_vet] = _tokenNonce[_tokenId];
+        _vetApprovals[_tokenId][_vet] = VetApproval(
+            _tokenNonce[_tokenId],
+            _expiresAt,
+            _maxUses
+        );
+        emit VetApproved(_tokenId, _vet, _expiresAt, _maxUses);
+    }
+
+    /// @notice Revoca el permiso de un veterinario antes de su vencimiento.
+    /// @param _vet Dirección del veterinario.
+    /// @param _tokenId ID del animal.
+    function revokeVet(address _vet, uint256 _tokenId) public {
+        require(ownerOf(_tokenId) == msg.sender, "No eres el dueno");
+        delete _vetApprovals[_tokenId][_vet];
+        emit VetRevoked(_tokenId, _vet);
+    }
+
+    /// @notice Consulta el permiso de un veterinario sobre un animal.
+    /// @return active Si hoy puede escribir (mismo dueño y no vencido).
+    /// @return expiresAt Vencimiento del permiso.
+    /// @return remainingUses Registros restantes (0 = sin límite).
+    function getVetApproval(
+        uint256 _tokenId,
+        address _vet
+    )
+        public
+        view
+        returns (bool active, uint64 expiresAt, uint32 remainingUses)
+    {
+        VetApproval memory approval = _vetApprovals[_tokenId][_vet];
+        active =
+            exists(_tokenId) &&
+            approval.nonce == _tokenNonce[_tokenId] &&
+            block.timestamp < approval.expiresAt;
+        return (active, approval.expiresAt, approval.remainingUses);
+    }
+
+    /// @notice Autoriza a todo el equipo de una clínica a escribir en el historial de ESTE animal.
+    /// @dev Mismas reglas que approveVet: atado al dueño actual, con vencimiento y cupo compartido.
+    /// @param _clinicId ID de la clínica en ClinicRegistry.
+    /// @param _tokenId ID del animal.
+    /// @param _expiresAt Unix Timestamp a partir del cual el permiso deja de valer.
+    /// @param _maxUses Cantidad de registros permitidos (0 = sin límite hasta el vencimiento).
+    function approveClinic(
+        uint256 _clinicId,
+        uint256 _tokenId,
+        uint64 _expiresAt,
+        uint32 _maxUses
+    ) public {
+        require(ownerOf(_tokenId) == msg.sender, "No eres el dueno");
+        require(
+            _clinicId > 0 && _clinicId <= clinicRegistry.clinicCount(),
+            "Clinica inexistente"
+        );
+        require(_expiresAt > block.timestamp, "Vencimiento en el pasado");
+        _clinicApprovals[_tokenId][_clinicId] = VetApproval(
+            _tokenNonce[_tokenId],
+            _expiresAt,
+            _maxUses
+        );
+        emit ClinicApproved(_tokenId, _clinicId, _expiresAt, _maxUses);
+    }
+
+    /// @notice Revoca el permiso de una clínica antes de su vencimiento.
+    function revokeClinic(uint256 _clinicId, uint256 _tokenId) public {
+        require(ownerOf(_tokenId) == msg.sender, "No eres el dueno");
+        delete _clinicApprovals[_tokenId][_clinicId];
+        emit ClinicRevoked(_tokenId, _clinicId);
+    }
+
+    /// @notice Consulta el permiso de una clínica sobre un animal.
+    /// @return active Si hoy su equipo puede escribir (mismo dueño y no vencido).
+    /// @return expiresAt Vencimiento del permiso.
+    /// @return remainingUses Registros restantes para todo el equipo (0 = sin límite).
+    function getClinicApproval(
+        uint256 _tokenId,
+        uint256 _clinicId
+    )
+        public
+        view
+        returns (bool active, uint64 expiresAt, uint32 remainingUses)
+    {
+        VetApproval memory approval = _clinicApprovals[_tokenId][_clinicId];
+        active =
+            exists(_tokenId) &&
+            approval.nonce == _tokenNonce[_tokenId] &&
+            block.timestamp < approval.expiresAt;
+        return (active, approval.expiresAt, approval.remainingUses);
+    }
+
+    // --- OFERTAS DE TRANSFERENCIA ---
+
+    /// @notice Ofrece transferir el animal. No cambia de dueño hasta que `_to` acepte.
+    /// @dev Reemplaza la oferta anterior. Pierde validez si el animal cambia de dueño por otra vía.
+    /// @param _tokenId ID del animal.
+    /// @param _to Wallet que debe aceptar.
+    /// @param _price Precio en wei que se cobra al aceptar (0 = sin pago).
+    /// @param _deadline Unix Timestamp a partir del cual la oferta vence.
+    function offerTransfer(
+        uint256 _tokenId,
+        address _to,
+        uint256 _price,
+        uint64 _deadline
+    ) public {
+        require(ownerOf(_tokenId) == msg.sender, "No eres el dueno");
+        require(
+            _to != address(0) && _to != msg.sender,
+            "Destinatario invalido"
+        );
+        require(_deadline > block.timestamp, "Vencimiento en el pasado");
+        _transferOffers[_tokenId] = TransferOffer(
+            _tokenNonce[_tokenId],
+            _to,
+            _deadline,
+            _price
+        );
+        emit TransferOffered(_tokenId, msg.sender, _to, _price, _deadline);
+    }
+
+    /// @notice Retira la oferta abierta (dueño) o la rechaza (destinatario).
+    function cancelTransferOffer(uint256 _tokenId) public {
+        TransferOffer memory offer = _transferOffers[_tokenId];
+        require(
+            _isOpen(_tokenId, offer) &&
+                (msg.sender == offer.to || msg.sender == ownerOf(_tokenId)),
+            "No hay oferta abierta"
+        );
+        delete _transferOffers[_tokenId];
+        emit TransferOfferCancelled(_tokenId, offer.to, msg.sender);
+    }
+
+    /// @notice Acepta la oferta pagando el precio exacto. Se aplican las reglas de TransferPolicy.
+    /// @dev El comprador paga recién al aceptar: mientras la oferta está abierta no hay fondos retenidos.
+    /// Lo cobrado queda en el contrato hasta que el vendedor lo retire con withdrawProceeds.
+    function acceptTransferOffer(uint256 _tokenId) public payable {
+        TransferOffer memory offer = _transferOffers[_tokenId];
+        require(
+            _isOpen(_tokenId, offer) && offer.to == msg.sender,
+            "No hay oferta abierta"
+        );
+        require(block.timestamp < offer.deadline, "Oferta vencida");
+        require(msg.value == offer.price, "Pago incorrecto");
+
+        address from = ownerOf(_tokenId);
+        delete _transferOffers[_tokenId];
+        pendingProceeds[from] += msg.value;
+        _safeTransfer(from, msg.sender, _tokenId);
+        emit TransferOfferAccepted(_tokenId, from, msg.sender, msg.value);
+    }
+
+    /// @notice Envía al vendedor lo cobrado por sus ventas.
+    function withdrawProceeds() public {
+        uint256 amount = pendingProceeds[msg.sender];
+        require(amount > 0, "Sin fondos para retirar");
+        pendingProceeds[msg.sender] = 0;
+        (bool sent, ) = payable(msg.sender).call{value: amount}("");
+        require(sent, "Fallo el envio");
+        emit ProceedsWithdrawn(msg.sender, amount);
+    }
+
+    /// @notice Consulta la oferta de transferencia de un animal.
+    /// @return active Si hoy se puede aceptar (mismo dueño y no vencida).
+    /// @return to Destinatario.
+    /// @return price Precio en wei.
+    /// @return deadline Vencimiento de la oferta.
+    function getTransferOffer(
+        uint256 _tokenId
+    )
+        public
+        view
+        returns (bool active, address to, uint256 price, uint64 deadline)
+    {
+        TransferOffer memory offer = _transferOffers[_tokenId];
+        active = _isOpen(_tokenId, offer) && block.timestamp < offer.deadline;
+        return (active, offer.to, offer.price, offer.deadline);
+    }
+
+    /// @dev Existe, es del dueño actual y no se aceptó ni canceló (puede estar vencida).
+    function _isOpen(
+        uint256 _tokenId,
+        TransferOffer memory offer
+    ) private view returns (bool) {
+        return
+            offer.to != address(0) &&
+            exists(_tokenId) &&
+            offer.nonce == _tokenNonce[_tokenId];
     }
 
     // --- OVERRIDES OBLIGATORIOS (ERC721URIStorage) ---
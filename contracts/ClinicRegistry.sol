@@ -0,0 +1,91 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// @title ClinicRegistry - Clínicas Veterinarias y sus Equipos
+/// @notice Agrupa veterinarios bajo una clínica para que el dueño pueda autorizar al equipo completo con un solo permiso.
+/// @dev La membresía no valida licencias: AnimalNFT sigue exigiendo onlyValidVet a cada miembro al momento de escribir.
+contract ClinicRegistry {
+    /// @notice Datos públicos de una clínica.
+    struct Clinic {
+        string name;
+        address admin;
+    }
+
+    /// @notice Cantidad de clínicas creadas. Los IDs van de 1 a clinicCount (0 = sin clínica).
+    uint256 public clinicCount;
+
+    /// @notice Clínicas por ID.
+    mapping(uint256 => Clinic) public clinics;
+
+    /// @notice Membresía vigente: ClinicID => VetAddress => Miembro.
+    mapping(uint256 => mapping(address => bool)) public isMember;
+
+    // --- EVENTOS ---
+
+    /// @notice Se emite cuando se crea una clínica.
+    event ClinicCreated(
+        uint256 indexed clinicId,
+        address indexed admin,
+        string name
+    );
+
+    /// @notice Se emite cuando la administración de la clínica pasa a otra wallet.
+    event ClinicAdminChanged(uint256 indexed clinicId, address indexed admin);
+
+    /// @notice Se emite cuando el admin suma un veterinario al equipo.
+    event MemberAdded(uint256 indexed clinicId, address indexed vet);
+
+    /// @notice Se emite cuando el admin quita un veterinario del equipo.
+    event MemberRemoved(uint256 indexed clinicId, address indexed vet);
+
+    /// @dev Restringe la gestión del equipo al admin de la clínica.
+    modifier onlyClinicAdmin(uint256 _clinicId) {
+        require(
+            clinics[_clinicId].admin == msg.sender,
+            "No eres el admin de la clinica"
+        );
+        _;
+    }
+
+    /// @notice Crea una clínica administrada por quien la llama.
+    /// @param _name Nombre público de la clínica.
+    /// @return clinicId ID asignado.
+    function createClinic(
+        string memory _name
+    ) external returns (uint256 clinicId) {
+        require(bytes(_name).length > 0, "Nombre requerido");
+        clinicId = ++clinicCount;
+        clinics[clinicId] = Clinic(_name, msg.sender);
+        emit ClinicCreated(clinicId, msg.sender, _name);
+    }
+
+    /// @notice Suma un veterinario al equipo de la clínica.
+    function addMember(
+        uint256 _clinicId,
+        address _vet
+    ) external onlyClinicAdmin(_clinicId) {
+        require(!isMember[_clinicId][_vet], "Ya es miembro");
+        isMember[_clinicId][_vet] = true;
+        emit MemberAdded(_clinicId, _vet);
+    }
+
+    /// @notice Quita un veterinario del equipo. Pierde al instante los permisos otorgados a la clínica.
+    function removeMember(
+        uint256 _clinicId,
+        address _vet
+    ) external onlyClinicAdmin(_clinicId) {
+        require(isMember[_clinicId][_vet], "No es miembro");
+        isMember[_clinicId][_vet] = false;
+        emit MemberRemoved(_clinicId, _vet);
+    }
+
+    /// @notice Transfiere la administración de la clínica.
+    function transferAdmin(
+        uint256 _clinicId,
+        address _newAdmin
+    ) external onlyClinicAdmin(_clinicId) {
+        require(_newAdmin != address(0), "Admin invalido");
+        clinics[_clinicId].admin = _newAdmin;
+        emit ClinicAdminChanged(_clinicId, _newAdmin);
+    }
+}
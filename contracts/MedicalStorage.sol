@@ -12,19 +12,65 @@ enum RecordType {
     DECEASED
 }
 
+/// @notice Estado de un registro: los registros nunca se borran, solo se corrigen o retractan.
+enum EntryStatus {
+    ACTIVE,
+    AMENDED,
+    RETRACTED
+}
+
 /// @title MedicalStorage - Base de Datos Clínica Inmutable
 /// @notice Almacena datos críticos on-chain y emite eventos para construir el historial médico off-chain.
 /// @dev Este contrato es pasivo: solo acepta escrituras del contrato "Controller" (AnimalNFT).
 contract MedicalStorage is Ownable {
-    /// @notice Almacena la fecha de vencimiento de la vacuna vigente por TokenID.
-    mapping(uint256 => uint256) public vaccineExpiration;
+    /// @notice Vencimiento de cada vacuna por animal: TokenID => VaccineID => Timestamp.
+    /// @dev Los VaccineID son strings cortos codificados en bytes32 ("rabies", "distemper"...).
+    mapping(uint256 => mapping(bytes32 => uint256)) public vaccineExpiration;
+
+    /// @notice Vacunas que se pueden registrar.
+    mapping(bytes32 => bool) public isCatalogVaccine;
+
+    /// @dev Lista del catálogo, para poder recorrerlo desde la dApp.
+    bytes32[] private _vaccineCatalog;
 
     /// @notice Almacena la fecha de nacimiento (inmutable) por TokenID.
     mapping(uint256 => uint256) public birthDates;
 
+    /// @notice Especie declarada al registrar, en bytes32 ("dog", "cat"...). 0 si no se indicó.
+    mapping(uint256 => bytes32) public species;
+
+    /// @notice Fecha en que un veterinario certificó la esterilización (0 = sin certificar).
+    mapping(uint256 => uint256) public sterilizedAt;
+
+    /// @notice Fecha en que un veterinario leyó y verificó el microchip (0 = sin verificar).
+    mapping(uint256 => uint256) public microchipVerifiedAt;
+
     /// @notice Dirección del contrato AnimalNFT autorizado para escribir.
     address public controllerContract;
 
+    /// @notice Datos mínimos de cada registro para poder corregirlo y recalcular estados derivados.
+    /// @dev `timestamp` es la fecha clínica: una corrección hereda la del registro original.
+    struct Entry {
+        uint256 tokenId;
+        address vet;
+        uint64 timestamp;
+        uint64 vaccineExpiresAt; // 0 si no es vacuna
+        bytes32 vaccineId; // 0 si no es vacuna
+        RecordType recordType;
+        EntryStatus status;
+        uint256 amendedBy; // ID de la corrección (si status == AMENDED)
+        uint256 clinicId; // Clínica en cuyo nombre se escribió (0 = permiso personal)
+    }
+
+    /// @notice Cantidad de registros. Los IDs van de 1 a entryCount.
+    uint256 public entryCount;
+
+    /// @notice Registros por ID.
+    mapping(uint256 => Entry) public entries;
+
+    /// @dev IDs de los registros de cada vacuna por TokenID, para recalcular su vencimiento.
+    mapping(uint256 => mapping(bytes32 => uint256[])) private _vaccineEntries;
+
     /// @notice Evento principal para reconstruir la historia clínica en el Frontend.
     /// @dev Se usa LOGS en lugar de Arrays en memoria para reducir costos de gas (~90% ahorro).
     event MedicalRecordAdded(
@@ -32,10 +78,41 @@ contract MedicalStorage is Ownable {
         uint256 timestamp,
         string descriptionIpfs, // Hash del documento en IPFS
         address indexed vet,
-        RecordType recordType
+        uint256 indexed clinicId, // 0 si el vet escribió con un permiso personal
+        RecordType recordType,
+        uint256 entryId,
+        bytes32 vaccineId // 0 si no es vacuna
     );
 
-    constructor() Ownable(msg.sender) {}
+    /// @notice Se emite cuando el admin suma una vacuna al catálogo.
+    event CatalogVaccineAdded(bytes32 indexed vaccineId);
+
+    /// @notice Se emite cuando un registro es reemplazado por una corrección.
+    /// @dev La corrección se emite además como MedicalRecordAdded con su propio entryId.
+    event MedicalRecordAmended(
+        uint256 indexed tokenId,
+        uint256 indexed entryId,
+        uint256 amendedBy,
+        address indexed vet,
+        string reason,
+        uint256 timestamp
+    );
+
+    /// @notice Se emite cuando un registro se retracta (queda en el historial pero sin efecto).
+    event MedicalRecordRetracted(
+        uint256 indexed tokenId,
+        uint256 indexed entryId,
+        address indexed vet,
+        string reason,
+        uint256 timestamp
+    );
+
+    constructor() Ownable(msg.sender) {
+        _addCatalogVaccine("rabies");
+        _addCatalogVaccine("distemper");
+        _addCatalogVaccine("parvovirus");
+        _addCatalogVaccine("leptospirosis");
+    }
 
     /// @dev Restringe la llamada solo a la dirección del controlador configurado.
     modifier onlyController() {
@@ -52,6 +129,27 @@ contract MedicalStorage is Ownable {
         controllerContract = _controller;
     }
 
+    /// @notice Suma una vacuna al catálogo (p. ej. "bordetella"). No se pueden quitar: invalidaría registros.
+    function addCatalogVaccine(bytes32 _vaccineId) external onlyOwner {
+        _addCatalogVaccine(_vaccineId);
+    }
+
+    /// @notice Devuelve todas las vacunas del catálogo.
+    function getVaccineCatalog() external view returns (bytes32[] memory) {
+        return _vaccineCatalog;
+    }
+
+    function _addCatalogVaccine(bytes32 _vaccineId) private {
+        require(_vaccineId != bytes32(0), "Vacuna invalida");
+        require(
+            !isCatalogVaccine[_vaccineId],
+            "La vacuna ya esta en el catalogo"
+        );
+        isCatalogVaccine[_vaccineId] = true;
+        _vaccineCatalog.push(_vaccineId);
+        emit CatalogVaccineAdded(_vaccineId);
+    }
+
     /// @notice Guarda la fecha de nacimiento.
     /// @dev Solo se llama una vez al momento del registro (mint).
     function setBirthDate(
@@ -61,42 +159,239 @@ contract MedicalStorage is Ownable {
         birthDates[_tokenId] = _birthDate;
     }
 
+    /// @notice Guarda la especie del animal.
+    function setSpecies(
+        uint256 _tokenId,
+        bytes32 _species
+    ) external onlyController {
+        species[_tokenId] = _species;
+    }
+
+    /// @notice Marca al animal como esterilizado a la fecha actual.
+    function setSterilized(uint256 _tokenId) external onlyController {
+        sterilizedAt[_tokenId] = block.timestamp;
+    }
+
+    /// @notice Marca el microchip del animal como verificado a la fecha actual.
+    function setMicrochipVerified(uint256 _tokenId) external onlyController {
+        microchipVerifiedAt[_tokenId] = block.timestamp;
+    }
+
     /// @notice Escribe un nuevo evento médico y actualiza estados lógicos si es necesario.
     /// @param _tokenId ID del animal.
     /// @param _ipfsHash CID de IPFS con el detalle médico.
     /// @param _vet Dirección del veterinario que firma.
+    /// @param _clinicId Clínica en cuyo nombre escribe el vet (0 = permiso personal).
     /// @param _type Tipo de registro.
+    /// @param _vaccineId Vacuna del catálogo (solo si es vacuna; se ignora en otros tipos).
     /// @param _daysValid Días de vigencia (solo si es vacuna).
+    /// @return entryId ID del registro creado.
     function addEntry(
         uint256 _tokenId,
         string memory _ipfsHash,
         address _vet,
+        uint256 _clinicId,
         RecordType _type,
+        bytes32 _vaccineId,
         uint256 _daysValid
-    ) external onlyController {
-        // 1. Lógica Crítica On-Chain (Se guarda en Storage - Costoso pero necesario para reglas)
-        // Si es una vacuna, calculamos y guardamos la fecha de expiración.
+    ) external onlyController returns (uint256 entryId) {
+        entryId = _writeEntry(
+            _tokenId,
+            _ipfsHash,
+            _vet,
+            _clinicId,
+            _type,
+            _vaccineId,
+            _daysValid,
+            block.timestamp
+        );
+        // Lógica Crítica On-Chain: una dosis nueva pasa a ser la vigente de esa vacuna
         if (_type == RecordType.VACCINE) {
-            vaccineExpiration[_tokenId] =
-                block.timestamp +
-                (_daysValid * 1 days);
+            _recomputeVaccineExpiration(_tokenId, _vaccineId);
         }
+    }
 
-        // 2. Historial Informativo (Se emite como Evento - Barato)
-        // Emitimos el evento para que la dApp lo indexe y muestre.
+    /// @notice Reemplaza un registro por una versión corregida.
+    /// @dev El original queda en el historial marcado como AMENDED. La corrección hereda su fecha clínica
+    /// y su clínica.
+    /// @param _tokenId ID del animal (debe coincidir con el del registro).
+    /// @param _entryId ID del registro a corregir.
+    /// @param _ipfsHash CID de IPFS con el detalle corregido.
+    /// @param _vet Dirección del veterinario que corrige.
+    /// @param _type Tipo de registro corregido.
+    /// @param _vaccineId Vacuna del catálogo (solo si es vacuna).
+    /// @param _daysValid Días de vigencia (solo si es vacuna), contados desde la fecha original.
+    /// @param _reason Motivo de la corrección.
+    /// @return newEntryId ID de la corrección.
+    function amendEntry(
+        uint256 _tokenId,
+        uint256 _entryId,
+        string memory _ipfsHash,
+        address _vet,
+        RecordType _type,
+        bytes32 _vaccineId,
+        uint256 _daysValid,
+        string memory _reason
+    ) external onlyController returns (uint256 newEntryId) {
+        require(_type != RecordType.DECEASED, "Tipo no corregible");
+        Entry storage original = _activeEntry(_tokenId, _entryId, _reason);
+
+        newEntryId = _writeEntry(
+            _tokenId,
+            _ipfsHash,
+            _vet,
+            original.clinicId,
+            _type,
+            _vaccineId,
+            _daysValid,
+            original.timestamp
+        );
+        original.status = EntryStatus.AMENDED;
+        original.amendedBy = newEntryId;
+
+        // Puede cambiar la vacuna del original, la de la corrección o ambas
+        _recomputeVaccineExpiration(_tokenId, original.vaccineId);
+        if (_type == RecordType.VACCINE) {
+            _recomputeVaccineExpiration(_tokenId, _vaccineId);
+        }
+        emit MedicalRecordAmended(
+            _tokenId,
+            _entryId,
+            newEntryId,
+            _vet,
+            _reason,
+            block.timestamp
+        );
+    }
+
+    /// @notice Deja sin efecto un registro cargado por error.
+    /// @param _tokenId ID del animal (debe coincidir con el del registro).
+    /// @param _entryId ID del registro a retractar.
+    /// @param _vet Dirección del veterinario que retracta.
+    /// @param _reason Motivo de la retractación.
+    function retractEntry(
+        uint256 _tokenId,
+        uint256 _entryId,
+        address _vet,
+        string memory _reason
+    ) external onlyController {
+        Entry storage entry = _activeEntry(_tokenId, _entryId, _reason);
+        entry.status = EntryStatus.RETRACTED;
+
+        _recomputeVaccineExpiration(_tokenId, entry.vaccineId);
+        emit MedicalRecordRetracted(
+            _tokenId,
+            _entryId,
+            _vet,
+            _reason,
+            block.timestamp
+        );
+    }
+
+    /// @notice Devuelve el veterinario que firmó un registro.
+    function getEntryAuthor(uint256 _entryId) external view returns (address) {
+        return entries[_entryId].vet;
+    }
+
+    /// @dev Guarda el registro y emite el evento del historial.
+    function _writeEntry(
+        uint256 _tokenId,
+        string memory _ipfsHash,
+        address _vet,
+        uint256 _clinicId,
+        RecordType _type,
+        bytes32 _vaccineId,
+        uint256 _daysValid,
+        uint256 _timestamp
+    ) private returns (uint256 entryId) {
+        bool isVaccine = _type == RecordType.VACCINE;
+        if (isVaccine) {
+            require(isCatalogVaccine[_vaccineId], "Vacuna fuera del catalogo");
+        } else {
+            _vaccineId = bytes32(0);
+        }
+
+        entryId = ++entryCount;
+        entries[entryId] = Entry({
+            tokenId: _tokenId,
+            vet: _vet,
+            timestamp: uint64(_timestamp),
+            vaccineExpiresAt: isVaccine
+                ? uint64(_timestamp + (_daysValid * 1 days))
+                : 0,
+            vaccineId: _vaccineId,
+            recordType: _type,
+            status: EntryStatus.ACTIVE,
+            amendedBy: 0,
+            clinicId: _clinicId
+        });
+        if (isVaccine) _vaccineEntries[_tokenId][_vaccineId].push(entryId);
+
+        // Historial Informativo (Se emite como Evento - Barato)
         emit MedicalRecordAdded(
             _tokenId,
-            block.timestamp,
+            _timestamp,
             _ipfsHash,
             _vet,
-            _type
+            _clinicId,
+            _type,
+            entryId,
+            _vaccineId
         );
     }
 
-    /// @notice Verifica si la vacuna del animal está vigente al día de hoy.
+    /// @dev Valida que el registro sea del animal, siga vigente y que haya un motivo.
+    function _activeEntry(
+        uint256 _tokenId,
+        uint256 _entryId,
+        string memory _reason
+    ) private view returns (Entry storage entry) {
+        require(bytes(_reason).length > 0, "Motivo requerido");
+        entry = entries[_entryId];
+        require(
+            _entryId != 0 && entry.tokenId == _tokenId,
+            "El registro no pertenece al animal"
+        );
+        require(
+            entry.status == EntryStatus.ACTIVE,
+            "El registro ya fue corregido o retractado"
+        );
+        require(
+            entry.recordType != RecordType.DECEASED,
+            "Tipo no corregible"
+        );
+    }
+
+    /// @dev El vencimiento vigente de una vacuna es el de su dosis activa aplicada más recientemente.
+    function _recomputeVaccineExpiration(
+        uint256 _tokenId,
+        bytes32 _vaccineId
+    ) private {
+        if (_vaccineId == bytes32(0)) return;
+        uint256[] storage ids = _vaccineEntries[_tokenId][_vaccineId];
+        uint64 latestTimestamp;
+        uint64 expiration;
+        for (uint256 i = 0; i < ids.length; i++) {
+            Entry storage entry = entries[ids[i]];
+            // >= para que, a igual fecha, gane el registro más nuevo
+            if (
+                entry.status == EntryStatus.ACTIVE &&
+                entry.timestamp >= latestTimestamp
+            ) {
+                latestTimestamp = entry.timestamp;
+                expiration = entry.vaccineExpiresAt;
+            }
+        }
+        vaccineExpiration[_tokenId][_vaccineId] = expiration;
+    }
+
+    /// @notice Verifica si una vacuna del animal está vigente al día de hoy.
     /// @return bool True si la fecha actual es menor a la fecha de vencimiento.
-    function isVaccineValid(uint256 _tokenId) external view returns (bool) {
-        return block.timestamp < vaccineExpiration[_tokenId];
+    function isVaccineValid(
+        uint256 _tokenId,
+        bytes32 _vaccineId
+    ) external view returns (bool) {
+        return block.timestamp < vaccineExpiration[_tokenId][_vaccineId];
     }
 
     /// @notice Devuelve la fecha de nacimiento del animal.
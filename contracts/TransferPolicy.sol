@@ -0,0 +1,253 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+
+// Lo que la política necesita leer de AnimalNFT
+interface IPolicyAnimals {
+    function isLost(uint256 tokenId) external view returns (bool);
+}
+
+// Lo que la política necesita leer de MedicalStorage
+interface IPolicyStorage {
+    function isCatalogVaccine(bytes32 _vaccineId) external view returns (bool);
+    function isVaccineValid(
+        uint256 _tokenId,
+        bytes32 _vaccineId
+    ) external view returns (bool);
+    function getBirthDate(uint256 _tokenId) external view returns (uint256);
+    function species(uint256 _tokenId) external view returns (bytes32);
+    function sterilizedAt(uint256 _tokenId) external view returns (uint256);
+    function microchipVerifiedAt(
+        uint256 _tokenId
+    ) external view returns (uint256);
+}
+
+/// @title TransferPolicy - Reglas Sanitarias de Transferencia
+/// @notice Reglas configurables que AnimalNFT exige antes de cada cambio de dueño.
+/// @dev El owner las ajusta según la jurisdicción; cada cambio emite un evento.
+contract TransferPolicy is Ownable {
+    /// @notice Códigos de las reglas que puede incumplir una transferencia.
+    enum Rule {
+        MANDATORY_VACCINES,
+        LOST,
+        MIN_AGE,
+        STERILIZATION,
+        MICROCHIP
+    }
+
+    /// @dev Edad mínima propia de una especie. `isSet` distingue "0 días" de "usar la general".
+    struct SpeciesMinAge {
+        bool isSet;
+        uint256 minAge;
+    }
+
+    /// @notice Contrato AnimalNFT cuyas transferencias regula.
+    IPolicyAnimals public animalNft;
+
+    /// @notice Contrato donde se leen vacunas, nacimiento, especie y atestaciones.
+    IPolicyStorage public medicalStorage;
+
+    /// @notice Edad mínima en segundos para las especies sin regla propia.
+    uint256 public defaultMinAge = 60 days;
+
+    /// @dev Edad mínima por especie (bytes32, p. ej. "dog").
+    mapping(bytes32 => SpeciesMinAge) private _speciesMinAge;
+
+    /// @dev Vacunas del catálogo que deben estar vigentes.
+    bytes32[] private _mandatoryVaccines;
+
+    /// @notice Si es true, un animal reportado como perdido no se puede transferir.
+    bool public lostLock = true;
+
+    /// @notice Si es true, se exige la esterilización certificada por un veterinario.
+    bool public requireSterilization;
+
+    /// @notice Si es true, se exige que un veterinario haya verificado el microchip.
+    bool public requireMicrochip;
+
+    /// @notice Refugios habilitados. Las transferencias hacia ellos solo respetan el bloqueo por extravío.
+    mapping(address => bool) public isShelter;
+
+    // --- EVENTOS ---
+
+    /// @notice Se emite cuando cambia la edad mínima general.
+    event DefaultMinAgeChanged(uint256 minAge);
+
+    /// @notice Se emite cuando se fija la edad mínima de una especie.
+    event SpeciesMinAgeChanged(bytes32 indexed species, uint256 minAge);
+
+    /// @notice Se emite cuando una especie vuelve a usar la edad mínima general.
+    event SpeciesMinAgeCleared(bytes32 indexed species);
+
+    /// @notice Se emite cuando cambian las vacunas exigidas.
+    event MandatoryVaccinesChanged(bytes32[] vaccineIds);
+
+    /// @notice Se emite cuando se activa o desactiva el bloqueo por extravío.
+    event LostLockChanged(bool enabled);
+
+    /// @notice Se emite cuando se activa o desactiva la exigencia de esterilización.
+    event SterilizationRequirementChanged(bool required);
+
+    /// @notice Se emite cuando se activa o desactiva la exigencia de microchip verificado.
+    event MicrochipRequirementChanged(bool required);
+
+    /// @notice Se emite cuando una wallet se habilita o deshabilita como refugio.
+    event ShelterChanged(address indexed shelter, bool enabled);
+
+    /// @param _animalNft Dirección del contrato AnimalNFT.
+    /// @param _storage Dirección del contrato MedicalStorage.
+    constructor(address _animalNft, address _storage) Ownable(msg.sender) {
+        animalNft = IPolicyAnimals(_animalNft);
+        medicalStorage = IPolicyStorage(_storage);
+    }
+
+    // --- CONFIGURACIÓN ---
+
+    /// @notice Fija la edad mínima (en segundos) para especies sin regla propia.
+    function setDefaultMinAge(uint256 _minAge) external onlyOwner {
+        defaultMinAge = _minAge;
+        emit DefaultMinAgeChanged(_minAge);
+    }
+
+    /// @notice Fija la edad mínima (en segundos) de una especie.
+    function setSpeciesMinAge(
+        bytes32 _species,
+        uint256 _minAge
+    ) external onlyOwner {
+        require(_species != bytes32(0), "Especie invalida");
+        _speciesMinAge[_species] = SpeciesMinAge(true, _minAge);
+        emit SpeciesMinAgeChanged(_species, _minAge);
+    }
+
+    /// @notice Hace que una especie vuelva a usar la edad mínima general.
+    function clearSpeciesMinAge(bytes32 _species) external onlyOwner {
+        delete _speciesMinAge[_species];
+        emit SpeciesMinAgeCleared(_species);
+    }
+
+    /// @notice Reemplaza las vacunas exigidas. Una lista vacía desactiva la regla.
+    function setMandatoryVaccines(
+        bytes32[] calldata _vaccineIds
+    ) external onlyOwner {
+        for (uint256 i = 0; i < _vaccineIds.length; i++) {
+            require(
+                medicalStorage.isCatalogVaccine(_vaccineIds[i]),
+                "Vacuna fuera del catalogo"
+            );
+        }
+        _mandatoryVaccines = _vaccineIds;
+        emit MandatoryVaccinesChanged(_vaccineIds);
+    }
+
+    /// @notice Activa o desactiva el bloqueo de animales reportados como perdidos.
+    function setLostLock(bool _enabled) external onlyOwner {
+        lostLock = _enabled;
+        emit LostLockChanged(_enabled);
+    }
+
+    /// @notice Exige (o no) la esterilización certificada.
+    function setSterilizationRequired(bool _required) external onlyOwner {
+        requireSterilization = _required;
+        emit SterilizationRequirementChanged(_required);
+    }
+
+    /// @notice Exige (o no) el microchip verificado por un veterinario.
+    function setMicrochipRequired(bool _required) external onlyOwner {
+        requireMicrochip = _required;
+        emit MicrochipRequirementChanged(_required);
+    }
+
+    /// @notice Habilita o deshabilita una wallet como refugio.
+    function setShelter(address _shelter, bool _enabled) external onlyOwner {
+        isShelter[_shelter] = _enabled;
+        emit ShelterChanged(_shelter, _enabled);
+    }
+
+    // --- CONSULTAS ---
+
+    /// @notice Devuelve las vacunas exigidas.
+    function getMandatoryVaccines() external view returns (bytes32[] memory) {
+        return _mandatoryVaccines;
+    }
+
+    /// @notice Indica si todas las vacunas exigidas del animal están vigentes.
+    function hasMandatoryVaccines(uint256 _tokenId) public view returns (bool) {
+        for (uint256 i = 0; i < _mandatoryVaccines.length; i++) {
+            if (
+                !medicalStorage.isVaccineValid(_tokenId, _mandatoryVaccines[i])
+            ) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /// @notice Edad mínima (en segundos) que se aplica a una especie.
+    function minAgeFor(bytes32 _species) public view returns (uint256) {
+        SpeciesMinAge memory rule = _speciesMinAge[_species];
+        return rule.isSet ? rule.minAge : defaultMinAge;
+    }
+
+    /// @notice Reglas que impedirían hoy transferir el animal a `_to`. Vacío si puede transferirse.
+    function canTransfer(
+        uint256 _tokenId,
+        address _to
+    ) public view returns (Rule[] memory failures) {
+        Rule[] memory found = new Rule[](5);
+        uint256 count;
+        // Los refugios reciben animales en cualquier estado sanitario
+        bool exempt = isShelter[_to];
+
+        if (!exempt && !hasMandatoryVaccines(_tokenId)) {
+            found[count++] = Rule.MANDATORY_VACCINES;
+        }
+
+        if (lostLock && animalNft.isLost(_tokenId)) found[count++] = Rule.LOST;
+
+        uint256 birth = medicalStorage.getBirthDate(_tokenId);
+        if (
+            !exempt &&
+            birth > 0 &&
+            block.timestamp <
+                birth + minAgeFor(medicalStorage.species(_tokenId))
+        ) {
+            found[count++] = Rule.MIN_AGE;
+        }
+
+        if (
+            !exempt &&
+            requireSterilization &&
+            medicalStorage.sterilizedAt(_tokenId) == 0
+        ) {
+            found[count++] = Rule.STERILIZATION;
+        }
+
+        if (
+            !exempt &&
+            requireMicrochip &&
+            medicalStorage.microchipVerifiedAt(_tokenId) == 0
+        ) {
+            found[count++] = Rule.MICROCHIP;
+        }
+
+        failures = new Rule[](count);
+        for (uint256 i = 0; i < count; i++) failures[i] = found[i];
+    }
+
+    /// @notice Revierte con el motivo de la primera regla incumplida. AnimalNFT lo llama en cada transferencia.
+    function enforce(uint256 _tokenId, address _to) external view {
+        Rule[] memory failures = canTransfer(_tokenId, _to);
+        if (failures.length > 0) revert(_reason(failures[0]));
+    }
+
+    function _reason(Rule _rule) private pure returns (string memory) {
+        if (_rule == Rule.MANDATORY_VACCINES) return "Bloqueo: Vacuna vencida";
+        if (_rule == Rule.LOST) return "Bloqueo: Animal reportado como PERDIDO";
+        if (_rule == Rule.MIN_AGE)
+            return "Bloqueo: Animal menor a la edad minima";
+        if (_rule == Rule.STERILIZATION)
+            return "Bloqueo: Esterilizacion requerida";
+        return "Bloqueo: Microchip sin verificar";
+    }
+}
@@ -0,0 +1,136 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+// Lo que el directorio necesita leer de AnimalNFT
+interface IProfileAnimals {
+    function vetWalletToLicenseId(address vet) external view returns (uint256);
+}
+
+/// @title VetProfileRegistry - Perfiles Públicos de Veterinarios
+/// @notice Directorio donde cada veterinario con licencia vinculada publica sus datos para que los dueños lo encuentren.
+/// @dev El perfil se indexa por la wallet de AnimalNFT.vetWalletToLicenseId. La validez de la licencia no se guarda: el frontend la consulta en vivo en el registro de licencias.
+contract VetProfileRegistry {
+    /// @notice Datos públicos de un veterinario.
+    struct VetProfile {
+        string name;
+        string clinic;
+        string[] specialties;
+        string city;
+        string streetAddress;
+        string phone;
+        uint256 updatedAt;
+    }
+
+    /// @notice Contrato AnimalNFT donde se vinculan las licencias.
+    IProfileAnimals public animalNft;
+
+    /// @dev Wallets con perfil, en orden de alta (con huecos rellenados al borrar).
+    address[] private _vets;
+
+    /// @dev Posición en `_vets` + 1. 0 = sin perfil.
+    mapping(address => uint256) private _vetIndex;
+
+    /// @dev Perfil por wallet.
+    mapping(address => VetProfile) private _profiles;
+
+    // --- EVENTOS ---
+
+    /// @notice Se emite cuando un veterinario crea o edita su perfil.
+    event ProfileUpdated(address indexed vet, uint256 indexed licenseId);
+
+    /// @notice Se emite cuando un veterinario borra su perfil.
+    event ProfileRemoved(address indexed vet);
+
+    /// @param _animalNft Dirección del contrato AnimalNFT.
+    constructor(address _animalNft) {
+        animalNft = IProfileAnimals(_animalNft);
+    }
+
+    /// @notice Crea o reemplaza el perfil de quien llama.
+    /// @dev Exige una licencia vinculada en AnimalNFT, no que esté vigente: el buscador muestra la vigencia.
+    function setProfile(
+        string calldata _name,
+        string calldata _clinic,
+        string[] calldata _specialties,
+        string calldata _city,
+        string calldata _streetAddress,
+        string calldata _phone
+    ) external {
+        uint256 licenseId = animalNft.vetWalletToLicenseId(msg.sender);
+        require(licenseId != 0, "No has vinculado ninguna licencia");
+        require(bytes(_name).length > 0, "Nombre requerido");
+
+        if (_vetIndex[msg.sender] == 0) {
+            _vets.push(msg.sender);
+            _vetIndex[msg.sender] = _vets.length;
+        }
+        _profiles[msg.sender] = VetProfile(
+            _name,
+            _clinic,
+            _specialties,
+            _city,
+            _streetAddress,
+            _phone,
+            block.timestamp
+        );
+        emit ProfileUpdated(msg.sender, licenseId);
+    }
+
+    /// @notice Borra el perfil de quien llama.
+    function removeProfile() external {
+        uint256 index = _vetIndex[msg.sender];
+        require(index != 0, "No tienes perfil");
+
+        // El último ocupa el lugar del borrado
+        address last = _vets[_vets.length - 1];
+        _vets[index - 1] = last;
+        _vetIndex[last] = index;
+        _vets.pop();
+
+        delete _vetIndex[msg.sender];
+        delete _profiles[msg.sender];
+        emit ProfileRemoved(msg.sender);
+    }
+
+    /// @notice Cantidad de perfiles publicados.
+    function profileCount() external view returns (uint256) {
+        return _vets.length;
+    }
+
+    /// @notice Perfil de una wallet. `updatedAt` es 0 si no tiene.
+    function getProfile(
+        address _vet
+    ) external view returns (VetProfile memory) {
+        return _profiles[_vet];
+    }
+
+    /// @notice Página de perfiles con la licencia vinculada hoy a cada wallet.
+    /// @param _offset Primer índice a devolver.
+    /// @param _limit Cantidad máxima de perfiles.
+    function getProfiles(
+        uint256 _offset,
+        uint256 _limit
+    )
+        external
+        view
+        returns (
+            address[] memory vets,
+            uint256[] memory licenseIds,
+            VetProfile[] memory profiles
+        )
+    {
+        uint256 end = _offset + _limit;
+        if (end > _vets.length) end = _vets.length;
+        uint256 count = end > _offset ? end - _offset : 0;
+
+        vets = new address[](count);
+        licenseIds = new uint256[](count);
+        profiles = new VetProfile[](count);
+        for (uint256 i = 0; i < count; i++) {
+            address vet = _vets[_offset + i];
+            vets[i] = vet;
+            licenseIds[i] = animalNft.vetWalletToLicenseId(vet);
+            profiles[i] = _profiles[vet];
+        }
+    }
+}
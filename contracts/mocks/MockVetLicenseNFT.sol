@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+
+/// @title MockVetLicenseNFT - NFT de licencias veterinarias para desarrollo local
+/// @notice Reemplaza al contrato externo de licencias en redes locales y tests.
+/// @dev El admin (deployer) emite las licencias; no tiene reglas de negocio propias.
+contract MockVetLicenseNFT is ERC721, Ownable {
+    constructor() ERC721("VetChain License (Mock)", "MVETL") Ownable(msg.sender) {}
+
+    /// @notice Emite la licencia `_licenseId` a la wallet del veterinario.
+    function mint(address _vet, uint256 _licenseId) external onlyOwner {
+        _mint(_vet, _licenseId);
+    }
+}
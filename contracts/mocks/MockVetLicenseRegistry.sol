@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+
+/// @title MockVetLicenseRegistry - Registro de validez de licencias para desarrollo local
+/// @notice Implementa IVetLicenseRegistry con un flag por licencia que controla el admin.
+/// @dev Permite simular vencimientos y revocaciones en tests sin depender del registro real.
+contract MockVetLicenseRegistry is Ownable {
+    /// @dev Estado de cada licencia: TokenID de licencia => vigente.
+    mapping(uint256 => bool) private _valid;
+
+    /// @notice Se emite cuando el admin habilita, vence o revoca una licencia.
+    event LicenseStatusChanged(uint256 indexed licenseId, bool valid);
+
+    constructor() Ownable(msg.sender) {}
+
+    /// @notice Marca una licencia como vigente o revocada.
+    function setValid(uint256 _licenseId, bool _isValid) external onlyOwner {
+        _valid[_licenseId] = _isValid;
+        emit LicenseStatusChanged(_licenseId, _isValid);
+    }
+
+    /// @notice Indica si la licencia está vigente (misma firma que IVetLicenseRegistry).
+    function isValid(uint256 tokenId) external view returns (bool) {
+        return _valid[tokenId];
+    }
+}
@@ -0,0 +1,219 @@
+// functions/src/animalKeys.ts
+import {
+  getAddress,
+  isAddress,
+  isHexString,
+  keccak256,
+  toUtf8Bytes,
+} from "ethers";
+import { checkFreshSignature } from "./emailLink";
+
+// Claves de cifrado de los registros (services/recordEncryption.ts). Solo las
+// escriben estas functions: publicar una clave pública pide la firma de su
+// wallet, y cambiar las claves de un animal la de su dueño.
+
+export interface PublicKeyRequest {
+  chainId: string; // Hex, como en el scope: la clave se deriva por red
+  address: string;
+  publicKey: string; // secp256k1 comprimida
+  issuedAt: string;
+  signature: string;
+}
+
+// Clave de datos envuelta para un destinatario (ECIES)
+export interface WrappedKey {
+  ephemeralPublicKey: string;
+  iv: string;
+  ciphertext: string;
+}
+
+export type KeyGrant = Record<string, WrappedKey>;
+
+export interface KeyChanges {
+  currentKeyId?: string; // Rotación: la nueva clave vigente
+  grants?: Record<string, KeyGrant>; // address -> claves que se le suman
+  revoke?: string[]; // Grants que se borran
+}
+
+export interface KeyChangesRequest {
+  scope: string; // {chainId}:{tokenId}
+  signer: string;
+  changes: string; // KeyChanges en JSON, tal cual se firmó
+  issuedAt: string;
+  signature: string;
+}
+
+const KEY_ID_PATTERN = /^0x[0-9a-f]{16}$/;
+const CHAIN_ID_PATTERN = /^0x[0-9a-f]+$/;
+const SCOPE_PATTERN = /^(0x[0-9a-f]+):(\d+)$/;
+
+// Debe coincidir byte a byte con publicKeyMessage en services/directory/provider.ts
+export const publicKeyMessage = (
+  chainId: string,
+  address: string,
+  publicKey: string,
+  issuedAt: string
+): string =>
+  [
+    "VetChain: publicar mi clave de cifrado",
+    `Red: ${chainId}`,
+    `Wallet: ${address}`,
+    `Clave: ${publicKey}`,
+    `Emitido: ${issuedAt}`,
+  ].join("\n");
+
+// Debe coincidir byte a byte con keyChangesMessage en services/directory/provider.ts
+export const keyChangesMessage = (
+  scope: string,
+  changes: string,
+  issuedAt: string
+): string =>
+  [
+    "VetChain: actualizar las claves de un animal",
+    `Animal: ${scope}`,
+    `Cambios: ${keccak256(toUtf8Bytes(changes))}`,
+    `Emitido: ${issuedAt}`,
+  ].join("\n");
+
+export const isPublicKey = (publicKey: unknown): publicKey is string =>
+  isHexString(publicKey, 33) && /^0x0[23]/.test(publicKey);
+
+export const parseScope = (
+  scope: unknown
+): { chainId: number; tokenId: bigint } | null => {
+  const match = typeof scope === "string" && SCOPE_PATTERN.exec(scope);
+  if (!match) return null;
+  return { chainId: Number(match[1]), tokenId: BigInt(match[2]) };
+};
+
+const isWrappedKey = (wrapped: any): wrapped is WrappedKey =>
+  !!wrapped &&
+  isPublicKey(wrapped.ephemeralPublicKey) &&
+  isHexString(wrapped.iv, 12) &&
+  isHexString(wrapped.ciphertext);
+
+const isKeyGrant = (grant: unknown): grant is KeyGrant =>
+  !!grant &&
+  typeof grant === "object" &&
+  Object.entries(grant).every(
+    ([keyId, wrapped]) => KEY_ID_PATTERN.test(keyId) && isWrappedKey(wrapped)
+  );
+
+// null si el JSON no es un KeyChanges válido
+export const parseKeyChanges = (json: string): KeyChanges | null => {
+  let changes: any;
+  try {
+    changes = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (!changes || typeof changes !== "object") return null;
+
+  const { currentKeyId, grants = {}, revoke = [] } = changes;
+  if (
+    currentKeyId !== undefined &&
+    !(typeof currentKeyId === "string" && KEY_ID_PATTERN.test(currentKeyId))
+  ) {
+    return null;
+  }
+  if (
+    typeof grants !== "object" ||
+    !Object.entries(grants).every(
+      ([address, grant]) => isAddress(address) && isKeyGrant(grant)
+    )
+  ) {
+    return null;
+  }
+  if (
+    !Array.isArray(revoke) ||
+    !revoke.every(
+      (address) => typeof address === "string" && isAddress(address)
+    )
+  ) {
+    return null;
+  }
+  return { currentKeyId, grants, revoke };
+};
+
+/**
+ * Devuelve el motivo del rechazo, o null si `address` firmó hace poco la
+ * publicación de esta clave.
+ */
+export const checkPublicKeySignature = (
+  request: Partial<PublicKeyRequest>,
+  now: number = Date.now()
+): string | null => {
+  const { chainId, address, publicKey, issuedAt, signature } = request;
+  if (typeof chainId !== "string" || !CHAIN_ID_PATTERN.test(chainId)) {
+    return "Red inválida";
+  }
+  if (typeof address !== "string" || !isAddress(address)) {
+    return "Wallet inválida";
+  }
+  if (!isPublicKey(publicKey)) return "Clave pública inválida";
+  return checkFreshSignature(
+    publicKeyMessage(chainId, getAddress(address), publicKey, String(issuedAt)),
+    address,
+    issuedAt,
+    signature,
+    now
+  );
+};
+
+/**
+ * Lo mismo para los cambios en las claves de un animal. Que `signer` pueda
+ * hacerlos (canChangeKeys) se verifica contra la cadena.
+ */
+export const checkKeyChangesSignature = (
+  request: Partial<KeyChangesRequest>,
+  now: number = Date.now()
+): string | null => {
+  const { scope, signer, changes, issuedAt, signature } = request;
+  if (!parseScope(scope)) return "Animal inválido";
+  if (typeof signer !== "string" || !isAddress(signer)) {
+    return "Wallet inválida";
+  }
+  if (typeof changes !== "string" || !parseKeyChanges(changes)) {
+    return "Cambios inválidos";
+  }
+  return checkFreshSignature(
+    keyChangesMessage(scope!, changes, String(issuedAt)),
+    signer,
+    issuedAt,
+    signature,
+    now
+  );
+};
+
+// El dueño puede todo. Cualquier otra wallet solo puede borrar su propio
+// grant (por ejemplo al rechazar una oferta de transferencia).
+export const canChangeKeys = (
+  changes: KeyChanges,
+  signer: string,
+  owner: string | null
+): boolean => {
+  if (owner && getAddress(owner) === getAddress(signer)) return true;
+  return (
+    !changes.currentKeyId &&
+    Object.keys(changes.grants ?? {}).length === 0 &&
+    (changes.revoke ?? []).every(
+      (address) => getAddress(address) === getAddress(signer)
+    )
+  );
+};
+
+// Wallets que recibieron la clave vigente. Borrar un grant no las saca: la
+// clave ya pudo quedar en su navegador, así que siguen acá hasta que el
+// dueño rota la clave.
+export const keyHolders = (
+  holders: string[],
+  currentKeyId: string | null,
+  changes: KeyChanges
+): string[] => {
+  const keyId = changes.currentKeyId ?? currentKeyId;
+  const added = Object.entries(changes.grants ?? {})
+    .filter(([, grant]) => !!keyId && keyId in grant)
+    .map(([address]) => address.toLowerCase());
+  const next = [...(changes.currentKeyId ? [] : holders), ...added];
+  return next.filter((address, i) => next.indexOf(address) === i);
+};
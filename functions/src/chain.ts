@@ -0,0 +1,40 @@
+// functions/src/chain.ts
+import { Contract, JsonRpcProvider } from "ethers";
+
+// Las functions no leen config/ de la app: la RPC y el AnimalNFT de cada red
+// van por entorno, con el chainId en decimal (RPC_URL_11155111,
+// ANIMAL_NFT_11155111).
+const OWNER_OF_ABI = [
+  "function ownerOf(uint256 tokenId) view returns (address)",
+];
+
+const providers = new Map<number, JsonRpcProvider>();
+
+/**
+ * Dueño actual del animal, o null si no existe o falleció (el token se
+ * quema). Lanza si la red no está configurada o no responde.
+ */
+export const getAnimalOwner = async (
+  chainId: number,
+  tokenId: bigint
+): Promise<string | null> => {
+  const rpcUrl = process.env[`RPC_URL_${chainId}`];
+  const animalNft = process.env[`ANIMAL_NFT_${chainId}`];
+  if (!rpcUrl || !animalNft) {
+    throw new Error(`Falta configurar la red ${chainId}`);
+  }
+
+  let provider = providers.get(chainId);
+  if (!provider) {
+    provider = new JsonRpcProvider(rpcUrl, chainId, { staticNetwork: true });
+    providers.set(chainId, provider);
+  }
+  try {
+    return await new Contract(animalNft, OWNER_OF_ABI, provider).ownerOf(
+      tokenId
+    );
+  } catch (error: any) {
+    if (error.code === "CALL_EXCEPTION") return null;
+    throw error;
+  }
+};
@@ -0,0 +1,111 @@
+// functions/src/emailLink.ts
+import { createHash, randomInt, timingSafeEqual } from "crypto";
+import { getAddress, isAddress, verifyMessage } from "ethers";
+
+// Vincular un email a una wallet pide dos pruebas: una firma EIP-191 de la
+// wallet sobre este mensaje y el código que se manda al email.
+
+export const SIGNATURE_MAX_AGE_MS = 10 * 60 * 1000;
+export const CODE_TTL_MS = 15 * 60 * 1000;
+export const RESEND_COOLDOWN_MS = 60 * 1000;
+export const MAX_CODE_ATTEMPTS = 5;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const normalizeEmail = (email: string): string =>
+  email.toLowerCase().trim();
+
+// Debe coincidir byte a byte con linkMessage en services/directory/provider.ts
+export const linkMessage = (
+  email: string,
+  address: string,
+  issuedAt: string
+): string =>
+  [
+    "VetChain: vincular este email a mi wallet",
+    `Email: ${email}`,
+    `Wallet: ${address}`,
+    `Emitido: ${issuedAt}`,
+  ].join("\n");
+
+export interface LinkRequest {
+  email: string;
+  address: string;
+  issuedAt: string; // ISO 8601, el que firmó la wallet
+  signature: string;
+  label?: string; // Nombre de la wallet dentro de la identidad
+}
+
+export const isEmail = (email: unknown): email is string =>
+  typeof email === "string" && EMAIL_PATTERN.test(email.trim());
+
+/**
+ * Devuelve el motivo del rechazo, o null si `signature` es de `address` sobre
+ * `message` y es reciente (una firma vieja filtrada no sirve para siempre).
+ */
+export const checkFreshSignature = (
+  message: string,
+  address: string,
+  issuedAt: unknown,
+  signature: unknown,
+  now: number = Date.now()
+): string | null => {
+  if (typeof issuedAt !== "string" || typeof signature !== "string") {
+    return "Falta la firma";
+  }
+  const issued = Date.parse(issuedAt);
+  if (isNaN(issued) || issued > now + 60_000) return "Fecha de firma inválida";
+  if (now - issued > SIGNATURE_MAX_AGE_MS) return "La firma venció";
+
+  let signer: string;
+  try {
+    signer = verifyMessage(message, signature);
+  } catch {
+    return "Firma inválida";
+  }
+  return signer === getAddress(address)
+    ? null
+    : "La firma no es de esta wallet";
+};
+
+// Lo mismo para vincular: la firma tiene que cubrir este email y esta wallet
+export const checkLinkSignature = (
+  request: Partial<LinkRequest>,
+  now: number = Date.now()
+): string | null => {
+  const { email, address, issuedAt, signature } = request;
+  if (!isEmail(email)) return "Email inválido";
+  if (typeof address !== "string" || !isAddress(address)) {
+    return "Wallet inválida";
+  }
+  return checkFreshSignature(
+    linkMessage(normalizeEmail(email), getAddress(address), String(issuedAt)),
+    address,
+    issuedAt,
+    signature,
+    now
+  );
+};
+
+// Un pedido por email y wallet: otra wallet que pida un código para el mismo
+// email no pisa el pendiente ni le reinicia la espera
+export const pendingCodeId = (email: string, address: string): string =>
+  `${address.toLowerCase()}:${email}`;
+
+export const generateCode = (): string =>
+  randomInt(0, 1_000_000).toString().padStart(6, "0");
+
+// El código no se guarda en claro; va atado al email y la wallet que lo pidió
+export const hashCode = (code: string, email: string, address: string) =>
+  createHash("sha256").update(`${email}:${address}:${code}`).digest("hex");
+
+export const codeMatches = (
+  codeHash: string,
+  code: string,
+  email: string,
+  address: string
+): boolean =>
+  timingSafeEqual(
+    Buffer.from(codeHash, "hex"),
+    Buffer.from(hashCode(code.trim(), email, address), "hex")
+  );
@@ -0,0 +1,191 @@
+// functions/src/identity.ts
+import { getAddress, isAddress } from "ethers";
+import { checkFreshSignature, isEmail, normalizeEmail } from "./emailLink";
+
+// Una identidad es un email con varias wallets, cada una vinculada por
+// separado (firma + código). `walletAddress` es la principal: la que devuelve
+// getAddressByEmail. `walletAddresses` duplica las claves de `wallets` para
+// poder buscar por cualquiera con array-contains.
+
+export const MAX_LABEL_LENGTH = 40;
+
+export const IDENTITY_ACTIONS = ["set-primary", "remove", "label"] as const;
+export type IdentityAction = (typeof IDENTITY_ACTIONS)[number];
+
+export interface LinkedWallet {
+  label: string;
+  signature: string; // La firma de linkMessage con la que se vinculó
+  signedAt: string;
+  verifiedAt: unknown; // Timestamp de Firestore
+}
+
+export interface Identity {
+  verified: true;
+  walletAddress: string;
+  walletAddresses: string[];
+  wallets: Record<string, LinkedWallet>;
+}
+
+export interface IdentityUpdate {
+  email: string;
+  signer: string; // Una wallet de la identidad
+  action: IdentityAction;
+  target: string;
+  label: string; // Solo cuenta con "label"
+  issuedAt: string;
+  signature: string;
+}
+
+export const isLabel = (label: unknown): label is string =>
+  typeof label === "string" && label.trim().length <= MAX_LABEL_LENGTH;
+
+// Debe coincidir byte a byte con identityMessage en services/directory/provider.ts
+export const identityMessage = (
+  email: string,
+  action: IdentityAction,
+  target: string,
+  label: string,
+  issuedAt: string
+): string =>
+  [
+    "VetChain: administrar las wallets de este email",
+    `Email: ${email}`,
+    `Acción: ${action}`,
+    `Wallet: ${target}`,
+    `Etiqueta: ${label}`,
+    `Emitido: ${issuedAt}`,
+  ].join("\n");
+
+/**
+ * Devuelve el motivo del rechazo, o null si `signer` firmó hace poco esta
+ * acción. Que `signer` sea de la identidad y pueda hacerla
+ * (canUpdateIdentity) se verifica contra Firestore.
+ */
+export const checkIdentitySignature = (
+  request: Partial<IdentityUpdate>,
+  now: number = Date.now()
+): string | null => {
+  const { email, signer, action, target, label, issuedAt, signature } = request;
+  if (!isEmail(email)) return "Email inválido";
+  if (typeof signer !== "string" || !isAddress(signer)) {
+    return "Wallet inválida";
+  }
+  if (typeof target !== "string" || !isAddress(target)) {
+    return "Wallet inválida";
+  }
+  if (!IDENTITY_ACTIONS.includes(action as IdentityAction)) {
+    return "Acción inválida";
+  }
+  if (!isLabel(label)) return "Etiqueta inválida";
+  return checkFreshSignature(
+    identityMessage(
+      normalizeEmail(email),
+      action!,
+      getAddress(target),
+      label,
+      String(issuedAt)
+    ),
+    signer,
+    issuedAt,
+    signature,
+    now
+  );
+};
+
+// Entradas de antes de las identidades: una sola walletAddress. El camino
+// abierto de antes escribía entradas sin verificar; esas no son de nadie y
+// devuelven null.
+export const toIdentity = (data: Record<string, any>): Identity | null => {
+  if (data.verified !== true) return null;
+  if (data.wallets) return data as Identity;
+  const address = getAddress(data.walletAddress);
+  return {
+    verified: true,
+    walletAddress: address,
+    walletAddresses: [address],
+    wallets: {
+      [address]: {
+        label: "",
+        signature: data.signature ?? "",
+        signedAt: data.signedAt ?? "",
+        verifiedAt: data.verifiedAt ?? null,
+      },
+    },
+  };
+};
+
+// Suma (o reemplaza) una wallet. La primera queda como principal.
+export const withWallet = (
+  identity: Identity | null,
+  address: string,
+  wallet: LinkedWallet
+): Identity => {
+  const wallets = { ...identity?.wallets, [address]: wallet };
+  return {
+    verified: true,
+    walletAddress: identity?.walletAddress ?? address,
+    walletAddresses: Object.keys(wallets),
+    wallets,
+  };
+};
+
+// La identidad que queda al confirmar `address` sobre el documento actual
+// del email (undefined si no existe). Si no había una identidad verificada,
+// la wallet que acaba de probar firma y código queda como principal.
+export const linkWallet = (
+  data: Record<string, any> | undefined,
+  address: string,
+  wallet: LinkedWallet
+): Identity => withWallet(data ? toIdentity(data) : null, address, wallet);
+
+// Quita una wallet. Si era la principal asciende la siguiente; null si no
+// queda ninguna y la identidad se borra.
+export const withoutWallet = (
+  identity: Identity,
+  address: string
+): Identity | null => {
+  const { [address]: _removed, ...wallets } = identity.wallets;
+  const remaining = Object.keys(wallets);
+  if (remaining.length === 0) return null;
+  return {
+    verified: true,
+    walletAddress:
+      identity.walletAddress === address
+        ? remaining[0]
+        : identity.walletAddress,
+    walletAddresses: remaining,
+    wallets,
+  };
+};
+
+// La principal administra la identidad. Las demás solo pueden renombrarse o
+// quitarse a sí mismas: si no, cualquier wallet vinculada podría hacerse
+// principal y sacar a las otras.
+export const canUpdateIdentity = (
+  identity: Identity,
+  signer: string,
+  action: IdentityAction,
+  target: string
+): boolean =>
+  signer === identity.walletAddress ||
+  (target === signer && action !== "set-primary");
+
+// `target` tiene que ser de la identidad
+export const applyIdentityUpdate = (
+  identity: Identity,
+  action: IdentityAction,
+  target: string,
+  label: string
+): Identity | null => {
+  switch (action) {
+    case "set-primary":
+      return { ...identity, walletAddress: target };
+    case "remove":
+      return withoutWallet(identity, target);
+    case "label":
+      return withWallet(identity, target, {
+        ...identity.wallets[target],
+        label: label.trim(),
+      });
+  }
+};
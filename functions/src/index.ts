@@ -0,0 +1,348 @@
+// functions/src/index.ts
+import { initializeApp } from "firebase-admin/app";
+import { FieldValue, Timestamp, getFirestore } from "firebase-admin/firestore";
+import { HttpsError, onCall } from "firebase-functions/v2/https";
+import { getAddress, isAddress } from "ethers";
+import {
+  CODE_TTL_MS,
+  LinkRequest,
+  MAX_CODE_ATTEMPTS,
+  RESEND_COOLDOWN_MS,
+  checkLinkSignature,
+  codeMatches,
+  generateCode,
+  hashCode,
+  normalizeEmail,
+  pendingCodeId,
+} from "./emailLink";
+import {
+  IdentityUpdate,
+  applyIdentityUpdate,
+  canUpdateIdentity,
+  checkIdentitySignature,
+  isLabel,
+  linkWallet,
+  toIdentity,
+  withoutWallet,
+} from "./identity";
+import { sendLinkCode } from "./mailer";
+import {
+  KeyChangesRequest,
+  PublicKeyRequest,
+  canChangeKeys,
+  checkKeyChangesSignature,
+  checkPublicKeySignature,
+  keyHolders,
+  parseKeyChanges,
+  parseScope,
+} from "./animalKeys";
+import { getAnimalOwner } from "./chain";
+
+initializeApp();
+const db = getFirestore();
+
+// users/{email}: el directorio que lee la app (solo entradas verificadas),
+// una identidad con una o más wallets (ver identity.ts).
+// emailVerifications/{address}:{email}: códigos pendientes, nunca legibles
+// por clientes.
+const users = db.collection("users");
+const pendingCodes = db.collection("emailVerifications");
+// encryptionKeys/{chainId}:{address} y animalKeys/{chainId}:{tokenId}:
+// claves de cifrado de los registros (ver animalKeys.ts y
+// services/keyDirectory.ts).
+const encryptionKeys = db.collection("encryptionKeys");
+const animalKeys = db.collection("animalKeys");
+
+interface PendingCode {
+  address: string;
+  codeHash: string;
+  signature: string;
+  issuedAt: string;
+  label: string;
+  attempts: number;
+  sentAt: Timestamp;
+  expiresAt: Timestamp;
+}
+
+/**
+ * Paso 1: verifica la firma de la wallet y manda un código al email.
+ */
+export const requestEmailLink = onCall<Partial<LinkRequest>>(async (req) => {
+  const rejection = checkLinkSignature(req.data);
+  if (rejection) throw new HttpsError("invalid-argument", rejection);
+  const { label = "" } = req.data;
+  if (!isLabel(label)) {
+    throw new HttpsError("invalid-argument", "Etiqueta inválida");
+  }
+
+  const email = normalizeEmail(req.data.email!);
+  const address = getAddress(req.data.address!);
+  const pendingRef = pendingCodes.doc(pendingCodeId(email, address));
+
+  const previous = await pendingRef.get();
+  if (previous.exists) {
+    const { sentAt } = previous.data() as PendingCode;
+    if (Date.now() - sentAt.toMillis() < RESEND_COOLDOWN_MS) {
+      throw new HttpsError(
+        "resource-exhausted",
+        "Espera un minuto antes de pedir otro código"
+      );
+    }
+  }
+
+  // Un pedido nuevo de la misma wallet reemplaza al anterior (y a sus
+  // intentos fallidos)
+  const code = generateCode();
+  const pending: PendingCode = {
+    address,
+    codeHash: hashCode(code, email, address),
+    signature: req.data.signature!,
+    issuedAt: req.data.issuedAt!,
+    label: label.trim(),
+    attempts: 0,
+    sentAt: Timestamp.now(),
+    expiresAt: Timestamp.fromMillis(Date.now() + CODE_TTL_MS),
+  };
+  await pendingRef.set(pending);
+  await sendLinkCode(email, address, code);
+  return { expiresAt: pending.expiresAt.toMillis() };
+});
+
+type ConfirmOutcome = "ok" | "missing" | "expired" | "wrong";
+
+const CONFIRM_ERRORS: Record<
+  Exclude<ConfirmOutcome, "ok">,
+  [ConstructorParameters<typeof HttpsError>[0], string]
+> = {
+  missing: [
+    "not-found",
+    "No hay un código pendiente para este email desde esta wallet",
+  ],
+  expired: ["deadline-exceeded", "El código venció o se agotaron los intentos"],
+  wrong: ["invalid-argument", "Código incorrecto"],
+};
+
+/**
+ * Paso 2: con el código correcto, la wallet se suma a la identidad del email
+ * (la primera queda como principal). Recién ahí el directorio la resuelve.
+ */
+export const confirmEmailLink = onCall<{
+  email?: string;
+  address?: string;
+  code?: string;
+}>(async (req) => {
+  const { email: rawEmail, address: rawAddress, code } = req.data;
+  if (
+    typeof rawEmail !== "string" ||
+    typeof rawAddress !== "string" ||
+    !isAddress(rawAddress) ||
+    typeof code !== "string" ||
+    !/^\d{6}$/.test(code.trim())
+  ) {
+    throw new HttpsError("invalid-argument", "Datos incompletos");
+  }
+  const email = normalizeEmail(rawEmail);
+  const address = getAddress(rawAddress);
+  const pendingRef = pendingCodes.doc(pendingCodeId(email, address));
+
+  // Los intentos fallidos tienen que quedar guardados: la transacción no
+  // lanza, devuelve el resultado y el error se arma después del commit
+  const outcome = await db.runTransaction<ConfirmOutcome>(async (tx) => {
+    // Firestore exige todas las lecturas antes de la primera escritura
+    const [snapshot, current, linked, legacy] = await Promise.all([
+      tx.get(pendingRef),
+      tx.get(users.doc(email)),
+      tx.get(users.where("walletAddresses", "array-contains", address)),
+      tx.get(users.where("walletAddress", "==", address)),
+    ]);
+    if (!snapshot.exists) return "missing";
+    const pending = snapshot.data() as PendingCode;
+    if (
+      pending.expiresAt.toMillis() < Date.now() ||
+      pending.attempts >= MAX_CODE_ATTEMPTS
+    ) {
+      tx.delete(pendingRef);
+      return "expired";
+    }
+    if (!codeMatches(pending.codeHash, code, email, address)) {
+      tx.update(pendingRef, { attempts: FieldValue.increment(1) });
+      return "wrong";
+    }
+
+    // Una wallet pertenece a una sola identidad: sale de la anterior. La
+    // segunda query encuentra las entradas de antes de las identidades.
+    const previous = new Map(
+      [...linked.docs, ...legacy.docs].map((doc) => [doc.id, doc])
+    );
+    previous.delete(email);
+    for (const doc of previous.values()) {
+      const identity = toIdentity(doc.data());
+      const rest = identity && withoutWallet(identity, address);
+      if (rest) tx.set(doc.ref, rest);
+      else tx.delete(doc.ref);
+    }
+
+    tx.set(
+      users.doc(email),
+      linkWallet(current.data(), address, {
+        label: pending.label ?? "",
+        signature: pending.signature,
+        signedAt: pending.issuedAt,
+        verifiedAt: Timestamp.now(),
+      })
+    );
+    tx.delete(pendingRef);
+    return "ok";
+  });
+
+  if (outcome !== "ok") {
+    const [status, message] = CONFIRM_ERRORS[outcome];
+    throw new HttpsError(status, message);
+  }
+  return { email, address };
+});
+
+type UpdateOutcome =
+  "ok" | "missing" | "not-member" | "not-primary" | "unknown-wallet";
+
+const UPDATE_ERRORS: Record<
+  Exclude<UpdateOutcome, "ok">,
+  [ConstructorParameters<typeof HttpsError>[0], string]
+> = {
+  missing: ["not-found", "Este email no tiene wallets vinculadas"],
+  "not-member": ["permission-denied", "Firma con una wallet de esta identidad"],
+  "not-primary": [
+    "permission-denied",
+    "Solo la wallet principal puede administrar las demás",
+  ],
+  "unknown-wallet": ["not-found", "La wallet no está vinculada a este email"],
+};
+
+/**
+ * Cambia la wallet principal, renombra o quita una wallet. Lo firma la
+ * principal; cualquier otra wallet solo puede renombrarse o quitarse a sí
+ * misma.
+ */
+export const updateIdentity = onCall<Partial<IdentityUpdate>>(async (req) => {
+  const rejection = checkIdentitySignature(req.data);
+  if (rejection) throw new HttpsError("invalid-argument", rejection);
+
+  const email = normalizeEmail(req.data.email!);
+  const signer = getAddress(req.data.signer!);
+  const target = getAddress(req.data.target!);
+  const ref = users.doc(email);
+
+  const outcome = await db.runTransaction<UpdateOutcome>(async (tx) => {
+    const snapshot = await tx.get(ref);
+    if (!snapshot.exists) return "missing";
+    const identity = toIdentity(snapshot.data()!);
+    if (!identity) return "missing";
+    if (!identity.wallets[signer]) return "not-member";
+    if (!identity.wallets[target]) return "unknown-wallet";
+    if (!canUpdateIdentity(identity, signer, req.data.action!, target)) {
+      return "not-primary";
+    }
+
+    const next = applyIdentityUpdate(
+      identity,
+      req.data.action!,
+      target,
+      req.data.label!
+    );
+    if (next) tx.set(ref, next);
+    else tx.delete(ref);
+    return "ok";
+  });
+
+  if (outcome !== "ok") {
+    const [status, message] = UPDATE_ERRORS[outcome];
+    throw new HttpsError(status, message);
+  }
+  return { email };
+});
+
+/**
+ * Publica la clave pública de cifrado de una wallet, firmada por ella: nadie
+ * más puede reemplazarla para que le compartan claves a otra.
+ */
+export const publishEncryptionKey = onCall<Partial<PublicKeyRequest>>(
+  async (req) => {
+    const rejection = checkPublicKeySignature(req.data);
+    if (rejection) throw new HttpsError("invalid-argument", rejection);
+
+    const address = getAddress(req.data.address!);
+    await encryptionKeys
+      .doc(`${req.data.chainId}:${address.toLowerCase()}`)
+      .set({
+        publicKey: req.data.publicKey,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    return { address };
+  }
+);
+
+/**
+ * Suma grants, borra grants o rota la clave vigente de un animal. Lo firma
+ * su dueño actual según la cadena; un destinatario solo puede borrar su
+ * propio grant.
+ */
+export const updateAnimalKeys = onCall<Partial<KeyChangesRequest>>(
+  async (req) => {
+    const rejection = checkKeyChangesSignature(req.data);
+    if (rejection) throw new HttpsError("invalid-argument", rejection);
+
+    const scope = req.data.scope!;
+    const signer = getAddress(req.data.signer!);
+    const changes = parseKeyChanges(req.data.changes!)!;
+    const { chainId, tokenId } = parseScope(scope)!;
+
+    let owner: string | null;
+    try {
+      owner = await getAnimalOwner(chainId, tokenId);
+    } catch (error) {
+      console.error("Error reading animal owner:", error);
+      throw new HttpsError(
+        "unavailable",
+        "No se pudo consultar el dueño del animal"
+      );
+    }
+    if (!canChangeKeys(changes, signer, owner)) {
+      throw new HttpsError(
+        "permission-denied",
+        "Solo el dueño del animal puede cambiar sus claves"
+      );
+    }
+
+    const scopeRef = animalKeys.doc(scope);
+    const grants = scopeRef.collection("grants");
+    await db.runTransaction(async (tx) => {
+      const snapshot = await tx.get(scopeRef);
+      const { currentKeyId = null, holders = [] } = snapshot.data() ?? {};
+
+      for (const [address, keys] of Object.entries(changes.grants ?? {})) {
+        tx.set(
+          grants.doc(address.toLowerCase()),
+          {
+            keys,
+            grantedBy: signer.toLowerCase(),
+            updatedAt: FieldValue.serverTimestamp(),
+          },
+          { merge: true }
+        );
+      }
+      for (const address of changes.revoke ?? []) {
+        tx.delete(grants.doc(address.toLowerCase()));
+      }
+      tx.set(
+        scopeRef,
+        {
+          currentKeyId: changes.currentKeyId ?? currentKeyId,
+          holders: keyHolders(holders, currentKeyId, changes),
+          updatedAt: FieldValue.serverTimestamp(),
+        },
+        { merge: true }
+      );
+    });
+    return { scope };
+  }
+);
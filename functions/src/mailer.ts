@@ -0,0 +1,39 @@
+// functions/src/mailer.ts
+import { createTransport } from "nodemailer";
+import { CODE_TTL_MS } from "./emailLink";
+
+// En el emulador, sin SMTP_HOST, los mails van a un sink local (Mailpit o
+// MailHog escuchan en 1025). En producción la configuración es obligatoria.
+const isEmulator = process.env.FUNCTIONS_EMULATOR === "true";
+
+const transport = () => {
+  if (!process.env.SMTP_HOST && !isEmulator) {
+    throw new Error("Falta configurar SMTP_HOST");
+  }
+  return createTransport({
+    host: process.env.SMTP_HOST || "127.0.0.1",
+    port: Number(process.env.SMTP_PORT || 1025),
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+      : undefined,
+  });
+};
+
+export const sendLinkCode = async (
+  email: string,
+  address: string,
+  code: string
+): Promise<void> => {
+  await transport().sendMail({
+    from: process.env.SMTP_FROM || "VetChain <no-reply@vetchain.local>",
+    to: email,
+    subject: `Tu código de VetChain: ${code}`,
+    text: [
+      `Tu código para vincular este email a la wallet ${address} es ${code}.`,
+      "",
+      `Vence en ${CODE_TTL_MS / 60_000} minutos. Si no lo pediste, ignora este`,
+      "mensaje: sin el código nadie puede usar tu email en VetChain.",
+    ].join("\n"),
+  });
+};
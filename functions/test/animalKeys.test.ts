@@ -0,0 +1,148 @@
+import { expect } from "chai";
+import { SigningKey, Wallet, hexlify, randomBytes } from "ethers";
+import {
+  KeyChanges,
+  canChangeKeys,
+  checkKeyChangesSignature,
+  checkPublicKeySignature,
+  keyChangesMessage,
+  keyHolders,
+  parseKeyChanges,
+  publicKeyMessage,
+} from "../src/animalKeys";
+
+describe("animalKeys", function () {
+  const owner = Wallet.createRandom();
+  const vet = Wallet.createRandom();
+  const chainId = "0x7a69";
+  const scope = `${chainId}:1`;
+  const issuedAt = new Date().toISOString();
+  const now = Date.parse(issuedAt);
+
+  const wrapped = () => ({
+    ephemeralPublicKey: new SigningKey(randomBytes(32)).compressedPublicKey,
+    iv: hexlify(randomBytes(12)),
+    ciphertext: hexlify(randomBytes(48)),
+  });
+  const keyId = hexlify(randomBytes(8));
+
+  describe("checkPublicKeySignature", function () {
+    const publicKey = new SigningKey(randomBytes(32)).compressedPublicKey;
+
+    it("accepts a key published by its own wallet", async function () {
+      const signature = await owner.signMessage(
+        publicKeyMessage(chainId, owner.address, publicKey, issuedAt)
+      );
+      expect(
+        checkPublicKeySignature(
+          { chainId, address: owner.address, publicKey, issuedAt, signature },
+          now
+        )
+      ).to.equal(null);
+    });
+
+    it("rejects a key for another wallet", async function () {
+      const signature = await vet.signMessage(
+        publicKeyMessage(chainId, owner.address, publicKey, issuedAt)
+      );
+      expect(
+        checkPublicKeySignature(
+          { chainId, address: owner.address, publicKey, issuedAt, signature },
+          now
+        )
+      ).to.equal("La firma no es de esta wallet");
+    });
+
+    it("rejects a key signed for another network", async function () {
+      const signature = await owner.signMessage(
+        publicKeyMessage("0xaa36a7", owner.address, publicKey, issuedAt)
+      );
+      expect(
+        checkPublicKeySignature(
+          { chainId, address: owner.address, publicKey, issuedAt, signature },
+          now
+        )
+      ).to.equal("La firma no es de esta wallet");
+    });
+  });
+
+  describe("checkKeyChangesSignature", function () {
+    const changes = JSON.stringify({
+      grants: { [vet.address.toLowerCase()]: { [keyId]: wrapped() } },
+    });
+
+    it("accepts a signature over the exact changes", async function () {
+      const signature = await owner.signMessage(
+        keyChangesMessage(scope, changes, issuedAt)
+      );
+      expect(
+        checkKeyChangesSignature(
+          { scope, signer: owner.address, changes, issuedAt, signature },
+          now
+        )
+      ).to.equal(null);
+    });
+
+    it("rejects changes that differ from the signed ones", async function () {
+      const signature = await owner.signMessage(
+        keyChangesMessage(scope, changes, issuedAt)
+      );
+      const revoke = JSON.stringify({ revoke: [vet.address] });
+      expect(
+        checkKeyChangesSignature(
+          {
+            scope,
+            signer: owner.address,
+            changes: revoke,
+            issuedAt,
+            signature,
+          },
+          now
+        )
+      ).to.equal("La firma no es de esta wallet");
+    });
+
+    it("rejects malformed grants", function () {
+      const changes = JSON.stringify({
+        grants: { [vet.address]: { [keyId]: { iv: "0x00" } } },
+      });
+      expect(parseKeyChanges(changes)).to.equal(null);
+    });
+  });
+
+  describe("canChangeKeys", function () {
+    it("lets others only drop their own grant", function () {
+      const rotation: KeyChanges = { currentKeyId: keyId, revoke: [] };
+      expect(canChangeKeys(rotation, owner.address, owner.address)).to.equal(
+        true
+      );
+      expect(canChangeKeys(rotation, vet.address, owner.address)).to.equal(
+        false
+      );
+      expect(
+        canChangeKeys({ revoke: [vet.address] }, vet.address, owner.address)
+      ).to.equal(true);
+      expect(
+        canChangeKeys({ revoke: [owner.address] }, vet.address, owner.address)
+      ).to.equal(false);
+    });
+  });
+
+  describe("keyHolders", function () {
+    it("keeps revoked holders until the key is rotated", function () {
+      const holders = [owner.address.toLowerCase(), vet.address.toLowerCase()];
+      expect(
+        keyHolders(holders, keyId, { revoke: [vet.address] })
+      ).to.deep.equal(holders);
+
+      const next = hexlify(randomBytes(8));
+      expect(
+        keyHolders(holders, keyId, {
+          currentKeyId: next,
+          grants: { [owner.address.toLowerCase()]: { [next]: wrapped() } },
+          revoke: [vet.address],
+        })
+      ).to.deep.equal([owner.address.toLowerCase()]);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { expect } from "chai";
+import { Wallet } from "ethers";
+import {
+  SIGNATURE_MAX_AGE_MS,
+  checkLinkSignature,
+  codeMatches,
+  generateCode,
+  hashCode,
+  linkMessage,
+  pendingCodeId,
+} from "../src/emailLink";
+
+describe("emailLink", function () {
+  const wallet = Wallet.createRandom();
+  const other = Wallet.createRandom();
+  const email = "vet@clinic.com";
+  const issuedAt = new Date().toISOString();
+  const now = Date.parse(issuedAt);
+
+  const signed = async (signer = wallet, signedEmail = email) => ({
+    email,
+    address: wallet.address,
+    issuedAt,
+    signature: await signer.signMessage(
+      linkMessage(signedEmail, wallet.address, issuedAt)
+    ),
+  });
+
+  describe("checkLinkSignature", function () {
+    it("accepts a fresh signature from the wallet being linked", async function () {
+      expect(checkLinkSignature(await signed(), now)).to.equal(null);
+    });
+
+    it("normalizes the email before checking the signature", async function () {
+      const request = { ...(await signed()), email: "  VET@Clinic.com " };
+      expect(checkLinkSignature(request, now)).to.equal(null);
+    });
+
+    it("rejects a signature from another wallet", async function () {
+      expect(checkLinkSignature(await signed(other), now)).to.equal(
+        "La firma no es de esta wallet"
+      );
+    });
+
+    it("rejects a signature over another email", async function () {
+      expect(
+        checkLinkSignature(await signed(wallet, "owner@mail.com"), now)
+      ).to.equal("La firma no es de esta wallet");
+    });
+
+    it("rejects stale signatures", async function () {
+      expect(
+        checkLinkSignature(await signed(), now + SIGNATURE_MAX_AGE_MS + 1)
+      ).to.equal("La firma venció");
+    });
+
+    it("rejects malformed input", async function () {
+      const request = await signed();
+      expect(checkLinkSignature({ ...request, email: "vet" }, now)).to.equal(
+        "Email inválido"
+      );
+      expect(checkLinkSignature({ ...request, address: "0x12" }, now)).to.equal(
+        "Wallet inválida"
+      );
+      expect(
+        checkLinkSignature({ ...request, signature: "0x1234" }, now)
+      ).to.equal("Firma inválida");
+    });
+  });
+
+  describe("codes", function () {
+    it("generates six-digit codes", function () {
+      for (let i = 0; i < 20; i++) {
+        expect(generateCode()).to.match(/^\d{6}$/);
+      }
+    });
+
+    it("only matches the code for the same email and wallet", function () {
+      const codeHash = hashCode("123456", email, wallet.address);
+      expect(codeMatches(codeHash, "123456", email, wallet.address)).to.equal(
+        true
+      );
+      expect(codeMatches(codeHash, "654321", email, wallet.address)).to.equal(
+        false
+      );
+      expect(codeMatches(codeHash, "123456", email, other.address)).to.equal(
+        false
+      );
+    });
+
+    it("keeps a separate pending code per wallet", function () {
+      expect(pendingCodeId(email, wallet.address)).to.not.equal(
+        pendingCodeId(email, other.address)
+      );
+      expect(pendingCodeId(email, wallet.address)).to.equal(
+        pendingCodeId(email, wallet.address.toLowerCase())
+      );
+    });
+  });
+});
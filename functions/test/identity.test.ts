@@ -0,0 +1,182 @@
+import { expect } from "chai";
+import { Wallet } from "ethers";
+import {
+  Identity,
+  IdentityAction,
+  applyIdentityUpdate,
+  canUpdateIdentity,
+  checkIdentitySignature,
+  identityMessage,
+  linkWallet,
+  toIdentity,
+  withWallet,
+  withoutWallet,
+} from "../src/identity";
+
+describe("identity", function () {
+  const clinic = Wallet.createRandom();
+  const personal = Wallet.createRandom();
+  const stranger = Wallet.createRandom();
+  const email = "vet@clinic.com";
+  const issuedAt = new Date().toISOString();
+  const now = Date.parse(issuedAt);
+
+  const linked = (label: string) => ({
+    label,
+    signature: "0x",
+    signedAt: issuedAt,
+    verifiedAt: null,
+  });
+
+  // Clínica (principal) + personal
+  const identity = (): Identity =>
+    withWallet(
+      withWallet(null, clinic.address, linked("Clínica")),
+      personal.address,
+      linked("Personal")
+    );
+
+  describe("checkIdentitySignature", function () {
+    const signed = async (
+      signer: Wallet,
+      action: IdentityAction = "set-primary",
+      label = ""
+    ) => ({
+      email,
+      signer: signer.address,
+      action,
+      target: personal.address,
+      label,
+      issuedAt,
+      signature: await signer.signMessage(
+        identityMessage(email, action, personal.address, label, issuedAt)
+      ),
+    });
+
+    it("accepts a fresh signature over the action", async function () {
+      expect(checkIdentitySignature(await signed(clinic), now)).to.equal(null);
+    });
+
+    it("rejects a signature over another action", async function () {
+      const request = {
+        ...(await signed(clinic, "set-primary")),
+        action: "remove" as const,
+      };
+      expect(checkIdentitySignature(request, now)).to.equal(
+        "La firma no es de esta wallet"
+      );
+    });
+
+    it("rejects unknown actions and long labels", async function () {
+      const request = await signed(clinic);
+      expect(
+        checkIdentitySignature({ ...request, action: "delete" as any }, now)
+      ).to.equal("Acción inválida");
+      expect(
+        checkIdentitySignature({ ...request, label: "x".repeat(41) }, now)
+      ).to.equal("Etiqueta inválida");
+    });
+  });
+
+  describe("wallets", function () {
+    it("keeps the first wallet as primary and indexes every address", function () {
+      const result = identity();
+      expect(result.walletAddress).to.equal(clinic.address);
+      expect(result.walletAddresses).to.deep.equal([
+        clinic.address,
+        personal.address,
+      ]);
+    });
+
+    it("promotes the next wallet when the primary is removed", function () {
+      const result = withoutWallet(identity(), clinic.address)!;
+      expect(result.walletAddress).to.equal(personal.address);
+      expect(result.walletAddresses).to.deep.equal([personal.address]);
+      expect(withoutWallet(result, personal.address)).to.equal(null);
+    });
+
+    it("applies primary and label changes", function () {
+      const primary = applyIdentityUpdate(
+        identity(),
+        "set-primary",
+        personal.address,
+        ""
+      )!;
+      expect(primary.walletAddress).to.equal(personal.address);
+
+      const renamed = applyIdentityUpdate(
+        identity(),
+        "label",
+        personal.address,
+        " Ledger "
+      )!;
+      expect(renamed.wallets[personal.address].label).to.equal("Ledger");
+      expect(renamed.walletAddress).to.equal(clinic.address);
+    });
+
+    it("reads entries from before identities", function () {
+      const result = toIdentity({
+        walletAddress: stranger.address.toLowerCase(),
+        verified: true,
+        signature: "0xabc",
+        signedAt: issuedAt,
+      });
+      expect(result!.walletAddress).to.equal(stranger.address);
+      expect(result!.walletAddresses).to.deep.equal([stranger.address]);
+      expect(result!.wallets[stranger.address].signature).to.equal("0xabc");
+    });
+  });
+
+  describe("canUpdateIdentity", function () {
+    it("lets the primary wallet manage every wallet", function () {
+      for (const action of ["set-primary", "remove", "label"] as const) {
+        expect(
+          canUpdateIdentity(
+            identity(),
+            clinic.address,
+            action,
+            personal.address
+          )
+        ).to.equal(true);
+      }
+    });
+
+    it("lets other wallets only rename or remove themselves", function () {
+      const can = (action: IdentityAction, target: string) =>
+        canUpdateIdentity(identity(), personal.address, action, target);
+      expect(can("label", personal.address)).to.equal(true);
+      expect(can("remove", personal.address)).to.equal(true);
+      expect(can("set-primary", personal.address)).to.equal(false);
+      expect(can("remove", clinic.address)).to.equal(false);
+      expect(can("label", clinic.address)).to.equal(false);
+    });
+  });
+
+  describe("linkWallet", function () {
+    it("makes the confirming wallet primary over an unverified entry", function () {
+      // Escrita por el camino abierto de antes, sin firma ni código
+      const squatted = {
+        walletAddress: stranger.address.toLowerCase(),
+        verified: false,
+      };
+      expect(toIdentity(squatted)).to.equal(null);
+
+      const result = linkWallet(squatted, clinic.address, linked("Clínica"));
+      expect(result.walletAddress).to.equal(clinic.address);
+      expect(result.walletAddresses).to.deep.equal([clinic.address]);
+    });
+
+    it("adds a secondary wallet to a verified entry", function () {
+      const result = linkWallet(
+        { walletAddress: clinic.address, verified: true },
+        personal.address,
+        linked("Personal")
+      );
+      expect(result.walletAddress).to.equal(clinic.address);
+      expect(result.walletAddresses).to.deep.equal([
+        clinic.address,
+        personal.address,
+      ]);
+    });
+  });
+});
@@ -1,7 +1,15 @@
 import { useState, useEffect, useCallback } from "react";
-import { BrowserProvider, Contract } from "ethers";
-import { CONTRACT_ADDRESSES, ABIS, SEPOLIA_CHAIN_ID } from "../constants";
-import { UserRole } from "../types";
+import { BrowserProvider } from "ethers";
+import {
+  DEFAULT_CHAIN_ID,
+  getNetworkConfig,
+  NETWORKS,
+} from "../config/networks";
+import { UserRole, Web3State } from "../types";
+import {
+  createVetChainClient,
+  VetChainClient,
+} from "../services/vetChainClient";
 
 declare global {
   interface Window {
@@ -9,44 +17,29 @@ declare global {
   }
 }
 
-export const useBlockchain = () => {
+export const useBlockchain = (): Web3State => {
   const [provider, setProvider] = useState<BrowserProvider | null>(null);
   const [account, setAccount] = useState<string | null>(null);
   const [chainId, setChainId] = useState<string | null>(null);
   const [isConnecting, setIsConnecting] = useState(false);
 
-  // Contracts
-  const [nftContract, setNftContract] = useState<Contract | null>(null);
-  const [storageContract, setStorageContract] = useState<Contract | null>(null);
-  const [govContract, setGovContract] = useState<Contract | null>(null); // Deprecated
+  // Typed contract client
+  const [client, setClient] = useState<VetChainClient | null>(null);
 
   // Role State
   const [userRole, setUserRole] = useState<UserRole>(UserRole.GUEST);
 
-  const checkVetLicense = async (
-    address: string,
-    nft: Contract
-  ): Promise<bigint> => {
-    try {
-      const licenseId = await nft.vetWalletToLicenseId(address);
-      return licenseId;
-    } catch (e) {
-      console.error("Error checking license:", e);
-      return 0n;
-    }
-  };
-
-  const determineRole = async (address: string, nft: Contract) => {
+  const determineRole = async (address: string, client: VetChainClient) => {
     try {
       // 1. Check Vet (Linked License via Registry)
-      const licenseId = await checkVetLicense(address, nft);
+      const licenseId = await client.getVetLicenseId(address);
       if (licenseId > 0n) {
         setUserRole(UserRole.VET);
         return;
       }
 
       // 2. Check Owner (Has Pet Balance)
-      const balance = await nft.balanceOf(address);
+      const balance = await client.getBalance(address);
       if (balance > 0n) {
         setUserRole(UserRole.OWNER);
         return;
@@ -63,25 +56,24 @@ export const useBlockchain = () => {
   const initContracts = useCallback(
     async (currentProvider: BrowserProvider, currentAccount: string) => {
       try {
-        const signer = await currentProvider.getSigner();
-
-        const nft = new Contract(
-          CONTRACT_ADDRESSES.ANIMAL_NFT,
-          ABIS.NFT,
-          signer
-        );
-        const storage = new Contract(
-          CONTRACT_ADDRESSES.STORAGE,
-          ABIS.STORAGE,
-          signer
-        );
-
-        setNftContract(nft);
-        setStorageContract(storage);
-        setGovContract(null);
+        // Contracts are picked from the registry by the connected chain
+        const { chainId } = await currentProvider.getNetwork();
+        const network = getNetworkConfig("0x" + chainId.toString(16));
+        if (!network?.isDeployed) {
+          setClient(null);
+          return;
+        }
+
+        // A deployment older than config/abis.ts is opened read-only: its
+        // records stay visible, while writes against the new ABIs would revert
+        const runner = network.isCurrent
+          ? await currentProvider.getSigner()
+          : currentProvider;
+        const vetChain = createVetChainClient(runner, network);
+        setClient(vetChain);
 
         // Determine Role immediately
-        await determineRole(currentAccount, nft);
+        await determineRole(currentAccount, vetChain);
       } catch (error) {
         console.error("Error initializing contracts:", error);
       }
@@ -152,16 +144,37 @@ export const useBlockchain = () => {
     }
   };
 
-  const switchNetwork = async () => {
+  const switchNetwork = async (targetChainId: string = DEFAULT_CHAIN_ID) => {
     if (!window.ethereum) return;
+    const target = NETWORKS[targetChainId];
+    if (!target) return;
     try {
       await window.ethereum.request({
         method: "wallet_switchEthereumChain",
-        params: [{ chainId: SEPOLIA_CHAIN_ID }],
+        params: [{ chainId: target.chainId }],
       });
     } catch (switchError: any) {
       if (switchError.code === 4902) {
-        alert("La red Sepolia no está agregada a tu MetaMask.");
+        // Unknown to MetaMask: add it from the registry
+        try {
+          await window.ethereum.request({
+            method: "wallet_addEthereumChain",
+            params: [
+              {
+                chainId: target.chainId,
+                chainName: target.name,
+                rpcUrls: target.rpcUrls,
+                nativeCurrency: target.nativeCurrency,
+                blockExplorerUrls: target.explorerUrl
+                  ? [target.explorerUrl]
+                  : undefined,
+              },
+            ],
+          });
+        } catch (addError) {
+          console.error(addError);
+          alert(`No se pudo agregar la red ${target.name} a tu MetaMask.`);
+        }
       } else {
         console.error(switchError);
       }
@@ -173,14 +186,12 @@ export const useBlockchain = () => {
     chainId,
     isConnecting,
     isConnected: !!account,
-    isCorrectNetwork: chainId === SEPOLIA_CHAIN_ID,
+    isCorrectNetwork: !!getNetworkConfig(chainId)?.isDeployed,
+    network: getNetworkConfig(chainId),
     userRole,
     provider,
-    govContract, // Returns null
-    nftContract,
-    storageContract,
+    client,
     connectWallet,
     switchNetwork,
-    checkVetLicense,
   };
 };
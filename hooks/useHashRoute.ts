@@ -0,0 +1,61 @@
+import { useState, useEffect, useMemo } from "react";
+
+// Public pages live behind the hash so they work on any static host and
+// can be opened from a link or QR code without a wallet
+export type HashRoute =
+  | {
+      name: "PET_LOOKUP";
+      chipId: string | null;
+      // Set by collar tags: the network and AnimalNFT the chip belongs to
+      chainId: string | null;
+      contract: string | null;
+    }
+  | { name: "VACCINATION_CERTIFICATE"; chipId: string }
+  | { name: "COLLAR_TAG"; chipId: string }
+  | { name: "CERTIFICATE_VERIFY"; payload: string }
+  | null;
+
+export const parseHashRoute = (hash: string): HashRoute => {
+  const match = hash.match(/^#\/mascota(?:\/(\d+))?\/?(?:\?(.*))?$/);
+  if (match) {
+    const params = new URLSearchParams(match[2] || "");
+    return {
+      name: "PET_LOOKUP",
+      chipId: match[1] || null,
+      chainId: params.get("red"),
+      contract: params.get("nft"),
+    };
+  }
+  const tag = hash.match(/^#\/chapita\/(\d+)\/?$/);
+  if (tag) return { name: "COLLAR_TAG", chipId: tag[1] };
+  const certificate = hash.match(/^#\/certificado\/(\d+)\/?$/);
+  if (certificate) {
+    return { name: "VACCINATION_CERTIFICATE", chipId: certificate[1] };
+  }
+  const verify = hash.match(/^#\/verificar\/([A-Za-z0-9_-]+)$/);
+  if (verify) return { name: "CERTIFICATE_VERIFY", payload: verify[1] };
+  return null;
+};
+
+export const petLookupHash = (chipId?: string): string =>
+  chipId ? `#/mascota/${chipId}` : "#/mascota";
+
+export const collarTagHash = (chipId: string): string => `#/chapita/${chipId}`;
+
+export const certificateHash = (chipId: string): string =>
+  `#/certificado/${chipId}`;
+
+export const certificateVerifyHash = (payload: string): string =>
+  `#/verificar/${payload}`;
+
+export const useHashRoute = (): HashRoute => {
+  const [hash, setHash] = useState(window.location.hash);
+
+  useEffect(() => {
+    const onHashChange = () => setHash(window.location.hash);
+    window.addEventListener("hashchange", onHashChange);
+    return () => window.removeEventListener("hashchange", onHashChange);
+  }, []);
+
+  return useMemo(() => parseHashRoute(hash), [hash]);
+};
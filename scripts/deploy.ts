@@ -0,0 +1,117 @@
+// scripts/deploy.ts
+// Despliega VetChain en orden (licencias -> MedicalStorage -> ClinicRegistry -> AnimalNFT
+// -> TransferPolicy -> VetProfileRegistry), conecta los contratos y escribe direcciones
+// y ABIs en config/.
+//
+//   npm run contracts:deploy:local     (nodo local en 127.0.0.1:8545)
+//   npm run contracts:deploy:sepolia   (requiere VET_REGISTRY_ADDRESS y VET_NFT_ADDRESS)
+//
+// MANDATORY_VACCINES (opcional, por defecto "rabies") lista separada por comas
+// de las vacunas que deben estar vigentes para transferir.
+import hre, { network } from "hardhat";
+import { writeAbis, writeDeployment } from "./lib/frontendConfig";
+
+const LOCAL_CHAIN_ID = 31337n;
+
+const { ethers } = await network.create();
+const [deployer] = await ethers.getSigners();
+const { chainId } = await ethers.provider.getNetwork();
+const chainIdHex = "0x" + chainId.toString(16);
+
+console.log(`Desplegando en chainId ${chainId} con ${deployer.address}`);
+
+// 1. Licencias veterinarias: contratos externos si se indican, si no mocks
+let vetNftAddress = process.env.VET_NFT_ADDRESS;
+let vetRegistryAddress = process.env.VET_REGISTRY_ADDRESS;
+const useMocks = !vetNftAddress || !vetRegistryAddress;
+
+const vetNft = useMocks ? await ethers.deployContract("MockVetLicenseNFT") : null;
+const vetRegistry = useMocks
+  ? await ethers.deployContract("MockVetLicenseRegistry")
+  : null;
+if (vetNft && vetRegistry) {
+  await vetNft.waitForDeployment();
+  await vetRegistry.waitForDeployment();
+  vetNftAddress = await vetNft.getAddress();
+  vetRegistryAddress = await vetRegistry.getAddress();
+  console.log(`MockVetLicenseNFT:      ${vetNftAddress}`);
+  console.log(`MockVetLicenseRegistry: ${vetRegistryAddress}`);
+}
+
+// 2. MedicalStorage
+const storage = await ethers.deployContract("MedicalStorage");
+await storage.waitForDeployment();
+const storageAddress = await storage.getAddress();
+const storageReceipt = await storage.deploymentTransaction()?.wait();
+console.log(`MedicalStorage:         ${storageAddress}`);
+
+// 3. ClinicRegistry
+const clinics = await ethers.deployContract("ClinicRegistry");
+await clinics.waitForDeployment();
+const clinicsAddress = await clinics.getAddress();
+console.log(`ClinicRegistry:         ${clinicsAddress}`);
+
+// 4. AnimalNFT
+const nft = await ethers.deployContract("AnimalNFT", [
+  vetRegistryAddress!,
+  vetNftAddress!,
+  storageAddress,
+  clinicsAddress,
+]);
+await nft.waitForDeployment();
+const nftAddress = await nft.getAddress();
+console.log(`AnimalNFT:              ${nftAddress}`);
+
+// 5. Solo AnimalNFT puede escribir en MedicalStorage
+await (await storage.setController(nftAddress)).wait();
+console.log("MedicalStorage.setController -> AnimalNFT");
+
+// 6. TransferPolicy: reglas sanitarias de las transferencias
+const policy = await ethers.deployContract("TransferPolicy", [
+  nftAddress,
+  storageAddress,
+]);
+await policy.waitForDeployment();
+const policyAddress = await policy.getAddress();
+console.log(`TransferPolicy:         ${policyAddress}`);
+await (await nft.setTransferPolicy(policyAddress)).wait();
+
+// Vacunas exigidas para transferir (ids del catálogo de MedicalStorage)
+const mandatoryVaccines = (process.env.MANDATORY_VACCINES ?? "rabies")
+  .split(",")
+  .map((id) => id.trim())
+  .filter(Boolean);
+await (
+  await policy.setMandatoryVaccines(
+    mandatoryVaccines.map((id) => ethers.encodeBytes32String(id))
+  )
+).wait();
+console.log(`Vacunas obligatorias: ${mandatoryVaccines.join(", ") || "ninguna"}`);
+
+// 7. VetProfileRegistry: directorio público de veterinarios
+const profiles = await ethers.deployContract("VetProfileRegistry", [nftAddress]);
+await profiles.waitForDeployment();
+const profilesAddress = await profiles.getAddress();
+console.log(`VetProfileRegistry:     ${profilesAddress}`);
+
+// 8. En local dejamos la licencia #1 vigente para el deployer
+if (vetNft && vetRegistry && chainId === LOCAL_CHAIN_ID) {
+  await (await vetNft.mint(deployer.address, 1)).wait();
+  await (await vetRegistry.setValid(1, true)).wait();
+  console.log(`Licencia #1 emitida y vigente para ${deployer.address}`);
+}
+
+// 9. Configuración del frontend
+const abiVersion = await writeAbis(hre.artifacts);
+await writeDeployment(chainIdHex, {
+  ANIMAL_NFT: nftAddress,
+  STORAGE: storageAddress,
+  VET_REGISTRY: vetRegistryAddress!,
+  VET_NFT: vetNftAddress!,
+  CLINIC_REGISTRY: clinicsAddress,
+  TRANSFER_POLICY: policyAddress,
+  VET_PROFILES: profilesAddress,
+  startBlock: storageReceipt?.blockNumber ?? 0,
+  abiVersion,
+});
+console.log(`config/deployments.json (${chainIdHex}) y config/abis.ts actualizados`);
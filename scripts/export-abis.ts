@@ -0,0 +1,8 @@
+// scripts/export-abis.ts
+// Regenera config/abis.ts a partir de los artifacts compilados.
+import hre from "hardhat";
+import { writeAbis } from "./lib/frontendConfig";
+
+await hre.tasks.getTask("build").run({});
+await writeAbis(hre.artifacts);
+console.log("ABIs exportados a config/abis.ts");
@@ -0,0 +1,60 @@
+// scripts/lib/frontendConfig.ts
+import { createHash } from "node:crypto";
+import { readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { ArtifactManager } from "hardhat/types/artifacts";
+import type { Deployment } from "../../config/networks";
+
+// Escribe en config/ lo que el frontend necesita de los contratos, para no
+// copiar ABIs ni direcciones a mano después de cada despliegue.
+
+const CONFIG_DIR = path.resolve(import.meta.dirname, "../../config");
+
+// Escribe config/abis.ts y devuelve ABI_VERSION, la huella de esos ABIs
+export const writeAbis = async (artifacts: ArtifactManager) => {
+  const nft = await artifacts.readArtifact("AnimalNFT");
+  const storage = await artifacts.readArtifact("MedicalStorage");
+  const clinics = await artifacts.readArtifact("ClinicRegistry");
+  const policy = await artifacts.readArtifact("TransferPolicy");
+  const profiles = await artifacts.readArtifact("VetProfileRegistry");
+  // Interfaz del registro externo de licencias (solo isValid)
+  const licenses = await artifacts.readArtifact("IVetLicenseRegistry");
+  const abis = {
+    NFT: nft.abi,
+    STORAGE: storage.abi,
+    CLINICS: clinics.abi,
+    POLICY: policy.abi,
+    PROFILES: profiles.abi,
+    LICENSES: licenses.abi,
+  };
+  const abiVersion = createHash("sha256")
+    .update(JSON.stringify(abis))
+    .digest("hex")
+    .slice(0, 16);
+
+  const source = [
+    "// config/abis.ts",
+    "// Generado desde los artifacts de Hardhat por `npm run contracts:abis`",
+    "// (también lo regenera el script de deploy). No editar a mano.",
+    "",
+    `export const ABIS = ${JSON.stringify(abis, null, 2)} as const;`,
+    "",
+    "// Huella de estos ABIs. El deploy la guarda junto a las direcciones: un",
+    "// despliegue con otra huella tiene contratos de otra versión.",
+    `export const ABI_VERSION = "${abiVersion}";`,
+    "",
+  ].join("\n");
+
+  await writeFile(path.join(CONFIG_DIR, "abis.ts"), source);
+  return abiVersion;
+};
+
+export const writeDeployment = async (
+  chainId: string,
+  deployment: Deployment
+) => {
+  const file = path.join(CONFIG_DIR, "deployments.json");
+  const deployments = JSON.parse(await readFile(file, "utf8"));
+  deployments[chainId] = deployment;
+  await writeFile(file, JSON.stringify(deployments, null, 2) + "\n");
+};
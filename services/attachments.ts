@@ -0,0 +1,123 @@
+// services/attachments.ts
+import { importBytes } from "ipfs-unixfs-importer";
+import { CID } from "multiformats/cid";
+import { Attachment } from "./clinicalRecord";
+import { resolveIPFS, uploadFileToIPFS } from "./pinataService";
+import { decryptBytes, encryptFile } from "./recordEncryption";
+
+export const DICOM_MIME_TYPE = "application/dicom";
+
+// Tipos aceptados en el input de archivos
+export const ATTACHMENT_ACCEPT = `image/*,application/pdf,${DICOM_MIME_TYPE},.dcm`;
+
+export type AttachmentKind = "image" | "pdf" | "dicom" | "other";
+
+export const getAttachmentKind = (mimeType: string): AttachmentKind => {
+  if (mimeType.startsWith("image/")) return "image";
+  if (mimeType === "application/pdf") return "pdf";
+  if (mimeType === DICOM_MIME_TYPE) return "dicom";
+  return "other";
+};
+
+// Los navegadores no suelen reportar tipo para los .dcm
+const getMimeType = (file: File): string => {
+  if (file.type) return file.type;
+  if (file.name.toLowerCase().endsWith(".dcm")) return DICOM_MIME_TYPE;
+  return "application/octet-stream";
+};
+
+/**
+ * Sube los archivos uno por uno y devuelve sus referencias para el payload
+ * del registro. Con `key` cada archivo se cifra antes de salir del navegador.
+ */
+export const uploadAttachments = async (
+  files: File[],
+  key?: Uint8Array,
+  onProgress?: (uploaded: number, total: number) => void
+): Promise<Attachment[]> => {
+  const attachments: Attachment[] = [];
+  for (const file of files) {
+    const encrypted = key ? await encryptFile(file, key) : null;
+    const cid = await uploadFileToIPFS(encrypted ? encrypted.file : file);
+    attachments.push({
+      cid,
+      name: file.name,
+      mimeType: getMimeType(file),
+      size: file.size,
+      ...(encrypted && { iv: encrypted.iv }),
+    });
+    onProgress?.(attachments.length, files.length);
+  }
+  return attachments;
+};
+
+// Solo interesa el CID raíz: los bloques se descartan
+const discardBlocks = { put: async (cid: CID) => cid };
+
+/**
+ * Calcula el CID UnixFS de los bytes con los mismos parámetros que usa
+ * Pinata/Kubo para esa versión de CID (v0: hojas dag-pb, v1: raw leaves).
+ */
+export const computeCID = async (
+  bytes: Uint8Array,
+  version: 0 | 1
+): Promise<CID> => {
+  const { cid } = await importBytes(
+    bytes,
+    discardBlocks,
+    version === 0
+      ? { cidVersion: 0, rawLeaves: false, leafType: "file" }
+      : { cidVersion: 1, rawLeaves: true }
+  );
+  return cid;
+};
+
+// Contenido ya verificado, por CID
+const verified = new Map<string, Promise<Uint8Array>>();
+
+const fetchAndVerify = async (cid: string): Promise<Uint8Array> => {
+  const expected = CID.parse(cid);
+  const response = await fetch(resolveIPFS(`ipfs://${cid}`));
+  if (!response.ok) {
+    throw new Error(`Gateway: ${response.status}`);
+  }
+
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  const actual = await computeCID(bytes, expected.version === 0 ? 0 : 1);
+  if (!actual.equals(expected)) {
+    throw new Error(
+      `El contenido no coincide con el CID (${actual.toString()})`
+    );
+  }
+  return bytes;
+};
+
+/**
+ * Descarga un adjunto del gateway y verifica que su contenido corresponda
+ * al CID registrado. Falla si el gateway devuelve otra cosa. Los adjuntos
+ * cifrados se verifican tal cual se subieron y después se descifran con `key`.
+ */
+export const fetchVerifiedAttachment = async (
+  attachment: Attachment,
+  key?: Uint8Array
+): Promise<Blob> => {
+  let pending = verified.get(attachment.cid);
+  if (!pending) {
+    pending = fetchAndVerify(attachment.cid);
+    verified.set(attachment.cid, pending);
+    pending.catch(() => verified.delete(attachment.cid));
+  }
+
+  let bytes = await pending;
+  if (attachment.iv) {
+    if (!key) throw new Error("Adjunto cifrado: falta la clave");
+    bytes = await decryptBytes(bytes, key, attachment.iv);
+  }
+  return new Blob([bytes as BlobPart], { type: attachment.mimeType });
+};
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
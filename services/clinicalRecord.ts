@@ -0,0 +1,254 @@
+// services/clinicalRecord.ts
+import { RecordType } from "../types";
+import { isJsonObject } from "./json";
+import { resolveIPFS, uploadJSONToIPFS } from "./pinataService";
+import {
+  AnimalKeys,
+  decryptJSON,
+  encryptJSON,
+  isEncryptedEnvelope,
+} from "./recordEncryption";
+import {
+  DeathCertificate,
+  isDeathCertificate,
+  isValidDeathCertificate,
+  validateDeathCertificate,
+} from "./deathCertificate";
+
+// Identificador y versión del esquema. Si cambia la forma del JSON se sube la
+// versión y se agrega su validador, sin romper los registros ya publicados.
+// v2: agrega `attachments`.
+export const CLINICAL_RECORD_SCHEMA = "vetchain/clinical-record";
+export const CLINICAL_RECORD_VERSION = 2;
+const SUPPORTED_VERSIONS = [1, 2];
+
+export interface Medication {
+  name: string;
+  dose?: string;
+  frequency?: string;
+}
+
+// Archivo subido por separado a IPFS (imagen, PDF o DICOM)
+export interface Attachment {
+  cid: string;
+  name: string;
+  mimeType: string;
+  size: number; // Bytes
+  iv?: string; // Presente si el archivo se subió cifrado con la clave del registro
+}
+
+export interface ClinicalRecord {
+  schema: typeof CLINICAL_RECORD_SCHEMA;
+  version: 1 | 2;
+  tokenId: string;
+  recordType: RecordType;
+  createdAt: string; // ISO 8601
+  diagnosis?: string;
+  treatment?: string;
+  medications?: Medication[];
+  weightKg?: number;
+  temperatureC?: number;
+  vaccine?: { name: string; lot?: string };
+  notes?: string;
+  attachments?: Attachment[]; // Solo v2
+}
+
+// Lo que el veterinario completa en el formulario
+export type ClinicalRecordInput = Omit<
+  ClinicalRecord,
+  "schema" | "version" | "createdAt"
+>;
+
+// Resultado de interpretar el campo descriptionIpfs de un MedicalRecordAdded
+export type ResolvedRecord =
+  // `key`: clave de datos con la que se descifró (para los adjuntos)
+  | {
+      kind: "structured";
+      cid: string;
+      record: ClinicalRecord;
+      key?: Uint8Array;
+    }
+  | { kind: "legacy"; text: string } // Registros previos: texto plano on-chain
+  | { kind: "death"; cid: string; certificate: DeathCertificate } // reportDecease
+  | { kind: "restricted"; cid: string } // Cifrado y la wallet no tiene la clave
+  | { kind: "invalid"; cid: string; error: string };
+
+const isString = (v: unknown): v is string => typeof v === "string";
+const isOptionalString = (v: unknown) => v === undefined || isString(v);
+const isOptionalNumber = (v: unknown) =>
+  v === undefined || (typeof v === "number" && Number.isFinite(v));
+
+const isMedication = (m: unknown): m is Medication =>
+  isJsonObject(m) &&
+  isString(m.name) &&
+  isOptionalString(m.dose) &&
+  isOptionalString(m.frequency);
+
+const isAttachment = (a: unknown): a is Attachment =>
+  isJsonObject(a) &&
+  isString(a.cid) &&
+  isString(a.name) &&
+  isString(a.mimeType) &&
+  typeof a.size === "number" &&
+  isOptionalString(a.iv);
+
+/**
+ * Valida un JSON descargado de IPFS contra el esquema.
+ * Devuelve la lista de errores (vacía si es válido).
+ */
+export const validateClinicalRecord = (data: unknown): string[] => {
+  const errors: string[] = [];
+  if (!isJsonObject(data)) return ["No es un objeto JSON"];
+
+  if (data.schema !== CLINICAL_RECORD_SCHEMA) {
+    errors.push("schema desconocido");
+  }
+  const { version } = data;
+  if (typeof version !== "number" || !SUPPORTED_VERSIONS.includes(version)) {
+    errors.push(`versión no soportada: ${version}`);
+    return errors;
+  }
+  if (!isString(data.tokenId)) errors.push("tokenId inválido");
+  if (
+    typeof data.recordType !== "number" ||
+    RecordType[data.recordType] === undefined
+  ) {
+    errors.push("recordType inválido");
+  }
+  if (!isString(data.createdAt) || isNaN(Date.parse(data.createdAt))) {
+    errors.push("createdAt inválido");
+  }
+  for (const field of ["diagnosis", "treatment", "notes"]) {
+    if (!isOptionalString(data[field])) errors.push(`${field} inválido`);
+  }
+  for (const field of ["weightKg", "temperatureC"]) {
+    if (!isOptionalNumber(data[field])) errors.push(`${field} inválido`);
+  }
+  if (data.medications !== undefined) {
+    const valid =
+      Array.isArray(data.medications) && data.medications.every(isMedication);
+    if (!valid) errors.push("medications inválido");
+  }
+  if (
+    data.vaccine !== undefined &&
+    !(
+      isJsonObject(data.vaccine) &&
+      isString(data.vaccine.name) &&
+      isOptionalString(data.vaccine.lot)
+    )
+  ) {
+    errors.push("vaccine inválido");
+  }
+  if (data.attachments !== undefined) {
+    const valid =
+      version >= 2 &&
+      Array.isArray(data.attachments) &&
+      data.attachments.every(isAttachment);
+    if (!valid) errors.push("attachments inválido");
+  }
+  return errors;
+};
+
+export const isClinicalRecord = (data: unknown): data is ClinicalRecord =>
+  validateClinicalRecord(data).length === 0;
+
+/**
+ * Arma el registro, lo sube a IPFS y devuelve la URI `ipfs://CID`
+ * que se guarda on-chain en lugar del texto. Con `encryption` se sube
+ * cifrado con la clave de datos del animal.
+ */
+export const uploadClinicalRecord = async (
+  input: ClinicalRecordInput,
+  encryption?: { keyId: string; key: Uint8Array }
+): Promise<string> => {
+  const record: ClinicalRecord = {
+    schema: CLINICAL_RECORD_SCHEMA,
+    version: CLINICAL_RECORD_VERSION,
+    createdAt: new Date().toISOString(),
+    ...input,
+  };
+
+  const errors = validateClinicalRecord(record);
+  if (errors.length > 0) {
+    throw new Error(`Registro clínico inválido: ${errors.join(", ")}`);
+  }
+
+  const payload = encryption
+    ? await encryptJSON(record, encryption.keyId, encryption.key)
+    : record;
+  const cid = await uploadJSONToIPFS(payload);
+  return `ipfs://${cid}`;
+};
+
+// El contenido de un CID no cambia: se cachea por sesión
+const cache = new Map<string, Promise<unknown>>();
+
+// Devuelve el JSON sin validar: quien lo usa lo valida contra su esquema
+const fetchJSON = (cid: string): Promise<unknown> => {
+  let pending = cache.get(cid);
+  if (!pending) {
+    pending = fetch(resolveIPFS(`ipfs://${cid}`)).then((response) => {
+      if (!response.ok) throw new Error(`Gateway: ${response.status}`);
+      return response.json();
+    });
+    cache.set(cid, pending);
+    // Los fallos de red no se cachean para poder reintentar
+    pending.catch(() => cache.delete(cid));
+  }
+  return pending;
+};
+
+/**
+ * Interpreta la descripción on-chain de un registro: si es `ipfs://CID`
+ * descarga el JSON, lo descifra si hace falta (y si `keys` tiene la clave)
+ * y lo valida como registro clínico o certificado de defunción; si no, es
+ * un registro legacy en texto plano.
+ */
+export const resolveClinicalRecord = async (
+  description: string,
+  tokenId: string,
+  keys?: AnimalKeys | null
+): Promise<ResolvedRecord> => {
+  if (!description.startsWith("ipfs://")) {
+    return { kind: "legacy", text: description };
+  }
+
+  const cid = description.slice("ipfs://".length);
+  try {
+    let data = await fetchJSON(cid);
+    let key: Uint8Array | undefined;
+    if (isEncryptedEnvelope(data)) {
+      key = keys?.keys.get(data.keyId);
+      if (!key) return { kind: "restricted", cid };
+      data = await decryptJSON(data, key);
+    }
+
+    // Un registro de otro animal no se muestra como propio
+    const otherAnimal: ResolvedRecord = {
+      kind: "invalid",
+      cid,
+      error: "pertenece a otro animal",
+    };
+    if (isValidDeathCertificate(data)) {
+      return data.tokenId === tokenId
+        ? { kind: "death", cid, certificate: data }
+        : otherAnimal;
+    }
+    if (isClinicalRecord(data)) {
+      return data.tokenId === tokenId
+        ? { kind: "structured", cid, record: data, key }
+        : otherAnimal;
+    }
+    // El schema que declara decide contra qué se explican los errores
+    const errors = isDeathCertificate(data)
+      ? validateDeathCertificate(data)
+      : validateClinicalRecord(data);
+    return { kind: "invalid", cid, error: errors.join(", ") };
+  } catch (error) {
+    return {
+      kind: "invalid",
+      cid,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+};
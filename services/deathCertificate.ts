@@ -0,0 +1,90 @@
+// services/deathCertificate.ts
+import type { Attachment } from "./clinicalRecord";
+import { isJsonObject } from "./json";
+import { uploadJSONToIPFS } from "./pinataService";
+
+// Documento que se pasa a reportDecease. No se cifra: el fallecimiento es un
+// hecho público del registro (el token se quema a la vista de todos).
+export const DEATH_CERTIFICATE_SCHEMA = "vetchain/death-certificate";
+export const DEATH_CERTIFICATE_VERSION = 1;
+
+export interface DeathCertificate {
+  schema: typeof DEATH_CERTIFICATE_SCHEMA;
+  version: typeof DEATH_CERTIFICATE_VERSION;
+  tokenId: string;
+  dateOfDeath: string; // YYYY-MM-DD
+  cause: string;
+  place: string;
+  vet: string; // Address del veterinario que certifica
+  issuedAt: string; // ISO 8601
+  notes?: string;
+  attachments?: Attachment[]; // Certificado escaneado, estudios, etc.
+}
+
+export type DeathCertificateInput = Omit<
+  DeathCertificate,
+  "schema" | "version" | "issuedAt"
+>;
+
+// Solo mira el schema: decide contra qué validar el documento
+export const isDeathCertificate = (data: unknown): boolean =>
+  isJsonObject(data) && data.schema === DEATH_CERTIFICATE_SCHEMA;
+
+export const validateDeathCertificate = (data: unknown): string[] => {
+  const errors: string[] = [];
+  if (!isJsonObject(data) || data.schema !== DEATH_CERTIFICATE_SCHEMA) {
+    return ["schema desconocido"];
+  }
+  if (data.version !== DEATH_CERTIFICATE_VERSION) {
+    return [`versión no soportada: ${data.version}`];
+  }
+  for (const field of ["tokenId", "cause", "place", "vet"]) {
+    const value = data[field];
+    if (typeof value !== "string" || !value.trim()) {
+      errors.push(`${field} inválido`);
+    }
+  }
+  if (
+    typeof data.dateOfDeath !== "string" ||
+    !/^\d{4}-\d{2}-\d{2}$/.test(data.dateOfDeath)
+  ) {
+    errors.push("dateOfDeath inválido");
+  }
+  if (typeof data.issuedAt !== "string" || isNaN(Date.parse(data.issuedAt))) {
+    errors.push("issuedAt inválido");
+  }
+  if (data.notes !== undefined && typeof data.notes !== "string") {
+    errors.push("notes inválido");
+  }
+  if (data.attachments !== undefined && !Array.isArray(data.attachments)) {
+    errors.push("attachments inválido");
+  }
+  return errors;
+};
+
+export const isValidDeathCertificate = (
+  data: unknown
+): data is DeathCertificate => validateDeathCertificate(data).length === 0;
+
+/**
+ * Sube el certificado a IPFS y devuelve la URI `ipfs://CID` para
+ * `reportDecease`.
+ */
+export const uploadDeathCertificate = async (
+  input: DeathCertificateInput
+): Promise<string> => {
+  const certificate: DeathCertificate = {
+    schema: DEATH_CERTIFICATE_SCHEMA,
+    version: DEATH_CERTIFICATE_VERSION,
+    issuedAt: new Date().toISOString(),
+    ...input,
+  };
+
+  const errors = validateDeathCertificate(certificate);
+  if (errors.length > 0) {
+    throw new Error(`Certificado inválido: ${errors.join(", ")}`);
+  }
+
+  const cid = await uploadJSONToIPFS(certificate);
+  return `ipfs://${cid}`;
+};
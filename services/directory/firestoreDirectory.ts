@@ -0,0 +1,161 @@
+// services/directory/firestoreDirectory.ts
+import { getCloudFunctions, getDb } from "../../config/firebase";
+import {
+  doc,
+  getDoc,
+  collection,
+  query,
+  where,
+  getDocs,
+} from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
+import { getAddress, isAddress } from "ethers";
+import {
+  AnimalKeyState,
+  DirectoryProvider,
+  Identity,
+  LinkRequestResult,
+} from "./provider";
+
+// Documento de `users` a Identity. Las entradas de antes de las identidades
+// solo tienen walletAddress.
+const toIdentity = (email: string, data: Record<string, any>): Identity => ({
+  email,
+  primaryAddress: data.walletAddress,
+  wallets: (data.walletAddresses ?? [data.walletAddress]).map(
+    (address: string) => ({
+      address,
+      label: data.wallets?.[address]?.label ?? "",
+    })
+  ),
+});
+
+/*
+ * Firestore + Cloud Functions (functions/src/index.ts). Solo las functions
+ * escriben, y las reglas solo dejan leer entradas verificadas:
+ *   users/{email}                                -> Identity
+ *   encryptionKeys/{chainId}:{address}           -> { publicKey }
+ *   animalKeys/{chainId}:{tokenId}               -> { currentKeyId, holders }
+ *   animalKeys/{chainId}:{tokenId}/grants/{addr} -> { keys: KeyGrant }
+ */
+export const createFirestoreDirectory = (): DirectoryProvider => ({
+  requestLink: async (request) => {
+    const call = httpsCallable<unknown, LinkRequestResult>(
+      getCloudFunctions(),
+      "requestEmailLink"
+    );
+    return (await call(request)).data;
+  },
+
+  confirmLink: async (email, address, code) => {
+    const call = httpsCallable(getCloudFunctions(), "confirmEmailLink");
+    await call({ email, address, code });
+  },
+
+  updateIdentity: async (update) => {
+    const call = httpsCallable(getCloudFunctions(), "updateIdentity");
+    await call(update);
+  },
+
+  getIdentity: async (email) => {
+    try {
+      const userSnap = await getDoc(doc(getDb(), "users", email));
+      if (!userSnap.exists() || userSnap.data().verified !== true) return null;
+      return toIdentity(email, userSnap.data());
+    } catch (error) {
+      console.error("Error fetching identity:", error);
+      return null;
+    }
+  },
+
+  getAddressByEmail: async (email) => {
+    try {
+      const userSnap = await getDoc(doc(getDb(), "users", email));
+
+      // Entradas del esquema anterior (sin verificar) no se resuelven
+      if (userSnap.exists() && userSnap.data().verified === true) {
+        return userSnap.data().walletAddress;
+      } else {
+        return null;
+      }
+    } catch (error) {
+      console.error("Error fetching address by email:", error);
+      return null;
+    }
+  },
+
+  getEmailByAddress: async (address) => {
+    if (!isAddress(address)) return null;
+
+    try {
+      // Búsqueda inversa por cualquier wallet de la identidad. Las functions
+      // guardan las addresses con checksum, y el filtro por verified es
+      // obligatorio para que las reglas acepten la query
+      const users = collection(getDb(), "users");
+      const wallet = getAddress(address);
+      const verified = where("verified", "==", true);
+      let querySnapshot = await getDocs(
+        query(
+          users,
+          where("walletAddresses", "array-contains", wallet),
+          verified
+        )
+      );
+      // Entradas de antes de las identidades
+      if (querySnapshot.empty) {
+        querySnapshot = await getDocs(
+          query(users, where("walletAddress", "==", wallet), verified)
+        );
+      }
+
+      // Una wallet está en una sola identidad. El ID del documento es el email
+      return querySnapshot.empty ? null : querySnapshot.docs[0].id;
+    } catch (error) {
+      console.error("Error fetching email by address:", error);
+      return null;
+    }
+  },
+
+  publishPublicKey: async (request) => {
+    const call = httpsCallable(getCloudFunctions(), "publishEncryptionKey");
+    await call(request);
+  },
+
+  getPublicKey: async (chainId, address) => {
+    try {
+      const snap = await getDoc(
+        doc(getDb(), "encryptionKeys", `${chainId}:${address.toLowerCase()}`)
+      );
+      return snap.exists() ? snap.data().publicKey : null;
+    } catch (error) {
+      console.error("Error fetching public key:", error);
+      return null;
+    }
+  },
+
+  updateAnimalKeys: async (request) => {
+    const call = httpsCallable(getCloudFunctions(), "updateAnimalKeys");
+    await call(request);
+  },
+
+  getAnimalKeys: async (scope) => {
+    const snap = await getDoc(doc(getDb(), "animalKeys", scope));
+    if (!snap.exists()) return null;
+    const { currentKeyId = null, holders = [] } = snap.data();
+    return { currentKeyId, holders } as AnimalKeyState;
+  },
+
+  getGrantees: async (scope) => {
+    const snaps = await getDocs(
+      collection(getDb(), "animalKeys", scope, "grants")
+    );
+    return snaps.docs.map((snap) => snap.id);
+  },
+
+  getKeyGrant: async (scope, address) => {
+    const snap = await getDoc(
+      doc(getDb(), "animalKeys", scope, "grants", address.toLowerCase())
+    );
+    return snap.exists() ? snap.data().keys || {} : {};
+  },
+});
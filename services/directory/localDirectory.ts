@@ -0,0 +1,398 @@
+// services/directory/localDirectory.ts
+import { getAddress, isAddress, isHexString, verifyMessage } from "ethers";
+import {
+  AnimalKeyState,
+  DirectoryProvider,
+  Identity,
+  KeyChanges,
+  KeyGrant,
+  canUpdateIdentity,
+  identityMessage,
+  keyChangesMessage,
+  linkMessage,
+  publicKeyMessage,
+} from "./provider";
+
+// Directorio para desarrollo y tests, sin red: verifica la firma igual que las
+// functions, pero en vez de mandar un mail devuelve el código (devCode).
+// Con "indexeddb" las entradas verificadas y las claves de cifrado sobreviven
+// a recargar la página.
+
+const CODE_TTL_MS = 15 * 60 * 1000;
+const MAX_CODE_ATTEMPTS = 5;
+const SIGNATURE_MAX_AGE_MS = 10 * 60 * 1000;
+
+const DB_NAME = "vetchain-directory";
+const DB_VERSION = 2;
+const STORE = "users"; // email -> Identity (antes, email -> address)
+const PUBLIC_KEYS_STORE = "encryptionKeys"; // {chainId}:{address} -> clave
+const ANIMAL_KEYS_STORE = "animalKeys"; // {chainId}:{tokenId} -> AnimalKeyRecord
+
+// Dueño actual de un animal ({chainId}:{tokenId}); null si no existe
+export type AnimalOwnerLookup = (scope: string) => Promise<string | null>;
+
+interface AnimalKeyRecord extends AnimalKeyState {
+  grants: Record<string, KeyGrant>; // address en minúsculas -> claves
+}
+
+interface PendingCode {
+  label: string;
+  code: string;
+  expiresAt: number;
+  attempts: number;
+}
+
+const idbRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openStore = async (mode: IDBTransactionMode, store = STORE) => {
+  const open = indexedDB.open(DB_NAME, DB_VERSION);
+  open.onupgradeneeded = () => {
+    for (const name of [STORE, PUBLIC_KEYS_STORE, ANIMAL_KEYS_STORE]) {
+      if (!open.result.objectStoreNames.contains(name)) {
+        open.result.createObjectStore(name);
+      }
+    }
+  };
+  const db = await idbRequest(open);
+  return db.transaction(store, mode).objectStore(store);
+};
+
+const checkSignature = (
+  message: string,
+  address: string,
+  issuedAt: string,
+  signature: string
+) => {
+  const age = Date.now() - Date.parse(issuedAt);
+  if (isNaN(age) || age > SIGNATURE_MAX_AGE_MS) {
+    throw new Error("La firma venció");
+  }
+  if (verifyMessage(message, signature) !== getAddress(address)) {
+    throw new Error("La firma no es de esta wallet");
+  }
+};
+
+// Misma regla que las functions: si se va la principal, asciende la siguiente
+const withoutWallet = (identity: Identity, address: string): Identity => {
+  const wallets = identity.wallets.filter((w) => w.address !== address);
+  return {
+    ...identity,
+    wallets,
+    primaryAddress:
+      identity.primaryAddress === address
+        ? (wallets[0]?.address ?? "")
+        : identity.primaryAddress,
+  };
+};
+
+// Mismas reglas que canChangeKeys y keyHolders en functions/src/animalKeys.ts:
+// el dueño puede todo y cualquier otra wallet solo borrar su propio grant
+const canChangeKeys = (
+  changes: KeyChanges,
+  signer: string,
+  owner: string | null
+): boolean => {
+  if (owner && getAddress(owner) === signer) return true;
+  return (
+    !changes.currentKeyId &&
+    Object.keys(changes.grants ?? {}).length === 0 &&
+    (changes.revoke ?? []).every((address) => getAddress(address) === signer)
+  );
+};
+
+// Quien recibe la clave vigente sigue en holders hasta la próxima rotación
+const applyKeyChanges = (
+  record: AnimalKeyRecord,
+  changes: KeyChanges
+): AnimalKeyRecord => {
+  const currentKeyId = changes.currentKeyId ?? record.currentKeyId;
+  const grants = { ...record.grants };
+  const added: string[] = [];
+  for (const [address, grant] of Object.entries(changes.grants ?? {})) {
+    const grantee = address.toLowerCase();
+    grants[grantee] = { ...grants[grantee], ...grant };
+    if (currentKeyId && currentKeyId in grant) added.push(grantee);
+  }
+  for (const address of changes.revoke ?? []) {
+    delete grants[address.toLowerCase()];
+  }
+  const holders = [...(changes.currentKeyId ? [] : record.holders), ...added];
+  return {
+    currentKeyId,
+    holders: holders.filter((address, i) => holders.indexOf(address) === i),
+    grants,
+  };
+};
+
+const pendingKey = (email: string, address: string) =>
+  `${address.toLowerCase()}:${email}`;
+
+const generateCode = (): string =>
+  (crypto.getRandomValues(new Uint32Array(1))[0] % 1_000_000)
+    .toString()
+    .padStart(6, "0");
+
+// Sin `ownerOf` solo se aceptan los cambios que puede hacer cualquier wallet
+// sobre su propio grant: nadie se reconoce como dueño.
+export const createLocalDirectory = (
+  persistence: "memory" | "indexeddb" = "memory",
+  ownerOf: AnimalOwnerLookup = async () => null
+): DirectoryProvider => {
+  const pending = new Map<string, PendingCode>();
+  let entries: Map<string, Identity> | null = null;
+  const publicKeys = new Map<string, string>();
+  const animalKeys = new Map<string, AnimalKeyRecord>();
+
+  // Las claves se leen de a una: en IndexedDB directo, sin cache
+  const readKey = async <T>(
+    memory: Map<string, T>,
+    store: string,
+    key: string
+  ): Promise<T | undefined> => {
+    if (persistence !== "indexeddb") return memory.get(key);
+    return idbRequest((await openStore("readonly", store)).get(key));
+  };
+
+  const writeKey = async <T>(
+    memory: Map<string, T>,
+    store: string,
+    key: string,
+    value: T
+  ) => {
+    if (persistence !== "indexeddb") {
+      memory.set(key, value);
+      return;
+    }
+    await idbRequest((await openStore("readwrite", store)).put(value, key));
+  };
+
+  const readAnimalKeys = (scope: string) =>
+    readKey(animalKeys, ANIMAL_KEYS_STORE, scope);
+
+  const loadEntries = async (): Promise<Map<string, Identity>> => {
+    if (entries) return entries;
+    entries = new Map();
+    if (persistence === "indexeddb") {
+      const store = await openStore("readonly");
+      const [keys, values] = await Promise.all([
+        idbRequest(store.getAllKeys()),
+        idbRequest(store.getAll()),
+      ]);
+      keys.forEach((key, i) => {
+        const email = String(key);
+        const value = values[i];
+        // Entradas de antes de las identidades: solo la address
+        entries!.set(
+          email,
+          typeof value === "string"
+            ? {
+                email,
+                primaryAddress: value,
+                wallets: [{ address: value, label: "" }],
+              }
+            : value
+        );
+      });
+    }
+    return entries;
+  };
+
+  // Sin wallets, la identidad se borra
+  const saveEntry = async (identity: Identity) => {
+    const { email } = identity;
+    const empty = identity.wallets.length === 0;
+    const all = await loadEntries();
+    if (empty) all.delete(email);
+    else all.set(email, identity);
+    if (persistence === "indexeddb") {
+      const store = await openStore("readwrite");
+      await idbRequest(
+        empty ? store.delete(email) : store.put(identity, email)
+      );
+    }
+  };
+
+  const findByAddress = async (address: string) => {
+    for (const identity of (await loadEntries()).values()) {
+      if (identity.wallets.some((w) => w.address === address)) return identity;
+    }
+    return null;
+  };
+
+  return {
+    requestLink: async ({ email, address, issuedAt, signature, label }) => {
+      checkSignature(
+        linkMessage(email, address, issuedAt),
+        address,
+        issuedAt,
+        signature
+      );
+
+      // Un código por email y wallet, como en las functions
+      const code = generateCode();
+      const expiresAt = Date.now() + CODE_TTL_MS;
+      pending.set(pendingKey(email, address), {
+        label: label.trim(),
+        code,
+        expiresAt,
+        attempts: 0,
+      });
+      console.info(`[directorio local] Código para ${email}: ${code}`);
+      return { expiresAt, devCode: code };
+    },
+
+    confirmLink: async (email, address, code) => {
+      const key = pendingKey(email, address);
+      const entry = pending.get(key);
+      if (!entry) {
+        throw new Error(
+          "No hay un código pendiente para este email desde esta wallet"
+        );
+      }
+      if (entry.expiresAt < Date.now() || entry.attempts >= MAX_CODE_ATTEMPTS) {
+        pending.delete(key);
+        throw new Error("El código venció o se agotaron los intentos");
+      }
+      if (entry.code !== code) {
+        entry.attempts++;
+        throw new Error("Código incorrecto");
+      }
+      pending.delete(key);
+
+      // Una wallet pertenece a una sola identidad: sale de la anterior
+      const previous = await findByAddress(address);
+      if (previous && previous.email !== email) {
+        await saveEntry(withoutWallet(previous, address));
+      }
+      const current = (await loadEntries()).get(email);
+      const wallets = (current?.wallets ?? []).filter(
+        (w) => w.address !== address
+      );
+      await saveEntry({
+        email,
+        primaryAddress: current?.primaryAddress ?? address,
+        wallets: [...wallets, { address, label: entry.label }],
+      });
+    },
+
+    updateIdentity: async (update) => {
+      const { email, signer, action, target, label, issuedAt, signature } =
+        update;
+      checkSignature(
+        identityMessage(email, action, target, label, issuedAt),
+        signer,
+        issuedAt,
+        signature
+      );
+      const identity = (await loadEntries()).get(email);
+      if (!identity) throw new Error("Este email no tiene wallets vinculadas");
+      if (!identity.wallets.some((w) => w.address === signer)) {
+        throw new Error("Firma con una wallet de esta identidad");
+      }
+      if (!identity.wallets.some((w) => w.address === target)) {
+        throw new Error("La wallet no está vinculada a este email");
+      }
+      if (!canUpdateIdentity(identity, signer, action, target)) {
+        throw new Error("Solo la wallet principal puede administrar las demás");
+      }
+
+      switch (action) {
+        case "set-primary":
+          return saveEntry({ ...identity, primaryAddress: target });
+        case "remove":
+          return saveEntry(withoutWallet(identity, target));
+        case "label":
+          return saveEntry({
+            ...identity,
+            wallets: identity.wallets.map((w) =>
+              w.address === target ? { ...w, label: label.trim() } : w
+            ),
+          });
+      }
+    },
+
+    getIdentity: async (email) => (await loadEntries()).get(email) || null,
+
+    getAddressByEmail: async (email) =>
+      (await loadEntries()).get(email)?.primaryAddress || null,
+
+    getEmailByAddress: async (address) => {
+      if (!isAddress(address)) return null;
+      return (await findByAddress(getAddress(address)))?.email ?? null;
+    },
+
+    publishPublicKey: async (request) => {
+      const { chainId, address, publicKey, issuedAt, signature } = request;
+      if (!isHexString(publicKey, 33)) {
+        throw new Error("Clave pública inválida");
+      }
+      checkSignature(
+        publicKeyMessage(chainId, address, publicKey, issuedAt),
+        address,
+        issuedAt,
+        signature
+      );
+      await writeKey(
+        publicKeys,
+        PUBLIC_KEYS_STORE,
+        `${chainId}:${address.toLowerCase()}`,
+        publicKey
+      );
+    },
+
+    getPublicKey: async (chainId, address) =>
+      (await readKey(
+        publicKeys,
+        PUBLIC_KEYS_STORE,
+        `${chainId}:${address.toLowerCase()}`
+      )) ?? null,
+
+    updateAnimalKeys: async ({
+      scope,
+      signer,
+      changes,
+      issuedAt,
+      signature,
+    }) => {
+      checkSignature(
+        keyChangesMessage(scope, changes, issuedAt),
+        signer,
+        issuedAt,
+        signature
+      );
+      // Lo arma services/keyDirectory.ts: alcanza con que sea JSON
+      const parsed: KeyChanges = JSON.parse(changes);
+      if (!canChangeKeys(parsed, signer, await ownerOf(scope))) {
+        throw new Error("Solo el dueño del animal puede cambiar sus claves");
+      }
+      const record = (await readAnimalKeys(scope)) ?? {
+        currentKeyId: null,
+        holders: [],
+        grants: {},
+      };
+      await writeKey(
+        animalKeys,
+        ANIMAL_KEYS_STORE,
+        scope,
+        applyKeyChanges(record, parsed)
+      );
+    },
+
+    getAnimalKeys: async (scope) => {
+      const record = await readAnimalKeys(scope);
+      return record
+        ? { currentKeyId: record.currentKeyId, holders: record.holders }
+        : null;
+    },
+
+    getGrantees: async (scope) =>
+      Object.keys((await readAnimalKeys(scope))?.grants ?? {}),
+
+    getKeyGrant: async (scope, address) =>
+      (await readAnimalKeys(scope))?.grants[address.toLowerCase()] ?? {},
+  };
+};
@@ -0,0 +1,183 @@
+// services/directory/provider.ts
+import { keccak256, toUtf8Bytes } from "ethers";
+
+// Backend del directorio email <-> wallets. Todas las implementaciones exigen
+// las mismas dos pruebas para vincular cada wallet: la firma EIP-191 de la
+// wallet sobre linkMessage y un código de un solo uso enviado al email. La
+// identidad la administra su wallet principal firmando identityMessage
+// (canUpdateIdentity).
+//
+// El mismo backend guarda las claves de cifrado de los registros
+// (services/keyDirectory.ts): una clave pública la publica su wallet
+// (publicKeyMessage) y las claves de un animal las cambia su dueño
+// (keyChangesMessage). Solo viajan claves públicas y claves envueltas.
+export interface DirectoryProvider {
+  requestLink: (request: LinkRequest) => Promise<LinkRequestResult>;
+  // Suma la wallet a la identidad del email (y la saca de otra, si tenía)
+  confirmLink: (email: string, address: string, code: string) => Promise<void>;
+  updateIdentity: (update: IdentityUpdate) => Promise<void>;
+  // Solo devuelven entradas verificadas
+  getIdentity: (email: string) => Promise<Identity | null>;
+  getAddressByEmail: (email: string) => Promise<string | null>; // La principal
+  getEmailByAddress: (address: string) => Promise<string | null>; // Cualquiera
+
+  publishPublicKey: (request: PublicKeyRequest) => Promise<void>;
+  getPublicKey: (chainId: string, address: string) => Promise<string | null>;
+  updateAnimalKeys: (request: KeyChangesRequest) => Promise<void>;
+  // null si nadie compartió todavía claves de ese animal
+  getAnimalKeys: (scope: string) => Promise<AnimalKeyState | null>;
+  getGrantees: (scope: string) => Promise<string[]>; // En minúsculas
+  getKeyGrant: (scope: string, address: string) => Promise<KeyGrant>;
+}
+
+export interface LinkRequest {
+  email: string; // Normalizado
+  address: string; // Con checksum
+  issuedAt: string; // ISO 8601, el que firmó la wallet
+  signature: string;
+  label: string; // Nombre de la wallet dentro de la identidad
+}
+
+export interface LinkRequestResult {
+  expiresAt: number; // Unix ms en que vence el código
+  // Solo el directorio local: no hay mail, así que devuelve el código
+  devCode?: string;
+}
+
+export type IdentityAction = "set-primary" | "remove" | "label";
+
+export interface IdentityUpdate {
+  email: string; // Normalizado
+  signer: string; // Una wallet de la identidad, con checksum
+  action: IdentityAction;
+  target: string; // Con checksum
+  label: string; // Solo cuenta con "label"
+  issuedAt: string;
+  signature: string;
+}
+
+export interface LinkedWallet {
+  address: string;
+  label: string;
+}
+
+export interface Identity {
+  email: string;
+  primaryAddress: string;
+  wallets: LinkedWallet[]; // En el orden en que se vincularon
+}
+
+// Clave de datos cifrada para un destinatario (ECIES sobre secp256k1)
+export interface WrappedKey {
+  ephemeralPublicKey: string;
+  iv: string;
+  ciphertext: string;
+}
+
+// Claves de datos de un animal que puede abrir un destinatario, por keyId
+export type KeyGrant = Record<string, WrappedKey>;
+
+// Cambios en las claves de un animal, firmados por su dueño
+export interface KeyChanges {
+  currentKeyId?: string; // Rotación: la nueva clave vigente
+  grants?: Record<string, KeyGrant>; // address -> claves que se le suman
+  revoke?: string[]; // Grants que se borran
+}
+
+export interface PublicKeyRequest {
+  chainId: string; // Hex, como en el scope: la clave se deriva por red
+  address: string; // Con checksum
+  publicKey: string; // secp256k1 comprimida
+  issuedAt: string;
+  signature: string;
+}
+
+export interface KeyChangesRequest {
+  scope: string; // {chainId}:{tokenId}
+  signer: string; // Con checksum
+  changes: string; // KeyChanges en JSON, tal cual se firmó
+  issuedAt: string;
+  signature: string;
+}
+
+export interface AnimalKeyState {
+  currentKeyId: string | null;
+  // Wallets que recibieron la clave vigente (en minúsculas). Siguen acá
+  // aunque se borre su grant, hasta que el dueño rota la clave.
+  holders: string[];
+}
+
+export const MAX_LABEL_LENGTH = 40;
+
+// Misma regla que canUpdateIdentity en functions/src/identity.ts: la
+// principal administra todo y las demás solo pueden renombrarse o quitarse a
+// sí mismas. Addresses con checksum.
+export const canUpdateIdentity = (
+  identity: Identity,
+  signer: string,
+  action: IdentityAction,
+  target: string
+): boolean =>
+  signer === identity.primaryAddress ||
+  (target === signer && action !== "set-primary");
+
+export const normalizeEmail = (email: string): string =>
+  email.toLowerCase().trim();
+
+// Debe coincidir byte a byte con linkMessage en functions/src/emailLink.ts
+export const linkMessage = (
+  email: string,
+  address: string,
+  issuedAt: string
+): string =>
+  [
+    "VetChain: vincular este email a mi wallet",
+    `Email: ${email}`,
+    `Wallet: ${address}`,
+    `Emitido: ${issuedAt}`,
+  ].join("\n");
+
+// Debe coincidir byte a byte con identityMessage en functions/src/identity.ts
+export const identityMessage = (
+  email: string,
+  action: IdentityAction,
+  target: string,
+  label: string,
+  issuedAt: string
+): string =>
+  [
+    "VetChain: administrar las wallets de este email",
+    `Email: ${email}`,
+    `Acción: ${action}`,
+    `Wallet: ${target}`,
+    `Etiqueta: ${label}`,
+    `Emitido: ${issuedAt}`,
+  ].join("\n");
+
+// Debe coincidir byte a byte con publicKeyMessage en functions/src/animalKeys.ts
+export const publicKeyMessage = (
+  chainId: string,
+  address: string,
+  publicKey: string,
+  issuedAt: string
+): string =>
+  [
+    "VetChain: publicar mi clave de cifrado",
+    `Red: ${chainId}`,
+    `Wallet: ${address}`,
+    `Clave: ${publicKey}`,
+    `Emitido: ${issuedAt}`,
+  ].join("\n");
+
+// Debe coincidir byte a byte con keyChangesMessage en functions/src/animalKeys.ts
+export const keyChangesMessage = (
+  scope: string,
+  changes: string,
+  issuedAt: string
+): string =>
+  [
+    "VetChain: actualizar las claves de un animal",
+    `Animal: ${scope}`,
+    `Cambios: ${keccak256(toUtf8Bytes(changes))}`,
+    `Emitido: ${issuedAt}`,
+  ].join("\n");
@@ -0,0 +1,123 @@
+// services/directory/restDirectory.ts
+import {
+  AnimalKeyState,
+  DirectoryProvider,
+  Identity,
+  KeyGrant,
+  LinkRequestResult,
+} from "./provider";
+
+/*
+ * Servicio propio que implementa el mismo flujo que las Cloud Functions:
+ *   POST {base}/links          { email, address, issuedAt, signature, label } -> { expiresAt }
+ *   POST {base}/links/confirm  { email, address, code }                       -> 204
+ *   POST {base}/identities/update  IdentityUpdate                             -> 204
+ *   GET  {base}/identities/{email}         -> Identity  | 404
+ *   GET  {base}/users/by-email/{email}     -> { address } | 404 (la principal)
+ *   GET  {base}/users/by-address/{address} -> { email }   | 404 (cualquier wallet)
+ * Y las claves de cifrado, con las mismas reglas que functions/src/animalKeys.ts:
+ *   POST {base}/keys/public                 PublicKeyRequest  -> 204
+ *   GET  {base}/keys/public/{chainId}/{address} -> { publicKey } | 404
+ *   POST {base}/keys/animals                KeyChangesRequest -> 204
+ *   GET  {base}/keys/animals/{scope}        -> AnimalKeyState | 404
+ *   GET  {base}/keys/animals/{scope}/grants -> { grantees: string[] }
+ *   GET  {base}/keys/animals/{scope}/grants/{address} -> { keys: KeyGrant } | 404
+ * Los errores responden { error: "mensaje" }.
+ */
+export const createRestDirectory = (baseUrl: string): DirectoryProvider => {
+  const base = baseUrl.replace(/\/+$/, "");
+
+  const send = async (path: string, body: unknown): Promise<Response> => {
+    const response = await fetch(`${base}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      const { error } = await response.json().catch(() => ({}));
+      throw new Error(error || `El directorio respondió ${response.status}`);
+    }
+    return response;
+  };
+
+  // null si no existe (404). Si el servicio falla, tira
+  const find = async <T>(path: string): Promise<T | null> => {
+    const response = await fetch(`${base}${path}`);
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`El directorio respondió ${response.status}`);
+    }
+    return response.json();
+  };
+
+  // null si no existe (404) o si el servicio no responde
+  const lookup = async <T>(path: string): Promise<T | null> => {
+    try {
+      return await find<T>(path);
+    } catch (error) {
+      console.error(`Error querying directory ${path}:`, error);
+      return null;
+    }
+  };
+
+  return {
+    requestLink: async (request) =>
+      (await (await send("/links", request)).json()) as LinkRequestResult,
+
+    confirmLink: async (email, address, code) => {
+      await send("/links/confirm", { email, address, code });
+    },
+
+    updateIdentity: async (update) => {
+      await send("/identities/update", update);
+    },
+
+    getIdentity: (email) =>
+      lookup<Identity>(`/identities/${encodeURIComponent(email)}`),
+
+    getAddressByEmail: async (email) =>
+      (
+        await lookup<{ address: string }>(
+          `/users/by-email/${encodeURIComponent(email)}`
+        )
+      )?.address ?? null,
+
+    getEmailByAddress: async (address) =>
+      (await lookup<{ email: string }>(`/users/by-address/${address}`))
+        ?.email ?? null,
+
+    publishPublicKey: async (request) => {
+      await send("/keys/public", request);
+    },
+
+    getPublicKey: async (chainId, address) =>
+      (
+        await lookup<{ publicKey: string }>(
+          `/keys/public/${chainId}/${address.toLowerCase()}`
+        )
+      )?.publicKey ?? null,
+
+    updateAnimalKeys: async (request) => {
+      await send("/keys/animals", request);
+    },
+
+    // Las claves de un animal no se dan por vacías si el servicio falla: el
+    // dueño rotaría la clave sin necesidad
+    getAnimalKeys: (scope) =>
+      find<AnimalKeyState>(`/keys/animals/${encodeURIComponent(scope)}`),
+
+    getGrantees: async (scope) =>
+      (
+        await find<{ grantees: string[] }>(
+          `/keys/animals/${encodeURIComponent(scope)}/grants`
+        )
+      )?.grantees ?? [],
+
+    getKeyGrant: async (scope, address) =>
+      (
+        await find<{ keys: KeyGrant }>(
+          `/keys/animals/${encodeURIComponent(scope)}/grants/${address.toLowerCase()}`
+        )
+      )?.keys ?? {},
+  };
+};
@@ -1,76 +1,168 @@
-import { db } from "../config/firebase";
+import { getAddress, isCallException } from "ethers";
+import { isFirebaseConfigured } from "../config/firebase";
 import {
-  doc,
-  getDoc,
-  setDoc,
-  serverTimestamp,
-  collection,
-  query,
-  where,
-  getDocs,
-} from "firebase/firestore";
+  DirectoryProvider,
+  Identity,
+  IdentityAction,
+  LinkRequestResult,
+  MAX_LABEL_LENGTH,
+  identityMessage,
+  linkMessage,
+  normalizeEmail,
+} from "./directory/provider";
+import { createFirestoreDirectory } from "./directory/firestoreDirectory";
+import { createLocalDirectory } from "./directory/localDirectory";
+import { createRestDirectory } from "./directory/restDirectory";
+import { createPublicClient } from "./publicClient";
 
-export const linkEmailToAddress = async (
-  email: string,
-  address: string
-): Promise<void> => {
-  if (!email || !address) throw new Error("Email y Address son requeridos");
+// Safely access environment variables
+const env = (import.meta as any).env || {};
+
+/*
+ * VITE_DIRECTORY_BACKEND elige el backend:
+ *   firestore  Firestore + Cloud Functions (requiere VITE_FIREBASE_*)
+ *   rest       servicio propio en VITE_DIRECTORY_URL
+ *   indexeddb  local, persiste en el navegador
+ *   memory     local, se pierde al recargar
+ * Sin configurar: firestore si hay credenciales, si no indexeddb (sin red).
+ * El backend guarda también las claves de cifrado (services/keyDirectory.ts).
+ */
 
+// El directorio local consulta el dueño del animal directo al RPC de su red,
+// como las functions con ownerOf
+const getAnimalOwner = async (scope: string): Promise<string | null> => {
+  const [chainId, tokenId] = scope.split(":");
+  const client = createPublicClient(chainId);
+  if (!client) return null;
   try {
-    // Usamos el email como ID del documento para asegurar unicidad y búsqueda O(1)
-    const userRef = doc(db, "users", email.toLowerCase().trim());
-    await setDoc(
-      userRef,
-      {
-        walletAddress: address,
-        updatedAt: serverTimestamp(),
-      },
-      { merge: true }
-    ); // Merge para no borrar otros campos si existieran en el futuro
+    return await client.getOwner(tokenId);
   } catch (error) {
-    console.error("Error linking email:", error);
+    // No existe o falleció (el token se quema)
+    if (isCallException(error)) return null;
     throw error;
   }
 };
 
+const createDirectory = (): DirectoryProvider => {
+  const backend =
+    env.VITE_DIRECTORY_BACKEND ||
+    (isFirebaseConfigured ? "firestore" : "indexeddb");
+  switch (backend) {
+    case "firestore":
+      return createFirestoreDirectory();
+    case "rest":
+      if (!env.VITE_DIRECTORY_URL) {
+        throw new Error("VITE_DIRECTORY_URL es requerido con el backend rest");
+      }
+      return createRestDirectory(env.VITE_DIRECTORY_URL);
+    case "indexeddb":
+    case "memory":
+      return createLocalDirectory(backend, getAnimalOwner);
+    default:
+      throw new Error(`Backend de directorio desconocido: ${backend}`);
+  }
+};
+
+export const directory = createDirectory();
+
+const checkLabel = (label: string) => {
+  if (label.trim().length > MAX_LABEL_LENGTH) {
+    throw new Error(`La etiqueta admite hasta ${MAX_LABEL_LENGTH} caracteres`);
+  }
+};
+
+/**
+ * Paso 1: la wallet firma (EIP-191) el email y su address, y el backend manda
+ * un código de un solo uso a ese email. `label` nombra la wallet dentro de la
+ * identidad ("Clínica", "Ledger"...).
+ */
+export const requestEmailLink = async (
+  email: string,
+  address: string,
+  signMessage: (message: string) => Promise<string>,
+  label: string = ""
+): Promise<LinkRequestResult> => {
+  if (!email || !address) throw new Error("Email y Address son requeridos");
+  checkLabel(label);
+
+  const normalized = normalizeEmail(email);
+  const wallet = getAddress(address);
+  const issuedAt = new Date().toISOString();
+  const signature = await signMessage(
+    linkMessage(normalized, wallet, issuedAt)
+  );
+  return directory.requestLink({
+    email: normalized,
+    address: wallet,
+    issuedAt,
+    signature,
+    label: label.trim(),
+  });
+};
+
+/**
+ * Paso 2: con el código del email la wallet se suma a la identidad y empieza
+ * a resolverse. Si estaba vinculada a otro email, sale de esa identidad.
+ */
+export const confirmEmailLink = (
+  email: string,
+  address: string,
+  code: string
+): Promise<void> =>
+  directory.confirmLink(
+    normalizeEmail(email),
+    getAddress(address),
+    code.trim()
+  );
+
+/**
+ * Cambia la wallet principal, renombra o quita una wallet de la identidad.
+ * Firma `signer`: la principal, o la misma wallet para renombrarse o quitarse
+ * (canUpdateIdentity).
+ */
+export const updateIdentity = async (
+  email: string,
+  signer: string,
+  action: IdentityAction,
+  target: string,
+  signMessage: (message: string) => Promise<string>,
+  label: string = ""
+): Promise<void> => {
+  checkLabel(label);
+  const normalized = normalizeEmail(email);
+  const wallet = getAddress(target);
+  const issuedAt = new Date().toISOString();
+  const signature = await signMessage(
+    identityMessage(normalized, action, wallet, label, issuedAt)
+  );
+  return directory.updateIdentity({
+    email: normalized,
+    signer: getAddress(signer),
+    action,
+    target: wallet,
+    label,
+    issuedAt,
+    signature,
+  });
+};
+
+export const getIdentity = async (email: string): Promise<Identity | null> => {
+  if (!email) return null;
+  return directory.getIdentity(normalizeEmail(email));
+};
+
+// Devuelve la wallet principal de la identidad
 export const getAddressByEmail = async (
   email: string
 ): Promise<string | null> => {
   if (!email) return null;
-
-  try {
-    const userRef = doc(db, "users", email.toLowerCase().trim());
-    const userSnap = await getDoc(userRef);
-
-    if (userSnap.exists()) {
-      return userSnap.data().walletAddress;
-    } else {
-      return null;
-    }
-  } catch (error) {
-    console.error("Error fetching address by email:", error);
-    return null;
-  }
+  return directory.getAddressByEmail(normalizeEmail(email));
 };
 
+// Funciona con cualquier wallet de la identidad
 export const getEmailByAddress = async (
   address: string
 ): Promise<string | null> => {
   if (!address) return null;
-
-  try {
-    // Búsqueda inversa: Buscar en la colección donde walletAddress == address
-    const usersRef = collection(db, "users");
-    const q = query(usersRef, where("walletAddress", "==", address));
-    const querySnapshot = await getDocs(q);
-
-    if (!querySnapshot.empty) {
-      // Retornamos el ID del documento, que es el email
-      return querySnapshot.docs[0].id;
-    }
-    return null;
-  } catch (error) {
-    console.error("Error fetching email by address:", error);
-    return null;
-  }
+  return directory.getEmailByAddress(address);
 };
@@ -0,0 +1,308 @@
+// services/eventIndex.ts
+import { Contract, EventLog, Log, Provider, Result } from "ethers";
+import { LOCALHOST_CHAIN_ID } from "../config/networks";
+
+// Índice local de eventos: sincroniza los logs de cada contrato por rangos de
+// bloques, los persiste en IndexedDB (por chainId + address) y retoma desde el
+// último bloque sincronizado en lugar de escanear desde génesis en cada vista.
+// Si la cadena se reinicia o el bloque del cursor deja de ser canónico, el
+// índice de ese contrato se descarta y se reconstruye.
+
+const DB_NAME = "vetchain-events";
+const DB_VERSION = 1;
+const LOGS_STORE = "logs";
+const CURSORS_STORE = "cursors";
+
+// Tamaño máximo del rango de getLogs. Se reduce a la mitad si el RPC rechaza
+// el rango (límite de bloques o de resultados) y se duplica de nuevo tras cada
+// rango aceptado, para que un tramo denso no frene el resto del escaneo.
+const INITIAL_CHUNK_SIZE = 5000;
+const MIN_CHUNK_SIZE = 10;
+
+interface StoredLog {
+  key: string; // `${chainId}:${address}`
+  blockNumber: number;
+  logIndex: number;
+  blockHash: string;
+  transactionHash: string;
+  topics: string[];
+  data: string;
+}
+
+interface SyncCursor {
+  key: string;
+  startBlock: number;
+  lastBlock: number;
+  lastBlockHash: string;
+}
+
+export interface IndexedEvent {
+  name: string;
+  args: Result;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+// --- IndexedDB helpers ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(LOGS_STORE)) {
+          db.createObjectStore(LOGS_STORE, {
+            keyPath: ["key", "blockNumber", "logIndex"],
+          });
+        }
+        if (!db.objectStoreNames.contains(CURSORS_STORE)) {
+          db.createObjectStore(CURSORS_STORE, { keyPath: "key" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const logsRange = (key: string, fromBlock = 0): IDBKeyRange =>
+  IDBKeyRange.bound([key, fromBlock, 0], [key, Infinity, Infinity]);
+
+const readCursor = async (
+  db: IDBDatabase,
+  key: string
+): Promise<SyncCursor | undefined> => {
+  const tx = db.transaction(CURSORS_STORE, "readonly");
+  return promisify(tx.objectStore(CURSORS_STORE).get(key));
+};
+
+const writeCursor = async (db: IDBDatabase, cursor: SyncCursor) => {
+  const tx = db.transaction(CURSORS_STORE, "readwrite");
+  tx.objectStore(CURSORS_STORE).put(cursor);
+  await transactionDone(tx);
+};
+
+// Guarda los logs de un rango y avanza el cursor en la misma transacción,
+// así una sincronización interrumpida nunca deja el cursor por delante de los datos.
+const writeChunk = async (
+  db: IDBDatabase,
+  logs: StoredLog[],
+  cursor: SyncCursor
+) => {
+  const tx = db.transaction([LOGS_STORE, CURSORS_STORE], "readwrite");
+  const logsStore = tx.objectStore(LOGS_STORE);
+  logs.forEach((log) => logsStore.put(log));
+  tx.objectStore(CURSORS_STORE).put(cursor);
+  await transactionDone(tx);
+};
+
+// Borra los logs y el cursor de un contrato en una sola transacción
+const clearIndex = async (db: IDBDatabase, key: string) => {
+  const tx = db.transaction([LOGS_STORE, CURSORS_STORE], "readwrite");
+  tx.objectStore(LOGS_STORE).delete(logsRange(key));
+  tx.objectStore(CURSORS_STORE).delete(key);
+  await transactionDone(tx);
+};
+
+const readLogs = async (db: IDBDatabase, key: string): Promise<StoredLog[]> => {
+  const tx = db.transaction(LOGS_STORE, "readonly");
+  return promisify(tx.objectStore(LOGS_STORE).getAll(logsRange(key)));
+};
+
+// --- Sync ---
+
+const getProvider = (contract: Contract): Provider => {
+  const provider = contract.runner?.provider;
+  if (!provider) throw new Error("El contrato no tiene un provider conectado");
+  return provider;
+};
+
+const getIndexKey = async (contract: Contract) => {
+  const provider = getProvider(contract);
+  const address = (await contract.getAddress()).toLowerCase();
+  const { chainId } = await provider.getNetwork();
+  return { provider, address, chainId, key: `${chainId}:${address}` };
+};
+
+// Bloque desde el que escanear. En una red remota escanear desde génesis
+// cuesta miles de llamadas, así que el registro de redes tiene que traer el
+// `startBlock` que escribe el deploy; solo el nodo local arranca en 0.
+const resolveStartBlock = (chainId: bigint, startBlock?: number): number => {
+  if (startBlock !== undefined) return startBlock;
+  if ("0x" + chainId.toString(16) === LOCALHOST_CHAIN_ID) return 0;
+  throw new Error(
+    `Falta el startBlock de la red ${chainId} en config/deployments.json: vuelve a desplegar o agrégalo a mano`
+  );
+};
+
+const toStoredLog = (key: string, log: Log): StoredLog => ({
+  key,
+  blockNumber: log.blockNumber,
+  logIndex: log.index,
+  blockHash: log.blockHash,
+  transactionHash: log.transactionHash,
+  topics: [...log.topics],
+  data: log.data,
+});
+
+// El cursor ya no describe esta cadena: la cabeza quedó por detrás (nodo
+// local reiniciado o redesplegado) o su bloque dejó de ser canónico (reorg).
+const isStaleCursor = async (
+  provider: Provider,
+  cursor: SyncCursor,
+  latest: number
+): Promise<boolean> => {
+  if (latest < cursor.lastBlock) return true;
+  if (!cursor.lastBlockHash) return false;
+  const block = await provider.getBlock(cursor.lastBlock);
+  return !block || block.hash !== cursor.lastBlockHash;
+};
+
+const runSync = async (contract: Contract, startBlock?: number) => {
+  const { provider, address, chainId, key } = await getIndexKey(contract);
+  const db = await openDatabase();
+  const latest = await provider.getBlockNumber();
+
+  let cursor = await readCursor(db, key);
+  // No sabemos desde dónde dejó de valer lo indexado: se reindexa todo desde
+  // el bloque de inicio en lugar de servir logs de otra cadena
+  if (cursor && (await isStaleCursor(provider, cursor, latest))) {
+    await clearIndex(db, key);
+    cursor = undefined;
+  }
+
+  if (!cursor) {
+    const firstBlock = resolveStartBlock(chainId, startBlock);
+    cursor = {
+      key,
+      startBlock: firstBlock,
+      lastBlock: firstBlock - 1,
+      lastBlockHash: "",
+    };
+  }
+
+  let chunkSize = INITIAL_CHUNK_SIZE;
+  let fromBlock = cursor.lastBlock + 1;
+
+  while (fromBlock <= latest) {
+    const toBlock = Math.min(fromBlock + chunkSize - 1, latest);
+
+    let logs: Log[];
+    try {
+      logs = await provider.getLogs({ address, fromBlock, toBlock });
+    } catch (error) {
+      if (chunkSize <= MIN_CHUNK_SIZE) throw error;
+      chunkSize = Math.max(MIN_CHUNK_SIZE, Math.floor(chunkSize / 2));
+      continue;
+    }
+
+    const block = await provider.getBlock(toBlock);
+    cursor = {
+      ...cursor,
+      lastBlock: toBlock,
+      lastBlockHash: block?.hash ?? "",
+    };
+    await writeChunk(
+      db,
+      logs.filter((log) => !log.removed).map((log) => toStoredLog(key, log)),
+      cursor
+    );
+    fromBlock = toBlock + 1;
+    chunkSize = Math.min(INITIAL_CHUNK_SIZE, chunkSize * 2);
+  }
+};
+
+// Evita que varios componentes sincronicen el mismo contrato en paralelo.
+const inFlightSyncs = new Map<string, Promise<void>>();
+
+export const syncContractEvents = async (
+  contract: Contract,
+  startBlock?: number
+): Promise<void> => {
+  const { key } = await getIndexKey(contract);
+  let pending = inFlightSyncs.get(key);
+  if (!pending) {
+    pending = runSync(contract, startBlock).finally(() => inFlightSyncs.delete(key));
+    inFlightSyncs.set(key, pending);
+  }
+  return pending;
+};
+
+// --- Queries ---
+
+// Devuelve los eventos `eventName` del contrato en orden cronológico,
+// sincronizando antes el índice local. `matches` filtra por argumentos y
+// `startBlock` es el bloque de despliegue según el registro de redes.
+export const getIndexedEvents = async (
+  contract: Contract,
+  eventName: string,
+  matches: (args: Result) => boolean = () => true,
+  startBlock?: number
+): Promise<IndexedEvent[]> => {
+  // Sin IndexedDB (p.ej. modo privado) consultamos directamente el RPC.
+  if (typeof indexedDB === "undefined") {
+    const { chainId } = await getProvider(contract).getNetwork();
+    const events = await contract.queryFilter(
+      eventName,
+      resolveStartBlock(chainId, startBlock)
+    );
+    return events
+      .filter((e): e is EventLog => e instanceof EventLog)
+      .filter((e) => matches(e.args))
+      .map((e) => ({
+        name: eventName,
+        args: e.args,
+        blockNumber: e.blockNumber,
+        transactionHash: e.transactionHash,
+        logIndex: e.index,
+      }));
+  }
+
+  await syncContractEvents(contract, startBlock);
+  const { key } = await getIndexKey(contract);
+  const logs = await readLogs(await openDatabase(), key);
+
+  const events: IndexedEvent[] = [];
+  for (const log of logs) {
+    let parsed;
+    try {
+      parsed = contract.interface.parseLog({
+        topics: log.topics,
+        data: log.data,
+      });
+    } catch {
+      continue; // Log con un formato que el ABI actual no reconoce
+    }
+    if (!parsed || parsed.name !== eventName) continue;
+    if (!matches(parsed.args)) continue;
+    events.push({
+      name: parsed.name,
+      args: parsed.args,
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      logIndex: log.logIndex,
+    });
+  }
+  return events;
+};
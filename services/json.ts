@@ -0,0 +1,8 @@
+// services/json.ts
+
+// Objeto JSON cuyos campos todavía no se validaron (descargado de IPFS o
+// descifrado): se lee campo por campo con type guards
+export type JsonObject = Record<string, unknown>;
+
+export const isJsonObject = (v: unknown): v is JsonObject =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
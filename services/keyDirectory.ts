@@ -0,0 +1,92 @@
+import { getAddress } from "ethers";
+import { directory } from "./directoryService";
+import {
+  KeyChanges,
+  KeyGrant,
+  keyChangesMessage,
+  publicKeyMessage,
+} from "./directory/provider";
+
+/*
+ * Claves de cifrado de los registros, en el backend del directorio
+ * (VITE_DIRECTORY_BACKEND, ver services/directoryService.ts):
+ *   - la clave pública de cada wallet en cada red (chainId en hex)
+ *   - por animal ({chainId}:{tokenId}): la clave vigente, quiénes la
+ *     recibieron y las claves envueltas (grants) de cada destinatario
+ * Solo se guardan claves públicas y claves envueltas: nada en claro. Cada
+ * escritura va firmada por la wallet: la clave pública la publica su dueña y
+ * las claves de un animal las cambia el dueño del animal.
+ */
+
+export const publishPublicKey = async (
+  chainId: string,
+  address: string,
+  publicKey: string,
+  signMessage: (message: string) => Promise<string>
+): Promise<void> => {
+  try {
+    const wallet = getAddress(address);
+    const issuedAt = new Date().toISOString();
+    const signature = await signMessage(
+      publicKeyMessage(chainId, wallet, publicKey, issuedAt)
+    );
+    await directory.publishPublicKey({
+      chainId,
+      address: wallet,
+      publicKey,
+      issuedAt,
+      signature,
+    });
+  } catch (error) {
+    console.error("Error publishing public key:", error);
+    throw error;
+  }
+};
+
+export const getPublicKey = async (
+  chainId: string,
+  address: string
+): Promise<string | null> => {
+  if (!address) return null;
+  return directory.getPublicKey(chainId, address);
+};
+
+export const getCurrentKeyId = async (scope: string): Promise<string | null> =>
+  (await directory.getAnimalKeys(scope))?.currentKeyId ?? null;
+
+// Wallets que recibieron la clave vigente (en minúsculas). Siguen acá aunque
+// se borre su grant, hasta que el dueño rota la clave.
+export const getKeyHolders = async (scope: string): Promise<string[]> =>
+  (await directory.getAnimalKeys(scope))?.holders ?? [];
+
+// Wallets con grant guardado (en minúsculas)
+export const getGrantees = (scope: string): Promise<string[]> =>
+  directory.getGrantees(scope);
+
+export const getKeyGrant = (
+  scope: string,
+  address: string
+): Promise<KeyGrant> => directory.getKeyGrant(scope, address);
+
+/**
+ * Aplica los cambios con una sola firma de `signer`. Los grants nuevos se
+ * suman a las claves que el destinatario ya tenía.
+ */
+export const updateAnimalKeys = async (
+  scope: string,
+  signer: string,
+  changes: KeyChanges,
+  signMessage: (message: string) => Promise<string>
+): Promise<void> => {
+  // Se firma el JSON tal cual viaja: el backend lo verifica antes de leerlo
+  const json = JSON.stringify(changes);
+  const issuedAt = new Date().toISOString();
+  const signature = await signMessage(keyChangesMessage(scope, json, issuedAt));
+  await directory.updateAnimalKeys({
+    scope,
+    signer: getAddress(signer),
+    changes: json,
+    issuedAt,
+    signature,
+  });
+};
@@ -0,0 +1,70 @@
+import { isAddress } from "ethers";
+import { DEFAULT_CHAIN_ID, getNetworkConfig } from "../config/networks";
+import { NameResolver } from "./names/provider";
+import { createEnsResolver } from "./names/ensResolver";
+
+// Safely access environment variables
+const env = (import.meta as any).env || {};
+
+// Los usuarios de VetChain son subdominios ENS: "@juan" es juan.vetchain.eth
+export const USERNAME_DOMAIN: string = (
+  env.VITE_USERNAME_DOMAIN || "vetchain.eth"
+).toLowerCase();
+
+/*
+ * Los nombres se resuelven en VITE_ENS_CHAIN_ID (por defecto la red por
+ * defecto de la app). Para un ENS local: VITE_ENS_CHAIN_ID=0x7a69 y
+ * VITE_LOCAL_ENS_REGISTRY con la address del registry.
+ */
+const createResolver = (): NameResolver | null => {
+  const network = getNetworkConfig(env.VITE_ENS_CHAIN_ID || DEFAULT_CHAIN_ID);
+  return network ? createEnsResolver(network) : null;
+};
+
+const resolver = createResolver();
+
+// Un nombre primario por address mientras dure la sesión
+const reverseCache = new Map<string, Promise<string | null>>();
+
+/**
+ * Pasa lo que escribe el usuario a un nombre ENS: "@juan" a
+ * juan.vetchain.eth, "algo.eth" tal cual. null si no parece un nombre.
+ */
+export const toEnsName = (input: string): string | null => {
+  const name = input.trim().toLowerCase();
+  if (/^@[a-z0-9-]+$/.test(name)) return `${name.slice(1)}.${USERNAME_DOMAIN}`;
+  if (/^[^\s@.]+(\.[^\s@.]+)+$/.test(name) && !isAddress(name)) return name;
+  return null;
+};
+
+// Al revés: juan.vetchain.eth se muestra como "@juan"
+export const displayName = (ensName: string): string => {
+  const suffix = `.${USERNAME_DOMAIN}`;
+  const label = ensName.slice(0, -suffix.length);
+  return ensName.endsWith(suffix) && !label.includes(".")
+    ? `@${label}`
+    : ensName;
+};
+
+export const resolveName = async (input: string): Promise<string | null> => {
+  const name = toEnsName(input);
+  if (!name || !resolver) return null;
+  return resolver.resolveName(name);
+};
+
+/**
+ * Nombre para mostrar junto a una address ("@juan" o "algo.eth"), o null si
+ * no tiene reverse record.
+ */
+export const lookupName = (address: string): Promise<string | null> => {
+  if (!resolver || !isAddress(address)) return Promise.resolve(null);
+  const key = address.toLowerCase();
+  let cached = reverseCache.get(key);
+  if (!cached) {
+    cached = resolver
+      .lookupAddress(address)
+      .then((name) => (name ? displayName(name) : null));
+    reverseCache.set(key, cached);
+  }
+  return cached;
+};
@@ -0,0 +1,40 @@
+// services/names/ensResolver.ts
+import { EnsPlugin, JsonRpcProvider, Network } from "ethers";
+import { NetworkConfig } from "../../config/networks";
+import { NameResolver } from "./provider";
+
+// ENS sobre el RPC de la red, sin wallet. El registry sale de la config de la
+// red, así que sirve igual contra un despliegue local de ENS.
+export const createEnsResolver = (
+  network: NetworkConfig
+): NameResolver | null => {
+  if (!network.ensRegistry) return null;
+
+  const chainId = Number(network.chainId);
+  const ensNetwork = new Network(network.name, chainId);
+  ensNetwork.attachPlugin(new EnsPlugin(network.ensRegistry, chainId));
+  const provider = new JsonRpcProvider(network.rpcUrls[0], ensNetwork, {
+    staticNetwork: ensNetwork,
+  });
+
+  return {
+    resolveName: async (name) => {
+      try {
+        return await provider.resolveName(name);
+      } catch (error) {
+        console.error(`Error resolving ${name}:`, error);
+        return null;
+      }
+    },
+
+    // ethers ya comprueba que el nombre vuelva a resolver a la misma address
+    lookupAddress: async (address) => {
+      try {
+        return await provider.lookupAddress(address);
+      } catch (error) {
+        console.error(`Error looking up ${address}:`, error);
+        return null;
+      }
+    },
+  };
+};
@@ -0,0 +1,10 @@
+// services/names/provider.ts
+
+// Resolución entre nombres legibles y addresses. Las implementaciones devuelven
+// null si el nombre no existe o el backend no responde, nunca lanzan.
+export interface NameResolver {
+  resolveName: (name: string) => Promise<string | null>;
+  // Nombre primario de la address (reverse record), ya verificado contra la
+  // resolución directa
+  lookupAddress: (address: string) => Promise<string | null>;
+}
@@ -0,0 +1,51 @@
+// services/petTag.ts
+import { isAddress } from "ethers";
+import { parseHashRoute, petLookupHash } from "../hooks/useHashRoute";
+
+// Chapita QR para el collar. Es un link a la ficha pública (#/mascota/...),
+// así cualquier cámara la abre sin instalar nada. Además del chip lleva la red
+// y el AnimalNFT: el mismo número puede existir en otro despliegue.
+export interface PetTag {
+  chipId: string;
+  chainId: string; // Hex, como NetworkConfig.chainId
+  contract: string; // Dirección del AnimalNFT
+}
+
+export const petTagUrl = ({ chipId, chainId, contract }: PetTag): string => {
+  const params = new URLSearchParams({ red: chainId, nft: contract });
+  return `${window.location.origin}${window.location.pathname}${petLookupHash(
+    chipId
+  )}?${params}`;
+};
+
+// null -> el texto no es una chapita de VetChain. No importa el dominio del
+// link: una chapita impresa en otro deploy de la app también se reconoce.
+export const parsePetTag = (text: string): PetTag | null => {
+  const hashStart = text.indexOf("#/");
+  if (hashStart === -1) return null;
+  const route = parseHashRoute(text.slice(hashStart));
+  if (route?.name !== "PET_LOOKUP" || !route.chipId) return null;
+  if (!route.chainId || !route.contract || !isAddress(route.contract)) {
+    return null;
+  }
+  return {
+    chipId: route.chipId,
+    chainId: route.chainId,
+    contract: route.contract,
+  };
+};
+
+// Para los escáneres: acepta una chapita o un QR con solo el número de chip
+export const parseChipId = (text: string): string | null => {
+  const trimmed = text.trim();
+  if (/^\d+$/.test(trimmed)) return trimmed;
+  return parsePetTag(trimmed)?.chipId ?? null;
+};
+
+// Hash al que lleva un QR escaneado dentro de la app: la chapita conserva su
+// red; un número de chip suelto se busca en la red por defecto
+export const scannedPetHash = (text: string): string | null => {
+  if (parsePetTag(text)) return text.slice(text.indexOf("#/"));
+  const chipId = parseChipId(text);
+  return chipId ? petLookupHash(chipId) : null;
+};
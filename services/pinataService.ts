@@ -4,6 +4,16 @@
 const env = (import.meta as any).env || {};
 const PINATA_API_KEY = env.VITE_PINATA_API_KEY;
 const PINATA_SECRET_API_KEY = env.VITE_PINATA_SECRET_API_KEY;
+const PINATA_GATEWAY = "https://gateway.pinata.cloud/ipfs/";
+
+// Convierte una URI ipfs:// en una URL del gateway (otras URLs pasan tal cual)
+export const resolveIPFS = (url: string | undefined): string => {
+  if (!url) return "";
+  if (url.startsWith("ipfs://")) {
+    return url.replace("ipfs://", PINATA_GATEWAY);
+  }
+  return url;
+};
 
 export const uploadFileToIPFS = async (file: File): Promise<string> => {
   if (!PINATA_API_KEY || !PINATA_SECRET_API_KEY) {
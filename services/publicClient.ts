@@ -0,0 +1,22 @@
+// services/publicClient.ts
+import { JsonRpcProvider } from "ethers";
+import { DEFAULT_CHAIN_ID, getNetworkConfig } from "../config/networks";
+import { createVetChainClient, VetChainClient } from "./vetChainClient";
+
+// Cliente de solo lectura para las páginas públicas: habla directo con el RPC
+// de la red, sin wallet. Cualquier escritura falla por no tener signer.
+// Funciona también sobre un despliegue anterior a config/abis.ts (isCurrent
+// false): la ficha, el certificado y la chapita solo leen.
+export const createPublicClient = (
+  chainId: string = DEFAULT_CHAIN_ID
+): VetChainClient | null => {
+  const network = getNetworkConfig(chainId);
+  if (!network?.isDeployed) return null;
+  // staticNetwork evita que ethers consulte el chainId en cada llamada
+  const provider = new JsonRpcProvider(
+    network.rpcUrls[0],
+    Number(network.chainId),
+    { staticNetwork: true }
+  );
+  return createVetChainClient(provider, network);
+};
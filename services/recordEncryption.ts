@@ -0,0 +1,477 @@
+// services/recordEncryption.ts
+import {
+  SigningKey,
+  decodeBase64,
+  encodeBase64,
+  getBytes,
+  hexlify,
+  keccak256,
+  randomBytes,
+  sha256,
+  toUtf8Bytes,
+  toUtf8String,
+} from "ethers";
+import { VetChainClient } from "./vetChainClient";
+import { KeyGrant, WrappedKey } from "./directory/provider";
+import {
+  getCurrentKeyId,
+  getGrantees,
+  getKeyGrant,
+  getKeyHolders,
+  getPublicKey,
+  publishPublicKey,
+  updateAnimalKeys,
+} from "./keyDirectory";
+
+/*
+ * Cifrado de extremo a extremo de los registros médicos.
+ *
+ * - Cada animal tiene una o más claves de datos AES-256-GCM (una nueva cada
+ *   vez que alguien sin acceso necesita empezar a escribir). Los payloads
+ *   indican con qué `keyId` se cifraron.
+ * - Cada wallet deriva un par secp256k1 por red firmando un mensaje EIP-712;
+ *   solo la clave pública se publica en el directorio
+ *   (services/keyDirectory.ts).
+ * - Las claves de datos se envuelven para cada destinatario (dueño y
+ *   veterinarios aprobados) con ECDH contra una clave efímera.
+ * - Cuando alguien pierde el permiso (revocado, vencido, transferencia) el
+ *   dueño rota la clave: lo ya descifrado no se puede revocar, pero los
+ *   registros nuevos usan una clave que esa wallet no recibe.
+ */
+
+export const ENCRYPTED_RECORD_SCHEMA = "vetchain/encrypted-record";
+
+// Mensaje EIP-712 del que se deriva la clave de cifrado. El dominio lo ata a
+// la red y al AnimalNFT (verifyingContract): cada despliegue deriva su propia
+// clave y la wallet muestra para qué contrato se firma.
+const KEY_DERIVATION_TYPES = {
+  EncryptionKey: [
+    { name: "action", type: "string" },
+    { name: "notice", type: "string" },
+  ],
+};
+
+const KEY_DERIVATION_VALUE = {
+  action: "Desbloquear registros médicos cifrados",
+  notice:
+    "Esta firma deriva tu clave de cifrado. No envía ninguna transacción.",
+};
+
+const keyDerivationDomain = ({ network }: VetChainClient) => ({
+  name: "VetChain",
+  version: "1",
+  chainId: BigInt(network.chainId),
+  verifyingContract: network.contracts.ANIMAL_NFT,
+});
+
+export interface EncryptedEnvelope {
+  schema: typeof ENCRYPTED_RECORD_SCHEMA;
+  version: 1;
+  keyId: string;
+  iv: string; // Base64
+  ciphertext: string; // Base64
+}
+
+// Claves de datos de un animal que la wallet pudo abrir
+export interface AnimalKeys {
+  currentKeyId: string | null;
+  keys: Map<string, Uint8Array>;
+}
+
+// --- AES-GCM ---
+
+const importAesKey = (key: Uint8Array) =>
+  crypto.subtle.importKey("raw", key as BufferSource, "AES-GCM", false, [
+    "encrypt",
+    "decrypt",
+  ]);
+
+const aesEncrypt = async (
+  key: Uint8Array,
+  plaintext: Uint8Array
+): Promise<{ iv: Uint8Array; ciphertext: Uint8Array }> => {
+  const iv = randomBytes(12);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv: iv as BufferSource },
+    await importAesKey(key),
+    plaintext as BufferSource
+  );
+  return { iv, ciphertext: new Uint8Array(ciphertext) };
+};
+
+const aesDecrypt = async (
+  key: Uint8Array,
+  iv: Uint8Array,
+  ciphertext: Uint8Array
+): Promise<Uint8Array> => {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: iv as BufferSource },
+    await importAesKey(key),
+    ciphertext as BufferSource
+  );
+  return new Uint8Array(plaintext);
+};
+
+// --- Claves de wallet ---
+
+// Claves derivadas en esta sesión, por address. Nunca se persisten.
+const sessionKeys = new Map<string, SigningKey>();
+
+export const hasSessionKey = (account: string | null): boolean =>
+  !!account && sessionKeys.has(account.toLowerCase());
+
+/**
+ * Deriva la clave de cifrado de la wallet (pide una firma la primera vez en
+ * la sesión) y publica su clave pública si todavía no está en el directorio.
+ */
+export const unlockEncryptionKey = async (
+  client: VetChainClient,
+  account: string
+): Promise<SigningKey> => {
+  const cached = sessionKeys.get(account.toLowerCase());
+  if (cached) return cached;
+
+  // Las firmas ECDSA de las wallets son deterministas (RFC 6979):
+  // la misma wallet siempre deriva la misma clave en la misma red
+  const signature = await client.signTypedData(
+    keyDerivationDomain(client),
+    KEY_DERIVATION_TYPES,
+    KEY_DERIVATION_VALUE
+  );
+  const signingKey = new SigningKey(keccak256(signature));
+
+  const { chainId } = client.network;
+  const publicKey = signingKey.compressedPublicKey;
+  if ((await getPublicKey(chainId, account)) !== publicKey) {
+    await publishPublicKey(chainId, account, publicKey, client.signMessage);
+  }
+
+  sessionKeys.set(account.toLowerCase(), signingKey);
+  return signingKey;
+};
+
+// --- Envoltura de claves de datos (ECIES) ---
+
+const deriveWrappingKey = (sharedSecret: string): Uint8Array =>
+  getBytes(sha256(sharedSecret));
+
+const wrapKey = async (
+  dataKey: Uint8Array,
+  recipientPublicKey: string
+): Promise<WrappedKey> => {
+  const ephemeral = new SigningKey(randomBytes(32));
+  const wrappingKey = deriveWrappingKey(
+    ephemeral.computeSharedSecret(recipientPublicKey)
+  );
+  const { iv, ciphertext } = await aesEncrypt(wrappingKey, dataKey);
+  return {
+    ephemeralPublicKey: ephemeral.compressedPublicKey,
+    iv: hexlify(iv),
+    ciphertext: hexlify(ciphertext),
+  };
+};
+
+const unwrapKey = async (
+  wrapped: WrappedKey,
+  signingKey: SigningKey
+): Promise<Uint8Array> => {
+  const wrappingKey = deriveWrappingKey(
+    signingKey.computeSharedSecret(wrapped.ephemeralPublicKey)
+  );
+  return aesDecrypt(
+    wrappingKey,
+    getBytes(wrapped.iv),
+    getBytes(wrapped.ciphertext)
+  );
+};
+
+const keyScope = (client: VetChainClient, tokenId: string) =>
+  `${client.network.chainId}:${tokenId}`;
+
+// Quiénes, además del dueño, deben poder leer los registros nuevos: vets y
+// equipos de clínicas con permiso vigente y el destinatario de la oferta de
+// transferencia abierta. En minúsculas, como los grants.
+const authorizedReaders = async (
+  client: VetChainClient,
+  account: string,
+  tokenId: string
+): Promise<string[]> => {
+  const [vetApprovals, clinicApprovals, offer] = await Promise.all([
+    client.getVetApprovals(tokenId),
+    client.getClinicApprovals(tokenId),
+    client.getTransferOffer(tokenId),
+  ]);
+  const members = await Promise.all(
+    clinicApprovals.map((approval) =>
+      client.getClinicMembers(approval.clinic.clinicId)
+    )
+  );
+  const readers = [
+    ...vetApprovals.map((approval) => approval.vet),
+    ...members.flat(),
+    ...(offer ? [offer.to] : []),
+  ].map((address) => address.toLowerCase());
+  return readers.filter(
+    (address, i) =>
+      readers.indexOf(address) === i && address !== account.toLowerCase()
+  );
+};
+
+// Envuelve `keys` para cada destinatario con clave pública publicada en la red
+const wrapForRecipients = async (
+  client: VetChainClient,
+  keys: Map<string, Uint8Array>,
+  recipients: string[]
+): Promise<{ grants: Record<string, KeyGrant>; withoutKeys: string[] }> => {
+  const grants: Record<string, KeyGrant> = {};
+  const withoutKeys: string[] = [];
+  for (const recipient of recipients) {
+    const publicKey = await getPublicKey(client.network.chainId, recipient);
+    if (!publicKey) {
+      withoutKeys.push(recipient);
+      continue;
+    }
+    const grant: KeyGrant = {};
+    for (const [keyId, key] of keys) {
+      grant[keyId] = await wrapKey(key, publicKey);
+    }
+    grants[recipient.toLowerCase()] = grant;
+  }
+  return { grants, withoutKeys };
+};
+
+/**
+ * Genera una clave de datos nueva y la hace vigente, compartida con el dueño
+ * y los lectores autorizados. Los grants de quien ya no tiene permiso se
+ * borran. Una sola firma del dueño.
+ */
+const rotateKey = async (
+  client: VetChainClient,
+  account: string,
+  tokenId: string
+): Promise<{ keyId: string; key: Uint8Array; withoutKeys: string[] }> => {
+  const signingKey = await unlockEncryptionKey(client, account);
+  const scope = keyScope(client, tokenId);
+  const [readers, grantees] = await Promise.all([
+    authorizedReaders(client, account, tokenId),
+    getGrantees(scope),
+  ]);
+
+  const keyId = hexlify(randomBytes(8));
+  const key = randomBytes(32);
+  const keys = new Map([[keyId, key]]);
+  const { grants, withoutKeys } = await wrapForRecipients(
+    client,
+    keys,
+    readers
+  );
+  grants[account.toLowerCase()] = {
+    [keyId]: await wrapKey(key, signingKey.compressedPublicKey),
+  };
+
+  const revoke = grantees.filter(
+    (address) => !(address in grants) && !readers.includes(address)
+  );
+  await updateAnimalKeys(
+    scope,
+    account,
+    { currentKeyId: keyId, grants, revoke },
+    client.signMessage
+  );
+  return { keyId, key, withoutKeys };
+};
+
+/**
+ * Abre las claves de datos del animal que fueron compartidas con la wallet.
+ * Requiere haber llamado a `unlockEncryptionKey` en la sesión.
+ */
+export const loadAnimalKeys = async (
+  client: VetChainClient,
+  account: string,
+  tokenId: string
+): Promise<AnimalKeys> => {
+  const signingKey = sessionKeys.get(account.toLowerCase());
+  const scope = keyScope(client, tokenId);
+  const [currentKeyId, grant] = await Promise.all([
+    getCurrentKeyId(scope),
+    signingKey ? getKeyGrant(scope, account) : Promise.resolve({} as KeyGrant),
+  ]);
+
+  const keys = new Map<string, Uint8Array>();
+  for (const [keyId, wrapped] of Object.entries(grant)) {
+    try {
+      keys.set(keyId, await unwrapKey(wrapped, signingKey!));
+    } catch (error) {
+      console.warn(`Could not unwrap key ${keyId} for ${tokenId}`, error);
+    }
+  }
+  return { currentKeyId, keys };
+};
+
+/**
+ * Devuelve la clave con la que cifrar registros nuevos. Si la wallet no
+ * tiene acceso a la clave vigente y `create` es true (dueño), genera una
+ * nueva y pasa a ser la vigente; si no, devuelve null.
+ */
+export const getWritableKey = async (
+  client: VetChainClient,
+  account: string,
+  tokenId: string,
+  create = false
+): Promise<{ keyId: string; key: Uint8Array } | null> => {
+  await unlockEncryptionKey(client, account);
+  const { currentKeyId, keys } = await loadAnimalKeys(client, account, tokenId);
+
+  const current = currentKeyId ? keys.get(currentKeyId) : undefined;
+  if (currentKeyId && current) return { keyId: currentKeyId, key: current };
+  if (!create) return null;
+
+  const { keyId, key } = await rotateKey(client, account, tokenId);
+  return { keyId, key };
+};
+
+/**
+ * Envuelve para los destinatarios todas las claves del animal que tiene el
+ * dueño, con una sola firma. Devuelve los que todavía no publicaron su clave
+ * pública, que quedan sin acceso.
+ */
+export const shareAnimalKeys = async (
+  client: VetChainClient,
+  account: string,
+  tokenId: string,
+  recipients: string[]
+): Promise<string[]> => {
+  // El dueño siempre debe poder compartir la clave vigente
+  await getWritableKey(client, account, tokenId, true);
+  const { keys } = await loadAnimalKeys(client, account, tokenId);
+
+  const { grants, withoutKeys } = await wrapForRecipients(
+    client,
+    keys,
+    recipients
+  );
+  if (Object.keys(grants).length > 0) {
+    await updateAnimalKeys(
+      keyScope(client, tokenId),
+      account,
+      { grants },
+      client.signMessage
+    );
+  }
+  return withoutKeys;
+};
+
+/**
+ * El dueño rota la clave después de quitar un permiso (vet, clínica, oferta
+ * cancelada) o al recibir el animal. Devuelve los lectores autorizados que
+ * quedaron sin la clave nueva por no haber activado el cifrado.
+ */
+export const rotateAnimalKey = async (
+  client: VetChainClient,
+  account: string,
+  tokenId: string
+): Promise<string[]> => (await rotateKey(client, account, tokenId)).withoutKeys;
+
+/**
+ * Wallets con la clave vigente que ya no tienen permiso (permisos vencidos,
+ * ofertas rechazadas o vencidas): pueden descifrar los registros nuevos
+ * hasta que el dueño rote la clave.
+ */
+export const getStaleKeyHolders = async (
+  client: VetChainClient,
+  account: string,
+  tokenId: string
+): Promise<string[]> => {
+  const [holders, readers] = await Promise.all([
+    getKeyHolders(keyScope(client, tokenId)),
+    authorizedReaders(client, account, tokenId),
+  ]);
+  return holders.filter(
+    (address) => address !== account.toLowerCase() && !readers.includes(address)
+  );
+};
+
+// Un destinatario borra su propio grant (p. ej. al rechazar una oferta)
+export const dropKeyGrant = (
+  client: VetChainClient,
+  account: string,
+  tokenId: string
+): Promise<void> =>
+  updateAnimalKeys(
+    keyScope(client, tokenId),
+    account,
+    { revoke: [account.toLowerCase()] },
+    client.signMessage
+  );
+
+// --- Payloads ---
+
+export const isEncryptedEnvelope = (data: unknown): data is EncryptedEnvelope =>
+  typeof data === "object" &&
+  data !== null &&
+  "schema" in data &&
+  data.schema === ENCRYPTED_RECORD_SCHEMA &&
+  "version" in data &&
+  data.version === 1 &&
+  "keyId" in data &&
+  typeof data.keyId === "string" &&
+  "iv" in data &&
+  typeof data.iv === "string" &&
+  "ciphertext" in data &&
+  typeof data.ciphertext === "string";
+
+export const encryptJSON = async (
+  data: unknown,
+  keyId: string,
+  key: Uint8Array
+): Promise<EncryptedEnvelope> => {
+  const { iv, ciphertext } = await aesEncrypt(
+    key,
+    toUtf8Bytes(JSON.stringify(data))
+  );
+  return {
+    schema: ENCRYPTED_RECORD_SCHEMA,
+    version: 1,
+    keyId,
+    iv: encodeBase64(iv),
+    ciphertext: encodeBase64(ciphertext),
+  };
+};
+
+export const decryptJSON = async (
+  envelope: EncryptedEnvelope,
+  key: Uint8Array
+): Promise<unknown> => {
+  const plaintext = await aesDecrypt(
+    key,
+    decodeBase64(envelope.iv),
+    decodeBase64(envelope.ciphertext)
+  );
+  return JSON.parse(toUtf8String(plaintext));
+};
+
+/**
+ * Cifra un adjunto antes de subirlo. El nombre y tipo reales viajan dentro
+ * del payload cifrado, no en el archivo.
+ */
+export const encryptFile = async (
+  file: File,
+  key: Uint8Array
+): Promise<{ file: File; iv: string }> => {
+  const { iv, ciphertext } = await aesEncrypt(
+    key,
+    new Uint8Array(await file.arrayBuffer())
+  );
+  return {
+    file: new File([ciphertext as BlobPart], "attachment.enc", {
+      type: "application/octet-stream",
+    }),
+    iv: encodeBase64(iv),
+  };
+};
+
+export const decryptBytes = (
+  bytes: Uint8Array,
+  key: Uint8Array,
+  iv: string
+): Promise<Uint8Array> => aesDecrypt(key, decodeBase64(iv), bytes);
@@ -0,0 +1,32 @@
+// services/transferPolicy.ts
+import { ZeroHash, decodeBytes32String, encodeBytes32String } from "ethers";
+import { TransferRule } from "../types";
+
+export const RULE_LABELS: Record<TransferRule, string> = {
+  [TransferRule.MANDATORY_VACCINES]: "Vacunas obligatorias vigentes",
+  [TransferRule.LOST]: "No reportado como perdido",
+  [TransferRule.MIN_AGE]: "Edad mínima para cambiar de dueño",
+  [TransferRule.STERILIZATION]: "Esterilización certificada",
+  [TransferRule.MICROCHIP]: "Microchip verificado por un veterinario",
+};
+
+// Igual que las vacunas, la especie viaja on-chain como bytes32. La política
+// puede fijar una edad mínima distinta para cada una.
+export const SPECIES_LABELS: Record<string, string> = {
+  dog: "Perro",
+  cat: "Gato",
+  rabbit: "Conejo",
+  ferret: "Hurón",
+  bird: "Ave",
+  other: "Otra",
+};
+
+export const speciesLabel = (species: string): string =>
+  SPECIES_LABELS[species] || species;
+
+export const encodeSpecies = (species: string): string =>
+  encodeBytes32String(species);
+
+// null -> especie no informada al registrar el animal
+export const decodeSpecies = (raw: string): string | null =>
+  raw === ZeroHash ? null : decodeBytes32String(raw);
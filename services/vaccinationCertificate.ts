@@ -0,0 +1,330 @@
+// services/vaccinationCertificate.ts
+import { MedicalRecord, RecordType } from "../types";
+import type { VetChainClient } from "./vetChainClient";
+import { resolveIPFS } from "./pinataService";
+
+// Certificado de vacunación imprimible. Todo lo que lleva es público en la
+// cadena (eventos MedicalRecordAdded, vencimientos y matrículas), así que no
+// se sube a ningún lado: se arma al vuelo y el QR permite re-verificarlo.
+export const VACCINATION_CERTIFICATE_SCHEMA =
+  "vetchain/vaccination-certificate";
+export const VACCINATION_CERTIFICATE_VERSION = 1;
+
+export interface CertifiedVaccine {
+  vaccineId: string;
+  entryId: number; // Registro VACCINE vigente de la última dosis
+  appliedAt: number; // Unix seconds
+  expiresAt: number; // Unix seconds (vaccineExpiration al emitir)
+  vet: string;
+  vetLicenseId: string; // "0" si el vet no vinculó su matrícula
+  transactionHash: string;
+}
+
+export interface VaccinationCertificate {
+  schema: typeof VACCINATION_CERTIFICATE_SCHEMA;
+  version: typeof VACCINATION_CERTIFICATE_VERSION;
+  chainId: string;
+  tokenId: string;
+  petName: string;
+  species: string | null;
+  birthDate: number; // Unix seconds, 0 si no se informó
+  owner: string;
+  issuedAt: number; // Unix seconds
+  vaccines: CertifiedVaccine[];
+}
+
+export type VaccineCheckStatus = "valid" | "expired" | "mismatch";
+
+export interface VaccineCheck {
+  vaccineId: string;
+  status: VaccineCheckStatus;
+  reason: string | null; // Por qué no coincide; null si coincide
+  claimed: CertifiedVaccine;
+  currentExpiresAt: number; // Vencimiento on-chain hoy (puede haber dosis nuevas)
+}
+
+export interface CertificateVerification {
+  exists: boolean; // false si el token no existe o fue quemado
+  nameMatches: boolean;
+  currentName: string;
+  checks: VaccineCheck[];
+}
+
+const loadPetName = async (tokenId: string, uri: string): Promise<string> => {
+  try {
+    const json = await (await fetch(resolveIPFS(uri))).json();
+    return json.name || `Chip #${tokenId}`;
+  } catch {
+    return `Chip #${tokenId}`;
+  }
+};
+
+// La última dosis con efecto de cada vacuna: se descartan las retractadas y
+// las que fueron reemplazadas por una corrección
+const latestDoses = (history: MedicalRecord[]): Map<string, MedicalRecord> => {
+  const doses = new Map<string, MedicalRecord>();
+  for (const record of history) {
+    if (record.recordType !== RecordType.VACCINE || !record.vaccineId) continue;
+    if (record.amendment) continue;
+    const previous = doses.get(record.vaccineId);
+    if (!previous || record.timestamp >= previous.timestamp) {
+      doses.set(record.vaccineId, record);
+    }
+  }
+  return doses;
+};
+
+const licenseOf = async (
+  client: VetChainClient,
+  cache: Map<string, string>,
+  vet: string
+): Promise<string> => {
+  const key = vet.toLowerCase();
+  if (!cache.has(key)) {
+    cache.set(key, (await client.getVetLicenseId(vet)).toString());
+  }
+  return cache.get(key)!;
+};
+
+/**
+ * Arma el certificado con las vacunas aplicadas al animal (vigentes o no)
+ * tal como están hoy en la cadena.
+ */
+export const buildVaccinationCertificate = async (
+  client: VetChainClient,
+  tokenId: string
+): Promise<VaccinationCertificate> => {
+  const [status, animal, owner, history, vaccines] = await Promise.all([
+    client.getPetStatus(tokenId),
+    client.getAnimal(tokenId),
+    client.getOwner(tokenId),
+    client.getHistory(tokenId),
+    client.getVaccineStatus(tokenId),
+  ]);
+  const doses = latestDoses(history);
+  const licenses = new Map<string, string>();
+
+  const certified: CertifiedVaccine[] = [];
+  for (const vaccine of vaccines) {
+    const dose = doses.get(vaccine.vaccineId);
+    if (!dose || vaccine.expiresAt === 0) continue;
+    certified.push({
+      vaccineId: vaccine.vaccineId,
+      entryId: dose.entryId,
+      appliedAt: dose.timestamp,
+      expiresAt: vaccine.expiresAt,
+      vet: dose.vetAddress,
+      vetLicenseId: await licenseOf(client, licenses, dose.vetAddress),
+      transactionHash: dose.transactionHash,
+    });
+  }
+
+  return {
+    schema: VACCINATION_CERTIFICATE_SCHEMA,
+    version: VACCINATION_CERTIFICATE_VERSION,
+    chainId: client.network.chainId,
+    tokenId,
+    petName: await loadPetName(tokenId, animal.uri),
+    species: status.species,
+    birthDate: status.birthDate,
+    owner,
+    issuedAt: Math.floor(Date.now() / 1000),
+    vaccines: certified,
+  };
+};
+
+// --- QR ---
+// El QR lleva lo que afirma el papel en arrays compactos (base64url) para que
+// el código no crezca demasiado con varias vacunas.
+
+type CompactVaccine = [string, number, number, number, string, string, string];
+
+const toBase64Url = (text: string) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(text)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const fromBase64Url = (encoded: string) => {
+  const base64 = encoded.replace(/-/g, "+").replace(/_/g, "/");
+  const bytes = Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+export const encodeCertificate = (
+  certificate: VaccinationCertificate
+): string =>
+  toBase64Url(
+    JSON.stringify([
+      certificate.version,
+      certificate.chainId,
+      certificate.tokenId,
+      certificate.petName,
+      certificate.species,
+      certificate.birthDate,
+      certificate.owner,
+      certificate.issuedAt,
+      certificate.vaccines.map((v): CompactVaccine => [
+        v.vaccineId,
+        v.entryId,
+        v.appliedAt,
+        v.expiresAt,
+        v.vet,
+        v.vetLicenseId,
+        v.transactionHash,
+      ]),
+    ])
+  );
+
+// null -> el QR no es de un certificado o está dañado
+export const decodeCertificate = (
+  encoded: string
+): VaccinationCertificate | null => {
+  try {
+    const [
+      version,
+      chainId,
+      tokenId,
+      petName,
+      species,
+      birthDate,
+      owner,
+      issuedAt,
+      vaccines,
+    ] = JSON.parse(fromBase64Url(encoded));
+    if (version !== VACCINATION_CERTIFICATE_VERSION) return null;
+    if (!/^\d+$/.test(tokenId) || !Array.isArray(vaccines)) return null;
+    return {
+      schema: VACCINATION_CERTIFICATE_SCHEMA,
+      version,
+      chainId,
+      tokenId,
+      petName,
+      species,
+      birthDate,
+      owner,
+      issuedAt,
+      vaccines: vaccines.map(
+        ([
+          vaccineId,
+          entryId,
+          appliedAt,
+          expiresAt,
+          vet,
+          vetLicenseId,
+          transactionHash,
+        ]: CompactVaccine) => ({
+          vaccineId,
+          entryId,
+          appliedAt,
+          expiresAt,
+          vet,
+          vetLicenseId,
+          transactionHash,
+        })
+      ),
+    };
+  } catch {
+    return null;
+  }
+};
+
+// --- Verificación ---
+
+const compareDose = (
+  claimed: CertifiedVaccine,
+  record: MedicalRecord | undefined,
+  license: string | null
+): string | null => {
+  if (!record) return "El registro no existe para esta mascota";
+  if (record.transactionHash !== claimed.transactionHash) {
+    return "La transacción no coincide";
+  }
+  if (
+    record.recordType !== RecordType.VACCINE ||
+    record.vaccineId !== claimed.vaccineId
+  ) {
+    return "El registro no es de esta vacuna";
+  }
+  if (record.amendment?.kind === "retracted") {
+    return "El registro fue retractado";
+  }
+  if (record.amendment?.kind === "amended") {
+    return "El registro fue corregido después de emitir el certificado";
+  }
+  if (record.timestamp !== claimed.appliedAt) {
+    return "La fecha de aplicación no coincide";
+  }
+  if (record.vetAddress.toLowerCase() !== claimed.vet.toLowerCase()) {
+    return "El veterinario no coincide";
+  }
+  if (license !== claimed.vetLicenseId) {
+    return "La matrícula del veterinario no coincide";
+  }
+  return null;
+};
+
+/**
+ * Contrasta un certificado (leído del QR) con la cadena: cada dosis debe
+ * existir tal cual y seguir con efecto, y la vacuna debe estar vigente hoy.
+ */
+export const verifyCertificate = async (
+  client: VetChainClient,
+  certificate: VaccinationCertificate
+): Promise<CertificateVerification> => {
+  const { tokenId } = certificate;
+  const status = await client.getPetStatus(tokenId);
+  if (!status.exists) {
+    return {
+      exists: false,
+      nameMatches: false,
+      currentName: `Chip #${tokenId}`,
+      checks: [],
+    };
+  }
+
+  const [animal, history, vaccines] = await Promise.all([
+    client.getAnimal(tokenId),
+    client.getHistory(tokenId),
+    client.getVaccineStatus(tokenId),
+  ]);
+  const currentName = await loadPetName(tokenId, animal.uri);
+  const licenses = new Map<string, string>();
+  const now = Math.floor(Date.now() / 1000);
+
+  const checks: VaccineCheck[] = [];
+  for (const claimed of certificate.vaccines) {
+    const record = history.find((r) => r.entryId === claimed.entryId);
+    const license = record
+      ? await licenseOf(client, licenses, record.vetAddress)
+      : null;
+    const currentExpiresAt =
+      vaccines.find((v) => v.vaccineId === claimed.vaccineId)?.expiresAt || 0;
+
+    // Una dosis posterior extiende el vencimiento; uno más corto que el
+    // impreso significa que el papel promete más de lo que hay on-chain
+    let reason = compareDose(claimed, record, license);
+    if (!reason && currentExpiresAt < claimed.expiresAt) {
+      reason = "La fecha de vencimiento no coincide";
+    }
+
+    checks.push({
+      vaccineId: claimed.vaccineId,
+      status: reason
+        ? "mismatch"
+        : now < currentExpiresAt
+          ? "valid"
+          : "expired",
+      reason,
+      claimed,
+      currentExpiresAt,
+    });
+  }
+
+  return {
+    exists: true,
+    nameMatches: currentName === certificate.petName,
+    currentName,
+    checks,
+  };
+};
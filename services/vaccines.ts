@@ -0,0 +1,22 @@
+// services/vaccines.ts
+import { ZeroHash, decodeBytes32String, encodeBytes32String } from "ethers";
+
+// On-chain las vacunas se identifican con un string corto en bytes32. Estas
+// son las del catálogo inicial de MedicalStorage; las que el admin sume
+// después se muestran con su identificador.
+export const VACCINE_LABELS: Record<string, string> = {
+  rabies: "Antirrábica",
+  distemper: "Moquillo",
+  parvovirus: "Parvovirus",
+  leptospirosis: "Leptospirosis",
+};
+
+export const vaccineLabel = (vaccineId: string): string =>
+  VACCINE_LABELS[vaccineId] || vaccineId;
+
+// null -> bytes32(0), lo que el contrato espera en registros que no son vacunas
+export const encodeVaccineId = (vaccineId: string | null): string =>
+  vaccineId ? encodeBytes32String(vaccineId) : ZeroHash;
+
+export const decodeVaccineId = (raw: string): string | null =>
+  raw === ZeroHash ? null : decodeBytes32String(raw);
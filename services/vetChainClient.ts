@@ -0,0 +1,971 @@
+// services/vetChainClient.ts
+import {
+  BigNumberish,
+  BytesLike,
+  Contract,
+  ContractRunner,
+  ContractTransactionResponse,
+  Signer,
+  TypedDataDomain,
+  TypedDataField,
+  ZeroAddress,
+  isCallException,
+} from "ethers";
+import { ABIS } from "../config/abis";
+import { NetworkConfig } from "../config/networks";
+import {
+  Animal,
+  Clinic,
+  ClinicApproval,
+  ClinicMembership,
+  DeceasedAnimal,
+  MedicalRecord,
+  PetStatus,
+  RecordAmendment,
+  RecordType,
+  TransferOffer,
+  TransferPreflight,
+  TransferRule,
+  VaccineStatus,
+  VetApproval,
+  VetProfile,
+  VetProfileInput,
+} from "../types";
+import { IndexedEvent, getIndexedEvents } from "./eventIndex";
+import { decodeSpecies, encodeSpecies } from "./transferPolicy";
+import { decodeVaccineId, encodeVaccineId } from "./vaccines";
+
+// --- Tipos derivados de los ABIs ---
+// Los ABIs de config/abis.ts son `as const`, así que los nombres, argumentos y
+// retornos de cada función (y los argumentos de cada evento) se infieren de
+// ellos: si el ABI cambia, el cliente deja de compilar en lugar de fallar en
+// runtime.
+
+type Abi = readonly { readonly type: string; readonly name?: string }[];
+
+interface AbiParam {
+  readonly type: string;
+  readonly name: string;
+  readonly components?: readonly AbiParam[];
+}
+
+type NftAbi = typeof ABIS.NFT;
+type StorageAbi = typeof ABIS.STORAGE;
+type ClinicAbi = typeof ABIS.CLINICS;
+type PolicyAbi = typeof ABIS.POLICY;
+type ProfilesAbi = typeof ABIS.PROFILES;
+type LicensesAbi = typeof ABIS.LICENSES;
+
+type SolidityInput<T extends string> = T extends "address" | "string"
+  ? string
+  : T extends "bool"
+  ? boolean
+  : T extends `uint${string}` | `int${string}`
+  ? BigNumberish
+  : T extends `bytes${string}`
+  ? BytesLike
+  : unknown;
+
+type SolidityOutput<T extends string> = T extends "address" | "string"
+  ? string
+  : T extends "bool"
+  ? boolean
+  : T extends `uint${string}` | `int${string}`
+  ? bigint
+  : T extends `bytes${string}`
+  ? string
+  : unknown;
+
+// Arrays elemento a elemento; structs (tuple) por nombre de campo, como los
+// expone el Result de ethers
+type OutputValue<P extends AbiParam> = DecodedValue<
+  P["type"],
+  P extends { components: infer C extends readonly AbiParam[] } ? C : []
+>;
+
+type DecodedValue<
+  T extends string,
+  C extends readonly AbiParam[],
+> = T extends `${infer E}[]`
+  ? DecodedValue<E, C>[]
+  : T extends "tuple"
+  ? { [P in C[number] as P["name"]]: OutputValue<P> }
+  : SolidityOutput<T>;
+
+type FunctionEntry<A extends Abi, N extends string> = Extract<
+  A[number],
+  { type: "function"; name: N }
+>;
+
+type FunctionName<A extends Abi> = Extract<
+  A[number],
+  { type: "function" }
+>["name"] &
+  string;
+
+type FunctionArgs<A extends Abi, N extends string> =
+  FunctionEntry<A, N> extends { inputs: infer I extends readonly AbiParam[] }
+    ? { -readonly [K in keyof I]: SolidityInput<I[K]["type"]> }
+    : never;
+
+type FunctionResult<A extends Abi, N extends string> =
+  FunctionEntry<A, N> extends { stateMutability: "view" | "pure" }
+    ? FunctionEntry<A, N> extends {
+        outputs: infer O extends readonly AbiParam[];
+      }
+      ? O extends readonly [infer P extends AbiParam]
+        ? OutputValue<P>
+        : {
+            -readonly [K in keyof O]: O[K] extends AbiParam
+              ? OutputValue<O[K]>
+              : never;
+          }
+      : unknown
+    : ContractTransactionResponse;
+
+type EventArgs<A extends Abi, N extends string> =
+  Extract<A[number], { type: "event"; name: N }> extends {
+    inputs: infer I extends readonly AbiParam[];
+  }
+    ? { [P in I[number] as P["name"]]: SolidityOutput<P["type"]> }
+    : never;
+
+type EventName<A extends Abi> = Extract<A[number], { type: "event" }>["name"] &
+  string;
+
+type TypedEvent<A extends Abi, N extends string> = IndexedEvent & {
+  args: EventArgs<A, N>;
+};
+
+type TypedCall<A extends Abi> = <N extends FunctionName<A>>(
+  name: N,
+  ...args: FunctionArgs<A, N>
+) => Promise<FunctionResult<A, N>>;
+
+type TypedEvents<A extends Abi> = <N extends EventName<A>>(
+  name: N,
+  matches?: (args: EventArgs<A, N>) => boolean
+) => Promise<TypedEvent<A, N>[]>;
+
+type VetProfileStruct = FunctionResult<ProfilesAbi, "getProfile">;
+
+const typedCall =
+  <A extends Abi>(contract: Contract): TypedCall<A> =>
+  (name, ...args) =>
+    contract.getFunction(name)(...args);
+
+// El índice decodifica los args con el ABI del contrato: un evento con el
+// nombre pedido tiene los args de ese evento
+const isEventNamed =
+  <A extends Abi, N extends string>(name: N) =>
+  (event: IndexedEvent): event is TypedEvent<A, N> =>
+    event.name === name;
+
+const typedEvents =
+  <A extends Abi>(contract: Contract, startBlock?: number): TypedEvents<A> =>
+  async (name, matches = () => true) => {
+    const events = await getIndexedEvents(
+      contract,
+      name,
+      undefined,
+      startBlock
+    );
+    return events
+      .filter(isEventNamed<A, typeof name>(name))
+      .filter((e) => matches(e.args));
+  };
+
+// Motivo legible de un revert, o el mensaje de cualquier otro error
+const errorReason = (error: unknown): string => {
+  if (isCallException(error)) return error.reason ?? error.shortMessage;
+  return error instanceof Error ? error.message : String(error);
+};
+
+// --- Cliente ---
+
+export interface VetChainClient {
+  network: NetworkConfig;
+
+  // Wallet
+  signMessage: (message: string) => Promise<string>;
+  // EIP-712
+  signTypedData: (
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, unknown>
+  ) => Promise<string>;
+
+  // Vets
+  getVetLicenseId: (vet: string) => Promise<bigint>;
+  linkVetLicense: (licenseId: BigNumberish) => Promise<ContractTransactionResponse>;
+  isLicenseValid: (licenseId: BigNumberish) => Promise<boolean>;
+  registerAnimal: (
+    owner: string,
+    chipId: BigNumberish,
+    uri: string,
+    birthDate: number,
+    species: string
+  ) => Promise<ContractTransactionResponse>;
+  addMedicalRecord: (
+    tokenId: BigNumberish,
+    description: string,
+    recordType: RecordType,
+    vaccineId: string | null,
+    daysValid: number
+  ) => Promise<ContractTransactionResponse>;
+  // clinicId 0 = permiso personal del vet
+  reportDecease: (
+    tokenId: BigNumberish,
+    clinicId: number,
+    deathCertificateHash: string
+  ) => Promise<ContractTransactionResponse>;
+  addClinicMedicalRecord: (
+    tokenId: BigNumberish,
+    clinicId: number,
+    description: string,
+    recordType: RecordType,
+    vaccineId: string | null,
+    daysValid: number
+  ) => Promise<ContractTransactionResponse>;
+  amendMedicalRecord: (
+    tokenId: BigNumberish,
+    clinicId: number,
+    entryId: number,
+    description: string,
+    recordType: RecordType,
+    vaccineId: string | null,
+    daysValid: number,
+    reason: string
+  ) => Promise<ContractTransactionResponse>;
+  retractMedicalRecord: (
+    tokenId: BigNumberish,
+    clinicId: number,
+    entryId: number,
+    reason: string
+  ) => Promise<ContractTransactionResponse>;
+  recordSterilization: (
+    tokenId: BigNumberish,
+    clinicId: number
+  ) => Promise<ContractTransactionResponse>;
+  verifyMicrochip: (
+    tokenId: BigNumberish,
+    clinicId: number
+  ) => Promise<ContractTransactionResponse>;
+
+  // Clinics
+  createClinic: (name: string) => Promise<ContractTransactionResponse>;
+  addClinicMember: (clinicId: number, vet: string) => Promise<ContractTransactionResponse>;
+  removeClinicMember: (clinicId: number, vet: string) => Promise<ContractTransactionResponse>;
+  getClinic: (clinicId: number) => Promise<Clinic>;
+  getClinicMembers: (clinicId: number) => Promise<string[]>;
+  getClinicsOf: (address: string) => Promise<ClinicMembership[]>;
+
+  // Vet profiles
+  setVetProfile: (profile: VetProfileInput) => Promise<ContractTransactionResponse>;
+  removeVetProfile: () => Promise<ContractTransactionResponse>;
+  getVetProfile: (vet: string) => Promise<VetProfile | null>;
+  getVetProfiles: () => Promise<VetProfile[]>;
+
+  // Owners
+  approveVet: (
+    vet: string,
+    tokenId: BigNumberish,
+    expiresAt: number,
+    maxUses: number
+  ) => Promise<ContractTransactionResponse>;
+  revokeVet: (vet: string, tokenId: BigNumberish) => Promise<ContractTransactionResponse>;
+  approveClinic: (
+    clinicId: number,
+    tokenId: BigNumberish,
+    expiresAt: number,
+    maxUses: number
+  ) => Promise<ContractTransactionResponse>;
+  revokeClinic: (clinicId: number, tokenId: BigNumberish) => Promise<ContractTransactionResponse>;
+  setLostStatus: (tokenId: BigNumberish, status: boolean) => Promise<ContractTransactionResponse>;
+  offerTransfer: (
+    tokenId: BigNumberish,
+    to: string,
+    price: bigint,
+    deadline: number
+  ) => Promise<ContractTransactionResponse>;
+  cancelTransferOffer: (tokenId: BigNumberish) => Promise<ContractTransactionResponse>;
+  acceptTransferOffer: (
+    tokenId: BigNumberish,
+    price: bigint
+  ) => Promise<ContractTransactionResponse>;
+  withdrawProceeds: () => Promise<ContractTransactionResponse>;
+
+  // Reads
+  getOwner: (tokenId: BigNumberish) => Promise<string>;
+  getBalance: (owner: string) => Promise<bigint>;
+  getAnimal: (tokenId: string) => Promise<Animal>;
+  getOwnedAnimals: (owner: string) => Promise<Animal[]>;
+  getHistory: (tokenId: string) => Promise<MedicalRecord[]>;
+  getPetStatus: (tokenId: string) => Promise<PetStatus>;
+  getVaccineCatalog: () => Promise<string[]>;
+  getVaccineStatus: (tokenId: string) => Promise<VaccineStatus[]>;
+  canTransfer: (tokenId: string, to: string) => Promise<TransferRule[]>;
+  getTransferPreflight: (
+    tokenId: string,
+    from: string,
+    to: string | null
+  ) => Promise<TransferPreflight>;
+  getVetApprovals: (tokenId: string) => Promise<VetApproval[]>;
+  getClinicApprovals: (tokenId: string) => Promise<ClinicApproval[]>;
+  getDeceased: (tokenId: string) => Promise<DeceasedAnimal | null>;
+  getDeceasedAnimals: (owner: string) => Promise<DeceasedAnimal[]>;
+  getTransferOffer: (tokenId: string) => Promise<TransferOffer | null>;
+  getIncomingOffers: (recipient: string) => Promise<TransferOffer[]>;
+  getPendingProceeds: (seller: string) => Promise<bigint>;
+}
+
+export const createVetChainClient = (
+  runner: ContractRunner,
+  network: NetworkConfig
+): VetChainClient => {
+  const { contracts, startBlock } = network;
+  if (!network.isDeployed) {
+    throw new Error(`VetChain no está desplegado en ${network.name}`);
+  }
+  const nftContract = new Contract(contracts.ANIMAL_NFT, ABIS.NFT, runner);
+  const storageContract = new Contract(contracts.STORAGE, ABIS.STORAGE, runner);
+  const nft = typedCall<NftAbi>(nftContract);
+  const storage = typedCall<StorageAbi>(storageContract);
+  const nftEvents = typedEvents<NftAbi>(nftContract, startBlock);
+  const storageEvents = typedEvents<StorageAbi>(storageContract, startBlock);
+
+  // Los despliegues anteriores a las clínicas no tienen ClinicRegistry
+  const clinicContract = contracts.CLINIC_REGISTRY
+    ? new Contract(contracts.CLINIC_REGISTRY, ABIS.CLINICS, runner)
+    : null;
+  const requireClinics = () => {
+    if (!clinicContract) {
+      throw new Error("Esta red no tiene un ClinicRegistry desplegado");
+    }
+    return clinicContract;
+  };
+  const clinics: TypedCall<ClinicAbi> = (name, ...args) =>
+    typedCall<ClinicAbi>(requireClinics())(name, ...args);
+  const clinicEvents: TypedEvents<ClinicAbi> = (name, matches) =>
+    typedEvents<ClinicAbi>(requireClinics(), startBlock)(name, matches);
+
+  // Ídem para TransferPolicy: sin ella AnimalNFT bloquea toda transferencia
+  const policyContract = contracts.TRANSFER_POLICY
+    ? new Contract(contracts.TRANSFER_POLICY, ABIS.POLICY, runner)
+    : null;
+  const requirePolicy = () => {
+    if (!policyContract) {
+      throw new Error("Esta red no tiene un TransferPolicy desplegado");
+    }
+    return policyContract;
+  };
+  const policy: TypedCall<PolicyAbi> = (name, ...args) =>
+    typedCall<PolicyAbi>(requirePolicy())(name, ...args);
+
+  // Ídem para el directorio de veterinarios
+  const profilesContract = contracts.VET_PROFILES
+    ? new Contract(contracts.VET_PROFILES, ABIS.PROFILES, runner)
+    : null;
+  const requireProfiles = () => {
+    if (!profilesContract) {
+      throw new Error("Esta red no tiene un VetProfileRegistry desplegado");
+    }
+    return profilesContract;
+  };
+  const profiles: TypedCall<ProfilesAbi> = (name, ...args) =>
+    typedCall<ProfilesAbi>(requireProfiles())(name, ...args);
+
+  // Registro externo de licencias: solo se lee isValid
+  const licenses = typedCall<LicensesAbi>(
+    new Contract(contracts.VET_REGISTRY, ABIS.LICENSES, runner)
+  );
+
+  const toVetProfile = (
+    vet: string,
+    licenseId: bigint,
+    profile: VetProfileStruct
+  ): VetProfile => ({
+    vet,
+    licenseId: licenseId.toString(),
+    name: profile.name,
+    clinic: profile.clinic,
+    specialties: [...profile.specialties],
+    city: profile.city,
+    streetAddress: profile.streetAddress,
+    phone: profile.phone,
+    updatedAt: Number(profile.updatedAt),
+  });
+
+  const canTransfer = async (
+    tokenId: string,
+    to: string
+  ): Promise<TransferRule[]> => {
+    const rules = await policy("canTransfer", tokenId, to);
+    return rules.map(
+      (rule) => Number(rule) as TransferRule
+    );
+  };
+
+  // null si no hay oferta que hoy se pueda aceptar
+  const getTransferOffer = async (
+    tokenId: string
+  ): Promise<TransferOffer | null> => {
+    const [active, to, price, deadline] = await nft(
+      "getTransferOffer",
+      tokenId
+    );
+    if (!active) return null;
+    return {
+      tokenId,
+      from: await nft("ownerOf", tokenId),
+      to,
+      price,
+      deadline: Number(deadline),
+    };
+  };
+
+  const getAnimal = async (tokenId: string): Promise<Animal> => {
+    const [uri, isLost] = await Promise.all([
+      nft("tokenURI", tokenId),
+      nft("isLost", tokenId),
+    ]);
+    return { tokenId, uri, isLost };
+  };
+
+  const getHistory = async (tokenId: string): Promise<MedicalRecord[]> => {
+    const ofToken = (args: { tokenId: bigint }) =>
+      args.tokenId.toString() === tokenId;
+    const [events, amended, retracted] = await Promise.all([
+      storageEvents("MedicalRecordAdded", ofToken),
+      storageEvents("MedicalRecordAmended", ofToken),
+      storageEvents("MedicalRecordRetracted", ofToken),
+    ]);
+
+    // Correcciones y retractaciones por entryId del registro afectado
+    const amendments = new Map<number, RecordAmendment>();
+    const amendsOf = new Map<number, number>(); // corrección -> original
+    for (const e of amended) {
+      const { args } = e;
+      amendments.set(Number(args.entryId), {
+        kind: "amended",
+        reason: args.reason,
+        vetAddress: args.vet,
+        timestamp: Number(args.timestamp),
+        amendedBy: Number(args.amendedBy),
+        transactionHash: e.transactionHash,
+      });
+      amendsOf.set(Number(args.amendedBy), Number(args.entryId));
+    }
+    for (const e of retracted) {
+      const { args } = e;
+      amendments.set(Number(args.entryId), {
+        kind: "retracted",
+        reason: args.reason,
+        vetAddress: args.vet,
+        timestamp: Number(args.timestamp),
+        transactionHash: e.transactionHash,
+      });
+    }
+
+    return events.map((e) => {
+      const { args } = e;
+      const entryId = Number(args.entryId);
+      return {
+        entryId,
+        tokenId,
+        timestamp: Number(args.timestamp),
+        description: args.descriptionIpfs,
+        vetAddress: args.vet,
+        clinicId: Number(args.clinicId),
+        recordType: Number(args.recordType) as RecordType,
+        vaccineId: decodeVaccineId(args.vaccineId) ?? undefined,
+        transactionHash: e.transactionHash,
+        amends: amendsOf.get(entryId),
+        amendment: amendments.get(entryId),
+      };
+    });
+  };
+
+  const getClinic = async (clinicId: number): Promise<Clinic> => {
+    const [name, admin] = await clinics("clinics", clinicId);
+    if (admin === ZeroAddress) {
+      throw new Error(`La clínica #${clinicId} no existe`);
+    }
+    return { clinicId, name, admin };
+  };
+
+  // Fallecimientos de los animales que pasan `isWanted`, en orden. El
+  // certificado es la descripción del registro DECEASED de la misma tx: se leen
+  // todos juntos en vez de pedir el historial de cada animal
+  const findDeceased = async (
+    isWanted: (tokenId: string) => boolean
+  ): Promise<DeceasedAnimal[]> => {
+    const [deaths, records] = await Promise.all([
+      nftEvents("AnimalDeceased", (args) => isWanted(args.tokenId.toString())),
+      storageEvents(
+        "MedicalRecordAdded",
+        (args) =>
+          Number(args.recordType) === RecordType.DECEASED &&
+          isWanted(args.tokenId.toString())
+      ),
+    ]);
+    const certificates = new Map(
+      records.map((r) => [r.transactionHash, r.args.descriptionIpfs])
+    );
+    return deaths.map(({ args, transactionHash }) => ({
+      tokenId: args.tokenId.toString(),
+      finalUri: args.finalUri,
+      reportedAt: Number(args.deathDate),
+      certificateUri: certificates.get(transactionHash) ?? null,
+      transactionHash,
+    }));
+  };
+
+  const getDeceased = async (
+    tokenId: string
+  ): Promise<DeceasedAnimal | null> => {
+    const deaths = await findDeceased((id) => id === tokenId);
+    return deaths.length > 0 ? deaths[deaths.length - 1] : null;
+  };
+
+  return {
+    network,
+
+    signMessage: (message) => {
+      if (!("signMessage" in runner)) {
+        throw new Error("Se requiere una wallet conectada para firmar");
+      }
+      return (runner as Signer).signMessage(message);
+    },
+
+    signTypedData: (domain, types, value) => {
+      if (!("signTypedData" in runner)) {
+        throw new Error("Se requiere una wallet conectada para firmar");
+      }
+      return (runner as Signer).signTypedData(domain, types, value);
+    },
+
+    getVetLicenseId: (vet) => nft("vetWalletToLicenseId", vet),
+    linkVetLicense: (licenseId) => nft("linkVetLicense", licenseId),
+    isLicenseValid: (licenseId) => licenses("isValid", licenseId),
+    registerAnimal: (owner, chipId, uri, birthDate, species) =>
+      nft(
+        "registerAnimal",
+        owner,
+        chipId,
+        uri,
+        birthDate,
+        encodeSpecies(species)
+      ),
+    addMedicalRecord: (
+      tokenId,
+      description,
+      recordType,
+      vaccineId,
+      daysValid
+    ) =>
+      nft(
+        "addMedicalRecord",
+        tokenId,
+        description,
+        recordType,
+        encodeVaccineId(vaccineId),
+        daysValid
+      ),
+    reportDecease: (tokenId, clinicId, deathCertificateHash) =>
+      nft("reportDecease", tokenId, clinicId, deathCertificateHash),
+    addClinicMedicalRecord: (
+      tokenId,
+      clinicId,
+      description,
+      recordType,
+      vaccineId,
+      daysValid
+    ) =>
+      nft(
+        "addClinicMedicalRecord",
+        tokenId,
+        clinicId,
+        description,
+        recordType,
+        encodeVaccineId(vaccineId),
+        daysValid
+      ),
+
+    amendMedicalRecord: (
+      tokenId,
+      clinicId,
+      entryId,
+      description,
+      recordType,
+      vaccineId,
+      daysValid,
+      reason
+    ) =>
+      nft(
+        "amendMedicalRecord",
+        tokenId,
+        clinicId,
+        entryId,
+        description,
+        recordType,
+        encodeVaccineId(vaccineId),
+        daysValid,
+        reason
+      ),
+    retractMedicalRecord: (tokenId, clinicId, entryId, reason) =>
+      nft("retractMedicalRecord", tokenId, clinicId, entryId, reason),
+    recordSterilization: (tokenId, clinicId) =>
+      nft("recordSterilization", tokenId, clinicId),
+    verifyMicrochip: (tokenId, clinicId) =>
+      nft("verifyMicrochip", tokenId, clinicId),
+
+    createClinic: (name) => clinics("createClinic", name),
+    addClinicMember: (clinicId, vet) => clinics("addMember", clinicId, vet),
+    removeClinicMember: (clinicId, vet) =>
+      clinics("removeMember", clinicId, vet),
+    getClinic,
+
+    getClinicMembers: async (clinicId) => {
+      const events = await clinicEvents(
+        "MemberAdded",
+        (args) => Number(args.clinicId) === clinicId
+      );
+      const candidates = new Set(events.map((e) => e.args.vet));
+      const members: string[] = [];
+      for (const vet of candidates) {
+        if (await clinics("isMember", clinicId, vet)) members.push(vet);
+      }
+      return members;
+    },
+
+    getClinicsOf: async (address) => {
+      if (!clinicContract) return [];
+      const isAddress = (value: string) =>
+        value.toLowerCase() === address.toLowerCase();
+
+      // Candidatas: clínicas que creó, recibió o en las que fue sumado
+      const [created, adminChanges, memberships] = await Promise.all([
+        clinicEvents("ClinicCreated", (args) => isAddress(args.admin)),
+        clinicEvents("ClinicAdminChanged", (args) => isAddress(args.admin)),
+        clinicEvents("MemberAdded", (args) => isAddress(args.vet)),
+      ]);
+      const candidateIds = new Set(
+        [...created, ...adminChanges, ...memberships].map((e) =>
+          Number(e.args.clinicId)
+        )
+      );
+
+      const result: ClinicMembership[] = [];
+      for (const clinicId of candidateIds) {
+        const [clinic, isMember] = await Promise.all([
+          getClinic(clinicId),
+          clinics("isMember", clinicId, address),
+        ]);
+        const isAdmin = isAddress(clinic.admin);
+        if (isAdmin || isMember) result.push({ ...clinic, isAdmin, isMember });
+      }
+      return result.sort((a, b) => a.clinicId - b.clinicId);
+    },
+
+    setVetProfile: (profile) =>
+      profiles(
+        "setProfile",
+        profile.name,
+        profile.clinic,
+        profile.specialties,
+        profile.city,
+        profile.streetAddress,
+        profile.phone
+      ),
+    removeVetProfile: () => profiles("removeProfile"),
+
+    getVetProfile: async (vet) => {
+      if (!profilesContract) return null;
+      const [profile, licenseId] = await Promise.all([
+        profiles("getProfile", vet),
+        nft("vetWalletToLicenseId", vet),
+      ]);
+      if (profile.updatedAt === 0n) return null;
+      return toVetProfile(vet, licenseId, profile);
+    },
+
+    // Todos los perfiles, en páginas para no exceder el límite de gas del RPC
+    getVetProfiles: async () => {
+      if (!profilesContract) return [];
+      const PAGE = 100;
+      const result: VetProfile[] = [];
+      for (let offset = 0; ; offset += PAGE) {
+        const [vets, licenseIds, page] = await profiles(
+          "getProfiles",
+          offset,
+          PAGE
+        );
+        vets.forEach((vet, i) =>
+          result.push(toVetProfile(vet, licenseIds[i], page[i]))
+        );
+        if (vets.length < PAGE) return result;
+      }
+    },
+
+    approveVet: (vet, tokenId, expiresAt, maxUses) =>
+      nft("approveVet", vet, tokenId, expiresAt, maxUses),
+    revokeVet: (vet, tokenId) => nft("revokeVet", vet, tokenId),
+    approveClinic: (clinicId, tokenId, expiresAt, maxUses) =>
+      nft("approveClinic", clinicId, tokenId, expiresAt, maxUses),
+    revokeClinic: (clinicId, tokenId) => nft("revokeClinic", clinicId, tokenId),
+    setLostStatus: (tokenId, status) => nft("setLostStatus", tokenId, status),
+    offerTransfer: (tokenId, to, price, deadline) =>
+      nft("offerTransfer", tokenId, to, price, deadline),
+    // Sirve tanto para que el dueño la retire como para que el destinatario
+    // la rechace
+    cancelTransferOffer: (tokenId) => nft("cancelTransferOffer", tokenId),
+    // El ABI tipado no admite overrides, y hace falta mandar el pago
+    acceptTransferOffer: (tokenId, price) =>
+      nftContract.getFunction("acceptTransferOffer")(tokenId, {
+        value: price,
+      }),
+    withdrawProceeds: () => nft("withdrawProceeds"),
+
+    getOwner: (tokenId) => nft("ownerOf", tokenId),
+    getBalance: (owner) => nft("balanceOf", owner),
+    getAnimal,
+
+    getOwnedAnimals: async (owner) => {
+      // Candidatos: todo token que alguna vez se transfirió a `owner`
+      const events = await nftEvents(
+        "Transfer",
+        (args) => args.to.toLowerCase() === owner.toLowerCase()
+      );
+      const candidateIds = new Set(
+        events.map((e) => e.args.tokenId.toString())
+      );
+
+      // Verificamos la propiedad actual (los quemados revierten en ownerOf)
+      const animals: Animal[] = [];
+      for (const tokenId of candidateIds) {
+        try {
+          const currentOwner = await nft("ownerOf", tokenId);
+          if (currentOwner.toLowerCase() === owner.toLowerCase()) {
+            animals.push(await getAnimal(tokenId));
+          }
+        } catch (err) {
+          console.warn(`Could not verify ownership of ${tokenId}`, err);
+        }
+      }
+      return animals;
+    },
+
+    getHistory,
+
+    getPetStatus: async (tokenId) => {
+      const [
+        exists,
+        isLost,
+        isVaccineValid,
+        birthDate,
+        species,
+        sterilizedAt,
+        microchipVerifiedAt,
+      ] = await Promise.all([
+        // ownerOf revierte para tokens inexistentes o quemados
+        nft("ownerOf", tokenId).then(
+          () => true,
+          () => false
+        ),
+        nft("isLost", tokenId),
+        policy("hasMandatoryVaccines", tokenId),
+        storage("getBirthDate", tokenId),
+        storage("species", tokenId),
+        storage("sterilizedAt", tokenId),
+        storage("microchipVerifiedAt", tokenId),
+      ]);
+      return {
+        exists,
+        isLost,
+        isVaccineValid,
+        birthDate: Number(birthDate),
+        species: decodeSpecies(species),
+        sterilizedAt: Number(sterilizedAt),
+        microchipVerifiedAt: Number(microchipVerifiedAt),
+      };
+    },
+
+    getVaccineCatalog: async () => {
+      const ids = await storage("getVaccineCatalog");
+      return ids.map((id) => decodeVaccineId(id)!);
+    },
+
+    getVaccineStatus: async (tokenId) => {
+      const [catalog, mandatory] = await Promise.all([
+        storage("getVaccineCatalog"),
+        policy("getMandatoryVaccines"),
+      ]);
+      const now = Math.floor(Date.now() / 1000);
+
+      return Promise.all(
+        catalog.map(async (id) => {
+          const expiresAt = Number(
+            await storage("vaccineExpiration", tokenId, id)
+          );
+          return {
+            vaccineId: decodeVaccineId(id)!,
+            expiresAt,
+            isValid: now < expiresAt,
+            mandatory: mandatory.includes(id),
+          };
+        })
+      );
+    },
+
+    canTransfer,
+
+    getTransferPreflight: async (tokenId, from, to) => {
+      // Sin destinatario se evalúa como transferencia común: ZeroAddress
+      // nunca es un refugio
+      const [
+        failures,
+        mandatory,
+        lostLock,
+        requireSterilization,
+        requireMicrochip,
+        birthDate,
+        minAge,
+      ] = await Promise.all([
+        canTransfer(tokenId, to || ZeroAddress),
+        policy("getMandatoryVaccines"),
+        policy("lostLock"),
+        policy("requireSterilization"),
+        policy("requireMicrochip"),
+        storage("getBirthDate", tokenId),
+        storage("species", tokenId).then((species) =>
+          policy("minAgeFor", species)
+        ),
+      ]);
+
+      const enforced: [TransferRule, boolean][] = [
+        [TransferRule.MANDATORY_VACCINES, mandatory.length > 0],
+        [TransferRule.LOST, lostLock],
+        [TransferRule.MIN_AGE, birthDate > 0n],
+        [TransferRule.STERILIZATION, requireSterilization],
+        [TransferRule.MICROCHIP, requireMicrochip],
+      ];
+
+      // La simulación atrapa lo que la política no cubre (p. ej. un
+      // destinatario inválido). El plazo da igual: solo tiene que ser futuro
+      let simulationError: string | null = null;
+      if (to) {
+        const deadline = Math.floor(Date.now() / 1000) + 3600;
+        try {
+          await nftContract
+            .getFunction("offerTransfer")
+            .staticCall(tokenId, to, 0n, deadline, { from });
+        } catch (error) {
+          simulationError = errorReason(error);
+        }
+      }
+
+      return {
+        checks: enforced
+          .filter(([, applies]) => applies)
+          .map(([rule]) => ({ rule, passes: !failures.includes(rule) })),
+        eligibleAt: birthDate > 0n ? Number(birthDate + minAge) : 0,
+        simulationError,
+      };
+    },
+
+    getVetApprovals: async (tokenId) => {
+      // Candidatos: todo vet aprobado alguna vez. El contrato decide cuáles
+      // siguen vigentes (vencidos, agotados, revocados o de un dueño anterior)
+      const events = await nftEvents(
+        "VetApproved",
+        (args) => args.tokenId.toString() === tokenId
+      );
+      const vets = new Set(events.map((e) => e.args.vet));
+
+      const approvals: VetApproval[] = [];
+      for (const vet of vets) {
+        const [active, expiresAt, remainingUses] = await nft(
+          "getVetApproval",
+          tokenId,
+          vet
+        );
+        if (active) {
+          approvals.push({
+            vet,
+            expiresAt: Number(expiresAt),
+            remainingUses: Number(remainingUses),
+          });
+        }
+      }
+      return approvals;
+    },
+
+    getClinicApprovals: async (tokenId) => {
+      const events = await nftEvents(
+        "ClinicApproved",
+        (args) => args.tokenId.toString() === tokenId
+      );
+      const clinicIds = new Set(events.map((e) => Number(e.args.clinicId)));
+
+      const approvals: ClinicApproval[] = [];
+      for (const clinicId of clinicIds) {
+        const [active, expiresAt, remainingUses] = await nft(
+          "getClinicApproval",
+          tokenId,
+          clinicId
+        );
+        if (active) {
+          approvals.push({
+            clinic: await getClinic(clinicId),
+            expiresAt: Number(expiresAt),
+            remainingUses: Number(remainingUses),
+          });
+        }
+      }
+      return approvals;
+    },
+
+    getDeceased,
+
+    getDeceasedAnimals: async (owner) => {
+      // El burn de reportDecease es un Transfer del último dueño a address(0)
+      const burns = await nftEvents(
+        "Transfer",
+        (args) =>
+          args.from.toLowerCase() === owner.toLowerCase() &&
+          args.to === ZeroAddress
+      );
+
+      const burned = new Set(burns.map((e) => e.args.tokenId.toString()));
+      if (burned.size === 0) return [];
+
+      const deceased = await findDeceased((tokenId) => burned.has(tokenId));
+      // Más recientes primero
+      return deceased.sort((a, b) => b.reportedAt - a.reportedAt);
+    },
+
+    getTransferOffer,
+
+    getIncomingOffers: async (recipient) => {
+      // Candidatos: todo animal ofrecido alguna vez a esta wallet. La oferta
+      // vigente puede haber cambiado de destinatario, vencido o cancelado
+      const events = await nftEvents(
+        "TransferOffered",
+        (args) => args.to.toLowerCase() === recipient.toLowerCase()
+      );
+      const tokenIds = new Set(events.map((e) => e.args.tokenId.toString()));
+
+      const offers: TransferOffer[] = [];
+      for (const tokenId of tokenIds) {
+        const offer = await getTransferOffer(tokenId);
+        if (offer && offer.to.toLowerCase() === recipient.toLowerCase()) {
+          offers.push(offer);
+        }
+      }
+      return offers.sort((a, b) => a.deadline - b.deadline);
+    },
+
+    getPendingProceeds: (seller) => nft("pendingProceeds", seller),
+  };
+};
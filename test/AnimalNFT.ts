@@ -0,0 +1,1260 @@
+import { expect } from "chai";
+import type { Contract } from "ethers";
+import { network } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/types";
+import { anyUint } from "@nomicfoundation/hardhat-ethers-chai-matchers/withArgs";
+
+const { ethers, networkHelpers } = await network.create();
+const { loadFixture, time } = networkHelpers;
+
+const DAY = 24 * 60 * 60;
+const CHIP_ID = 1001n;
+const TOKEN_URI = "ipfs://QmPetMetadata";
+
+// Mirrors RecordType in AnimalNFT.sol
+const RecordType = { GENERAL: 0, VACCINE: 1, SURGERY: 2, XRAY: 3, DECEASED: 4 };
+
+const RABIES = ethers.encodeBytes32String("rabies");
+const DISTEMPER = ethers.encodeBytes32String("distemper");
+const NO_VACCINE = ethers.ZeroHash;
+const DOG = ethers.encodeBytes32String("dog");
+
+// Sin typechain, connect() devuelve un BaseContract sin los métodos del ABI
+const connect = (contract: Contract, signer: HardhatEthersSigner) =>
+  contract.connect(signer) as Contract;
+
+// El único camino para cambiar de dueño: oferta sin precio que `to` acepta
+const transfer = async (
+  nft: Contract,
+  from: HardhatEthersSigner,
+  to: HardhatEthersSigner
+) => {
+  await connect(nft, from).offerTransfer(
+    CHIP_ID,
+    to.address,
+    0,
+    (await time.latest()) + DAY
+  );
+  return connect(nft, to).acceptTransferOffer(CHIP_ID);
+};
+
+// Permiso del dueño para CHIP_ID; por defecto de un solo uso y 30 días
+const approve = async (
+  nft: Contract,
+  owner: HardhatEthersSigner,
+  vet: HardhatEthersSigner,
+  maxUses = 1,
+  days = 30
+) =>
+  connect(nft, owner).approveVet(
+    vet.address,
+    CHIP_ID,
+    (await time.latest()) + days * DAY,
+    maxUses
+  );
+
+describe("AnimalNFT", function () {
+  async function deployFixture() {
+    const [admin, vet, otherVet, owner, buyer, stranger] =
+      await ethers.getSigners();
+
+    const vetNft = await ethers.deployContract("MockVetLicenseNFT");
+    const vetRegistry = await ethers.deployContract("MockVetLicenseRegistry");
+    const storage = await ethers.deployContract("MedicalStorage");
+    const clinics = await ethers.deployContract("ClinicRegistry");
+    const nft = await ethers.deployContract("AnimalNFT", [
+      vetRegistry,
+      vetNft,
+      storage,
+      clinics,
+    ]);
+    await storage.setController(nft);
+    const policy = await ethers.deployContract("TransferPolicy", [
+      nft,
+      storage,
+    ]);
+    await nft.setTransferPolicy(policy);
+    await policy.setMandatoryVaccines([RABIES]);
+
+    // Licencias #1 (vet) y #2 (otherVet), vigentes y vinculadas
+    await vetNft.mint(vet.address, 1);
+    await vetNft.mint(otherVet.address, 2);
+    await vetRegistry.setValid(1, true);
+    await vetRegistry.setValid(2, true);
+    await connect(nft, vet).linkVetLicense(1);
+    await connect(nft, otherVet).linkVetLicense(2);
+
+    return {
+      nft,
+      storage,
+      clinics,
+      policy,
+      vetNft,
+      vetRegistry,
+      admin,
+      vet,
+      otherVet,
+      owner,
+      buyer,
+      stranger,
+    };
+  }
+
+  // Mascota de 90 días registrada a nombre de `owner`
+  async function registeredPetFixture() {
+    const fixture = await deployFixture();
+    const birthDate = (await time.latest()) - 90 * DAY;
+    await connect(fixture.nft, fixture.vet).registerAnimal(
+      fixture.owner.address,
+      CHIP_ID,
+      TOKEN_URI,
+      birthDate,
+      DOG
+    );
+    return { ...fixture, birthDate };
+  }
+
+  // Mascota registrada, vacunada por 365 días y por lo tanto transferible
+  async function transferablePetFixture() {
+    const fixture = await registeredPetFixture();
+    const { nft, vet, owner } = fixture;
+    await approve(nft, owner, vet);
+    await connect(nft, vet).addMedicalRecord(
+      CHIP_ID,
+      "Antirrabica",
+      RecordType.VACCINE,
+      RABIES,
+      365
+    );
+    return fixture;
+  }
+
+  describe("linkVetLicense", function () {
+    it("links the license and emits VetLinked", async function () {
+      const { nft, vetNft, vetRegistry, stranger } =
+        await loadFixture(deployFixture);
+      await vetNft.mint(stranger.address, 3);
+      await vetRegistry.setValid(3, true);
+
+      await expect(connect(nft, stranger).linkVetLicense(3))
+        .to.emit(nft, "VetLinked")
+        .withArgs(stranger.address, 3);
+      expect(await nft.vetWalletToLicenseId(stranger.address)).to.equal(3n);
+    });
+
+    it("rejects a license NFT the caller does not own", async function () {
+      const { nft, stranger } = await loadFixture(deployFixture);
+      await expect(connect(nft, stranger).linkVetLicense(1)).to.be.revertedWith(
+        "No posees el NFT de esta licencia"
+      );
+    });
+
+    it("rejects an invalid license", async function () {
+      const { nft, vetNft, stranger } = await loadFixture(deployFixture);
+      await vetNft.mint(stranger.address, 3);
+      await expect(connect(nft, stranger).linkVetLicense(3)).to.be.revertedWith(
+        "Licencia invalida, vencida o revocada"
+      );
+    });
+  });
+
+  describe("onlyValidVet", function () {
+    it("rejects wallets without a linked license", async function () {
+      const { nft, owner, stranger } = await loadFixture(deployFixture);
+      await expect(
+        connect(nft, stranger).registerAnimal(
+          owner.address,
+          CHIP_ID,
+          TOKEN_URI,
+          0,
+          DOG
+        )
+      ).to.be.revertedWith(
+        "No has vinculado ninguna licencia. Usa linkVetLicense()"
+      );
+    });
+
+    it("rejects a vet who no longer holds the license NFT", async function () {
+      const { nft, vetNft, vet, owner, stranger } =
+        await loadFixture(deployFixture);
+      await connect(vetNft, vet).transferFrom(vet.address, stranger.address, 1);
+
+      await expect(
+        connect(nft, vet).registerAnimal(
+          owner.address,
+          CHIP_ID,
+          TOKEN_URI,
+          0,
+          DOG
+        )
+      ).to.be.revertedWith("Ya no posees el NFT de licencia");
+    });
+
+    it("re-checks the registry when the license is revoked mid-life", async function () {
+      const { nft, vetRegistry, vet, owner } =
+        await loadFixture(registeredPetFixture);
+      await approve(nft, owner, vet);
+      await vetRegistry.setValid(1, false);
+
+      await expect(
+        connect(nft, vet).addMedicalRecord(
+          CHIP_ID,
+          "Control",
+          RecordType.GENERAL,
+          NO_VACCINE,
+          0
+        )
+      ).to.be.revertedWith("Tu licencia ha caducado o fue revocada");
+      await expect(
+        connect(nft, vet).reportDecease(CHIP_ID, 0, "ipfs://QmCert")
+      ).to.be.revertedWith("Tu licencia ha caducado o fue revocada");
+
+      // Al renovarse, el permiso del dueño sigue vigente
+      await vetRegistry.setValid(1, true);
+      await expect(
+        connect(nft, vet).addMedicalRecord(
+          CHIP_ID,
+          "Control",
+          RecordType.GENERAL,
+          NO_VACCINE,
+          0
+        )
+      ).to.not.revert(ethers);
+    });
+  });
+
+  describe("registerAnimal", function () {
+    it("mints the chip ID to the owner with its URI and birth date", async function () {
+      const { nft, storage, owner, birthDate } =
+        await loadFixture(registeredPetFixture);
+      expect(await nft.ownerOf(CHIP_ID)).to.equal(owner.address);
+      expect(await nft.tokenURI(CHIP_ID)).to.equal(TOKEN_URI);
+      expect(await nft.exists(CHIP_ID)).to.equal(true);
+      expect(await storage.getBirthDate(CHIP_ID)).to.equal(BigInt(birthDate));
+      expect(await storage.species(CHIP_ID)).to.equal(DOG);
+    });
+
+    it("rejects an already registered chip ID", async function () {
+      const { nft, vet, stranger } = await loadFixture(registeredPetFixture);
+      // El motivo depende de qué regla de _update salte primero
+      await expect(
+        connect(nft, vet).registerAnimal(
+          stranger.address,
+          CHIP_ID,
+          TOKEN_URI,
+          0,
+          DOG
+        )
+      ).to.revert(ethers);
+      expect(await nft.ownerOf(CHIP_ID)).to.not.equal(stranger.address);
+    });
+  });
+
+  describe("addMedicalRecord", function () {
+    it("requires the owner's approval", async function () {
+      const { nft, vet } = await loadFixture(registeredPetFixture);
+      await expect(
+        connect(nft, vet).addMedicalRecord(
+          CHIP_ID,
+          "Control",
+          RecordType.GENERAL,
+          NO_VACCINE,
+          0
+        )
+      ).to.be.revertedWith("Permiso del dueno requerido");
+    });
+
+    it("only lets the owner approve vets", async function () {
+      const { nft, vet, stranger } = await loadFixture(registeredPetFixture);
+      await expect(approve(nft, stranger, vet)).to.be.revertedWith(
+        "No eres el dueno"
+      );
+    });
+
+    it("writes the entry through MedicalStorage", async function () {
+      const { nft, storage, vet, owner } =
+        await loadFixture(registeredPetFixture);
+      await approve(nft, owner, vet);
+
+      await expect(
+        connect(nft, vet).addMedicalRecord(
+          CHIP_ID,
+          "QmRecord",
+          RecordType.SURGERY,
+          NO_VACCINE,
+          0
+        )
+      )
+        .to.emit(storage, "MedicalRecordAdded")
+        .withArgs(
+          CHIP_ID,
+          anyUint,
+          "QmRecord",
+          vet.address,
+          0,
+          RecordType.SURGERY,
+          anyUint,
+          NO_VACCINE
+        );
+    });
+
+    it("consumes a single-use approval after one write", async function () {
+      const { nft, vet, owner } = await loadFixture(registeredPetFixture);
+      await approve(nft, owner, vet);
+      await connect(nft, vet).addMedicalRecord(
+        CHIP_ID,
+        "Control",
+        RecordType.GENERAL,
+        NO_VACCINE,
+        0
+      );
+
+      await expect(
+        connect(nft, vet).addMedicalRecord(
+          CHIP_ID,
+          "Control 2",
+          RecordType.GENERAL,
+          NO_VACCINE,
+          0
+        )
+      ).to.be.revertedWith("Permiso del dueno requerido");
+    });
+
+    it("does not share approvals between vets", async function () {
+      const { nft, vet, otherVet, owner } =
+        await loadFixture(registeredPetFixture);
+      await approve(nft, owner, vet);
+      await expect(
+        connect(nft, otherVet).addMedicalRecord(
+          CHIP_ID,
+          "Control",
+          RecordType.GENERAL,
+          NO_VACCINE,
+          0
+        )
+      ).to.be.revertedWith("Permiso del dueno requerido");
+    });
+
+    it("invalidates pending approvals after a transfer", async function () {
+      const { nft, otherVet, owner, buyer } = await loadFixture(
+        transferablePetFixture
+      );
+      await approve(nft, owner, otherVet);
+      await transfer(nft, owner, buyer);
+
+      await expect(
+        connect(nft, otherVet).addMedicalRecord(
+          CHIP_ID,
+          "Control",
+          RecordType.GENERAL,
+          NO_VACCINE,
+          0
+        )
+      ).to.be.revertedWith("Permiso del dueno requerido");
+
+      // El nuevo dueño puede volver a autorizarlo
+      await approve(nft, buyer, otherVet);
+      await expect(
+        connect(nft, otherVet).addMedicalRecord(
+          CHIP_ID,
+          "Control",
+          RecordType.GENERAL,
+          NO_VACCINE,
+          0
+        )
+      ).to.not.revert(ethers);
+    });
+
+    it("rejects records for unregistered animals", async function () {
+      const { nft, vet } = await loadFixture(deployFixture);
+      await expect(
+        connect(nft, vet).addMedicalRecord(
+          CHIP_ID,
+          "Control",
+          RecordType.GENERAL,
+          NO_VACCINE,
+          0
+        )
+      ).to.be.revertedWith("El animal no existe o fallecio");
+    });
+  });
+
+  describe("vet approvals", function () {
+    const write = (nft: Contract, vet: HardhatEthersSigner, desc = "Control") =>
+      connect(nft, vet).addMedicalRecord(
+        CHIP_ID,
+        desc,
+        RecordType.GENERAL,
+        NO_VACCINE,
+        0
+      );
+
+    it("emits VetApproved with the expiry and quota", async function () {
+      const { nft, vet, owner } = await loadFixture(registeredPetFixture);
+      const expiresAt = (await time.latest()) + 7 * DAY;
+      await expect(
+        connect(nft, owner).approveVet(vet.address, CHIP_ID, expiresAt, 10)
+      )
+        .to.emit(nft, "VetApproved")
+        .withArgs(CHIP_ID, vet.address, expiresAt, 10);
+
+      const [active, storedExpiry, remainingUses] = await nft.getVetApproval(
+        CHIP_ID,
+        vet.address
+      );
+      expect(active).to.equal(true);
+      expect(storedExpiry).to.equal(BigInt(expiresAt));
+      expect(remainingUses).to.equal(10n);
+    });
+
+    it("rejects an expiry in the past", async function () {
+      const { nft, vet, owner } = await loadFixture(registeredPetFixture);
+      await expect(
+        connect(nft, owner).approveVet(
+          vet.address,
+          CHIP_ID,
+          await time.latest(),
+          1
+        )
+      ).to.be.revertedWith("Vencimiento en el pasado");
+    });
+
+    it("allows writes up to the quota and then revokes itself", async function () {
+      const { nft, vet, owner } = await loadFixture(registeredPetFixture);
+      await approve(nft, owner, vet, 3);
+
+      await write(nft, vet, "Dia 1");
+      await write(nft, vet, "Dia 2");
+      expect((await nft.getVetApproval(CHIP_ID, vet.address))[2]).to.equal(1n);
+      // El último uso revoca el permiso como lo haría el dueño
+      await expect(write(nft, vet, "Dia 3"))
+        .to.emit(nft, "VetRevoked")
+        .withArgs(CHIP_ID, vet.address);
+
+      await expect(write(nft, vet, "Dia 4")).to.be.revertedWith(
+        "Permiso del dueno requerido"
+      );
+      expect((await nft.getVetApproval(CHIP_ID, vet.address))[0]).to.equal(
+        false
+      );
+    });
+
+    it("allows unlimited writes until the expiry when the quota is 0", async function () {
+      const { nft, vet, owner } = await loadFixture(registeredPetFixture);
+      await approve(nft, owner, vet, 0, 2);
+
+      for (let i = 0; i < 5; i++) await write(nft, vet);
+
+      await time.increase(2 * DAY);
+      await expect(write(nft, vet)).to.be.revertedWith("Permiso vencido");
+    });
+
+    it("lets the owner revoke an approval", async function () {
+      const { nft, vet, owner } = await loadFixture(registeredPetFixture);
+      await approve(nft, owner, vet, 0);
+
+      await expect(connect(nft, owner).revokeVet(vet.address, CHIP_ID))
+        .to.emit(nft, "VetRevoked")
+        .withArgs(CHIP_ID, vet.address);
+      await expect(write(nft, vet)).to.be.revertedWith(
+        "Permiso del dueno requerido"
+      );
+    });
+
+    it("only lets the owner revoke", async function () {
+      const { nft, vet, owner, stranger } =
+        await loadFixture(registeredPetFixture);
+      await approve(nft, owner, vet);
+      await expect(
+        connect(nft, stranger).revokeVet(vet.address, CHIP_ID)
+      ).to.be.revertedWith("No eres el dueno");
+    });
+
+    it("reports approvals from a previous owner as inactive", async function () {
+      const { nft, otherVet, owner, buyer } = await loadFixture(
+        transferablePetFixture
+      );
+      await approve(nft, owner, otherVet, 0);
+      await transfer(nft, owner, buyer);
+
+      expect((await nft.getVetApproval(CHIP_ID, otherVet.address))[0]).to.equal(
+        false
+      );
+    });
+  });
+
+  describe("clinic approvals", function () {
+    const CLINIC_ID = 1n;
+
+    // Clínica #1 administrada por `admin` con `vet` y `otherVet` en el equipo
+    async function clinicFixture() {
+      const fixture = await registeredPetFixture();
+      const { clinics, admin, vet, otherVet } = fixture;
+      await connect(clinics, admin).createClinic("Clinica Central");
+      await connect(clinics, admin).addMember(CLINIC_ID, vet.address);
+      await connect(clinics, admin).addMember(CLINIC_ID, otherVet.address);
+      return fixture;
+    }
+
+    const approveClinic = async (
+      nft: Contract,
+      owner: HardhatEthersSigner,
+      maxUses = 0
+    ) =>
+      connect(nft, owner).approveClinic(
+        CLINIC_ID,
+        CHIP_ID,
+        (await time.latest()) + 30 * DAY,
+        maxUses
+      );
+
+    const writeAsClinic = (nft: Contract, vet: HardhatEthersSigner) =>
+      connect(nft, vet).addClinicMedicalRecord(
+        CHIP_ID,
+        CLINIC_ID,
+        "QmClinicRecord",
+        RecordType.GENERAL,
+        NO_VACCINE,
+        0
+      );
+
+    it("lets every member write under a single approval", async function () {
+      const { nft, storage, vet, otherVet, owner } =
+        await loadFixture(clinicFixture);
+      await expect(approveClinic(nft, owner))
+        .to.emit(nft, "ClinicApproved")
+        .withArgs(CHIP_ID, CLINIC_ID, anyUint, 0);
+
+      await expect(writeAsClinic(nft, vet))
+        .to.emit(storage, "MedicalRecordAdded")
+        .withArgs(
+          CHIP_ID,
+          anyUint,
+          "QmClinicRecord",
+          vet.address,
+          CLINIC_ID,
+          RecordType.GENERAL,
+          anyUint,
+          NO_VACCINE
+        );
+      await expect(writeAsClinic(nft, otherVet)).to.not.revert(ethers);
+    });
+
+    it("rejects vets outside the clinic", async function () {
+      const { nft, clinics, admin, otherVet, owner } =
+        await loadFixture(clinicFixture);
+      await approveClinic(nft, owner);
+      await connect(clinics, admin).removeMember(CLINIC_ID, otherVet.address);
+
+      await expect(writeAsClinic(nft, otherVet)).to.be.revertedWith(
+        "No eres miembro de la clinica"
+      );
+    });
+
+    it("still requires each member to hold a valid license", async function () {
+      const { nft, vetRegistry, otherVet, owner } =
+        await loadFixture(clinicFixture);
+      await approveClinic(nft, owner);
+      await vetRegistry.setValid(2, false);
+
+      await expect(writeAsClinic(nft, otherVet)).to.be.revertedWith(
+        "Tu licencia ha caducado o fue revocada"
+      );
+    });
+
+    it("shares the quota across the team", async function () {
+      const { nft, vet, otherVet, owner } = await loadFixture(clinicFixture);
+      await approveClinic(nft, owner, 2);
+
+      await expect(writeAsClinic(nft, vet)).to.not.emit(nft, "ClinicRevoked");
+      await expect(writeAsClinic(nft, otherVet))
+        .to.emit(nft, "ClinicRevoked")
+        .withArgs(CHIP_ID, CLINIC_ID);
+      await expect(writeAsClinic(nft, vet)).to.be.revertedWith(
+        "Permiso del dueno requerido"
+      );
+    });
+
+    it("does not grant personal approvals to members", async function () {
+      const { nft, vet, owner } = await loadFixture(clinicFixture);
+      await approveClinic(nft, owner);
+      await expect(
+        connect(nft, vet).addMedicalRecord(
+          CHIP_ID,
+          "QmRecord",
+          RecordType.GENERAL,
+          NO_VACCINE,
+          0
+        )
+      ).to.be.revertedWith("Permiso del dueno requerido");
+    });
+
+    it("rejects unknown clinics", async function () {
+      const { nft, owner } = await loadFixture(clinicFixture);
+      await expect(
+        connect(nft, owner).approveClinic(
+          2,
+          CHIP_ID,
+          (await time.latest()) + DAY,
+          0
+        )
+      ).to.be.revertedWith("Clinica inexistente");
+    });
+
+    it("lets only the owner approve or revoke a clinic", async function () {
+      const { nft, owner, stranger } = await loadFixture(clinicFixture);
+      await expect(approveClinic(nft, stranger)).to.be.revertedWith(
+        "No eres el dueno"
+      );
+      await approveClinic(nft, owner);
+      await expect(
+        connect(nft, stranger).revokeClinic(CLINIC_ID, CHIP_ID)
+      ).to.be.revertedWith("No eres el dueno");
+    });
+
+    it("lets members amend and retract under the clinic approval", async function () {
+      const { nft, storage, vet, otherVet, owner } =
+        await loadFixture(clinicFixture);
+      await approveClinic(nft, owner);
+      await writeAsClinic(nft, vet);
+
+      // El registro #1 es de `vet`: `otherVet` necesita un permiso, el de la clínica
+      await expect(
+        connect(nft, otherVet).amendMedicalRecord(
+          CHIP_ID,
+          0,
+          1,
+          "QmFixed",
+          RecordType.GENERAL,
+          NO_VACCINE,
+          0,
+          "Diagnostico incompleto"
+        )
+      ).to.be.revertedWith("Permiso del dueno requerido");
+      await expect(
+        connect(nft, otherVet).amendMedicalRecord(
+          CHIP_ID,
+          CLINIC_ID,
+          1,
+          "QmFixed",
+          RecordType.GENERAL,
+          NO_VACCINE,
+          0,
+          "Diagnostico incompleto"
+        )
+      )
+        .to.emit(storage, "MedicalRecordAmended")
+        .withArgs(
+          CHIP_ID,
+          1,
+          2,
+          otherVet.address,
+          "Diagnostico incompleto",
+          anyUint
+        );
+
+      await expect(
+        connect(nft, vet).retractMedicalRecord(
+          CHIP_ID,
+          CLINIC_ID,
+          2,
+          "Duplicado"
+        )
+      ).to.emit(storage, "MedicalRecordRetracted");
+    });
+
+    it("lets members attest and report a death under the clinic approval", async function () {
+      const { nft, storage, vet, otherVet, owner } =
+        await loadFixture(clinicFixture);
+      await approveClinic(nft, owner);
+
+      await expect(connect(nft, vet).recordSterilization(CHIP_ID, CLINIC_ID))
+        .to.emit(nft, "SterilizationRecorded")
+        .withArgs(CHIP_ID, vet.address);
+      await expect(connect(nft, otherVet).verifyMicrochip(CHIP_ID, CLINIC_ID))
+        .to.emit(nft, "MicrochipVerified")
+        .withArgs(CHIP_ID, otherVet.address);
+
+      // El registro de defunción queda atribuido a la clínica
+      await expect(
+        connect(nft, vet).reportDecease(
+          CHIP_ID,
+          CLINIC_ID,
+          "QmDeathCertificate"
+        )
+      )
+        .to.emit(storage, "MedicalRecordAdded")
+        .withArgs(
+          CHIP_ID,
+          anyUint,
+          "QmDeathCertificate",
+          vet.address,
+          CLINIC_ID,
+          RecordType.DECEASED,
+          anyUint,
+          NO_VACCINE
+        );
+      expect(await nft.exists(CHIP_ID)).to.equal(false);
+    });
+
+    it("rejects clinic approvals for vets who left the team", async function () {
+      const { nft, clinics, admin, vet, owner } =
+        await loadFixture(clinicFixture);
+      await approveClinic(nft, owner);
+      await writeAsClinic(nft, vet);
+      await connect(clinics, admin).removeMember(CLINIC_ID, vet.address);
+
+      for (const call of [
+        // Ni siquiera sobre su propio registro
+        () =>
+          connect(nft, vet).retractMedicalRecord(
+            CHIP_ID,
+            CLINIC_ID,
+            1,
+            "Error"
+          ),
+        () => connect(nft, vet).recordSterilization(CHIP_ID, CLINIC_ID),
+        () => connect(nft, vet).verifyMicrochip(CHIP_ID, CLINIC_ID),
+        () => connect(nft, vet).reportDecease(CHIP_ID, CLINIC_ID, "QmCert"),
+      ]) {
+        await expect(call()).to.be.revertedWith(
+          "No eres miembro de la clinica"
+        );
+      }
+    });
+
+    it("stops the team after a revocation", async function () {
+      const { nft, vet, owner } = await loadFixture(clinicFixture);
+      await approveClinic(nft, owner);
+
+      await expect(connect(nft, owner).revokeClinic(CLINIC_ID, CHIP_ID))
+        .to.emit(nft, "ClinicRevoked")
+        .withArgs(CHIP_ID, CLINIC_ID);
+      expect((await nft.getClinicApproval(CHIP_ID, CLINIC_ID))[0]).to.equal(
+        false
+      );
+      await expect(writeAsClinic(nft, vet)).to.be.revertedWith(
+        "Permiso del dueno requerido"
+      );
+    });
+  });
+
+  describe("amendments", function () {
+    // Registro #1 (vacuna) firmado por `vet` sobre la mascota registrada
+    async function recordedPetFixture() {
+      const fixture = await registeredPetFixture();
+      const { nft, vet, owner } = fixture;
+      await approve(nft, owner, vet);
+      await connect(nft, vet).addMedicalRecord(
+        CHIP_ID,
+        "QmVaccine",
+        RecordType.VACCINE,
+        RABIES,
+        365
+      );
+      return fixture;
+    }
+
+    const amendAsVet = (nft: Contract, vet: HardhatEthersSigner) =>
+      connect(nft, vet).amendMedicalRecord(
+        CHIP_ID,
+        0,
+        1,
+        "QmVaccineFixed",
+        RecordType.VACCINE,
+        RABIES,
+        180,
+        "Lote mal cargado"
+      );
+
+    it("requires a current approval even from the author", async function () {
+      const { nft, storage, vet, owner } =
+        await loadFixture(recordedPetFixture);
+      // El registro consumió el único uso del permiso
+      await expect(amendAsVet(nft, vet)).to.be.revertedWith(
+        "Permiso del dueno requerido"
+      );
+
+      await approve(nft, owner, vet);
+      await expect(
+        connect(nft, vet).amendMedicalRecord(
+          CHIP_ID,
+          0,
+          1,
+          "QmVaccineFixed",
+          RecordType.VACCINE,
+          RABIES,
+          180,
+          "Lote mal cargado"
+        )
+      )
+        .to.emit(storage, "MedicalRecordAmended")
+        .withArgs(CHIP_ID, 1, 2, vet.address, "Lote mal cargado", anyUint);
+    });
+
+    it("stops the author once the animal changes owner", async function () {
+      const { nft, vet, owner, buyer } = await loadFixture(recordedPetFixture);
+      await approve(nft, owner, vet, 0);
+      await transfer(nft, owner, buyer);
+      await expect(amendAsVet(nft, vet)).to.be.revertedWith(
+        "Permiso del dueno requerido"
+      );
+    });
+
+    it("stops the author once the approval expires", async function () {
+      const { nft, vet, owner } = await loadFixture(recordedPetFixture);
+      await approve(nft, owner, vet, 0, 1);
+      await time.increase(DAY);
+      await expect(amendAsVet(nft, vet)).to.be.revertedWith("Permiso vencido");
+    });
+
+    it("requires an approval from any other vet", async function () {
+      const { nft, otherVet, owner } = await loadFixture(recordedPetFixture);
+      await expect(
+        connect(nft, otherVet).retractMedicalRecord(CHIP_ID, 0, 1, "Duplicado")
+      ).to.be.revertedWith("Permiso del dueno requerido");
+
+      await approve(nft, owner, otherVet);
+      await connect(nft, otherVet).retractMedicalRecord(
+        CHIP_ID,
+        0,
+        1,
+        "Duplicado"
+      );
+      // La retractación consumió el único uso
+      expect((await nft.getVetApproval(CHIP_ID, otherVet.address))[0]).to.equal(
+        false
+      );
+    });
+
+    it("recomputes the transfer gate after retracting a vaccine", async function () {
+      const { nft, vet, owner, buyer } = await loadFixture(recordedPetFixture);
+      await approve(nft, owner, vet);
+      await connect(nft, vet).retractMedicalRecord(
+        CHIP_ID,
+        0,
+        1,
+        "Vacuna no aplicada"
+      );
+      await expect(transfer(nft, owner, buyer)).to.be.revertedWith(
+        "Bloqueo: Vacuna vencida"
+      );
+    });
+
+    it("still requires a valid license", async function () {
+      const { nft, vet, vetRegistry } = await loadFixture(recordedPetFixture);
+      await vetRegistry.setValid(1, false);
+      await expect(
+        connect(nft, vet).retractMedicalRecord(CHIP_ID, 0, 1, "Error")
+      ).to.be.revertedWith("Tu licencia ha caducado o fue revocada");
+    });
+  });
+
+  describe("transfer gate", function () {
+    it("allows a vaccinated, weaned and not lost animal", async function () {
+      const { nft, owner, buyer } = await loadFixture(transferablePetFixture);
+      await transfer(nft, owner, buyer);
+      expect(await nft.ownerOf(CHIP_ID)).to.equal(buyer.address);
+    });
+
+    it("blocks animals without a vaccine", async function () {
+      const { nft, owner, buyer } = await loadFixture(registeredPetFixture);
+      await expect(transfer(nft, owner, buyer)).to.be.revertedWith(
+        "Bloqueo: Vacuna vencida"
+      );
+    });
+
+    it("blocks once the vaccine expires", async function () {
+      const { nft, owner, buyer } = await loadFixture(transferablePetFixture);
+      await time.increase(366 * DAY);
+      await expect(transfer(nft, owner, buyer)).to.be.revertedWith(
+        "Bloqueo: Vacuna vencida"
+      );
+    });
+
+    it("requires every mandatory vaccine of the policy", async function () {
+      const { nft, policy, vet, owner, buyer } = await loadFixture(
+        transferablePetFixture
+      );
+      await policy.setMandatoryVaccines([RABIES, DISTEMPER]);
+      await expect(transfer(nft, owner, buyer)).to.be.revertedWith(
+        "Bloqueo: Vacuna vencida"
+      );
+
+      await approve(nft, owner, vet);
+      await connect(nft, vet).addMedicalRecord(
+        CHIP_ID,
+        "Moquillo",
+        RecordType.VACCINE,
+        DISTEMPER,
+        365
+      );
+      await transfer(nft, owner, buyer);
+      expect(await nft.ownerOf(CHIP_ID)).to.equal(buyer.address);
+    });
+
+    it("blocks every transfer until a policy is configured", async function () {
+      const { nft, owner, buyer } = await loadFixture(transferablePetFixture);
+      await expect(nft.setTransferPolicy(ethers.ZeroAddress))
+        .to.emit(nft, "TransferPolicyChanged")
+        .withArgs(ethers.ZeroAddress);
+      await expect(transfer(nft, owner, buyer)).to.be.revertedWith(
+        "Bloqueo: Politica de transferencia no configurada"
+      );
+    });
+
+    it("only lets the admin replace the policy", async function () {
+      const { nft, stranger } = await loadFixture(deployFixture);
+      await expect(
+        connect(nft, stranger).setTransferPolicy(stranger.address)
+      ).to.be.revertedWithCustomError(nft, "OwnableUnauthorizedAccount");
+    });
+
+    it("blocks animals reported as lost", async function () {
+      const { nft, owner, buyer } = await loadFixture(transferablePetFixture);
+      await expect(connect(nft, owner).setLostStatus(CHIP_ID, true))
+        .to.emit(nft, "AnimalReportedLost")
+        .withArgs(CHIP_ID, true);
+
+      await expect(transfer(nft, owner, buyer)).to.be.revertedWith(
+        "Bloqueo: Animal reportado como PERDIDO"
+      );
+
+      await connect(nft, owner).setLostStatus(CHIP_ID, false);
+      await transfer(nft, owner, buyer);
+      expect(await nft.ownerOf(CHIP_ID)).to.equal(buyer.address);
+    });
+
+    it("blocks animals younger than 60 days until weaning age", async function () {
+      const { nft, vet, owner, buyer } = await loadFixture(deployFixture);
+      const birthDate = (await time.latest()) - 30 * DAY;
+      await connect(nft, vet).registerAnimal(
+        owner.address,
+        CHIP_ID,
+        TOKEN_URI,
+        birthDate,
+        DOG
+      );
+      await approve(nft, owner, vet);
+      await connect(nft, vet).addMedicalRecord(
+        CHIP_ID,
+        "Antirrabica",
+        RecordType.VACCINE,
+        RABIES,
+        365
+      );
+
+      await expect(transfer(nft, owner, buyer)).to.be.revertedWith(
+        "Bloqueo: Animal menor a la edad minima"
+      );
+
+      await time.increaseTo(birthDate + 60 * DAY);
+      await transfer(nft, owner, buyer);
+      expect(await nft.ownerOf(CHIP_ID)).to.equal(buyer.address);
+    });
+
+    it("only lets the owner change the lost status", async function () {
+      const { nft, stranger } = await loadFixture(registeredPetFixture);
+      await expect(
+        connect(nft, stranger).setLostStatus(CHIP_ID, true)
+      ).to.be.revertedWith("No eres el dueno");
+    });
+  });
+
+  describe("attestations", function () {
+    it("records a sterilization without consuming the approval", async function () {
+      const { nft, storage, vet, owner } =
+        await loadFixture(registeredPetFixture);
+      await approve(nft, owner, vet);
+
+      await expect(connect(nft, vet).recordSterilization(CHIP_ID, 0))
+        .to.emit(nft, "SterilizationRecorded")
+        .withArgs(CHIP_ID, vet.address);
+      expect(await storage.sterilizedAt(CHIP_ID)).to.not.equal(0n);
+      const [active, , remainingUses] = await nft.getVetApproval(
+        CHIP_ID,
+        vet.address
+      );
+      expect(active).to.equal(true);
+      expect(remainingUses).to.equal(1n);
+    });
+
+    it("records a microchip verification", async function () {
+      const { nft, storage, vet, owner } =
+        await loadFixture(registeredPetFixture);
+      await approve(nft, owner, vet);
+
+      await expect(connect(nft, vet).verifyMicrochip(CHIP_ID, 0))
+        .to.emit(nft, "MicrochipVerified")
+        .withArgs(CHIP_ID, vet.address);
+      expect(await storage.microchipVerifiedAt(CHIP_ID)).to.not.equal(0n);
+    });
+
+    it("requires the owner's approval", async function () {
+      const { nft, vet } = await loadFixture(registeredPetFixture);
+      await expect(
+        connect(nft, vet).recordSterilization(CHIP_ID, 0)
+      ).to.be.revertedWith("Permiso del dueno requerido");
+      await expect(
+        connect(nft, vet).verifyMicrochip(CHIP_ID, 0)
+      ).to.be.revertedWith("Permiso del dueno requerido");
+    });
+  });
+
+  describe("transfer offers", function () {
+    const PRICE = ethers.parseEther("0.5");
+
+    // Oferta de `owner` a `buyer` que vence en 7 días
+    const offer = async (
+      nft: Contract,
+      owner: HardhatEthersSigner,
+      buyer: HardhatEthersSigner,
+      price = 0n
+    ) => {
+      const deadline = (await time.latest()) + 7 * DAY;
+      await connect(nft, owner).offerTransfer(
+        CHIP_ID,
+        buyer.address,
+        price,
+        deadline
+      );
+      return deadline;
+    };
+
+    it("only moves the animal once the recipient accepts", async function () {
+      const { nft, owner, buyer } = await loadFixture(transferablePetFixture);
+      const deadline = (await time.latest()) + 7 * DAY;
+      await expect(
+        connect(nft, owner).offerTransfer(CHIP_ID, buyer.address, 0, deadline)
+      )
+        .to.emit(nft, "TransferOffered")
+        .withArgs(CHIP_ID, owner.address, buyer.address, 0, deadline);
+      expect(await nft.ownerOf(CHIP_ID)).to.equal(owner.address);
+      expect(await nft.getTransferOffer(CHIP_ID)).to.deep.equal([
+        true,
+        buyer.address,
+        0n,
+        BigInt(deadline),
+      ]);
+
+      await expect(connect(nft, buyer).acceptTransferOffer(CHIP_ID))
+        .to.emit(nft, "TransferOfferAccepted")
+        .withArgs(CHIP_ID, owner.address, buyer.address, 0);
+      expect(await nft.ownerOf(CHIP_ID)).to.equal(buyer.address);
+      const [active] = await nft.getTransferOffer(CHIP_ID);
+      expect(active).to.equal(false);
+    });
+
+    it("keeps the payment for the seller until they withdraw", async function () {
+      const { nft, owner, buyer } = await loadFixture(transferablePetFixture);
+      await offer(nft, owner, buyer, PRICE);
+
+      await expect(
+        connect(nft, buyer).acceptTransferOffer(CHIP_ID, { value: PRICE - 1n })
+      ).to.be.revertedWith("Pago incorrecto");
+      await connect(nft, buyer).acceptTransferOffer(CHIP_ID, { value: PRICE });
+      expect(await nft.pendingProceeds(owner.address)).to.equal(PRICE);
+      expect(await ethers.provider.getBalance(nft)).to.equal(PRICE);
+
+      await expect(connect(nft, owner).withdrawProceeds())
+        .to.emit(nft, "ProceedsWithdrawn")
+        .withArgs(owner.address, PRICE);
+      expect(await ethers.provider.getBalance(nft)).to.equal(0n);
+      await expect(connect(nft, owner).withdrawProceeds()).to.be.revertedWith(
+        "Sin fondos para retirar"
+      );
+    });
+
+    it("lets the recipient reject and the owner cancel", async function () {
+      const { nft, owner, buyer, stranger } = await loadFixture(
+        transferablePetFixture
+      );
+      await offer(nft, owner, buyer);
+      await expect(
+        connect(nft, stranger).cancelTransferOffer(CHIP_ID)
+      ).to.be.revertedWith("No hay oferta abierta");
+      await expect(connect(nft, buyer).cancelTransferOffer(CHIP_ID))
+        .to.emit(nft, "TransferOfferCancelled")
+        .withArgs(CHIP_ID, buyer.address, buyer.address);
+      await expect(
+        connect(nft, buyer).acceptTransferOffer(CHIP_ID)
+      ).to.be.revertedWith("No hay oferta abierta");
+
+      await offer(nft, owner, buyer);
+      await expect(connect(nft, owner).cancelTransferOffer(CHIP_ID))
+        .to.emit(nft, "TransferOfferCancelled")
+        .withArgs(CHIP_ID, buyer.address, owner.address);
+    });
+
+    it("expires after the deadline", async function () {
+      const { nft, owner, buyer } = await loadFixture(transferablePetFixture);
+      const deadline = await offer(nft, owner, buyer);
+      await time.increaseTo(deadline);
+
+      const [active] = await nft.getTransferOffer(CHIP_ID);
+      expect(active).to.equal(false);
+      await expect(
+        connect(nft, buyer).acceptTransferOffer(CHIP_ID)
+      ).to.be.revertedWith("Oferta vencida");
+    });
+
+    it("enforces the transfer policy at acceptance", async function () {
+      const { nft, owner, buyer } = await loadFixture(transferablePetFixture);
+      await offer(nft, owner, buyer);
+      await connect(nft, owner).setLostStatus(CHIP_ID, true);
+      await expect(
+        connect(nft, buyer).acceptTransferOffer(CHIP_ID)
+      ).to.be.revertedWith("Bloqueo: Animal reportado como PERDIDO");
+
+      await connect(nft, owner).setLostStatus(CHIP_ID, false);
+      await time.increase(366 * DAY);
+      await offer(nft, owner, buyer);
+      await expect(
+        connect(nft, buyer).acceptTransferOffer(CHIP_ID)
+      ).to.be.revertedWith("Bloqueo: Vacuna vencida");
+    });
+
+    it("blocks direct ERC-721 transfers", async function () {
+      const { nft, owner, buyer } = await loadFixture(transferablePetFixture);
+      const asOwner = connect(nft, owner);
+      const reason = "Transferencia directa deshabilitada: usa offerTransfer";
+
+      await expect(
+        asOwner.transferFrom(owner.address, buyer.address, CHIP_ID)
+      ).to.be.revertedWith(reason);
+      await expect(
+        asOwner.getFunction("safeTransferFrom(address,address,uint256)")(
+          owner.address,
+          buyer.address,
+          CHIP_ID
+        )
+      ).to.be.revertedWith(reason);
+      await expect(
+        asOwner.getFunction("safeTransferFrom(address,address,uint256,bytes)")(
+          owner.address,
+          buyer.address,
+          CHIP_ID,
+          "0x"
+        )
+      ).to.be.revertedWith(reason);
+
+      // Tampoco un operador aprobado por el dueño
+      await asOwner.setApprovalForAll(buyer.address, true);
+      await expect(
+        connect(nft, buyer).transferFrom(owner.address, buyer.address, CHIP_ID)
+      ).to.be.revertedWith(reason);
+      expect(await nft.ownerOf(CHIP_ID)).to.equal(owner.address);
+    });
+
+    it("drops the offer when the animal dies", async function () {
+      const { nft, vet, owner, buyer } = await loadFixture(
+        transferablePetFixture
+      );
+      await offer(nft, owner, buyer);
+      await approve(nft, owner, vet);
+      await connect(nft, vet).reportDecease(CHIP_ID, 0, "QmDeathCertificate");
+      await expect(
+        connect(nft, buyer).acceptTransferOffer(CHIP_ID)
+      ).to.be.revertedWith("No hay oferta abierta");
+    });
+
+    it("validates the offer", async function () {
+      const { nft, owner, buyer, stranger } = await loadFixture(
+        transferablePetFixture
+      );
+      const deadline = (await time.latest()) + DAY;
+      await expect(
+        connect(nft, stranger).offerTransfer(
+          CHIP_ID,
+          buyer.address,
+          0,
+          deadline
+        )
+      ).to.be.revertedWith("No eres el dueno");
+      await expect(
+        connect(nft, owner).offerTransfer(CHIP_ID, owner.address, 0, deadline)
+      ).to.be.revertedWith("Destinatario invalido");
+      await expect(
+        connect(nft, owner).offerTransfer(
+          CHIP_ID,
+          buyer.address,
+          0,
+          await time.latest()
+        )
+      ).to.be.revertedWith("Vencimiento en el pasado");
+    });
+  });
+
+  describe("reportDecease", function () {
+    it("records the death, emits AnimalDeceased and burns the token", async function () {
+      const { nft, storage, vet, owner } =
+        await loadFixture(registeredPetFixture);
+      await approve(nft, owner, vet);
+
+      const tx = connect(nft, vet).reportDecease(
+        CHIP_ID,
+        0,
+        "QmDeathCertificate"
+      );
+      await expect(tx)
+        .to.emit(nft, "AnimalDeceased")
+        .withArgs(CHIP_ID, TOKEN_URI, anyUint);
+      await expect(tx)
+        .to.emit(storage, "MedicalRecordAdded")
+        .withArgs(
+          CHIP_ID,
+          anyUint,
+          "QmDeathCertificate",
+          vet.address,
+          0,
+          RecordType.DECEASED,
+          anyUint,
+          NO_VACCINE
+        );
+
+      expect(await nft.exists(CHIP_ID)).to.equal(false);
+      await expect(nft.ownerOf(CHIP_ID)).to.be.revertedWithCustomError(
+        nft,
+        "ERC721NonexistentToken"
+      );
+    });
+
+    it("blocks further records after the burn", async function () {
+      const { nft, vet, owner } = await loadFixture(registeredPetFixture);
+      await approve(nft, owner, vet);
+      await connect(nft, vet).reportDecease(CHIP_ID, 0, "QmDeathCertificate");
+
+      await expect(
+        connect(nft, vet).addMedicalRecord(
+          CHIP_ID,
+          "Control",
+          RecordType.GENERAL,
+          NO_VACCINE,
+          0
+        )
+      ).to.be.revertedWith("El animal no existe o fallecio");
+    });
+
+    it("requires the owner's approval", async function () {
+      const { nft, vet, otherVet, owner } =
+        await loadFixture(registeredPetFixture);
+      await expect(
+        connect(nft, vet).reportDecease(CHIP_ID, 0, "QmDeathCertificate")
+      ).to.be.revertedWith("Permiso del dueno requerido");
+
+      // El permiso de un vet no habilita a otro
+      await approve(nft, owner, vet);
+      await expect(
+        connect(nft, otherVet).reportDecease(CHIP_ID, 0, "QmDeathCertificate")
+      ).to.be.revertedWith("Permiso del dueno requerido");
+      expect(await nft.exists(CHIP_ID)).to.equal(true);
+    });
+
+    it("rejects unregistered animals", async function () {
+      const { nft, vet } = await loadFixture(deployFixture);
+      await expect(
+        connect(nft, vet).reportDecease(CHIP_ID, 0, "QmDeathCertificate")
+      ).to.be.revertedWith("El animal no existe o fallecio");
+    });
+  });
+});
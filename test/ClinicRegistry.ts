@@ -0,0 +1,111 @@
+import { expect } from "chai";
+import type { Contract } from "ethers";
+import { network } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/types";
+
+const { ethers, networkHelpers } = await network.create();
+const { loadFixture } = networkHelpers;
+
+const CLINIC_ID = 1n;
+const ONLY_ADMIN = "No eres el admin de la clinica";
+
+// Sin typechain, connect() devuelve un BaseContract sin los métodos del ABI
+const connect = (contract: Contract, signer: HardhatEthersSigner) =>
+  contract.connect(signer) as Contract;
+
+describe("ClinicRegistry", function () {
+  async function deployFixture() {
+    const [admin, vet, otherVet, stranger] = await ethers.getSigners();
+    const clinics = await ethers.deployContract("ClinicRegistry");
+    await connect(clinics, admin).createClinic("Clinica Central");
+    return { clinics, admin, vet, otherVet, stranger };
+  }
+
+  describe("createClinic", function () {
+    it("assigns sequential IDs and makes the caller admin", async function () {
+      const { clinics, admin, stranger } = await loadFixture(deployFixture);
+      await expect(connect(clinics, stranger).createClinic("Guardia 24h"))
+        .to.emit(clinics, "ClinicCreated")
+        .withArgs(2, stranger.address, "Guardia 24h");
+
+      expect(await clinics.clinicCount()).to.equal(2n);
+      const [name, clinicAdmin] = await clinics.clinics(CLINIC_ID);
+      expect(name).to.equal("Clinica Central");
+      expect(clinicAdmin).to.equal(admin.address);
+    });
+
+    it("requires a name", async function () {
+      const { clinics, stranger } = await loadFixture(deployFixture);
+      await expect(
+        connect(clinics, stranger).createClinic("")
+      ).to.be.revertedWith("Nombre requerido");
+    });
+  });
+
+  describe("members", function () {
+    it("lets the admin add and remove vets", async function () {
+      const { clinics, admin, vet } = await loadFixture(deployFixture);
+      await expect(connect(clinics, admin).addMember(CLINIC_ID, vet.address))
+        .to.emit(clinics, "MemberAdded")
+        .withArgs(CLINIC_ID, vet.address);
+      expect(await clinics.isMember(CLINIC_ID, vet.address)).to.equal(true);
+
+      await expect(connect(clinics, admin).removeMember(CLINIC_ID, vet.address))
+        .to.emit(clinics, "MemberRemoved")
+        .withArgs(CLINIC_ID, vet.address);
+      expect(await clinics.isMember(CLINIC_ID, vet.address)).to.equal(false);
+    });
+
+    it("rejects duplicate or missing members", async function () {
+      const { clinics, admin, vet, otherVet } =
+        await loadFixture(deployFixture);
+      await connect(clinics, admin).addMember(CLINIC_ID, vet.address);
+      await expect(
+        connect(clinics, admin).addMember(CLINIC_ID, vet.address)
+      ).to.be.revertedWith("Ya es miembro");
+      await expect(
+        connect(clinics, admin).removeMember(CLINIC_ID, otherVet.address)
+      ).to.be.revertedWith("No es miembro");
+    });
+
+    it("only lets the admin manage the team", async function () {
+      const { clinics, admin, vet, stranger } =
+        await loadFixture(deployFixture);
+      await expect(
+        connect(clinics, stranger).addMember(CLINIC_ID, stranger.address)
+      ).to.be.revertedWith(ONLY_ADMIN);
+
+      await connect(clinics, admin).addMember(CLINIC_ID, vet.address);
+      // Ser miembro no da permisos de admin
+      await expect(
+        connect(clinics, vet).removeMember(CLINIC_ID, vet.address)
+      ).to.be.revertedWith(ONLY_ADMIN);
+    });
+  });
+
+  describe("transferAdmin", function () {
+    it("hands the clinic over to a new admin", async function () {
+      const { clinics, admin, vet, stranger } =
+        await loadFixture(deployFixture);
+      await expect(
+        connect(clinics, admin).transferAdmin(CLINIC_ID, stranger.address)
+      )
+        .to.emit(clinics, "ClinicAdminChanged")
+        .withArgs(CLINIC_ID, stranger.address);
+
+      await expect(
+        connect(clinics, admin).addMember(CLINIC_ID, vet.address)
+      ).to.be.revertedWith(ONLY_ADMIN);
+      await expect(
+        connect(clinics, stranger).addMember(CLINIC_ID, vet.address)
+      ).to.not.revert(ethers);
+    });
+
+    it("rejects the zero address", async function () {
+      const { clinics, admin } = await loadFixture(deployFixture);
+      await expect(
+        connect(clinics, admin).transferAdmin(CLINIC_ID, ethers.ZeroAddress)
+      ).to.be.revertedWith("Admin invalido");
+    });
+  });
+});
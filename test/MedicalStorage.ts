@@ -0,0 +1,445 @@
+import { expect } from "chai";
+import type { Contract } from "ethers";
+import { network } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/types";
+import { anyUint } from "@nomicfoundation/hardhat-ethers-chai-matchers/withArgs";
+
+const { ethers, networkHelpers } = await network.create();
+const { loadFixture, time } = networkHelpers;
+
+const DAY = 24 * 60 * 60;
+const CHIP_ID = 1001n;
+const ONLY_CONTROLLER =
+  "No autorizado: Solo el contrato Controlador puede escribir";
+
+// Mirrors RecordType in MedicalStorage.sol
+const RecordType = { GENERAL: 0, VACCINE: 1, SURGERY: 2, XRAY: 3, DECEASED: 4 };
+const EntryStatus = { ACTIVE: 0n, AMENDED: 1n, RETRACTED: 2n };
+
+const RABIES = ethers.encodeBytes32String("rabies");
+const DISTEMPER = ethers.encodeBytes32String("distemper");
+const NO_VACCINE = ethers.ZeroHash;
+
+// Sin typechain, connect() devuelve un BaseContract sin los métodos del ABI
+const connect = (contract: Contract, signer: HardhatEthersSigner) =>
+  contract.connect(signer) as Contract;
+
+describe("MedicalStorage", function () {
+  // Una EOA hace de controlador para probar el contrato de forma aislada
+  async function deployFixture() {
+    const [admin, controller, vet, stranger] = await ethers.getSigners();
+    const storage = await ethers.deployContract("MedicalStorage");
+    await storage.setController(controller.address);
+    return { storage, admin, controller, vet, stranger };
+  }
+
+  describe("onlyController", function () {
+    it("rejects entries from any other address", async function () {
+      const { storage, vet, stranger } = await loadFixture(deployFixture);
+      await expect(
+        connect(storage, stranger).addEntry(
+          CHIP_ID,
+          "QmRecord",
+          vet.address,
+          0,
+          RecordType.GENERAL,
+          NO_VACCINE,
+          0
+        )
+      ).to.be.revertedWith(ONLY_CONTROLLER);
+    });
+
+    it("rejects birth dates from any other address", async function () {
+      const { storage, admin } = await loadFixture(deployFixture);
+      // Ni siquiera el owner escribe directamente
+      await expect(
+        connect(storage, admin).setBirthDate(CHIP_ID, 1)
+      ).to.be.revertedWith(ONLY_CONTROLLER);
+    });
+
+    it("only lets the owner change the controller", async function () {
+      const { storage, stranger } = await loadFixture(deployFixture);
+      await expect(
+        connect(storage, stranger).setController(stranger.address)
+      ).to.be.revertedWithCustomError(storage, "OwnableUnauthorizedAccount");
+    });
+
+    it("stops accepting writes from a replaced controller", async function () {
+      const { storage, admin, controller, stranger } =
+        await loadFixture(deployFixture);
+      await connect(storage, admin).setController(stranger.address);
+
+      await expect(
+        connect(storage, controller).setBirthDate(CHIP_ID, 1)
+      ).to.be.revertedWith(ONLY_CONTROLLER);
+      await connect(storage, stranger).setBirthDate(CHIP_ID, 1);
+      expect(await storage.getBirthDate(CHIP_ID)).to.equal(1n);
+    });
+  });
+
+  describe("addEntry", function () {
+    it("emits MedicalRecordAdded with the entry data", async function () {
+      const { storage, controller, vet } = await loadFixture(deployFixture);
+      await expect(
+        connect(storage, controller).addEntry(
+          CHIP_ID,
+          "QmRecord",
+          vet.address,
+          7,
+          RecordType.XRAY,
+          NO_VACCINE,
+          0
+        )
+      )
+        .to.emit(storage, "MedicalRecordAdded")
+        .withArgs(
+          CHIP_ID,
+          anyUint,
+          "QmRecord",
+          vet.address,
+          7,
+          RecordType.XRAY,
+          1,
+          NO_VACCINE
+        );
+    });
+
+    it("keeps vaccines valid for the given number of days", async function () {
+      const { storage, controller, vet } = await loadFixture(deployFixture);
+      expect(await storage.isVaccineValid(CHIP_ID, RABIES)).to.equal(false);
+
+      await connect(storage, controller).addEntry(
+        CHIP_ID,
+        "QmVaccine",
+        vet.address,
+        0,
+        RecordType.VACCINE,
+        RABIES,
+        30
+      );
+      expect(await storage.isVaccineValid(CHIP_ID, RABIES)).to.equal(true);
+
+      await time.increase(30 * DAY);
+      expect(await storage.isVaccineValid(CHIP_ID, RABIES)).to.equal(false);
+    });
+
+    it("tracks each vaccine's expiry separately", async function () {
+      const { storage, controller, vet } = await loadFixture(deployFixture);
+      await connect(storage, controller).addEntry(
+        CHIP_ID,
+        "QmRabies",
+        vet.address,
+        0,
+        RecordType.VACCINE,
+        RABIES,
+        365
+      );
+      const [, , , rabiesExpiry] = await storage.entries(1);
+      await connect(storage, controller).addEntry(
+        CHIP_ID,
+        "QmDistemper",
+        vet.address,
+        0,
+        RecordType.VACCINE,
+        DISTEMPER,
+        30
+      );
+
+      // Una vacuna más corta de otra enfermedad no pisa la antirrábica
+      expect(await storage.vaccineExpiration(CHIP_ID, RABIES)).to.equal(
+        rabiesExpiry
+      );
+      await time.increase(30 * DAY);
+      expect(await storage.isVaccineValid(CHIP_ID, DISTEMPER)).to.equal(false);
+      expect(await storage.isVaccineValid(CHIP_ID, RABIES)).to.equal(true);
+    });
+
+    it("rejects vaccines outside the catalog", async function () {
+      const { storage, controller, vet } = await loadFixture(deployFixture);
+      await expect(
+        connect(storage, controller).addEntry(
+          CHIP_ID,
+          "QmVaccine",
+          vet.address,
+          0,
+          RecordType.VACCINE,
+          ethers.encodeBytes32String("bordetella"),
+          365
+        )
+      ).to.be.revertedWith("Vacuna fuera del catalogo");
+    });
+
+    it("does not touch the vaccine expiry for other record types", async function () {
+      const { storage, controller, vet } = await loadFixture(deployFixture);
+      await connect(storage, controller).addEntry(
+        CHIP_ID,
+        "QmSurgery",
+        vet.address,
+        0,
+        RecordType.SURGERY,
+        RABIES,
+        365
+      );
+      expect(await storage.vaccineExpiration(CHIP_ID, RABIES)).to.equal(0n);
+      expect((await storage.entries(1)).vaccineId).to.equal(NO_VACCINE);
+    });
+  });
+
+  describe("vaccine catalog", function () {
+    it("starts with the core vaccines", async function () {
+      const { storage } = await loadFixture(deployFixture);
+      const catalog = await storage.getVaccineCatalog();
+      expect(
+        catalog.map((id: string) => ethers.decodeBytes32String(id))
+      ).to.deep.equal(["rabies", "distemper", "parvovirus", "leptospirosis"]);
+    });
+
+    it("lets the owner add vaccines", async function () {
+      const { storage, controller, vet } = await loadFixture(deployFixture);
+      const bordetella = ethers.encodeBytes32String("bordetella");
+      await expect(storage.addCatalogVaccine(bordetella))
+        .to.emit(storage, "CatalogVaccineAdded")
+        .withArgs(bordetella);
+
+      await connect(storage, controller).addEntry(
+        CHIP_ID,
+        "QmVaccine",
+        vet.address,
+        0,
+        RecordType.VACCINE,
+        bordetella,
+        365
+      );
+      expect(await storage.isVaccineValid(CHIP_ID, bordetella)).to.equal(true);
+      await expect(storage.addCatalogVaccine(bordetella)).to.be.revertedWith(
+        "La vacuna ya esta en el catalogo"
+      );
+    });
+
+    it("only lets the owner change the catalog", async function () {
+      const { storage, stranger } = await loadFixture(deployFixture);
+      await expect(
+        connect(storage, stranger).addCatalogVaccine(
+          ethers.encodeBytes32String("bordetella")
+        )
+      ).to.be.revertedWithCustomError(storage, "OwnableUnauthorizedAccount");
+    });
+  });
+
+  describe("amendments", function () {
+    const add = (
+      storage: Contract,
+      controller: HardhatEthersSigner,
+      vet: HardhatEthersSigner,
+      type = RecordType.VACCINE,
+      daysValid = 365
+    ) =>
+      connect(storage, controller).addEntry(
+        CHIP_ID,
+        "QmRecord",
+        vet.address,
+        0,
+        type,
+        type === RecordType.VACCINE ? RABIES : NO_VACCINE,
+        daysValid
+      );
+
+    it("replaces an entry with a correction that keeps the clinical date", async function () {
+      const { storage, controller, vet } = await loadFixture(deployFixture);
+      await add(storage, controller, vet);
+      const [, , originalTimestamp] = await storage.entries(1);
+
+      await time.increase(10 * DAY);
+      const tx = connect(storage, controller).amendEntry(
+        CHIP_ID,
+        1,
+        "QmFixed",
+        vet.address,
+        RecordType.VACCINE,
+        RABIES,
+        30,
+        "Validez mal cargada"
+      );
+      await expect(tx)
+        .to.emit(storage, "MedicalRecordAmended")
+        .withArgs(CHIP_ID, 1, 2, vet.address, "Validez mal cargada", anyUint);
+      await expect(tx)
+        .to.emit(storage, "MedicalRecordAdded")
+        .withArgs(
+          CHIP_ID,
+          originalTimestamp,
+          "QmFixed",
+          vet.address,
+          0,
+          RecordType.VACCINE,
+          2,
+          RABIES
+        );
+
+      const original = await storage.entries(1);
+      expect(original.status).to.equal(EntryStatus.AMENDED);
+      expect(original.amendedBy).to.equal(2n);
+      // 30 días desde la aplicación original, no desde la corrección
+      expect(await storage.vaccineExpiration(CHIP_ID, RABIES)).to.equal(
+        originalTimestamp + BigInt(30 * DAY)
+      );
+    });
+
+    it("keeps the clinic of the corrected entry", async function () {
+      const { storage, controller, vet } = await loadFixture(deployFixture);
+      await connect(storage, controller).addEntry(
+        CHIP_ID,
+        "QmRecord",
+        vet.address,
+        7,
+        RecordType.GENERAL,
+        NO_VACCINE,
+        0
+      );
+
+      await expect(
+        connect(storage, controller).amendEntry(
+          CHIP_ID,
+          1,
+          "QmFixed",
+          vet.address,
+          RecordType.GENERAL,
+          NO_VACCINE,
+          0,
+          "Diagnóstico incompleto"
+        )
+      )
+        .to.emit(storage, "MedicalRecordAdded")
+        .withArgs(
+          CHIP_ID,
+          anyUint,
+          "QmFixed",
+          vet.address,
+          7,
+          RecordType.GENERAL,
+          2,
+          NO_VACCINE
+        );
+      expect((await storage.entries(2)).clinicId).to.equal(7n);
+    });
+
+    it("falls back to the previous vaccine when the latest is retracted", async function () {
+      const { storage, controller, vet } = await loadFixture(deployFixture);
+      await add(storage, controller, vet, RecordType.VACCINE, 365);
+      const [, , , firstExpiry] = await storage.entries(1);
+      await time.increase(DAY);
+      await add(storage, controller, vet, RecordType.VACCINE, 730);
+
+      await expect(
+        connect(storage, controller).retractEntry(
+          CHIP_ID,
+          2,
+          vet.address,
+          "Vacuna no aplicada"
+        )
+      )
+        .to.emit(storage, "MedicalRecordRetracted")
+        .withArgs(CHIP_ID, 2, vet.address, "Vacuna no aplicada", anyUint);
+      expect(await storage.vaccineExpiration(CHIP_ID, RABIES)).to.equal(
+        firstExpiry
+      );
+      expect((await storage.entries(2)).status).to.equal(EntryStatus.RETRACTED);
+    });
+
+    it("clears the vaccine expiry when a vaccine is corrected to another type", async function () {
+      const { storage, controller, vet } = await loadFixture(deployFixture);
+      await add(storage, controller, vet);
+      await connect(storage, controller).amendEntry(
+        CHIP_ID,
+        1,
+        "QmCheckup",
+        vet.address,
+        RecordType.GENERAL,
+        NO_VACCINE,
+        0,
+        "Era un control, no una vacuna"
+      );
+      expect(await storage.isVaccineValid(CHIP_ID, RABIES)).to.equal(false);
+    });
+
+    it("moves the expiry when a vaccine is corrected to another vaccine", async function () {
+      const { storage, controller, vet } = await loadFixture(deployFixture);
+      await add(storage, controller, vet);
+      await connect(storage, controller).amendEntry(
+        CHIP_ID,
+        1,
+        "QmDistemper",
+        vet.address,
+        RecordType.VACCINE,
+        DISTEMPER,
+        365,
+        "Era la vacuna contra el moquillo"
+      );
+      expect(await storage.isVaccineValid(CHIP_ID, RABIES)).to.equal(false);
+      expect(await storage.isVaccineValid(CHIP_ID, DISTEMPER)).to.equal(true);
+    });
+
+    it("only amends active entries of the same animal", async function () {
+      const { storage, controller, vet } = await loadFixture(deployFixture);
+      await add(storage, controller, vet);
+      await connect(storage, controller).retractEntry(
+        CHIP_ID,
+        1,
+        vet.address,
+        "Duplicado"
+      );
+
+      await expect(
+        connect(storage, controller).retractEntry(
+          CHIP_ID,
+          1,
+          vet.address,
+          "Duplicado"
+        )
+      ).to.be.revertedWith("El registro ya fue corregido o retractado");
+      await expect(
+        connect(storage, controller).retractEntry(
+          CHIP_ID + 1n,
+          1,
+          vet.address,
+          "Otro animal"
+        )
+      ).to.be.revertedWith("El registro no pertenece al animal");
+    });
+
+    it("requires a reason", async function () {
+      const { storage, controller, vet } = await loadFixture(deployFixture);
+      await add(storage, controller, vet);
+      await expect(
+        connect(storage, controller).retractEntry(CHIP_ID, 1, vet.address, "")
+      ).to.be.revertedWith("Motivo requerido");
+    });
+
+    it("does not amend death records", async function () {
+      const { storage, controller, vet } = await loadFixture(deployFixture);
+      await add(storage, controller, vet, RecordType.DECEASED, 0);
+      await expect(
+        connect(storage, controller).retractEntry(
+          CHIP_ID,
+          1,
+          vet.address,
+          "Error"
+        )
+      ).to.be.revertedWith("Tipo no corregible");
+    });
+
+    it("rejects amendments from any other address", async function () {
+      const { storage, controller, vet, stranger } =
+        await loadFixture(deployFixture);
+      await add(storage, controller, vet);
+      await expect(
+        connect(storage, stranger).retractEntry(
+          CHIP_ID,
+          1,
+          vet.address,
+          "Error"
+        )
+      ).to.be.revertedWith(ONLY_CONTROLLER);
+    });
+  });
+});
@@ -0,0 +1,290 @@
+import { expect } from "chai";
+import type { Contract } from "ethers";
+import { network } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/types";
+
+const { ethers, networkHelpers } = await network.create();
+const { loadFixture, time } = networkHelpers;
+
+const DAY = 24 * 60 * 60;
+const CHIP_ID = 1001n;
+
+// Mirrors RecordType in AnimalNFT.sol and Rule in TransferPolicy.sol
+const RecordType = { GENERAL: 0, VACCINE: 1, SURGERY: 2, XRAY: 3, DECEASED: 4 };
+const Rule = {
+  MANDATORY_VACCINES: 0n,
+  LOST: 1n,
+  MIN_AGE: 2n,
+  STERILIZATION: 3n,
+  MICROCHIP: 4n,
+};
+
+const RABIES = ethers.encodeBytes32String("rabies");
+const DISTEMPER = ethers.encodeBytes32String("distemper");
+const DOG = ethers.encodeBytes32String("dog");
+const CAT = ethers.encodeBytes32String("cat");
+
+// Sin typechain, connect() devuelve un BaseContract sin los métodos del ABI
+const connect = (contract: Contract, signer: HardhatEthersSigner) =>
+  contract.connect(signer) as Contract;
+
+describe("TransferPolicy", function () {
+  // Cachorro de 30 días sin vacunas, a nombre de `owner`, con un permiso
+  // ilimitado para `vet`
+  async function puppyFixture() {
+    const [admin, vet, owner, buyer, shelter, stranger] =
+      await ethers.getSigners();
+
+    const vetNft = await ethers.deployContract("MockVetLicenseNFT");
+    const vetRegistry = await ethers.deployContract("MockVetLicenseRegistry");
+    const storage = await ethers.deployContract("MedicalStorage");
+    const clinics = await ethers.deployContract("ClinicRegistry");
+    const nft = await ethers.deployContract("AnimalNFT", [
+      vetRegistry,
+      vetNft,
+      storage,
+      clinics,
+    ]);
+    const policy = await ethers.deployContract("TransferPolicy", [
+      nft,
+      storage,
+    ]);
+    await storage.setController(nft);
+    await nft.setTransferPolicy(policy);
+    await policy.setMandatoryVaccines([RABIES]);
+
+    await vetNft.mint(vet.address, 1);
+    await vetRegistry.setValid(1, true);
+    await connect(nft, vet).linkVetLicense(1);
+
+    const birthDate = (await time.latest()) - 30 * DAY;
+    await connect(nft, vet).registerAnimal(
+      owner.address,
+      CHIP_ID,
+      "ipfs://QmPuppy",
+      birthDate,
+      DOG
+    );
+    await connect(nft, owner).approveVet(
+      vet.address,
+      CHIP_ID,
+      (await time.latest()) + 365 * DAY,
+      0
+    );
+
+    return {
+      nft,
+      storage,
+      policy,
+      admin,
+      vet,
+      owner,
+      buyer,
+      shelter,
+      stranger,
+      birthDate,
+    };
+  }
+
+  const vaccinate = (
+    nft: Contract,
+    vet: HardhatEthersSigner,
+    vaccine = RABIES
+  ) =>
+    connect(nft, vet).addMedicalRecord(
+      CHIP_ID,
+      "QmVaccine",
+      RecordType.VACCINE,
+      vaccine,
+      365
+    );
+
+  const failures = async (policy: Contract, to: HardhatEthersSigner) => [
+    ...(await policy.canTransfer(CHIP_ID, to.address)),
+  ];
+
+  describe("canTransfer", function () {
+    it("returns every failing rule", async function () {
+      const { nft, policy, owner, buyer } = await loadFixture(puppyFixture);
+      expect(await failures(policy, buyer)).to.deep.equal([
+        Rule.MANDATORY_VACCINES,
+        Rule.MIN_AGE,
+      ]);
+
+      await connect(nft, owner).setLostStatus(CHIP_ID, true);
+      await policy.setSterilizationRequired(true);
+      await policy.setMicrochipRequired(true);
+      expect(await failures(policy, buyer)).to.deep.equal([
+        Rule.MANDATORY_VACCINES,
+        Rule.LOST,
+        Rule.MIN_AGE,
+        Rule.STERILIZATION,
+        Rule.MICROCHIP,
+      ]);
+    });
+
+    it("returns an empty list once every rule passes", async function () {
+      const { nft, policy, vet, buyer } = await loadFixture(puppyFixture);
+      await vaccinate(nft, vet);
+      await time.increase(30 * DAY);
+
+      expect(await failures(policy, buyer)).to.deep.equal([]);
+      await expect(policy.enforce(CHIP_ID, buyer.address)).to.not.revert(
+        ethers
+      );
+    });
+
+    it("reverts enforce with the first failing rule", async function () {
+      const { policy, buyer } = await loadFixture(puppyFixture);
+      await expect(policy.enforce(CHIP_ID, buyer.address)).to.be.revertedWith(
+        "Bloqueo: Vacuna vencida"
+      );
+    });
+  });
+
+  describe("mandatory vaccines", function () {
+    it("ignores vaccines outside the mandatory set", async function () {
+      const { nft, policy, vet, buyer } = await loadFixture(puppyFixture);
+      await vaccinate(nft, vet, DISTEMPER);
+      expect(await policy.hasMandatoryVaccines(CHIP_ID)).to.equal(false);
+
+      // Sin vacunas obligatorias la regla queda desactivada
+      await expect(policy.setMandatoryVaccines([]))
+        .to.emit(policy, "MandatoryVaccinesChanged")
+        .withArgs([]);
+      expect(await failures(policy, buyer)).to.deep.equal([Rule.MIN_AGE]);
+    });
+
+    it("only accepts catalog vaccines", async function () {
+      const { policy } = await loadFixture(puppyFixture);
+      await expect(
+        policy.setMandatoryVaccines([ethers.encodeBytes32String("bordetella")])
+      ).to.be.revertedWith("Vacuna fuera del catalogo");
+      expect(await policy.getMandatoryVaccines()).to.deep.equal([RABIES]);
+    });
+  });
+
+  describe("minimum age", function () {
+    it("uses the species rule over the default", async function () {
+      const { nft, policy, vet, buyer } = await loadFixture(puppyFixture);
+      await vaccinate(nft, vet);
+
+      await expect(policy.setSpeciesMinAge(DOG, 20 * DAY))
+        .to.emit(policy, "SpeciesMinAgeChanged")
+        .withArgs(DOG, 20 * DAY);
+      expect(await policy.minAgeFor(DOG)).to.equal(BigInt(20 * DAY));
+      expect(await policy.minAgeFor(CAT)).to.equal(BigInt(60 * DAY));
+      expect(await failures(policy, buyer)).to.deep.equal([]);
+
+      await expect(policy.clearSpeciesMinAge(DOG))
+        .to.emit(policy, "SpeciesMinAgeCleared")
+        .withArgs(DOG);
+      expect(await failures(policy, buyer)).to.deep.equal([Rule.MIN_AGE]);
+    });
+
+    it("lets the admin change the default", async function () {
+      const { nft, policy, vet, buyer } = await loadFixture(puppyFixture);
+      await vaccinate(nft, vet);
+
+      await expect(policy.setDefaultMinAge(8 * 7 * DAY))
+        .to.emit(policy, "DefaultMinAgeChanged")
+        .withArgs(8 * 7 * DAY);
+      await time.increase(26 * DAY);
+      expect(await failures(policy, buyer)).to.deep.equal([]);
+    });
+  });
+
+  describe("lost lock", function () {
+    it("can be disabled", async function () {
+      const { nft, policy, vet, owner, buyer } =
+        await loadFixture(puppyFixture);
+      await vaccinate(nft, vet);
+      await time.increase(30 * DAY);
+      await connect(nft, owner).setLostStatus(CHIP_ID, true);
+      expect(await failures(policy, buyer)).to.deep.equal([Rule.LOST]);
+
+      await expect(policy.setLostLock(false))
+        .to.emit(policy, "LostLockChanged")
+        .withArgs(false);
+      expect(await failures(policy, buyer)).to.deep.equal([]);
+    });
+  });
+
+  describe("attestation requirements", function () {
+    it("requires a vet-recorded sterilization when enabled", async function () {
+      const { nft, policy, vet, buyer } = await loadFixture(puppyFixture);
+      await vaccinate(nft, vet);
+      await time.increase(30 * DAY);
+
+      await expect(policy.setSterilizationRequired(true))
+        .to.emit(policy, "SterilizationRequirementChanged")
+        .withArgs(true);
+      expect(await failures(policy, buyer)).to.deep.equal([Rule.STERILIZATION]);
+
+      await connect(nft, vet).recordSterilization(CHIP_ID, 0);
+      expect(await failures(policy, buyer)).to.deep.equal([]);
+    });
+
+    it("requires a vet-verified microchip when enabled", async function () {
+      const { nft, policy, vet, buyer } = await loadFixture(puppyFixture);
+      await vaccinate(nft, vet);
+      await time.increase(30 * DAY);
+
+      await expect(policy.setMicrochipRequired(true))
+        .to.emit(policy, "MicrochipRequirementChanged")
+        .withArgs(true);
+      await expect(policy.enforce(CHIP_ID, buyer.address)).to.be.revertedWith(
+        "Bloqueo: Microchip sin verificar"
+      );
+
+      await connect(nft, vet).verifyMicrochip(CHIP_ID, 0);
+      expect(await failures(policy, buyer)).to.deep.equal([]);
+    });
+  });
+
+  describe("shelters", function () {
+    it("exempts transfers to shelters from the health rules", async function () {
+      const { nft, policy, owner, shelter } = await loadFixture(puppyFixture);
+      await expect(policy.setShelter(shelter.address, true))
+        .to.emit(policy, "ShelterChanged")
+        .withArgs(shelter.address, true);
+
+      expect(await failures(policy, shelter)).to.deep.equal([]);
+      await connect(nft, owner).offerTransfer(
+        CHIP_ID,
+        shelter.address,
+        0,
+        (await time.latest()) + DAY
+      );
+      await connect(nft, shelter).acceptTransferOffer(CHIP_ID);
+      expect(await nft.ownerOf(CHIP_ID)).to.equal(shelter.address);
+    });
+
+    it("still applies the lost lock", async function () {
+      const { nft, policy, owner, shelter } = await loadFixture(puppyFixture);
+      await policy.setShelter(shelter.address, true);
+      await connect(nft, owner).setLostStatus(CHIP_ID, true);
+      expect(await failures(policy, shelter)).to.deep.equal([Rule.LOST]);
+    });
+  });
+
+  it("only lets the owner change the rules", async function () {
+    const { policy, stranger } = await loadFixture(puppyFixture);
+    const asStranger = connect(policy, stranger);
+    for (const call of [
+      () => asStranger.setDefaultMinAge(0),
+      () => asStranger.setSpeciesMinAge(DOG, 0),
+      () => asStranger.clearSpeciesMinAge(DOG),
+      () => asStranger.setMandatoryVaccines([]),
+      () => asStranger.setLostLock(false),
+      () => asStranger.setSterilizationRequired(true),
+      () => asStranger.setMicrochipRequired(true),
+      () => asStranger.setShelter(stranger.address, true),
+    ]) {
+      await expect(call()).to.be.revertedWithCustomError(
+        policy,
+        "OwnableUnauthorizedAccount"
+      );
+    }
+  });
+});
@@ -0,0 +1,159 @@
+import { expect } from "chai";
+import type { Contract } from "ethers";
+import { network } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/types";
+
+const { ethers, networkHelpers } = await network.create();
+const { loadFixture } = networkHelpers;
+
+const PROFILE = [
+  "Dra. Ana Pérez",
+  "Clinica Central",
+  ["felinos", "cirugia"],
+  "Rosario",
+  "San Martin 123",
+  "+54 341 555-0101",
+] as const;
+
+// Sin typechain, connect() devuelve un BaseContract sin los métodos del ABI
+const connect = (contract: Contract, signer: HardhatEthersSigner) =>
+  contract.connect(signer) as Contract;
+
+describe("VetProfileRegistry", function () {
+  // `vet` y `otherVet` con licencias 1 y 2 vinculadas; `stranger` sin licencia
+  async function deployFixture() {
+    const [admin, vet, otherVet, stranger] = await ethers.getSigners();
+
+    const vetNft = await ethers.deployContract("MockVetLicenseNFT");
+    const vetRegistry = await ethers.deployContract("MockVetLicenseRegistry");
+    const storage = await ethers.deployContract("MedicalStorage");
+    const clinics = await ethers.deployContract("ClinicRegistry");
+    const nft = await ethers.deployContract("AnimalNFT", [
+      vetRegistry,
+      vetNft,
+      storage,
+      clinics,
+    ]);
+    const profiles = await ethers.deployContract("VetProfileRegistry", [nft]);
+
+    for (const [signer, licenseId] of [
+      [vet, 1],
+      [otherVet, 2],
+    ] as const) {
+      await vetNft.mint(signer.address, licenseId);
+      await vetRegistry.setValid(licenseId, true);
+      await connect(nft, signer).linkVetLicense(licenseId);
+    }
+
+    return { profiles, vetRegistry, admin, vet, otherVet, stranger };
+  }
+
+  describe("setProfile", function () {
+    it("publishes the profile of a vet with a linked license", async function () {
+      const { profiles, vet } = await loadFixture(deployFixture);
+      await expect(connect(profiles, vet).setProfile(...PROFILE))
+        .to.emit(profiles, "ProfileUpdated")
+        .withArgs(vet.address, 1);
+
+      const profile = await profiles.getProfile(vet.address);
+      expect(profile.name).to.equal("Dra. Ana Pérez");
+      expect(profile.specialties).to.deep.equal(["felinos", "cirugia"]);
+      expect(profile.city).to.equal("Rosario");
+      expect(profile.updatedAt).to.be.greaterThan(0n);
+      expect(await profiles.profileCount()).to.equal(1n);
+    });
+
+    it("replaces the profile without listing the vet twice", async function () {
+      const { profiles, vet } = await loadFixture(deployFixture);
+      await connect(profiles, vet).setProfile(...PROFILE);
+      await connect(profiles, vet).setProfile(
+        "Dra. Ana Pérez",
+        "Guardia 24h",
+        [],
+        "Funes",
+        "",
+        ""
+      );
+
+      expect(await profiles.profileCount()).to.equal(1n);
+      const profile = await profiles.getProfile(vet.address);
+      expect(profile.clinic).to.equal("Guardia 24h");
+      expect(profile.specialties).to.deep.equal([]);
+    });
+
+    it("requires a linked license and a name", async function () {
+      const { profiles, vet, stranger } = await loadFixture(deployFixture);
+      await expect(
+        connect(profiles, stranger).setProfile(...PROFILE)
+      ).to.be.revertedWith("No has vinculado ninguna licencia");
+      await expect(
+        connect(profiles, vet).setProfile("", "", [], "", "", "")
+      ).to.be.revertedWith("Nombre requerido");
+    });
+
+    it("does not require the license to be valid", async function () {
+      const { profiles, vetRegistry, vet } = await loadFixture(deployFixture);
+      await vetRegistry.setValid(1, false);
+      await expect(connect(profiles, vet).setProfile(...PROFILE)).to.emit(
+        profiles,
+        "ProfileUpdated"
+      );
+    });
+  });
+
+  describe("removeProfile", function () {
+    it("removes the profile and keeps the rest listed", async function () {
+      const { profiles, vet, otherVet } = await loadFixture(deployFixture);
+      await connect(profiles, vet).setProfile(...PROFILE);
+      await connect(profiles, otherVet).setProfile(
+        "Dr. Luis Gómez",
+        "",
+        [],
+        "Rosario",
+        "",
+        ""
+      );
+
+      await expect(connect(profiles, vet).removeProfile())
+        .to.emit(profiles, "ProfileRemoved")
+        .withArgs(vet.address);
+
+      expect(await profiles.profileCount()).to.equal(1n);
+      expect((await profiles.getProfile(vet.address)).updatedAt).to.equal(0n);
+      const [vets] = await profiles.getProfiles(0, 10);
+      expect(vets).to.deep.equal([otherVet.address]);
+    });
+
+    it("rejects vets without a profile", async function () {
+      const { profiles, stranger } = await loadFixture(deployFixture);
+      await expect(
+        connect(profiles, stranger).removeProfile()
+      ).to.be.revertedWith("No tienes perfil");
+    });
+  });
+
+  describe("getProfiles", function () {
+    it("pages profiles with their linked license IDs", async function () {
+      const { profiles, vet, otherVet } = await loadFixture(deployFixture);
+      await connect(profiles, vet).setProfile(...PROFILE);
+      await connect(profiles, otherVet).setProfile(
+        "Dr. Luis Gómez",
+        "",
+        [],
+        "Funes",
+        "",
+        ""
+      );
+
+      const [vets, licenseIds, page] = await profiles.getProfiles(0, 10);
+      expect(vets).to.deep.equal([vet.address, otherVet.address]);
+      expect(licenseIds).to.deep.equal([1n, 2n]);
+      expect(page[1].name).to.equal("Dr. Luis Gómez");
+
+      const [second] = await profiles.getProfiles(1, 1);
+      expect(second).to.deep.equal([otherVet.address]);
+      const [none] = await profiles.getProfiles(5, 10);
+      expect(none).to.deep.equal([]);
+    });
+  });
+});
@@ -1,8 +1,47 @@
+import type { BrowserProvider } from "ethers";
+import type { VetChainClient } from "./services/vetChainClient";
+import type { NetworkConfig } from "./config/networks";
+
+// Mirrors the RecordType enum in AnimalNFT.sol / MedicalStorage.sol
+export enum RecordType {
+  GENERAL = 0,
+  VACCINE = 1,
+  SURGERY = 2,
+  XRAY = 3,
+  DECEASED = 4,
+}
+
+// Mirrors Rule in TransferPolicy.sol
+export enum TransferRule {
+  MANDATORY_VACCINES = 0,
+  LOST = 1,
+  MIN_AGE = 2,
+  STERILIZATION = 3,
+  MICROCHIP = 4,
+}
+
 export interface MedicalRecord {
-  timestamp: bigint;
+  entryId: number;
+  tokenId: string;
+  timestamp: number; // Unix seconds (clinical date; corrections keep the original's)
   description: string;
   vetAddress: string;
-  recordType: number; // 0: General, 1: Vaccine, 2: Surgery, 3: XRay, 4: Deceased
+  clinicId: number; // 0 when written under a personal approval
+  recordType: RecordType;
+  vaccineId?: string; // Catalog ID (e.g. "rabies"), only for VACCINE records
+  transactionHash: string;
+  amends?: number; // entryId of the record this one corrects
+  amendment?: RecordAmendment; // Set once the record was corrected or retracted
+}
+
+// From MedicalRecordAmended / MedicalRecordRetracted in MedicalStorage.sol
+export interface RecordAmendment {
+  kind: "amended" | "retracted";
+  reason: string;
+  vetAddress: string;
+  timestamp: number; // Unix seconds of the correction itself
+  amendedBy?: number; // entryId of the corrected version
+  transactionHash: string;
 }
 
 export interface Animal {
@@ -11,6 +50,97 @@ export interface Animal {
   isLost?: boolean;
 }
 
+// From the AnimalDeceased event (the token is burned in the same tx)
+export interface DeceasedAnimal {
+  tokenId: string;
+  finalUri: string; // tokenURI at the time of death
+  reportedAt: number; // Unix seconds (block time of reportDecease)
+  certificateUri: string | null; // descriptionIpfs of the DECEASED record
+  transactionHash: string;
+}
+
+// Current state of an approveVet grant (see getVetApproval in AnimalNFT.sol)
+export interface VetApproval {
+  vet: string;
+  expiresAt: number; // Unix seconds
+  remainingUses: number; // 0 = unlimited until expiresAt
+}
+
+// From ClinicRegistry.sol
+export interface Clinic {
+  clinicId: number;
+  name: string;
+  admin: string;
+}
+
+// Editable fields of a vet's public profile (see VetProfileRegistry.sol)
+export interface VetProfileInput {
+  name: string;
+  clinic: string;
+  specialties: string[];
+  city: string;
+  streetAddress: string;
+  phone: string;
+}
+
+export interface VetProfile extends VetProfileInput {
+  vet: string;
+  licenseId: string; // Linked today in AnimalNFT, "0" if unlinked
+  updatedAt: number; // Unix seconds
+}
+
+// A clinic seen from one wallet: as its admin, a team member, or both
+export interface ClinicMembership extends Clinic {
+  isAdmin: boolean;
+  isMember: boolean;
+}
+
+// Current state of an approveClinic grant; the quota is shared by the team
+export interface ClinicApproval {
+  clinic: Clinic;
+  expiresAt: number; // Unix seconds
+  remainingUses: number; // 0 = unlimited until expiresAt
+}
+
+export interface PetStatus {
+  exists: boolean;
+  isLost: boolean;
+  isVaccineValid: boolean; // Every mandatory vaccine is current
+  birthDate: number; // Unix seconds, 0 if unknown
+  species: string | null; // e.g. "dog"; null if not recorded
+  sterilizedAt: number; // Unix seconds a vet recorded it, 0 if never
+  microchipVerifiedAt: number; // Unix seconds a vet verified it, 0 if never
+}
+
+// One catalog vaccine for one animal (see vaccineExpiration in MedicalStorage.sol)
+export interface VaccineStatus {
+  vaccineId: string;
+  expiresAt: number; // Unix seconds, 0 if never applied
+  isValid: boolean;
+  mandatory: boolean; // Required by the transfer gate
+}
+
+// An open transfer offer (see offerTransfer in AnimalNFT.sol)
+export interface TransferOffer {
+  tokenId: string;
+  from: string; // Current owner
+  to: string;
+  price: bigint; // Wei paid on acceptance, 0n = gift
+  deadline: number; // Unix seconds
+}
+
+// One rule of the TransferPolicy that currently applies to an animal
+export interface TransferCheck {
+  rule: TransferRule;
+  passes: boolean;
+}
+
+export interface TransferPreflight {
+  checks: TransferCheck[]; // Only the rules the policy enforces
+  eligibleAt: number; // Unix seconds the minimum age is reached, 0 if birth date unknown
+  simulationError: string | null; // Revert reason of a static call; null if it passes or there is no recipient yet
+}
+
 export enum UserRole {
   GUEST = 'GUEST',
   ADMIN = 'ADMIN',
@@ -24,11 +154,10 @@ export interface Web3State {
   isConnected: boolean;
   isConnecting: boolean;
   isCorrectNetwork: boolean;
+  network: NetworkConfig | null;
   userRole: UserRole;
   connectWallet: () => Promise<void>;
-  switchNetwork: () => Promise<void>;
-  provider: any;
-  govContract: any;
-  nftContract: any;
-  storageContract: any;
-}
\ No newline at end of file
+  switchNetwork: (chainId?: string) => Promise<void>;
+  provider: BrowserProvider | null;
+  client: VetChainClient | null;
+}